@@ -19,20 +19,28 @@ import {
   Incidents,
   Maintenances,
   Media,
+  MonitoringResults,
+  NotificationDeliveries,
   Notifications,
+  Probes,
   ServiceGroups,
   Services,
   Subscribers,
   Users,
+  WebhookDeliveries,
 } from '@/collections'
 
 // Globals
-import { EmailSettings, Settings, SmsSettings } from '@/globals'
+import { DiscordSettings, EmailSettings, Settings, SlackSettings, SmsSettings, TeamsSettings } from '@/globals'
 
 // Tasks
 import { sendNotificationFromCollectionHandler } from '@/tasks/sendNotificationFromCollection'
 import { checkServiceHealthHandler } from '@/tasks/checkServiceHealth'
 import { scheduleMonitoringChecksHandler } from '@/tasks/scheduleMonitoringChecks'
+import { pruneMonitoringResultsHandler } from '@/tasks/pruneMonitoringResults'
+import { deliverWebhookHandler } from '@/tasks/deliverWebhook'
+import { pruneUnverifiedSubscribersHandler } from '@/tasks/pruneUnverifiedSubscribers'
+import { sendScheduledNotificationsHandler } from '@/tasks/sendScheduledNotifications'
 
 // Migrations
 import { migrations } from '@/migrations'
@@ -45,6 +53,10 @@ import { getOIDCPlugin, isOIDCPartiallyConfigured } from '@/lib/oidc'
 
 // Utils
 import { getServerUrl } from '@/lib/utils'
+import { WEBHOOK_MAX_ATTEMPTS, WEBHOOK_QUEUE, WEBHOOK_RETRY_DELAY } from '@/lib/webhooks'
+import { SUBSCRIBER_QUEUE } from '@/lib/subscriberVerification'
+import { NOTIFICATION_QUEUE } from '@/lib/notificationSending'
+import { MONITORING_RESULTS_QUEUE } from '@/lib/serviceHealth'
 
 const filename = fileURLToPath(import.meta.url)
 const dirname = path.dirname(filename)
@@ -81,6 +93,13 @@ export default buildConfig({
     },
     components: {
       beforeDashboard: ['@/components/admin/DashboardWidgets#DashboardWidgets'],
+      afterNavLinks: ['@/components/admin/DependencyGraphNavLink#DependencyGraphNavLink'],
+      views: {
+        dependencyGraph: {
+          Component: '@/components/admin/DependencyGraphView#DependencyGraphView',
+          path: '/dependencies',
+        },
+      },
     },
   },
   collections: [
@@ -89,14 +108,18 @@ export default buildConfig({
     Services,
     Incidents,
     Maintenances,
+    MonitoringResults,
+    Probes,
     // Notification collections
     Notifications,
+    NotificationDeliveries,
     Subscribers,
+    WebhookDeliveries,
     // Admin collections
     Users,
     Media,
   ],
-  globals: [Settings, EmailSettings, SmsSettings],
+  globals: [Settings, EmailSettings, SmsSettings, SlackSettings, TeamsSettings, DiscordSettings],
   plugins,
   editor: lexicalEditor({
     features: () => [
@@ -121,6 +144,28 @@ export default buildConfig({
   }),
   // Jobs Queue configuration
   jobs: {
+    // Webhook deliveries are sent when queued; this picks up their retries
+    autoRun: [
+      {
+        cron: '* * * * *',
+        queue: WEBHOOK_QUEUE,
+      },
+      // Queues and runs the scheduled removal of expired signups
+      {
+        cron: '*/5 * * * *',
+        queue: SUBSCRIBER_QUEUE,
+      },
+      // Dispatches scheduled notifications once their send time passes, then sends them
+      {
+        cron: '* * * * *',
+        queue: NOTIFICATION_QUEUE,
+      },
+      // Queues and runs the hourly pruning of check history
+      {
+        cron: '*/5 * * * *',
+        queue: MONITORING_RESULTS_QUEUE,
+      },
+    ],
     tasks: [
       {
         slug: 'sendNotificationFromCollection',
@@ -133,6 +178,11 @@ export default buildConfig({
           { name: 'smsBody', type: 'text' },
           { name: 'itemTitle', type: 'text', required: true },
           { name: 'itemUrl', type: 'text', required: true },
+          { name: 'retryFailed', type: 'checkbox' },
+          { name: 'startedAt', type: 'text' },
+          { name: 'continuation', type: 'checkbox' },
+          { name: 'emailCursor', type: 'number' },
+          { name: 'smsCursor', type: 'number' },
         ],
         retries: 3,
       },
@@ -150,6 +200,56 @@ export default buildConfig({
         inputSchema: [],
         retries: 1,
       },
+      {
+        slug: 'pruneMonitoringResults',
+        handler: pruneMonitoringResultsHandler as any,
+        inputSchema: [],
+        retries: 1,
+        schedule: [
+          {
+            cron: '0 * * * *',
+            queue: MONITORING_RESULTS_QUEUE,
+          },
+        ],
+      },
+      {
+        slug: 'deliverWebhook',
+        handler: deliverWebhookHandler as any,
+        inputSchema: [
+          { name: 'deliveryId', type: 'text', required: true },
+        ],
+        retries: {
+          attempts: WEBHOOK_MAX_ATTEMPTS - 1,
+          backoff: {
+            type: 'exponential',
+            delay: WEBHOOK_RETRY_DELAY,
+          },
+        },
+      },
+      {
+        slug: 'pruneUnverifiedSubscribers',
+        handler: pruneUnverifiedSubscribersHandler as any,
+        inputSchema: [],
+        retries: 1,
+        schedule: [
+          {
+            cron: '0 * * * *',
+            queue: SUBSCRIBER_QUEUE,
+          },
+        ],
+      },
+      {
+        slug: 'sendScheduledNotifications',
+        handler: sendScheduledNotificationsHandler as any,
+        inputSchema: [],
+        retries: 1,
+        schedule: [
+          {
+            cron: '* * * * *',
+            queue: NOTIFICATION_QUEUE,
+          },
+        ],
+      },
     ],
   },
   onInit: async (payload) => {
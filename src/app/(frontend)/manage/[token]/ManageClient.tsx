@@ -0,0 +1,448 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { CheckCircle, Mail, MessageSquare, PauseCircle, Trash2, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { ServicePicker, type ServicePickerGroup, type ServiceSelection } from '@/components/status/ServicePicker'
+import type { ManagedSubscription, PauseDuration } from '@/lib/subscriberPreferences'
+
+interface ManageClientProps {
+  siteName: string
+  token: string
+  subscription?: ManagedSubscription
+  groups?: ServicePickerGroup[]
+  availability?: { email: boolean; sms: boolean }
+}
+
+const pauseOptions: { label: string; value: PauseDuration }[] = [
+  { label: '1 day', value: 'day' },
+  { label: '1 week', value: 'week' },
+  { label: '1 month', value: 'month' },
+]
+
+const buttonClass = 'py-2.5 px-4 rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+const primaryButtonClass = cn(buttonClass, 'bg-primary text-primary-foreground hover:bg-primary/90')
+const secondaryButtonClass = cn(buttonClass, 'border border-border text-foreground hover:bg-accent')
+const inputClass = 'w-full rounded-lg border border-input bg-background px-4 py-2.5 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/50'
+
+async function send(method: string, url: string, body: Record<string, unknown>) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || 'Something went wrong. Please try again later.')
+  }
+  return data
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export function ManageClient({
+  siteName,
+  token,
+  subscription: initialSubscription,
+  groups = [],
+  availability = { email: false, sms: false },
+}: ManageClientProps) {
+  const [subscription, setSubscription] = useState(initialSubscription)
+  const [notifyIncidents, setNotifyIncidents] = useState(initialSubscription?.notifyIncidents ?? true)
+  const [notifyMaintenances, setNotifyMaintenances] = useState(initialSubscription?.notifyMaintenances ?? true)
+  const [selection, setSelection] = useState<ServiceSelection>({
+    allServices: initialSubscription?.allServices ?? true,
+    services: initialSubscription?.services ?? [],
+    groups: initialSubscription?.groups ?? [],
+  })
+  const [channelType, setChannelType] = useState<'email' | 'sms'>(availability.email ? 'email' : 'sms')
+  const [contact, setContact] = useState('')
+  const [codePending, setCodePending] = useState(initialSubscription?.pending?.type === 'sms')
+  const [code, setCode] = useState('')
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const [deleted, setDeleted] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [messages, setMessages] = useState<Record<string, { text: string; error?: boolean }>>({})
+
+  // Run an action for a section of the page and show its outcome there
+  const run = async (section: string, action: () => Promise<string | void>) => {
+    setBusy(section)
+    setMessages((current) => ({ ...current, [section]: { text: '' } }))
+    try {
+      const text = await action()
+      setMessages((current) => ({ ...current, [section]: { text: text || '' } }))
+    } catch (error) {
+      const text = error instanceof Error ? error.message : 'Something went wrong. Please try again later.'
+      setMessages((current) => ({ ...current, [section]: { text, error: true } }))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const update = async (body: Record<string, unknown>) => {
+    const data = await send('PATCH', '/api/manage', { token, ...body })
+    setSubscription(data.subscription)
+  }
+
+  const message = (section: string) => {
+    const current = messages[section]
+    if (!current?.text) return null
+    return (
+      <p className={cn('mt-3 text-sm', current.error ? 'text-destructive' : 'text-status-operational')}>
+        {current.text}
+      </p>
+    )
+  }
+
+  if (!subscription || deleted) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-card rounded-xl border border-border p-8 text-center">
+          {deleted ? (
+            <>
+              <div className="mx-auto w-16 h-16 rounded-full bg-status-operational/10 flex items-center justify-center mb-6">
+                <CheckCircle className="w-8 h-8 text-status-operational" />
+              </div>
+              <h1 className="text-2xl font-bold text-foreground mb-2">
+                Your Data Has Been Deleted
+              </h1>
+              <p className="text-muted-foreground mb-6">
+                Your subscription and contact details have been removed from {siteName}.
+                You can subscribe again at any time from our status page.
+              </p>
+            </>
+          ) : (
+            <>
+              <div className="mx-auto w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mb-6">
+                <XCircle className="w-8 h-8 text-destructive" />
+              </div>
+              <h1 className="text-2xl font-bold text-foreground mb-2">
+                Invalid Subscription Link
+              </h1>
+              <p className="text-muted-foreground mb-6">
+                This link is invalid or the subscription no longer exists. Please use the link
+                from a recent notification email.
+              </p>
+            </>
+          )}
+          <Link
+            href="/"
+            className="text-sm text-primary hover:text-primary/80 transition-colors"
+          >
+            ← Return to Status Page
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const ContactIcon = subscription.type === 'email' ? Mail : MessageSquare
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="max-w-lg w-full bg-card rounded-xl border border-border p-8">
+        <h1 className="text-2xl font-bold text-foreground mb-2">
+          Manage Subscription
+        </h1>
+        <p className="flex items-center gap-2 text-muted-foreground">
+          <ContactIcon className="w-4 h-4 flex-shrink-0" />
+          <span>
+            {siteName} status updates {subscription.type === 'email' ? 'by email to' : 'by SMS to'}{' '}
+            <strong className="text-foreground">{subscription.contact}</strong>
+          </span>
+        </p>
+        {subscription.pending && (
+          <p className="mt-3 rounded-lg bg-status-maintenance/10 p-3 text-sm text-status-maintenance">
+            Waiting for you to confirm <strong>{subscription.pending.contact}</strong>. Until then, notifications
+            keep going to your current {subscription.type === 'email' ? 'address' : 'phone number'}.
+          </p>
+        )}
+        {!subscription.verified && !subscription.pending && subscription.active && (
+          <p className="mt-3 rounded-lg bg-status-maintenance/10 p-3 text-sm text-status-maintenance">
+            Awaiting confirmation. Notifications start once you confirm this{' '}
+            {subscription.type === 'email' ? 'address with the link we sent you' : 'phone number with the code we sent you'}.
+          </p>
+        )}
+
+        {!subscription.active ? (
+          <section className="border-t border-border pt-6 mt-6">
+            <h2 className="text-base font-semibold text-foreground mb-1">You&apos;re unsubscribed</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              You don&apos;t receive any notifications from {siteName}.
+            </p>
+            <button
+              onClick={() => run('resubscribe', () => update({ active: true }).then(() => 'Welcome back! Your notifications are on again.'))}
+              disabled={busy !== null}
+              className={primaryButtonClass}
+            >
+              {busy === 'resubscribe' ? 'Subscribing...' : 'Subscribe Again'}
+            </button>
+            {message('resubscribe')}
+          </section>
+        ) : (
+          <>
+            <section className="border-t border-border pt-6 mt-6">
+              <h2 className="text-base font-semibold text-foreground mb-3">Notifications</h2>
+              <div className="space-y-2 mb-4">
+                <label className="flex items-center gap-2 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={notifyIncidents}
+                    onChange={(e) => setNotifyIncidents(e.target.checked)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  Incidents
+                </label>
+                <label className="flex items-center gap-2 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={notifyMaintenances}
+                    onChange={(e) => setNotifyMaintenances(e.target.checked)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  Scheduled maintenance
+                </label>
+              </div>
+              <ServicePicker groups={groups} value={selection} onChange={setSelection} />
+              <button
+                onClick={() =>
+                  run('preferences', async () => {
+                    if (!selection.allServices && selection.services.length === 0 && selection.groups.length === 0) {
+                      throw new Error('Choose at least one service')
+                    }
+                    await update({
+                      notifyIncidents,
+                      notifyMaintenances,
+                      allServices: selection.allServices,
+                      services: selection.services,
+                      groups: selection.groups,
+                    })
+                    return 'Preferences saved'
+                  })
+                }
+                disabled={busy !== null}
+                className={cn(primaryButtonClass, 'mt-4')}
+              >
+                {busy === 'preferences' ? 'Saving...' : 'Save Preferences'}
+              </button>
+              {message('preferences')}
+            </section>
+
+            <section className="border-t border-border pt-6 mt-6">
+              <h2 className="flex items-center gap-2 text-base font-semibold text-foreground mb-1">
+                <PauseCircle className="w-4 h-4" />
+                Pause Notifications
+              </h2>
+              {subscription.pausedUntil ? (
+                <>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Paused until <span suppressHydrationWarning>{formatDate(subscription.pausedUntil)}</span>.
+                  </p>
+                  <button
+                    onClick={() => run('pause', () => update({ pause: null }).then(() => 'Notifications resumed'))}
+                    disabled={busy !== null}
+                    className={secondaryButtonClass}
+                  >
+                    {busy === 'pause' ? 'Resuming...' : 'Resume Now'}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Stop notifications for a while without unsubscribing.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {pauseOptions.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => run('pause', () => update({ pause: option.value }).then(() => `Paused for ${option.label}`))}
+                        disabled={busy !== null}
+                        className={secondaryButtonClass}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+              {message('pause')}
+            </section>
+          </>
+        )}
+
+        {(availability.email || availability.sms) && (
+          <section className="border-t border-border pt-6 mt-6">
+            <h2 className="text-base font-semibold text-foreground mb-1">Change Email or Phone</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              We&apos;ll send a confirmation to the new address. Notifications switch to it once it&apos;s confirmed.
+            </p>
+            {codePending ? (
+              <div className="space-y-3">
+                <label htmlFor="code" className="block text-sm font-medium text-foreground">
+                  Confirmation Code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  className={cn(inputClass, 'tracking-widest')}
+                />
+                <button
+                  onClick={() =>
+                    run('channel', async () => {
+                      const pending = subscription.pending
+                      await send('POST', '/api/verify', { phone: pending?.contact || subscription.contact, code: code.trim() })
+                      setSubscription({
+                        ...subscription,
+                        ...(pending ? { type: pending.type, contact: pending.contact } : {}),
+                        pending: null,
+                        verified: true,
+                      })
+                      setCodePending(false)
+                      setCode('')
+                      return 'Phone number confirmed'
+                    })
+                  }
+                  disabled={busy !== null}
+                  className={primaryButtonClass}
+                >
+                  {busy === 'channel' ? 'Confirming...' : 'Confirm'}
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {availability.email && availability.sms && (
+                  <div className="flex gap-2">
+                    {(['email', 'sms'] as const).map((type) => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => {
+                          setChannelType(type)
+                          setContact('')
+                        }}
+                        aria-pressed={channelType === type}
+                        className={cn(
+                          'flex flex-1 items-center justify-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium transition-all',
+                          channelType === type
+                            ? 'border-primary bg-primary/10 text-foreground'
+                            : 'border-input text-muted-foreground hover:bg-muted/50 hover:text-foreground'
+                        )}
+                      >
+                        {type === 'email' ? <Mail className="h-4 w-4" /> : <MessageSquare className="h-4 w-4" />}
+                        {type === 'email' ? 'Email' : 'SMS'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <label htmlFor="contact" className="block text-sm font-medium text-foreground">
+                  {channelType === 'email' ? 'New Email Address' : 'New Phone Number'}
+                </label>
+                <input
+                  id="contact"
+                  type={channelType === 'email' ? 'email' : 'tel'}
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  placeholder={channelType === 'email' ? 'you@example.com' : '+1234567890'}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() =>
+                    run('channel', async () => {
+                      const value = contact.trim()
+                      const data = await send('POST', '/api/manage/channel', {
+                        token,
+                        type: channelType,
+                        ...(channelType === 'email' ? { email: value } : { phone: value }),
+                      })
+                      setSubscription(data.subscription)
+                      setContact('')
+                      setCodePending(data.verification === 'code')
+                      return data.message
+                    })
+                  }
+                  disabled={busy !== null || !contact.trim()}
+                  className={secondaryButtonClass}
+                >
+                  {busy === 'channel' ? 'Sending...' : 'Send Confirmation'}
+                </button>
+              </div>
+            )}
+            {message('channel')}
+          </section>
+        )}
+
+        <section className="border-t border-border pt-6 mt-6">
+          <h2 className="flex items-center gap-2 text-base font-semibold text-foreground mb-1">
+            <Trash2 className="w-4 h-4" />
+            Delete My Data
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Remove your subscription and contact details from {siteName} permanently.
+          </p>
+          {confirmingDelete ? (
+            <div className="flex gap-3">
+              <button
+                onClick={() =>
+                  run('delete', async () => {
+                    await send('DELETE', '/api/manage', { token })
+                    setDeleted(true)
+                  })
+                }
+                disabled={busy !== null}
+                className={cn(buttonClass, 'bg-destructive text-destructive-foreground hover:bg-destructive/90')}
+              >
+                {busy === 'delete' ? 'Deleting...' : 'Yes, Delete My Data'}
+              </button>
+              <button
+                onClick={() => setConfirmingDelete(false)}
+                disabled={busy !== null}
+                className={secondaryButtonClass}
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              className={cn(buttonClass, 'border border-destructive text-destructive hover:bg-destructive/10')}
+            >
+              Delete My Data
+            </button>
+          )}
+          {message('delete')}
+        </section>
+
+        <div className="mt-8 flex items-center justify-between text-sm">
+          <Link
+            href="/"
+            className="text-primary hover:text-primary/80 transition-colors"
+          >
+            ← Return to Status Page
+          </Link>
+          {subscription.active && (
+            <Link
+              href={`/unsubscribe/${token}`}
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Unsubscribe
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import type { Metadata } from 'next'
+import { ManageClient } from './ManageClient'
+import type { EmailSetting, Setting, SmsSetting } from '@/payload-types'
+import { isEmailConfigured } from '@/lib/email'
+import { isSmsConfigured } from '@/lib/sms'
+import { getFollowableServices } from '@/lib/subscriberAudience'
+import { findSubscriberByToken, getManagedSubscription } from '@/lib/subscriberPreferences'
+
+export const dynamic = 'force-dynamic'
+
+async function getSettings() {
+  const payload = await getPayload({ config })
+  return await payload.findGlobal({
+    slug: 'settings',
+    depth: 0,
+  }) as Setting
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const settings = await getSettings()
+  const siteName = settings.siteName || 'Status Page'
+
+  return {
+    title: `Manage Subscription - ${siteName}`,
+    description: `Manage your subscription preferences for ${siteName} status updates.`,
+  }
+}
+
+interface ManagePageProps {
+  params: Promise<{ token: string }>
+}
+
+export default async function ManagePage({ params }: ManagePageProps) {
+  const { token } = await params
+  const payload = await getPayload({ config })
+  const settings = await getSettings()
+  const siteName = settings.siteName || 'Status Page'
+
+  const subscriber = await findSubscriberByToken(payload, token)
+
+  if (!subscriber) {
+    return <ManageClient siteName={siteName} token={token} />
+  }
+
+  const emailSettings = await payload.findGlobal({
+    slug: 'email-settings',
+  }) as EmailSetting
+  const smsSettings = await payload.findGlobal({
+    slug: 'sms-settings',
+  }) as SmsSetting
+
+  return (
+    <ManageClient
+      siteName={siteName}
+      token={token}
+      subscription={getManagedSubscription(subscriber)}
+      groups={await getFollowableServices(payload)}
+      availability={{
+        email: isEmailConfigured(emailSettings),
+        sms: isSmsConfigured(smsSettings),
+      }}
+    />
+  )
+}
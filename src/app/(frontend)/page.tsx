@@ -3,6 +3,8 @@ import Link from 'next/link'
 import { getIncidentStatus } from '@/collections/Incidents'
 import { getCachedPayload, getSettings } from '@/lib/payload'
 import { getMediaUrl } from '@/lib/utils'
+import { averageUptime, getServicesUptime } from '@/lib/uptime'
+import { getEffectiveStatuses } from '@/lib/dependencies'
 import { Header } from '@/components/status/Header'
 import { Footer } from '@/components/status/Footer'
 import { Subscribe } from '@/components/status/SubscribeDialog'
@@ -104,6 +106,10 @@ async function getStatusData() {
     limit: 50,
   })
 
+  const uptimeByService = await getServicesUptime(payload, services.docs)
+  // Outages of dependencies are shown on the services that depend on them
+  const effectiveStatuses = getEffectiveStatuses(services.docs)
+
   // Group services by service group
   const groupedServices = serviceGroups.docs.map((group) => {
     const groupServices = services.docs.filter((service) => {
@@ -116,10 +122,13 @@ async function getStatusData() {
 
     return {
       name: group.name,
+      uptime: averageUptime(groupServices.map((service) => uptimeByService.get(service.id)?.uptime)),
       services: groupServices.map((service) => ({
         name: service.name,
-        status: (service.status || 'operational') as ServiceStatus,
+        status: (effectiveStatuses.get(service.id)?.status || 'operational') as ServiceStatus,
         description: service.description || undefined,
+        note: effectiveStatuses.get(service.id)?.note,
+        uptime: uptimeByService.get(service.id),
       })),
     }
   }).filter((group) => group.services.length > 0)
@@ -192,7 +201,7 @@ async function getStatusData() {
   )
 
   // Calculate overall status
-  const allStatuses = services.docs.map((s) => s.status || 'operational')
+  const allStatuses = services.docs.map((s) => effectiveStatuses.get(s.id)?.status || 'operational')
   let overallStatus: ServiceStatus = 'operational'
 
   if (allStatuses.some((s) => s === 'major')) {
@@ -250,6 +259,7 @@ export default async function StatusPage() {
                 <ServiceGroup
                   name={group.name}
                   services={group.services}
+                  uptime={group.uptime}
                   defaultExpanded={!allOperational}
                 />
               </div>
@@ -107,6 +107,13 @@ export function UnsubscribeClient({
                 Cancel
               </Link>
             </div>
+            <p className="text-sm text-muted-foreground mt-4 mb-6">
+              Prefer fewer messages?{' '}
+              <Link href={`/manage/${token}`} className="text-primary hover:text-primary/80 transition-colors">
+                Manage your subscription
+              </Link>{' '}
+              to follow only some services or pause notifications.
+            </p>
           </>
         )}
 
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Bell, CheckCircle, Clock, XCircle } from 'lucide-react'
+
+interface VerifyClientProps {
+  siteName: string
+  status: 'pending' | 'already-verified' | 'expired' | 'not-found'
+  token: string
+  subscriberType?: string
+  subscriberContact?: string | null
+}
+
+export function VerifyClient({
+  siteName,
+  status,
+  token,
+  subscriberType,
+  subscriberContact,
+}: VerifyClientProps) {
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [result, setResult] = useState<'success' | 'error' | null>(null)
+
+  const handleVerify = async () => {
+    setIsVerifying(true)
+    try {
+      const response = await fetch('/api/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+
+      if (response.ok) {
+        setResult('success')
+      } else {
+        setResult('error')
+      }
+    } catch {
+      setResult('error')
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-card rounded-xl border border-border p-8 text-center">
+        {status === 'not-found' && (
+          <>
+            <div className="mx-auto w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mb-6">
+              <XCircle className="w-8 h-8 text-destructive" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">
+              Invalid Confirmation Link
+            </h1>
+            <p className="text-muted-foreground mb-6">
+              This confirmation link is invalid or has already been replaced by a newer one.
+              Please use the link from your most recent confirmation message.
+            </p>
+          </>
+        )}
+
+        {status === 'expired' && (
+          <>
+            <div className="mx-auto w-16 h-16 rounded-full bg-status-maintenance/10 flex items-center justify-center mb-6">
+              <Clock className="w-8 h-8 text-status-maintenance" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">
+              Confirmation Link Expired
+            </h1>
+            <p className="text-muted-foreground mb-6">
+              This confirmation link has expired. Please subscribe again from the status page
+              to receive a new one.
+            </p>
+          </>
+        )}
+
+        {status === 'already-verified' && (
+          <>
+            <div className="mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-6">
+              <CheckCircle className="w-8 h-8 text-muted-foreground" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">
+              Already Confirmed
+            </h1>
+            <p className="text-muted-foreground mb-6">
+              Your subscription to {siteName} status updates is already confirmed.
+            </p>
+          </>
+        )}
+
+        {status === 'pending' && result === null && (
+          <>
+            <div className="mx-auto w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mb-6">
+              <Bell className="w-8 h-8 text-primary" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">
+              Confirm Your Subscription
+            </h1>
+            <p className="text-muted-foreground mb-2">
+              Confirm that you want to receive {subscriberType} notifications from{' '}
+              <strong>{siteName}</strong>.
+            </p>
+            {subscriberContact && (
+              <p className="text-sm text-muted-foreground mb-6">
+                {subscriberType === 'email' ? 'Email' : 'Phone'}: {subscriberContact}
+              </p>
+            )}
+            <button
+              onClick={handleVerify}
+              disabled={isVerifying}
+              className="w-full py-3 px-4 mb-6 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isVerifying ? 'Confirming...' : 'Confirm Subscription'}
+            </button>
+          </>
+        )}
+
+        {result === 'success' && (
+          <>
+            <div className="mx-auto w-16 h-16 rounded-full bg-status-operational/10 flex items-center justify-center mb-6">
+              <CheckCircle className="w-8 h-8 text-status-operational" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">
+              Subscription Confirmed
+            </h1>
+            <p className="text-muted-foreground mb-6">
+              You will now receive status updates from {siteName}.
+              You can unsubscribe at any time.
+            </p>
+          </>
+        )}
+
+        {result === 'error' && (
+          <>
+            <div className="mx-auto w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mb-6">
+              <XCircle className="w-8 h-8 text-destructive" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">
+              Something Went Wrong
+            </h1>
+            <p className="text-muted-foreground mb-6">
+              We couldn&apos;t confirm your subscription. The link may have expired; please subscribe again.
+            </p>
+          </>
+        )}
+
+        <Link
+          href="/"
+          className="text-sm text-primary hover:text-primary/80 transition-colors"
+        >
+          ← Return to Status Page
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import type { Metadata } from 'next'
+import { VerifyClient } from './VerifyClient'
+import type { Setting } from '@/payload-types'
+import { isVerificationExpired } from '@/lib/subscriberVerification'
+
+export const dynamic = 'force-dynamic'
+
+async function getSettings() {
+  const payload = await getPayload({ config })
+  return await payload.findGlobal({
+    slug: 'settings',
+    depth: 0,
+  }) as Setting
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const settings = await getSettings()
+  const siteName = settings.siteName || 'Status Page'
+
+  return {
+    title: `Confirm Subscription - ${siteName}`,
+    description: `Confirm your subscription to ${siteName} status updates.`,
+  }
+}
+
+interface VerifyPageProps {
+  params: Promise<{ token: string }>
+}
+
+export default async function VerifyPage({ params }: VerifyPageProps) {
+  const { token } = await params
+  const payload = await getPayload({ config })
+  const settings = await getSettings()
+  const siteName = settings.siteName || 'Status Page'
+
+  // Find subscriber by token
+  const result = await payload.find({
+    collection: 'subscribers',
+    where: {
+      verificationToken: {
+        equals: token,
+      },
+    },
+    limit: 1,
+  })
+
+  const subscriber = result.docs[0]
+
+  if (!subscriber) {
+    return (
+      <VerifyClient
+        siteName={siteName}
+        status="not-found"
+        token={token}
+      />
+    )
+  }
+
+  // A subscriber who requested a new address confirms that address with this link
+  const pendingChange = Boolean(subscriber.pendingEmail || subscriber.pendingPhone)
+
+  if (subscriber.verified && !pendingChange) {
+    return (
+      <VerifyClient
+        siteName={siteName}
+        status="already-verified"
+        token={token}
+      />
+    )
+  }
+
+  if (isVerificationExpired(subscriber)) {
+    return (
+      <VerifyClient
+        siteName={siteName}
+        status="expired"
+        token={token}
+      />
+    )
+  }
+
+  // Confirmation needs a click so that link scanners in mail clients don't confirm on their own
+  return (
+    <VerifyClient
+      siteName={siteName}
+      status="pending"
+      token={token}
+      subscriberType={pendingChange ? (subscriber.pendingEmail ? 'email' : 'sms') : subscriber.type}
+      subscriberContact={pendingChange
+        ? subscriber.pendingEmail || subscriber.pendingPhone
+        : subscriber.type === 'email' ? subscriber.email : subscriber.phone}
+    />
+  )
+}
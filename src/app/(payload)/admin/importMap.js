@@ -1,3 +1,4 @@
+import { HeartbeatUrlField as HeartbeatUrlField_c769123d55f4856c42a05063e6ae4cb6 } from '@/components/admin/HeartbeatUrlField'
 import { RscEntryLexicalCell as RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
 import { RscEntryLexicalField as RscEntryLexicalField_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
 import { LexicalDiffComponent as LexicalDiffComponent_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
@@ -10,11 +11,15 @@ import { ItalicFeatureClient as ItalicFeatureClient_e70f5e05f09f93e00b997edb1ef0
 import { ParagraphFeatureClient as ParagraphFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { SendNotificationCollectionButton as SendNotificationCollectionButton_d01a4935353b96154d106bbf01b3d3d7 } from '@/components/admin/SendNotificationCollectionButton'
 import { RecipientCountField as RecipientCountField_a92dd7a84f1ac5bf2f0c7a2ae42e7fcd } from '@/components/admin/RecipientCountField'
+import { EmailTemplatePreview as EmailTemplatePreview_cebbc73b5c348ddebfd839fac8d9fffc } from '@/components/admin/EmailTemplatePreview'
+import { DependencyGraphNavLink as DependencyGraphNavLink_7854aee4db639d0744a113db7f45f659 } from '@/components/admin/DependencyGraphNavLink'
 import { DashboardWidgets as DashboardWidgets_55e8c9f1aba7d352d950aef48719be05 } from '@/components/admin/DashboardWidgets'
 import { VercelBlobClientUploadHandler as VercelBlobClientUploadHandler_16c82c5e25f430251a3e3ba57219ff4e } from '@payloadcms/storage-vercel-blob/client'
+import { DependencyGraphView as DependencyGraphView_6356e1643a8cbf0fabb915756a343170 } from '@/components/admin/DependencyGraphView'
 import { CollectionCards as CollectionCards_f9c02e79a4aed9a3924487c0cd4cafb1 } from '@payloadcms/next/rsc'
 
 export const importMap = {
+  "@/components/admin/HeartbeatUrlField#HeartbeatUrlField": HeartbeatUrlField_c769123d55f4856c42a05063e6ae4cb6,
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalCell": RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e,
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalField": RscEntryLexicalField_44fe37237e0ebf4470c9990d8cb7b07e,
   "@payloadcms/richtext-lexical/rsc#LexicalDiffComponent": LexicalDiffComponent_44fe37237e0ebf4470c9990d8cb7b07e,
@@ -27,7 +32,10 @@ export const importMap = {
   "@payloadcms/richtext-lexical/client#ParagraphFeatureClient": ParagraphFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "@/components/admin/SendNotificationCollectionButton#SendNotificationCollectionButton": SendNotificationCollectionButton_d01a4935353b96154d106bbf01b3d3d7,
   "@/components/admin/RecipientCountField#RecipientCountField": RecipientCountField_a92dd7a84f1ac5bf2f0c7a2ae42e7fcd,
+  "@/components/admin/EmailTemplatePreview#EmailTemplatePreview": EmailTemplatePreview_cebbc73b5c348ddebfd839fac8d9fffc,
+  "@/components/admin/DependencyGraphNavLink#DependencyGraphNavLink": DependencyGraphNavLink_7854aee4db639d0744a113db7f45f659,
   "@/components/admin/DashboardWidgets#DashboardWidgets": DashboardWidgets_55e8c9f1aba7d352d950aef48719be05,
   "@payloadcms/storage-vercel-blob/client#VercelBlobClientUploadHandler": VercelBlobClientUploadHandler_16c82c5e25f430251a3e3ba57219ff4e,
+  "@/components/admin/DependencyGraphView#DependencyGraphView": DependencyGraphView_6356e1643a8cbf0fabb915756a343170,
   "@payloadcms/next/rsc#CollectionCards": CollectionCards_f9c02e79a4aed9a3924487c0cd4cafb1
 }
@@ -26,23 +26,25 @@ export async function GET() {
         collection: 'notifications',
         where: { status: { equals: 'scheduled' } },
       }),
-      // Email subscribers (active only)
+      // Email subscribers (active and verified)
       payload.count({
         collection: 'subscribers',
         where: {
           and: [
             { type: { equals: 'email' } },
             { active: { equals: true } },
+            { verified: { equals: true } },
           ],
         },
       }),
-      // SMS subscribers (active only)
+      // SMS subscribers (active and verified)
       payload.count({
         collection: 'subscribers',
         where: {
           and: [
             { type: { equals: 'sms' } },
             { active: { equals: true } },
+            { verified: { equals: true } },
           ],
         },
       }),
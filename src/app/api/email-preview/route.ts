@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import { headers } from 'next/headers'
+import config from '@payload-config'
+import { generateEmailHtml } from '@/lib/email'
+import { getSampleTemplateContent, interpolateTemplate, isEmailTemplate, defaultEmailTemplates } from '@/lib/emailTemplates'
+import { getServerUrl } from '@/lib/utils'
+import type { Media } from '@/payload-types'
+
+interface PreviewRequest {
+  template: string
+  body?: string
+  brandColor?: string
+  footerText?: string
+  markdown?: boolean
+}
+
+// Render a notification email from unsaved template settings with example content
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+
+    // Verify user is authenticated
+    const headersList = await headers()
+    const { user } = await payload.auth({ headers: headersList })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { template, body, brandColor, footerText, markdown }: PreviewRequest = await request.json()
+
+    if (!isEmailTemplate(template)) {
+      return NextResponse.json(
+        { error: 'Unknown template' },
+        { status: 400 }
+      )
+    }
+
+    const settings = await payload.findGlobal({ slug: 'settings', depth: 1 })
+    const siteName = settings.siteName || 'Status Page'
+    const siteUrl = getServerUrl()
+
+    const logoLight = settings.logoLight as Media | number | null | undefined
+    const logoUrl = logoLight && typeof logoLight === 'object' ? logoLight.url : undefined
+
+    const sample = getSampleTemplateContent(template, siteName, siteUrl)
+
+    const html = generateEmailHtml({
+      siteName,
+      title: sample.subject,
+      body: interpolateTemplate(body || defaultEmailTemplates[template], sample.vars),
+      markdown: Boolean(markdown),
+      ctaText: 'View Status',
+      ctaUrl: sample.vars.url,
+      unsubscribeUrl: `${siteUrl}/unsubscribe/preview`,
+      manageUrl: `${siteUrl}/manage/preview`,
+      siteUrl,
+      logoUrl: logoUrl || undefined,
+      brandColor: brandColor || undefined,
+      footerText: footerText || undefined,
+    })
+
+    return NextResponse.json({
+      subject: sample.subject,
+      html,
+    })
+  } catch (error) {
+    console.error('Error rendering email preview:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to render email preview' },
+      { status: 500 }
+    )
+  }
+}
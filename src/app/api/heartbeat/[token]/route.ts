@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import type { Service } from '@/payload-types'
+
+const MAX_MESSAGE_LENGTH = 500
+const FAILURE_STATUSES = ['fail', 'failed', 'failure', 'down', 'error']
+
+type RouteContext = {
+  params: Promise<{ token: string }>
+}
+
+/**
+ * GET/POST /api/heartbeat/:token
+ * Record a heartbeat for a push monitor
+ *
+ * Query: status=fail (optional, report a failure), msg=... (optional message)
+ */
+async function handleHeartbeat(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params
+    const payload = await getPayload({ config })
+
+    const result = await payload.find({
+      collection: 'services',
+      where: {
+        'monitoring.pushToken': {
+          equals: token,
+        },
+        'monitoring.type': {
+          equals: 'push',
+        },
+        'monitoring.enabled': {
+          equals: true,
+        },
+      },
+      limit: 1,
+    })
+
+    const service = result.docs[0] as Service | undefined
+
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Invalid heartbeat token' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = request.nextUrl
+    const status = (searchParams.get('status') || '').toLowerCase()
+    const isFailure = FAILURE_STATUSES.includes(status)
+    const message = searchParams.get('msg')?.slice(0, MAX_MESSAGE_LENGTH) || null
+    const receivedAt = new Date().toISOString()
+
+    // Only the heartbeat fields are sent, so a health check saving the service meanwhile keeps its results
+    await payload.update({
+      collection: 'services',
+      id: service.id,
+      data: {
+        monitoring: {
+          lastPushAt: receivedAt,
+          lastPushStatus: isFailure ? 'down' : 'up',
+          lastPushMessage: message,
+        },
+      },
+      context: {
+        skipHealthCheck: true,
+      },
+    })
+
+    console.log(`[Heartbeat] ${isFailure ? 'Failure' : 'Heartbeat'} received for service "${service.name}"${message ? `: ${message}` : ''}`)
+
+    return NextResponse.json({
+      ok: true,
+      status: isFailure ? 'down' : 'up',
+      receivedAt,
+    })
+  } catch (error) {
+    console.error('Error recording heartbeat:', error)
+    return NextResponse.json(
+      { error: 'Failed to record heartbeat' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handleHeartbeat
+export const POST = handleHeartbeat
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import type { EmailSetting, SmsSetting } from '@/payload-types'
+import { isEmailConfigured } from '@/lib/email'
+import { isSmsConfigured } from '@/lib/sms'
+import { findSubscriberByToken, getManagedSubscription } from '@/lib/subscriberPreferences'
+import {
+  createVerificationData,
+  canResendVerification,
+  hasReachedVerificationSendLimit,
+  sendVerification,
+  VERIFICATION_RESEND_MINUTES,
+} from '@/lib/subscriberVerification'
+
+/**
+ * Switch a subscription to another email address or phone number
+ * The new address is kept as pending until it is confirmed through /api/verify;
+ * until then notifications keep going to the current address.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+    const body = await request.json()
+    const { type, email, phone } = body
+
+    const subscriber = await findSubscriberByToken(payload, body.token)
+
+    if (!subscriber) {
+      return NextResponse.json(
+        { error: 'Invalid subscription link' },
+        { status: 404 }
+      )
+    }
+
+    if (type === 'email') {
+      const emailSettings = await payload.findGlobal({
+        slug: 'email-settings',
+      }) as EmailSetting
+
+      if (!isEmailConfigured(emailSettings)) {
+        return NextResponse.json(
+          { error: 'Email notifications are not available' },
+          { status: 503 }
+        )
+      }
+
+      if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        return NextResponse.json(
+          { error: 'Invalid email address' },
+          { status: 400 }
+        )
+      }
+    } else if (type === 'sms') {
+      const smsSettings = await payload.findGlobal({
+        slug: 'sms-settings',
+      }) as SmsSetting
+
+      if (!isSmsConfigured(smsSettings)) {
+        return NextResponse.json(
+          { error: 'SMS notifications are not available' },
+          { status: 503 }
+        )
+      }
+
+      if (!phone || !/^\+?[1-9]\d{6,14}$/.test(phone)) {
+        return NextResponse.json(
+          { error: 'Invalid phone number' },
+          { status: 400 }
+        )
+      }
+    } else {
+      return NextResponse.json(
+        { error: 'Invalid subscription type' },
+        { status: 400 }
+      )
+    }
+
+    const contact = type === 'email'
+      ? { type: 'email' as const, email: String(email), phone: null }
+      : { type: 'sms' as const, email: null, phone: String(phone) }
+
+    const current = subscriber.type === 'email' ? subscriber.email : subscriber.phone
+    if (contact.type === subscriber.type && (contact.email || contact.phone) === current) {
+      return NextResponse.json(
+        { error: `This is already your current ${type === 'email' ? 'email address' : 'phone number'}` },
+        { status: 400 }
+      )
+    }
+
+    // Check if another subscription already uses the address
+    const existing = await payload.find({
+      collection: 'subscribers',
+      where: {
+        ...(contact.type === 'email'
+          ? { email: { equals: contact.email } }
+          : { phone: { equals: contact.phone } }),
+        type: { equals: contact.type },
+        id: { not_equals: subscriber.id },
+      },
+      limit: 1,
+    })
+
+    if (existing.docs.length > 0) {
+      return NextResponse.json(
+        { error: `This ${type === 'email' ? 'email' : 'phone number'} is already subscribed` },
+        { status: 409 }
+      )
+    }
+
+    if (!canResendVerification(subscriber)) {
+      return NextResponse.json(
+        { error: `A confirmation was sent recently. Please wait ${VERIFICATION_RESEND_MINUTES} minutes before trying again.` },
+        { status: 429 }
+      )
+    }
+
+    if (hasReachedVerificationSendLimit(subscriber)) {
+      return NextResponse.json(
+        { error: 'Too many confirmations have been sent. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const verification = createVerificationData(subscriber)
+
+    try {
+      await sendVerification(payload, { ...contact, ...verification })
+    } catch (error) {
+      console.error('Error sending subscription confirmation:', error)
+      return NextResponse.json(
+        { error: 'Failed to send confirmation. Please try again later.' },
+        { status: 503 }
+      )
+    }
+
+    const updated = await payload.update({
+      collection: 'subscribers',
+      id: subscriber.id,
+      data: {
+        pendingEmail: contact.email,
+        pendingPhone: contact.phone,
+        ...verification,
+      },
+      depth: 0,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: type === 'email'
+        ? 'Check your inbox to confirm your new address. Until then, notifications keep going to your current address.'
+        : 'Enter the code we sent to confirm your phone number',
+      verification: type === 'email' ? 'link' : 'code',
+      subscription: getManagedSubscription(updated),
+    })
+  } catch (error) {
+    console.error('Error switching subscription channel:', error)
+    return NextResponse.json(
+      { error: 'Failed to switch subscription' },
+      { status: 500 }
+    )
+  }
+}
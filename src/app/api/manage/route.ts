@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import type { Subscriber } from '@/payload-types'
+import { getServiceSelection } from '@/lib/subscriberAudience'
+import {
+  findSubscriberByToken,
+  getManagedSubscription,
+  pauseDurations,
+  type PauseDuration,
+} from '@/lib/subscriberPreferences'
+
+/**
+ * Update preferences from the manage subscription page
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+    const body = await request.json()
+
+    const subscriber = await findSubscriberByToken(payload, body.token)
+
+    if (!subscriber) {
+      return NextResponse.json(
+        { error: 'Invalid subscription link' },
+        { status: 404 }
+      )
+    }
+
+    const data: Partial<Subscriber> = {}
+
+    if (typeof body.notifyIncidents === 'boolean') {
+      data.notifyIncidents = body.notifyIncidents
+    }
+    if (typeof body.notifyMaintenances === 'boolean') {
+      data.notifyMaintenances = body.notifyMaintenances
+    }
+
+    if (body.allServices === true) {
+      data.allServices = true
+      data.subscribedServices = []
+      data.subscribedGroups = []
+    } else if (body.allServices === false) {
+      const selection = await getServiceSelection(payload, body)
+      if (selection.allServices) {
+        return NextResponse.json(
+          { error: 'Choose at least one service' },
+          { status: 400 }
+        )
+      }
+      Object.assign(data, selection)
+    }
+
+    if (body.pause === null) {
+      data.pausedUntil = null
+    } else if (typeof body.pause === 'string' && body.pause in pauseDurations) {
+      data.pausedUntil = new Date(Date.now() + pauseDurations[body.pause as PauseDuration]).toISOString()
+    }
+
+    // Unsubscribing and subscribing again from the same link
+    if (typeof body.active === 'boolean') {
+      data.active = body.active
+    }
+
+    const updated = await payload.update({
+      collection: 'subscribers',
+      id: subscriber.id,
+      data,
+      depth: 0,
+    })
+
+    return NextResponse.json({
+      success: true,
+      subscription: getManagedSubscription(updated),
+    })
+  } catch (error) {
+    console.error('Error updating subscription:', error)
+    return NextResponse.json(
+      { error: 'Failed to update subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete the subscriber and all their data
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+    const body = await request.json()
+
+    const subscriber = await findSubscriberByToken(payload, body.token)
+
+    if (!subscriber) {
+      return NextResponse.json(
+        { error: 'Invalid subscription link' },
+        { status: 404 }
+      )
+    }
+
+    await payload.delete({
+      collection: 'subscribers',
+      id: subscriber.id,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Subscription deleted',
+    })
+  } catch (error) {
+    console.error('Error deleting subscription:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete subscription' },
+      { status: 500 }
+    )
+  }
+}
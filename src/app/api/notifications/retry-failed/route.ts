@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import { headers } from 'next/headers'
+import config from '@payload-config'
+import { queueNotificationSend } from '@/lib/notificationSending'
+import { countDeliveries } from '@/lib/notificationDeliveries'
+import type { Notification } from '@/payload-types'
+
+interface RetryRequest {
+  notificationId: string | number
+}
+
+// Resend a notification to the recipients whose delivery failed
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+
+    // Verify user is authenticated
+    const headersList = await headers()
+    const { user } = await payload.auth({ headers: headersList })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body: RetryRequest = await request.json()
+
+    const { notificationId } = body
+
+    if (!notificationId) {
+      return NextResponse.json(
+        { error: 'Missing notificationId' },
+        { status: 400 }
+      )
+    }
+
+    const notification = await payload.findByID({
+      collection: 'notifications',
+      id: notificationId,
+      depth: 0,
+      disableErrors: true,
+    }) as Notification | null
+
+    if (!notification) {
+      return NextResponse.json(
+        { error: 'Notification not found' },
+        { status: 404 }
+      )
+    }
+
+    if (notification.status !== 'sent' && notification.status !== 'failed') {
+      return NextResponse.json(
+        { error: 'Only sent or failed notifications can be retried' },
+        { status: 400 }
+      )
+    }
+
+    const before = await countDeliveries(payload, notificationId)
+
+    if (before.failed === 0) {
+      return NextResponse.json(
+        { error: 'No failed recipients to retry' },
+        { status: 400 }
+      )
+    }
+
+    await queueNotificationSend(payload, notification, { retryFailed: true })
+
+    // Run the job and wait for completion
+    await payload.jobs.run()
+
+    const after = await countDeliveries(payload, notificationId)
+    const updatedNotification = await payload.findByID({
+      collection: 'notifications',
+      id: notificationId,
+      depth: 0,
+    }) as Notification
+
+    return NextResponse.json({
+      success: true,
+      message: 'Failed recipients retried',
+      retried: before.failed,
+      stillFailed: after.failed,
+      totalRecipients: after.sent,
+      status: updatedNotification?.status,
+    })
+  } catch (error) {
+    console.error('Error retrying failed recipients:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to retry failed recipients' },
+      { status: 500 }
+    )
+  }
+}
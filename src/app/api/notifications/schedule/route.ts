@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import { headers } from 'next/headers'
+import config from '@payload-config'
+import type { Notification } from '@/payload-types'
+
+interface ScheduleRequest {
+  notificationId: string | number
+  sendAt?: string
+}
+
+/**
+ * Authenticate the request and load the notification it refers to
+ */
+async function getNotification(request: NextRequest) {
+  const payload = await getPayload({ config })
+
+  const headersList = await headers()
+  const { user } = await payload.auth({ headers: headersList })
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const body: ScheduleRequest = await request.json()
+
+  if (!body.notificationId) {
+    return { error: NextResponse.json({ error: 'Missing notificationId' }, { status: 400 }) }
+  }
+
+  const notification = await payload.findByID({
+    collection: 'notifications',
+    id: body.notificationId,
+    depth: 0,
+    disableErrors: true,
+  }) as Notification | null
+
+  if (!notification) {
+    return { error: NextResponse.json({ error: 'Notification not found' }, { status: 404 }) }
+  }
+
+  return { payload, body, notification }
+}
+
+// Schedule a notification to be sent automatically at sendAt
+export async function POST(request: NextRequest) {
+  try {
+    const result = await getNotification(request)
+    if ('error' in result) return result.error
+
+    const { payload, body, notification } = result
+
+    // Scheduled notifications can be moved to a new time
+    if (notification.status !== 'draft' && notification.status !== 'failed' && notification.status !== 'scheduled') {
+      return NextResponse.json(
+        { error: notification.status === 'sent' ? 'Notification has already been sent' : 'Notification is currently being processed' },
+        { status: 400 }
+      )
+    }
+
+    const sendAt = body.sendAt ? new Date(body.sendAt) : null
+
+    if (!sendAt || isNaN(sendAt.getTime())) {
+      return NextResponse.json(
+        { error: 'A valid sendAt time is required' },
+        { status: 400 }
+      )
+    }
+
+    if (sendAt.getTime() <= Date.now()) {
+      return NextResponse.json(
+        { error: 'Send time must be in the future' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await payload.update({
+      collection: 'notifications',
+      id: notification.id,
+      data: {
+        status: 'scheduled',
+        sendAt: sendAt.toISOString(),
+        errorMessage: null,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Notification scheduled',
+      status: updated.status,
+      sendAt: updated.sendAt,
+    })
+  } catch (error) {
+    console.error('Error scheduling notification:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to schedule notification' },
+      { status: 500 }
+    )
+  }
+}
+
+// Cancel a scheduled send and return the notification to draft
+export async function DELETE(request: NextRequest) {
+  try {
+    const result = await getNotification(request)
+    if ('error' in result) return result.error
+
+    const { payload, notification } = result
+
+    if (notification.status !== 'scheduled') {
+      return NextResponse.json(
+        { error: 'Only scheduled notifications can be cancelled' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await payload.update({
+      collection: 'notifications',
+      id: notification.id,
+      data: { status: 'draft' },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Scheduled send cancelled',
+      status: updated.status,
+    })
+  } catch (error) {
+    console.error('Error cancelling scheduled notification:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel scheduled notification' },
+      { status: 500 }
+    )
+  }
+}
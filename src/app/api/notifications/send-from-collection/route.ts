@@ -2,8 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import { headers } from 'next/headers'
 import config from '@payload-config'
-import { getServerUrl } from '@/lib/utils'
-import type { Notification, Incident, Maintenance } from '@/payload-types'
+import { queueNotificationSend } from '@/lib/notificationSending'
+import type { Notification } from '@/payload-types'
 
 interface SendRequest {
   notificationId: string | number
@@ -55,6 +55,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (notification.status === 'scheduled') {
+      return NextResponse.json(
+        { error: 'Notification is scheduled; cancel the scheduled send first' },
+        { status: 400 }
+      )
+    }
+
     // Allow retry from failed status
     if (notification.status !== 'draft' && notification.status !== 'failed') {
       return NextResponse.json(
@@ -63,55 +70,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Get the related item for the permalink
-    const siteUrl = getServerUrl()
-    let itemUrl = siteUrl
-    let itemTitle = 'Status Update'
-
-    if (notification.relatedIncident) {
-      const incident = typeof notification.relatedIncident === 'object' 
-        ? notification.relatedIncident 
-        : await payload.findByID({ collection: 'incidents', id: notification.relatedIncident }) as Incident
-      
-      if (incident) {
-        itemTitle = incident.title
-        if (incident.shortId) {
-          itemUrl = `${siteUrl}/i/${incident.shortId}`
-        }
-      }
-    } else if (notification.relatedMaintenance) {
-      const maintenance = typeof notification.relatedMaintenance === 'object'
-        ? notification.relatedMaintenance
-        : await payload.findByID({ collection: 'maintenances', id: notification.relatedMaintenance }) as Maintenance
-
-      if (maintenance) {
-        itemTitle = maintenance.title
-        if (maintenance.shortId) {
-          itemUrl = `${siteUrl}/m/${maintenance.shortId}`
-        }
-      }
-    }
-
-    // Update status to scheduled
-    await payload.update({
-      collection: 'notifications',
-      id: notificationId,
-      data: { status: 'scheduled' },
-    })
-
-    // Queue the job
-    await payload.jobs.queue({
-      task: 'sendNotificationFromCollection',
-      input: {
-        notificationId: String(notificationId),
-        channel: notification.channel || 'email',
-        subject: notification.subject || undefined,
-        emailBody: notification.emailBody || undefined,
-        smsBody: notification.smsBody || undefined,
-        itemTitle,
-        itemUrl,
-      },
-    })
+    // Mark as sending and queue the job
+    await queueNotificationSend(payload, notification)
 
     // Run the job and wait for completion
     await payload.jobs.run()
@@ -122,9 +82,12 @@ export async function POST(request: NextRequest) {
       id: notificationId,
     }) as Notification
 
+    // Large lists keep sending in follow-up jobs on the notifications queue
+    const inProgress = updatedNotification?.status === 'sending'
+
     return NextResponse.json({
       success: true,
-      message: 'Notification sent successfully',
+      message: inProgress ? 'Notification is being sent in the background' : 'Notification sent successfully',
       totalRecipients: updatedNotification?.recipientCount || 0,
       status: updatedNotification?.status,
     })
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authenticateProbe, getProbeServices, touchProbe } from '@/lib/probes'
+import { buildMonitoringConfig } from '@/lib/serviceHealth'
+
+/**
+ * GET /api/probe/checks
+ * Return the checks assigned to the authenticated remote probe
+ *
+ * Headers: Authorization: Bearer <probe token>
+ */
+export async function GET(request: Request) {
+  try {
+    const payload = await getPayload({ config })
+    const probe = await authenticateProbe(payload, request)
+
+    if (!probe) {
+      return NextResponse.json(
+        { error: 'Invalid probe token' },
+        { status: 401 }
+      )
+    }
+
+    await touchProbe(payload, probe)
+
+    const services = await getProbeServices(payload, probe)
+    const checks = []
+
+    for (const service of services) {
+      const built = buildMonitoringConfig(service)
+      if ('error' in built) continue
+
+      checks.push({
+        serviceId: service.id,
+        name: service.name,
+        interval: service.monitoring?.interval || 60,
+        config: built.config,
+      })
+    }
+
+    return NextResponse.json({
+      probe: {
+        id: probe.id,
+        name: probe.name,
+        region: probe.region || null,
+      },
+      checks,
+    })
+  } catch (error: any) {
+    console.error('Probe checks error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load probe checks' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import {
+  authenticateProbe,
+  getProbeServices,
+  parseProbeCheckedAt,
+  parseProbeResult,
+  touchProbe,
+} from '@/lib/probes'
+import { recordCheckResult } from '@/lib/serviceHealth'
+
+const MAX_RESULTS_PER_REQUEST = 100
+
+/**
+ * POST /api/probe/results
+ * Record check results reported by the authenticated remote probe
+ *
+ * Headers: Authorization: Bearer <probe token>
+ * Body: { results: [{ serviceId: number, checkedAt?: string, result: MonitoringCheckResult }] }
+ */
+export async function POST(request: Request) {
+  try {
+    const payload = await getPayload({ config })
+    const probe = await authenticateProbe(payload, request)
+
+    if (!probe) {
+      return NextResponse.json(
+        { error: 'Invalid probe token' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const results = Array.isArray(body?.results) ? body.results : null
+
+    if (!results) {
+      return NextResponse.json(
+        { error: 'results must be an array' },
+        { status: 400 }
+      )
+    }
+
+    if (results.length > MAX_RESULTS_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `At most ${MAX_RESULTS_PER_REQUEST} results can be reported at once` },
+        { status: 400 }
+      )
+    }
+
+    await touchProbe(payload, probe)
+
+    // Only accept results for services currently assigned to this probe
+    const services = await getProbeServices(payload, probe)
+    const servicesById = new Map(services.map((service) => [service.id, service]))
+
+    let accepted = 0
+    const rejected: { serviceId: unknown; error: string }[] = []
+
+    for (const entry of results) {
+      const service = servicesById.get(Number(entry?.serviceId))
+      if (!service) {
+        rejected.push({ serviceId: entry?.serviceId, error: 'Service is not assigned to this probe' })
+        continue
+      }
+
+      const checkResult = parseProbeResult(entry.result)
+      if (!checkResult) {
+        rejected.push({ serviceId: entry.serviceId, error: 'Invalid check result' })
+        continue
+      }
+
+      // A failed entry is reported back instead of failing the request, so the probe
+      // doesn't send the entries already recorded again
+      try {
+        // Re-read the service so results for the same service build on each other
+        const current = await payload.findByID({
+          collection: 'services',
+          id: service.id,
+          depth: 0,
+        })
+
+        await recordCheckResult(payload, current, checkResult, {
+          probe,
+          checkedAt: parseProbeCheckedAt(entry.checkedAt),
+        })
+        accepted++
+      } catch (error) {
+        console.error(`[Probe ${probe.name}] Failed to record result for service ${service.id}:`, error)
+        rejected.push({ serviceId: entry.serviceId, error: 'Failed to record result' })
+      }
+    }
+
+    return NextResponse.json({ accepted, rejected })
+  } catch (error: any) {
+    console.error('Probe results error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to record probe results' },
+      { status: 500 }
+    )
+  }
+}
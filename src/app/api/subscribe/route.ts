@@ -2,28 +2,21 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import type { EmailSetting, SmsSetting } from '@/payload-types'
+import { isEmailConfigured } from '@/lib/email'
+import { isSmsConfigured } from '@/lib/sms'
+import { getFollowableServices, getServiceSelection, type ServiceSelection } from '@/lib/subscriberAudience'
+import {
+  createVerificationData,
+  canResendVerification,
+  hasReachedVerificationSendLimit,
+  sendVerification,
+  VERIFICATION_RESEND_MINUTES,
+} from '@/lib/subscriberVerification'
 
 // Rate limit configuration: 5 subscription attempts per IP per hour
 const RATE_LIMIT_MAX = 5
 const RATE_LIMIT_WINDOW_HOURS = 1
 
-function isEmailConfigured(emailSettings: EmailSetting): boolean {
-  return Boolean(
-    emailSettings.smtpHost &&
-    emailSettings.smtpFromAddress &&
-    emailSettings.enabled
-  )
-}
-
-function isSmsConfigured(smsSettings: SmsSetting): boolean {
-  return Boolean(
-    smsSettings.twilioAccountSid &&
-    smsSettings.twilioAuthToken &&
-    (smsSettings.twilioFromNumber || smsSettings.twilioMessagingServiceSid) &&
-    smsSettings.enabled
-  )
-}
-
 /**
  * Get client IP address from request headers
  */
@@ -45,7 +38,9 @@ function getClientIp(request: NextRequest): string {
 
 /**
  * Check rate limit using database
- * Returns the count of subscriptions from this IP in the time window
+ * Returns the count of subscribers this IP created or had a confirmation sent to in the time window
+ * Confirmations sent again to an existing address count too; repeated sends to one
+ * address are limited separately by VERIFICATION_MAX_SENDS.
  */
 async function checkDatabaseRateLimit(
   payload: Awaited<ReturnType<typeof getPayload>>,
@@ -61,9 +56,10 @@ async function checkDatabaseRateLimit(
       ipAddress: {
         equals: ipAddress,
       },
-      createdAt: {
-        greater_than: windowStart.toISOString(),
-      },
+      or: [
+        { createdAt: { greater_than: windowStart.toISOString() } },
+        { verificationSentAt: { greater_than: windowStart.toISOString() } },
+      ],
     },
   })
 
@@ -77,6 +73,99 @@ async function checkDatabaseRateLimit(
   }
 }
 
+/**
+ * Create the subscriber, or restart verification for an unconfirmed or unsubscribed one,
+ * and send the confirmation message
+ * Returns an error response, or null when the confirmation was sent
+ */
+async function subscribe(
+  payload: Awaited<ReturnType<typeof getPayload>>,
+  contact: { type: 'email'; email: string } | { type: 'sms'; phone: string },
+  selection: ServiceSelection,
+  ipAddress: string
+): Promise<NextResponse | null> {
+  const label = contact.type === 'email' ? 'email' : 'phone number'
+
+  // Check if the address is already subscribed
+  const existing = await payload.find({
+    collection: 'subscribers',
+    where: {
+      ...(contact.type === 'email'
+        ? { email: { equals: contact.email } }
+        : { phone: { equals: contact.phone } }),
+      type: {
+        equals: contact.type,
+      },
+    },
+    limit: 1,
+  })
+
+  const subscriber = existing.docs[0]
+
+  if (subscriber?.verified && subscriber.active) {
+    return NextResponse.json(
+      { error: `This ${label} is already subscribed` },
+      { status: 409 }
+    )
+  }
+
+  if (subscriber && !canResendVerification(subscriber)) {
+    return NextResponse.json(
+      { error: `A confirmation was sent recently. Please wait ${VERIFICATION_RESEND_MINUTES} minutes before trying again.` },
+      { status: 429 }
+    )
+  }
+
+  if (subscriber && hasReachedVerificationSendLimit(subscriber)) {
+    return NextResponse.json(
+      { error: `Too many confirmations have been sent to this ${label}. Please try again later.` },
+      { status: 429 }
+    )
+  }
+
+  const verification = createVerificationData(subscriber)
+
+  try {
+    await sendVerification(payload, { ...contact, ...verification })
+  } catch (error) {
+    console.error('Error sending subscription confirmation:', error)
+    return NextResponse.json(
+      { error: `Failed to send confirmation to this ${label}. Please try again later.` },
+      { status: 503 }
+    )
+  }
+
+  if (subscriber) {
+    // Unsubscribed addresses have to confirm again before receiving notifications
+    await payload.update({
+      collection: 'subscribers',
+      id: subscriber.id,
+      data: {
+        ...verification,
+        ...selection,
+        verified: false,
+        active: true,
+        ipAddress,
+      },
+    })
+  } else {
+    // Create subscriber with IP address
+    await payload.create({
+      collection: 'subscribers',
+      data: {
+        ...contact,
+        ...verification,
+        ...selection,
+        verified: false,
+        active: true,
+        ipAddress,
+      },
+    })
+  }
+
+  return null
+}
+
 export async function POST(request: NextRequest) {
   try {
     const payload = await getPayload({ config })
@@ -119,6 +208,8 @@ export async function POST(request: NextRequest) {
       slug: 'sms-settings',
     }) as SmsSetting
 
+    const selection = await getServiceSelection(payload, body)
+
     if (type === 'email') {
       // Check if SMTP is configured
       if (!isEmailConfigured(emailSettings)) {
@@ -135,37 +226,8 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      // Check if email already exists
-      const existing = await payload.find({
-        collection: 'subscribers',
-        where: {
-          email: {
-            equals: email,
-          },
-          type: {
-            equals: 'email',
-          },
-        },
-      })
-
-      if (existing.docs.length > 0) {
-        return NextResponse.json(
-          { error: 'This email is already subscribed' },
-          { status: 409 }
-        )
-      }
-
-      // Create subscriber with IP address
-      await payload.create({
-        collection: 'subscribers',
-        data: {
-          type: 'email',
-          email,
-          verified: false,
-          active: true,
-          ipAddress: clientIp,
-        },
-      })
+      const response = await subscribe(payload, { type: 'email', email }, selection, clientIp)
+      if (response) return response
     } else if (type === 'sms') {
       // Check if SMS is configured
       if (!isSmsConfigured(smsSettings)) {
@@ -182,42 +244,16 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      // Check if phone already exists
-      const existing = await payload.find({
-        collection: 'subscribers',
-        where: {
-          phone: {
-            equals: phone,
-          },
-          type: {
-            equals: 'sms',
-          },
-        },
-      })
-
-      if (existing.docs.length > 0) {
-        return NextResponse.json(
-          { error: 'This phone number is already subscribed' },
-          { status: 409 }
-        )
-      }
-
-      // Create subscriber with IP address
-      await payload.create({
-        collection: 'subscribers',
-        data: {
-          type: 'sms',
-          phone,
-          verified: false,
-          active: true,
-          ipAddress: clientIp,
-        },
-      })
+      const response = await subscribe(payload, { type: 'sms', phone }, selection, clientIp)
+      if (response) return response
     }
 
     return NextResponse.json({
       success: true,
-      message: `Successfully subscribed via ${type}`,
+      message: type === 'email'
+        ? 'Check your inbox to confirm your subscription'
+        : 'Enter the code we sent to confirm your subscription',
+      verification: type === 'email' ? 'link' : 'code',
     })
   } catch (error) {
     console.error('Error creating subscription:', error)
@@ -228,7 +264,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint to check subscription availability
+// GET endpoint to check subscription availability and list the services that can be followed
 export async function GET() {
   try {
     const payload = await getPayload({ config })
@@ -242,6 +278,8 @@ export async function GET() {
     return NextResponse.json({
       email: isEmailConfigured(emailSettings),
       sms: isSmsConfigured(smsSettings),
+      // Service groups and their services, for choosing what to subscribe to
+      groups: await getFollowableServices(payload),
     })
   } catch (error) {
     console.error('Error checking subscription availability:', error)
@@ -1,22 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { getNotificationAudience, getRecipientWhere } from '@/lib/subscriberAudience'
+import { isSubscriberChannel } from '@/collections/Notifications'
 
+/**
+ * GET /api/subscribers/count
+ * Estimated recipients of a notification on a channel
+ * The count is null for chat channels, which don't send to subscribers.
+ */
 export async function GET(request: NextRequest) {
   try {
     const payload = await getPayload({ config })
     const { searchParams } = new URL(request.url)
     const channel = searchParams.get('channel') || 'both'
+    const incident = Number(searchParams.get('incident')) || null
+    const maintenance = Number(searchParams.get('maintenance')) || null
+
+    if (!isSubscriberChannel(channel)) {
+      return NextResponse.json({ count: null })
+    }
+
+    // Narrow the count to subscribers following the incident's or maintenance's services
+    const audience = await getNotificationAudience(payload, {
+      relatedIncident: incident,
+      relatedMaintenance: maintenance,
+    })
 
     let count = 0
 
     if (channel === 'email' || channel === 'both') {
       const emailCount = await payload.count({
         collection: 'subscribers',
-        where: {
-          type: { equals: 'email' },
-          active: { equals: true },
-        },
+        where: getRecipientWhere('email', audience),
       })
       count += emailCount.totalDocs
     }
@@ -24,10 +40,7 @@ export async function GET(request: NextRequest) {
     if (channel === 'sms' || channel === 'both') {
       const smsCount = await payload.count({
         collection: 'subscribers',
-        where: {
-          type: { equals: 'sms' },
-          active: { equals: true },
-        },
+        where: getRecipientWhere('sms', audience),
       })
       count += smsCount.totalDocs
     }
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload, type BasePayload, type Where } from 'payload'
+import config from '@payload-config'
+import type { Subscriber } from '@/payload-types'
+import { isVerificationExpired, VERIFICATION_MAX_ATTEMPTS } from '@/lib/subscriberVerification'
+
+/**
+ * Find the subscriber an SMS code was sent to
+ * A number waiting to replace a subscriber's address is checked before unconfirmed signups.
+ */
+async function findSubscriberByPhone(payload: BasePayload, phone: string): Promise<Subscriber | undefined> {
+  const queries: Where[] = [
+    { pendingPhone: { equals: phone } },
+    { phone: { equals: phone }, type: { equals: 'sms' } },
+  ]
+
+  for (const where of queries) {
+    const result = await payload.find({
+      collection: 'subscribers',
+      where,
+      limit: 1,
+    })
+    if (result.docs[0]) return result.docs[0] as Subscriber
+  }
+
+  return undefined
+}
+
+/**
+ * Confirm a subscription with the token from the confirmation link,
+ * or with the phone number and the code sent by SMS
+ * When the subscriber requested a new address, confirming it replaces the current one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+    const body = await request.json()
+
+    const { token, phone, code } = body
+
+    if (!token && !(phone && code)) {
+      return NextResponse.json(
+        { error: 'Missing verification token or code' },
+        { status: 400 }
+      )
+    }
+
+    const subscriber = token
+      ? (await payload.find({
+        collection: 'subscribers',
+        where: { verificationToken: { equals: String(token) } },
+        limit: 1,
+      })).docs[0] as Subscriber | undefined
+      : await findSubscriberByPhone(payload, String(phone))
+
+    if (!subscriber) {
+      return NextResponse.json(
+        token ? { error: 'Invalid verification token' } : { error: 'Invalid verification code' },
+        { status: token ? 404 : 400 }
+      )
+    }
+
+    const pending = subscriber.pendingEmail
+      ? { type: 'email' as const, email: subscriber.pendingEmail, phone: null }
+      : subscriber.pendingPhone
+        ? { type: 'sms' as const, email: null, phone: subscriber.pendingPhone }
+        : null
+
+    if (subscriber.verified && !pending) {
+      return NextResponse.json({
+        success: true,
+        message: 'Already verified',
+      })
+    }
+
+    if (isVerificationExpired(subscriber)) {
+      return NextResponse.json(
+        pending
+          ? { error: 'This confirmation has expired. Please request the change again.' }
+          : { error: 'This confirmation has expired. Please subscribe again.' },
+        { status: 410 }
+      )
+    }
+
+    if (!token) {
+      const attempts = subscriber.verificationAttempts || 0
+
+      if (attempts >= VERIFICATION_MAX_ATTEMPTS) {
+        return NextResponse.json(
+          { error: 'Too many incorrect codes. Please subscribe again to receive a new code.' },
+          { status: 429 }
+        )
+      }
+
+      if (!subscriber.verificationCode || String(code).trim() !== subscriber.verificationCode) {
+        await payload.update({
+          collection: 'subscribers',
+          id: subscriber.id,
+          data: {
+            verificationAttempts: attempts + 1,
+          },
+        })
+
+        return NextResponse.json(
+          { error: 'Invalid verification code' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (pending) {
+      // The address may have been subscribed separately since the change was requested
+      const existing = await payload.count({
+        collection: 'subscribers',
+        where: {
+          ...(pending.type === 'email'
+            ? { email: { equals: pending.email } }
+            : { phone: { equals: pending.phone } }),
+          type: { equals: pending.type },
+          id: { not_equals: subscriber.id },
+        },
+      })
+
+      if (existing.totalDocs > 0) {
+        return NextResponse.json(
+          { error: `This ${pending.type === 'email' ? 'email' : 'phone number'} is already subscribed` },
+          { status: 409 }
+        )
+      }
+    }
+
+    await payload.update({
+      collection: 'subscribers',
+      id: subscriber.id,
+      data: {
+        ...(pending ? { ...pending, pendingEmail: null, pendingPhone: null } : {}),
+        verified: true,
+        active: true,
+        verificationCode: null,
+        verificationAttempts: 0,
+        verificationSendCount: 0,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: pending ? 'New address confirmed' : 'Subscription confirmed',
+    })
+  } catch (error) {
+    console.error('Error processing verification:', error)
+    return NextResponse.json(
+      { error: 'Failed to process verification request' },
+      { status: 500 }
+    )
+  }
+}
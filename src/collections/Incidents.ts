@@ -2,6 +2,8 @@ import type { CollectionConfig } from 'payload'
 import { generateShortId } from '@/lib/shortId'
 import { standardAccess } from '@/lib/access'
 import { getServerUrl } from '@/lib/utils'
+import { renderEmailTemplate } from '@/lib/emailTemplates'
+import { getIncidentWebhookEvent, queueWebhookEvent, serializeIncident } from '@/lib/webhooks'
 
 export const incidentStatusOptions = [
   { label: 'Investigating', value: 'investigating' },
@@ -39,6 +41,7 @@ async function createIncidentNotificationDeferred(data: DeferredNotification) {
     // Fetch settings
     const settings = await payload.findGlobal({ slug: 'settings' })
     const smsSettings = await payload.findGlobal({ slug: 'sms-settings' })
+    const emailSettings = await payload.findGlobal({ slug: 'email-settings' })
     const siteName = settings.siteName || 'Status'
     const siteUrl = getServerUrl()
     
@@ -65,6 +68,13 @@ async function createIncidentNotificationDeferred(data: DeferredNotification) {
       url,
     }
     
+    // Emails have room for the full title and message
+    const emailVars = {
+      ...templateVars,
+      title: data.title,
+      message: data.message,
+    }
+    
     let smsBody: string
     let emailBody: string
     
@@ -72,12 +82,12 @@ async function createIncidentNotificationDeferred(data: DeferredNotification) {
       // Initial incident notification (from first update)
       const template = smsSettings.templateIncidentNew || '[{{siteName}}] 🚨 INCIDENT: {{title}} | {{status}} | {{message}} | {{url}}'
       smsBody = interpolateTemplate(template, templateVars)
-      emailBody = `A new incident has been reported.\n\nStatus: ${data.statusLabel}\n\n${data.message}\n\nView full details: ${url}`
+      emailBody = renderEmailTemplate(emailSettings, 'templateIncidentNew', emailVars)
     } else {
       // Subsequent update notification
       const template = smsSettings.templateIncidentUpdate || '[{{siteName}}] 📢 {{title}} | {{status}} | {{message}} | {{url}}'
       smsBody = interpolateTemplate(template, templateVars)
-      emailBody = `Status: ${data.statusLabel}\n\n${data.message}\n\nView full details: ${url}`
+      emailBody = renderEmailTemplate(emailSettings, 'templateIncidentUpdate', emailVars)
     }
     
     const notification = await payload.create({
@@ -178,6 +188,18 @@ export const Incidents: CollectionConfig = {
         },
       },
     },
+    {
+      name: 'autoCreated',
+      type: 'checkbox',
+      defaultValue: false,
+      index: true,
+      label: 'Opened by Monitoring',
+      admin: {
+        position: 'sidebar',
+        description: 'Opened automatically when monitoring marked an affected service down',
+        readOnly: true,
+      },
+    },
     {
       name: 'affectedServices',
       type: 'relationship',
@@ -259,6 +281,11 @@ export const Incidents: CollectionConfig = {
     ],
     afterChange: [
       async ({ doc, operation, previousDoc, req }) => {
+        const webhookEvent = getIncidentWebhookEvent(operation, doc, previousDoc)
+        if (webhookEvent) {
+          queueWebhookEvent(webhookEvent, serializeIncident(doc))
+        }
+
         // Skip if triggered by our own update to prevent loops
         if (req.context?.skipNotificationCreation) {
           return doc
@@ -1,7 +1,9 @@
-import type { CollectionConfig } from 'payload'
+import type { BasePayload, CollectionConfig } from 'payload'
 import { generateShortId } from '@/lib/shortId'
 import { standardAccess } from '@/lib/access'
 import { getServerUrl } from '@/lib/utils'
+import { formatEmailSchedule, renderEmailTemplate } from '@/lib/emailTemplates'
+import { getMaintenanceWebhookEvent, queueWebhookEvent, serializeMaintenance } from '@/lib/webhooks'
 
 export const maintenanceStatusOptions = [
   { label: 'Upcoming', value: 'upcoming' },
@@ -12,6 +14,25 @@ export const maintenanceStatusOptions = [
 
 export type MaintenanceStatus = (typeof maintenanceStatusOptions)[number]['value']
 
+// Reminder notifications that can be scheduled ahead of the start
+export const maintenanceReminderOptions = [
+  { label: '24 hours before', value: '24h' },
+  { label: '1 hour before', value: '1h' },
+] as const
+
+export type MaintenanceReminder = (typeof maintenanceReminderOptions)[number]['value']
+
+const reminderHours: Record<MaintenanceReminder, number> = {
+  '24h': 24,
+  '1h': 1,
+}
+
+// Lead-in for reminder notifications, e.g. "Starts in 24 hours"
+export function getReminderMessage(reminder: string): string {
+  const hours = reminderHours[reminder as MaintenanceReminder] || 0
+  return `Starts in ${hours} ${hours === 1 ? 'hour' : 'hours'}`
+}
+
 // Valid status transitions for auto-update
 const validTransitions: Record<MaintenanceStatus, MaintenanceStatus[]> = {
   upcoming: ['in_progress', 'completed'],
@@ -48,6 +69,7 @@ interface DeferredNotification {
   endTimeStr: string | null
   duration: string | undefined
   message?: string
+  reminder?: MaintenanceReminder
 }
 
 // Helper to interpolate template placeholders
@@ -55,6 +77,83 @@ function interpolateTemplate(template: string, vars: Record<string, string>): st
   return template.replace(/\{\{(\w+)\}\}/g, (_, key) => vars[key] || '')
 }
 
+// Title, subject and message bodies for a maintenance notification
+async function getMaintenanceNotificationContent(payload: BasePayload, data: DeferredNotification) {
+  // Fetch settings
+  const settings = await payload.findGlobal({ slug: 'settings' })
+  const smsSettings = await payload.findGlobal({ slug: 'sms-settings' })
+  const emailSettings = await payload.findGlobal({ slug: 'email-settings' })
+  const siteName = settings.siteName || 'Status'
+  const siteUrl = getServerUrl()
+  
+  // Get max lengths from SMS settings
+  const titleMaxLength = smsSettings.templateTitleMaxLength || 50
+  const messageMaxLength = smsSettings.templateMessageMaxLength || 100
+  
+  // Build schedule string for SMS (no newlines)
+  let scheduleStr = ''
+  if (data.startTimeStr && data.endTimeStr) {
+    scheduleStr = `📅 ${data.startTimeStr} - ${data.endTimeStr}`
+  } else if (data.startTimeStr) {
+    scheduleStr = `📅 ${data.startTimeStr}`
+    if (data.duration) {
+      scheduleStr += ` (${data.duration})`
+    }
+  }
+  
+  // Truncate title and message for SMS
+  const truncatedTitle = data.title.length > titleMaxLength
+    ? data.title.substring(0, titleMaxLength - 3) + '...'
+    : data.title
+  
+  const truncatedMessage = data.message 
+    ? (data.message.length > messageMaxLength ? data.message.substring(0, messageMaxLength - 3) + '...' : data.message)
+    : ''
+  
+  const url = `${siteUrl}/m/${data.shortId}`
+  
+  const templateVars = {
+    siteName,
+    title: truncatedTitle,
+    status: data.statusLabel,
+    schedule: scheduleStr,
+    message: truncatedMessage,
+    url,
+  }
+  
+  let smsBody: string
+  if (data.isUpdate) {
+    const template = smsSettings.templateMaintenanceUpdate || '[{{siteName}}] 🔧 {{title}} | {{status}} | {{schedule}} | {{message}} | {{url}}'
+    smsBody = interpolateTemplate(template, templateVars)
+  } else {
+    const template = smsSettings.templateMaintenanceNew || '[{{siteName}}] 🔧 MAINTENANCE: {{title}} | {{schedule}} | {{url}}'
+    smsBody = interpolateTemplate(template, templateVars)
+  }
+  
+  // Emails have room for the full title and message, and list the schedule on separate lines
+  const emailVars = {
+    ...templateVars,
+    title: data.title,
+    message: data.reminder ? (data.message || '').toLowerCase() : data.message || '',
+    schedule: formatEmailSchedule(data.startTimeStr, data.endTimeStr, data.duration),
+  }
+  const emailTemplate = data.reminder
+    ? 'templateMaintenanceReminder'
+    : data.isUpdate ? 'templateMaintenanceUpdate' : 'templateMaintenanceNew'
+  const emailBody = renderEmailTemplate(emailSettings, emailTemplate, emailVars)
+
+  const title = data.reminder
+    ? `[Maintenance Reminder] ${data.title}`
+    : data.isUpdate ? `[Maintenance ${data.statusLabel}] ${data.title}` : `[Scheduled Maintenance] ${data.title}`
+
+  return {
+    title,
+    subject: title,
+    emailBody,
+    smsBody,
+  }
+}
+
 // Helper to create notification drafts for maintenances (deferred execution)
 async function createMaintenanceNotificationDeferred(data: DeferredNotification) {
   try {
@@ -62,72 +161,17 @@ async function createMaintenanceNotificationDeferred(data: DeferredNotification)
     const { getPayload } = await import('payload')
     const config = (await import('@payload-config')).default
     const payload = await getPayload({ config })
-    
-    // Fetch settings
-    const settings = await payload.findGlobal({ slug: 'settings' })
-    const smsSettings = await payload.findGlobal({ slug: 'sms-settings' })
-    const siteName = settings.siteName || 'Status'
-    const siteUrl = getServerUrl()
-    
-    // Get max lengths from SMS settings
-    const titleMaxLength = smsSettings.templateTitleMaxLength || 50
-    const messageMaxLength = smsSettings.templateMessageMaxLength || 100
-    
-    // Build schedule string for SMS (no newlines)
-    let scheduleStr = ''
-    if (data.startTimeStr && data.endTimeStr) {
-      scheduleStr = `📅 ${data.startTimeStr} - ${data.endTimeStr}`
-    } else if (data.startTimeStr) {
-      scheduleStr = `📅 ${data.startTimeStr}`
-      if (data.duration) {
-        scheduleStr += ` (${data.duration})`
-      }
-    }
-    
-    // Truncate title and message for SMS
-    const truncatedTitle = data.title.length > titleMaxLength
-      ? data.title.substring(0, titleMaxLength - 3) + '...'
-      : data.title
-    
-    const truncatedMessage = data.message 
-      ? (data.message.length > messageMaxLength ? data.message.substring(0, messageMaxLength - 3) + '...' : data.message)
-      : ''
-    
-    const url = `${siteUrl}/m/${data.shortId}`
-    
-    const templateVars = {
-      siteName,
-      title: truncatedTitle,
-      status: data.statusLabel,
-      schedule: scheduleStr,
-      message: truncatedMessage,
-      url,
-    }
-    
-    let smsBody: string
-    if (data.isUpdate) {
-      const template = smsSettings.templateMaintenanceUpdate || '[{{siteName}}] 🔧 {{title}} | {{status}} | {{schedule}} | {{message}} | {{url}}'
-      smsBody = interpolateTemplate(template, templateVars)
-    } else {
-      const template = smsSettings.templateMaintenanceNew || '[{{siteName}}] 🔧 MAINTENANCE: {{title}} | {{schedule}} | {{url}}'
-      smsBody = interpolateTemplate(template, templateVars)
-    }
-    
-    const emailBody = data.isUpdate
-      ? `Maintenance Status: ${data.statusLabel}\n\n${data.message || ''}\n\nView full details: ${url}`
-      : `A maintenance window has been scheduled.\n\nScheduled Start: ${data.startTimeStr || 'TBD'}\n${data.endTimeStr ? `Scheduled End: ${data.endTimeStr}\n` : ''}${data.duration ? `Expected Duration: ${data.duration}\n` : ''}\nWe will notify you when the maintenance begins and completes.\n\nView full details: ${url}`
+
+    const content = await getMaintenanceNotificationContent(payload, data)
     
     const notification = await payload.create({
       collection: 'notifications',
       data: {
-        title: data.isUpdate ? `[Maintenance ${data.statusLabel}] ${data.title}` : `[Scheduled Maintenance] ${data.title}`,
+        ...content,
         relatedMaintenance: typeof data.docId === 'string' ? parseInt(data.docId, 10) : data.docId,
         updateIndex: data.updateIndex,
         channel: 'both',
         status: 'draft',
-        subject: data.isUpdate ? `[Maintenance ${data.statusLabel}] ${data.title}` : `[Scheduled Maintenance] ${data.title}`,
-        emailBody,
-        smsBody,
       },
     })
     return notification
@@ -136,6 +180,85 @@ async function createMaintenanceNotificationDeferred(data: DeferredNotification)
   }
 }
 
+// Create, move or remove the scheduled reminder notifications for a maintenance (deferred execution)
+// Reminders are only kept while the maintenance is upcoming and their send time is in the future.
+// Reminders that were sent, failed or cancelled back to draft are left alone.
+async function syncMaintenanceRemindersDeferred(docId: number) {
+  try {
+    const { getPayload } = await import('payload')
+    const config = (await import('@payload-config')).default
+    const payload = await getPayload({ config })
+
+    const maintenance = await payload.findByID({ collection: 'maintenances', id: docId, depth: 0, disableErrors: true })
+    const existing = await payload.find({
+      collection: 'notifications',
+      where: {
+        relatedMaintenance: { equals: docId },
+        reminder: { exists: true },
+      },
+      limit: 100,
+      depth: 0,
+    })
+
+    const startTime = maintenance?.scheduledStartAt ? new Date(maintenance.scheduledStartAt).getTime() : null
+    const wanted = maintenance?.status === 'upcoming' && startTime ? maintenance.reminders || [] : []
+
+    for (const { value: reminder } of maintenanceReminderOptions) {
+      const notification = existing.docs.find((doc) => doc.reminder === reminder)
+      const sendAt = startTime ? new Date(startTime - reminderHours[reminder] * 60 * 60 * 1000) : null
+      const keep = wanted.includes(reminder) && sendAt !== null && sendAt.getTime() > Date.now()
+
+      if (notification && notification.status !== 'scheduled') continue
+
+      if (!keep) {
+        if (notification) {
+          await payload.delete({ collection: 'notifications', id: notification.id })
+        }
+        continue
+      }
+
+      if (notification?.sendAt && new Date(notification.sendAt).getTime() === sendAt!.getTime()) continue
+
+      const content = await getMaintenanceNotificationContent(payload, {
+        docId,
+        title: maintenance!.title || 'Maintenance',
+        shortId: maintenance!.shortId || '',
+        statusLabel: 'Reminder',
+        isUpdate: true,
+        updateIndex: -1,
+        startTimeStr: formatDateTime(maintenance!.scheduledStartAt),
+        endTimeStr: formatDateTime(maintenance!.scheduledEndAt),
+        duration: maintenance!.duration || undefined,
+        message: getReminderMessage(reminder),
+        reminder,
+      })
+
+      if (notification) {
+        await payload.update({
+          collection: 'notifications',
+          id: notification.id,
+          data: { ...content, sendAt: sendAt!.toISOString() },
+        })
+      } else {
+        await payload.create({
+          collection: 'notifications',
+          data: {
+            ...content,
+            relatedMaintenance: docId,
+            updateIndex: -1,
+            reminder,
+            channel: 'both',
+            status: 'scheduled',
+            sendAt: sendAt!.toISOString(),
+          },
+        })
+      }
+    }
+  } catch (error) {
+    console.error('[Maintenances] Failed to sync reminders:', error)
+  }
+}
+
 export const Maintenances: CollectionConfig = {
   slug: 'maintenances',
   admin: {
@@ -216,6 +339,16 @@ export const Maintenances: CollectionConfig = {
         description: 'Human-readable duration (e.g., "~2 hours")',
       },
     },
+    {
+      name: 'reminders',
+      type: 'select',
+      hasMany: true,
+      options: [...maintenanceReminderOptions],
+      label: 'Reminders',
+      admin: {
+        description: 'Schedule reminder notifications before the start. They follow schedule changes and can be edited or cancelled under Notifications.',
+      },
+    },
     {
       name: 'status',
       type: 'select',
@@ -362,11 +495,29 @@ export const Maintenances: CollectionConfig = {
     ],
     afterChange: [
       async ({ doc, operation, previousDoc, req }) => {
+        // Status changes made by the schedule are sent to webhooks too
+        const webhookEvent = getMaintenanceWebhookEvent(operation, doc, previousDoc)
+        if (webhookEvent) {
+          queueWebhookEvent(webhookEvent, serializeMaintenance(doc))
+        }
+
         // Skip if triggered by auto-status update or our own update
         if (req.context?.skipAutoStatusUpdate || req.context?.skipNotificationCreation) {
           return doc
         }
 
+        // Keep scheduled reminders in step with the schedule and status
+        const remindersChanged = operation === 'create'
+          ? (doc.reminders || []).length > 0
+          : JSON.stringify(doc.reminders || []) !== JSON.stringify(previousDoc?.reminders || []) ||
+            doc.scheduledStartAt !== previousDoc?.scheduledStartAt ||
+            doc.status !== previousDoc?.status
+        if (remindersChanged) {
+          setImmediate(() => {
+            syncMaintenanceRemindersDeferred(doc.id).catch(console.error)
+          })
+        }
+
         const statusLabels: Record<string, string> = {
           upcoming: 'Scheduled',
           in_progress: 'In Progress',
@@ -0,0 +1,125 @@
+import type { CollectionConfig } from 'payload'
+import { standardAccess } from '@/lib/access'
+import { monitoringTypeOptions } from './Services'
+
+export const monitoringResultStatusOptions = [
+  { label: 'Success', value: 'success' },
+  { label: 'Failed', value: 'failed' },
+] as const
+
+export type MonitoringResultStatus = (typeof monitoringResultStatusOptions)[number]['value']
+
+/**
+ * Time-series record of every health check performed against a service.
+ * Written by the checkServiceHealth task and remote probes, and pruned by pruneMonitoringResults
+ * according to the retention configured in Site Settings.
+ */
+export const MonitoringResults: CollectionConfig = {
+  slug: 'monitoring-results',
+  labels: {
+    singular: 'Monitoring Result',
+    plural: 'Monitoring Results',
+  },
+  admin: {
+    defaultColumns: ['service', 'status', 'responseTime', 'statusCode', 'probe', 'checkedAt'],
+    group: 'Status',
+    description: 'History of automatic health checks (read-only, pruned automatically)',
+  },
+  access: {
+    ...standardAccess,
+    // Raw check results include error messages and probe details; the status page
+    // reads uptime through the local API instead
+    read: ({ req: { user } }) => !!user,
+  },
+  defaultSort: '-checkedAt',
+  fields: [
+    {
+      name: 'service',
+      type: 'relationship',
+      relationTo: 'services',
+      required: true,
+      index: true,
+      label: 'Service',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'probe',
+      type: 'relationship',
+      relationTo: 'probes',
+      index: true,
+      label: 'Probe',
+      admin: {
+        readOnly: true,
+        description: 'Remote probe that ran the check (empty for checks run by the app server)',
+      },
+    },
+    {
+      name: 'checkedAt',
+      type: 'date',
+      required: true,
+      index: true,
+      label: 'Checked At',
+      defaultValue: () => new Date().toISOString(),
+      admin: {
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      options: [...monitoringResultStatusOptions],
+      label: 'Result',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'type',
+      type: 'select',
+      options: [...monitoringTypeOptions],
+      label: 'Monitoring Type',
+      admin: {
+        readOnly: true,
+        description: 'Monitoring type configured at the time of the check',
+      },
+    },
+    {
+      name: 'responseTime',
+      type: 'number',
+      label: 'Response Time (ms)',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'statusCode',
+      type: 'number',
+      label: 'HTTP Status Code',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      label: 'Error',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'details',
+      type: 'textarea',
+      label: 'Details',
+      admin: {
+        readOnly: true,
+      },
+    },
+  ],
+}
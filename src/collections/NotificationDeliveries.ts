@@ -0,0 +1,154 @@
+import type { CollectionConfig } from 'payload'
+
+export const notificationDeliveryChannelOptions = [
+  { label: 'Email', value: 'email' },
+  { label: 'SMS', value: 'sms' },
+] as const
+
+export const notificationDeliveryStatusOptions = [
+  { label: 'Sent', value: 'sent' },
+  { label: 'Failed', value: 'failed' },
+] as const
+
+export type NotificationDeliveryChannel = (typeof notificationDeliveryChannelOptions)[number]['value']
+export type NotificationDeliveryStatus = (typeof notificationDeliveryStatusOptions)[number]['value']
+
+/**
+ * Log of every email and SMS sent for a notification, one per recipient.
+ * Written by the sendNotificationFromCollection task, which updates the
+ * existing record when a failed recipient is retried.
+ */
+export const NotificationDeliveries: CollectionConfig = {
+  slug: 'notification-deliveries',
+  labels: {
+    singular: 'Notification Delivery',
+    plural: 'Notification Deliveries',
+  },
+  admin: {
+    useAsTitle: 'recipient',
+    defaultColumns: ['recipient', 'notification', 'channel', 'status', 'attempts', 'lastAttemptAt'],
+    group: 'Notifications',
+    description: 'Emails and SMS sent to subscribers (read-only)',
+  },
+  access: {
+    read: ({ req: { user } }) => !!user,
+    create: () => false,
+    update: () => false,
+    delete: ({ req: { user } }) => !!user,
+  },
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      name: 'notification',
+      type: 'relationship',
+      relationTo: 'notifications',
+      required: true,
+      index: true,
+      label: 'Notification',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'subscriber',
+      type: 'relationship',
+      relationTo: 'subscribers',
+      required: true,
+      index: true,
+      label: 'Subscriber',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'channel',
+          type: 'select',
+          required: true,
+          options: [...notificationDeliveryChannelOptions],
+          label: 'Channel',
+          admin: {
+            readOnly: true,
+            width: '50%',
+          },
+        },
+        {
+          name: 'recipient',
+          type: 'text',
+          required: true,
+          label: 'Recipient',
+          admin: {
+            readOnly: true,
+            description: 'Email address or phone number it was sent to',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      options: [...notificationDeliveryStatusOptions],
+      index: true,
+      label: 'Status',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'attempts',
+      type: 'number',
+      defaultValue: 1,
+      label: 'Attempts',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'lastAttemptAt',
+      type: 'date',
+      label: 'Last Attempt',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'sentAt',
+      type: 'date',
+      label: 'Sent At',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'providerMessageId',
+      type: 'text',
+      label: 'Provider Message ID',
+      admin: {
+        readOnly: true,
+        description: 'SMTP message ID or Twilio message SID',
+      },
+    },
+    {
+      name: 'error',
+      type: 'text',
+      label: 'Error',
+      admin: {
+        readOnly: true,
+      },
+    },
+  ],
+}
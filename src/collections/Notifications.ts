@@ -1,14 +1,20 @@
 import type { CollectionConfig } from 'payload'
+import { authenticatedFieldRead } from '@/lib/access'
+import { getNotificationAudience, getRecipientWhere } from '@/lib/subscriberAudience'
 
 export const notificationChannelOptions = [
   { label: 'Email', value: 'email' },
   { label: 'SMS', value: 'sms' },
   { label: 'Both', value: 'both' },
+  { label: 'Slack', value: 'slack' },
+  { label: 'Microsoft Teams', value: 'teams' },
+  { label: 'Discord', value: 'discord' },
 ] as const
 
 export const notificationStatusOptions = [
   { label: 'Draft', value: 'draft' },
   { label: 'Scheduled', value: 'scheduled' },
+  { label: 'Sending', value: 'sending' },
   { label: 'Sent', value: 'sent' },
   { label: 'Failed', value: 'failed' },
 ] as const
@@ -16,6 +22,11 @@ export const notificationStatusOptions = [
 export type NotificationChannel = (typeof notificationChannelOptions)[number]['value']
 export type NotificationStatus = (typeof notificationStatusOptions)[number]['value']
 
+// Chat channels post to a workspace rather than to subscribers, so they have no recipient count
+export function isSubscriberChannel(channel: string): boolean {
+  return channel === 'email' || channel === 'sms' || channel === 'both'
+}
+
 export const Notifications: CollectionConfig = {
   slug: 'notifications',
   admin: {
@@ -31,21 +42,32 @@ export const Notifications: CollectionConfig = {
     delete: ({ req: { user } }) => !!user,
   },
   hooks: {
+    beforeDelete: [
+      async ({ id, req }) => {
+        // Remove the delivery log first so the required notification relationship never dangles
+        await req.payload.delete({
+          collection: 'notification-deliveries',
+          where: {
+            notification: { equals: id },
+          },
+          req,
+        })
+      },
+    ],
     afterRead: [
       async ({ doc, req }) => {
+        const channel = doc.channel || 'both'
+
         // For drafts/scheduled, compute estimated recipient count
-        if (doc.status === 'draft' || doc.status === 'scheduled') {
+        if ((doc.status === 'draft' || doc.status === 'scheduled') && isSubscriberChannel(channel)) {
           try {
-            const channel = doc.channel || 'both'
+            const audience = await getNotificationAudience(req.payload, doc)
             let count = 0
 
             if (channel === 'email' || channel === 'both') {
               const emailCount = await req.payload.count({
                 collection: 'subscribers',
-                where: {
-                  type: { equals: 'email' },
-                  active: { equals: true },
-                },
+                where: getRecipientWhere('email', audience),
               })
               count += emailCount.totalDocs
             }
@@ -53,10 +75,7 @@ export const Notifications: CollectionConfig = {
             if (channel === 'sms' || channel === 'both') {
               const smsCount = await req.payload.count({
                 collection: 'subscribers',
-                where: {
-                  type: { equals: 'sms' },
-                  active: { equals: true },
-                },
+                where: getRecipientWhere('sms', audience),
               })
               count += smsCount.totalDocs
             }
@@ -118,6 +137,14 @@ export const Notifications: CollectionConfig = {
         hidden: true,
       },
     },
+    {
+      // Set on reminders queued from a maintenance's reminder options
+      name: 'reminder',
+      type: 'text',
+      admin: {
+        hidden: true,
+      },
+    },
     {
       type: 'row',
       fields: [
@@ -148,7 +175,7 @@ export const Notifications: CollectionConfig = {
       type: 'text',
       label: 'Email Subject',
       admin: {
-        description: 'Subject line for email notifications',
+        description: 'Subject line for email notifications (also the title of chat messages when there is no related incident or maintenance)',
         condition: (data) => data?.channel !== 'sms',
       },
     },
@@ -167,7 +194,25 @@ export const Notifications: CollectionConfig = {
       label: 'SMS Message',
       admin: {
         description: 'Short SMS message (160 characters recommended)',
-        condition: (data) => data?.channel !== 'email',
+        condition: (data) => data?.channel === 'sms' || data?.channel === 'both',
+      },
+    },
+    {
+      name: 'sendAt',
+      type: 'date',
+      label: 'Send At',
+      validate: (value: Date | string | null | undefined, { siblingData }: { siblingData: Partial<{ status: NotificationStatus }> }) => {
+        if (siblingData?.status === 'scheduled' && !value) {
+          return 'Scheduled notifications need a send time'
+        }
+        return true
+      },
+      admin: {
+        description: 'Pick a time and use Schedule Send to deliver this notification automatically',
+        condition: (data) => data?.status !== 'sent' && data?.status !== 'sending',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
       },
     },
     {
@@ -196,6 +241,30 @@ export const Notifications: CollectionConfig = {
         hidden: true,
       },
     },
+    {
+      name: 'failedRecipientCount',
+      type: 'number',
+      label: 'Failed Recipients',
+      admin: {
+        hidden: true,
+      },
+    },
+    {
+      name: 'deliveries',
+      type: 'join',
+      collection: 'notification-deliveries',
+      on: 'notification',
+      label: 'Delivery Log',
+      defaultSort: '-createdAt',
+      defaultLimit: 20,
+      access: {
+        read: authenticatedFieldRead,
+      },
+      admin: {
+        defaultColumns: ['recipient', 'channel', 'status', 'attempts', 'error', 'lastAttemptAt'],
+        condition: (data) => data?.status === 'sent' || data?.status === 'failed',
+      },
+    },
     {
       name: 'errorMessage',
       type: 'textarea',
@@ -203,6 +272,21 @@ export const Notifications: CollectionConfig = {
         hidden: true,
       },
     },
+    {
+      name: 'slackChannelId',
+      type: 'text',
+      admin: {
+        hidden: true,
+      },
+    },
+    {
+      name: 'slackThreadTs',
+      type: 'text',
+      index: true,
+      admin: {
+        hidden: true,
+      },
+    },
     {
       name: 'sentAt',
       type: 'date',
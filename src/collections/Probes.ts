@@ -0,0 +1,101 @@
+import type { CollectionConfig } from 'payload'
+import { generateShortId } from '@/lib/shortId'
+
+/**
+ * Remote monitoring probes.
+ * Each probe runs the standalone agent (src/probe/agent.ts), authenticates
+ * with its token, pulls its assigned checks from /api/probe/checks and
+ * reports results to /api/probe/results.
+ */
+export const Probes: CollectionConfig = {
+  slug: 'probes',
+  labels: {
+    singular: 'Probe',
+    plural: 'Probes',
+  },
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'region', 'active', 'lastSeenAt'],
+    group: 'Status',
+    description: 'Remote agents that run health checks from other locations',
+  },
+  access: {
+    read: ({ req: { user } }) => !!user,
+    create: ({ req: { user } }) => !!user,
+    update: ({ req: { user } }) => !!user,
+    delete: ({ req: { user } }) => !!user,
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      label: 'Name',
+    },
+    {
+      name: 'region',
+      type: 'text',
+      label: 'Region',
+      admin: {
+        description: 'Where the probe runs (e.g. eu-central, us-east)',
+      },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+      label: 'Description',
+    },
+    {
+      name: 'active',
+      type: 'checkbox',
+      defaultValue: true,
+      label: 'Active',
+      admin: {
+        description: 'Inactive probes are rejected and no longer count towards the quorum',
+      },
+    },
+    {
+      name: 'services',
+      type: 'relationship',
+      relationTo: 'services',
+      hasMany: true,
+      label: 'Assigned Services',
+      admin: {
+        description: 'Services this probe checks. Leave empty to check every monitored service.',
+      },
+    },
+    {
+      name: 'token',
+      type: 'text',
+      label: 'Probe Token',
+      unique: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Set as PROBE_TOKEN for the probe agent. Keep this secret.',
+      },
+      hooks: {
+        beforeValidate: [
+          ({ value }) => {
+            if (!value) {
+              return generateShortId(40)
+            }
+            return value
+          },
+        ],
+      },
+    },
+    {
+      name: 'lastSeenAt',
+      type: 'date',
+      label: 'Last Seen',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+  ],
+}
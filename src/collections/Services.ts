@@ -1,5 +1,11 @@
-import type { CollectionConfig } from 'payload'
-import { standardAccess } from '@/lib/access'
+import type { CollectionConfig, PayloadRequest } from 'payload'
+import { isIP } from 'net'
+import { standardAccess, authenticatedFieldRead } from '@/lib/access'
+import { findDependencyCycle } from '@/lib/dependencies'
+import { isValidPingHost } from '@/lib/monitoring'
+import { createSecretFieldHooks } from '@/lib/secretFields'
+import { generateShortId } from '@/lib/shortId'
+import { queueWebhookEvent, serializeService } from '@/lib/webhooks'
 
 export const serviceStatusOptions = [
   { label: 'Operational', value: 'operational' },
@@ -11,6 +17,69 @@ export const serviceStatusOptions = [
 
 export type ServiceStatus = (typeof serviceStatusOptions)[number]['value']
 
+export const monitoringTypeOptions = [
+  { label: 'HTTP/HTTPS', value: 'http' },
+  { label: 'TCP Port', value: 'tcp' },
+  { label: 'Ping (ICMP)', value: 'ping' },
+  { label: 'Game Server (GameDig)', value: 'gamedig' },
+  { label: 'DNS Record', value: 'dns' },
+  { label: 'Push (Heartbeat)', value: 'push' },
+] as const
+
+export type MonitoringType = (typeof monitoringTypeOptions)[number]['value']
+
+export const dnsRecordTypeOptions = [
+  { label: 'A (IPv4 address)', value: 'A' },
+  { label: 'AAAA (IPv6 address)', value: 'AAAA' },
+  { label: 'CNAME (Alias)', value: 'CNAME' },
+  { label: 'MX (Mail exchange)', value: 'MX' },
+  { label: 'TXT (Text)', value: 'TXT' },
+  { label: 'NS (Name server)', value: 'NS' },
+] as const
+
+export type DnsRecordType = (typeof dnsRecordTypeOptions)[number]['value']
+
+export const dnsMatchModeOptions = [
+  { label: 'Exactly matches expected values', value: 'exact' },
+  { label: 'Contains all expected values', value: 'contains' },
+] as const
+
+export type DnsMatchMode = (typeof dnsMatchModeOptions)[number]['value']
+
+export const bodyAssertionTypeOptions = [
+  { label: 'Contains Keyword', value: 'contains' },
+  { label: 'Does Not Contain Keyword', value: 'not_contains' },
+  { label: 'Matches Regex', value: 'regex' },
+  { label: 'JSONPath Equals', value: 'json_equals' },
+  { label: 'JSONPath Exists', value: 'json_exists' },
+] as const
+
+export type BodyAssertionType = (typeof bodyAssertionTypeOptions)[number]['value']
+
+export const httpAuthTypeOptions = [
+  { label: 'None', value: 'none' },
+  { label: 'Basic Auth', value: 'basic' },
+  { label: 'Bearer Token', value: 'bearer' },
+] as const
+
+export type HttpAuthType = (typeof httpAuthTypeOptions)[number]['value']
+
+export const latencyMetricOptions = [
+  { label: 'Average', value: 'average' },
+  { label: 'Median', value: 'median' },
+  { label: '95th Percentile', value: 'p95' },
+  { label: 'Maximum', value: 'max' },
+] as const
+
+export type LatencyMetricOption = (typeof latencyMetricOptions)[number]['value']
+
+export const autoIncidentRecoveryStatusOptions = [
+  { label: 'Monitoring', value: 'monitoring' },
+  { label: 'Resolved', value: 'resolved' },
+] as const
+
+export type AutoIncidentRecoveryStatus = (typeof autoIncidentRecoveryStatusOptions)[number]['value']
+
 export const Services: CollectionConfig = {
   slug: 'services',
   admin: {
@@ -21,8 +90,29 @@ export const Services: CollectionConfig = {
   orderable: true,
   access: standardAccess,
   hooks: {
+    beforeDelete: [
+      async ({ id, req }) => {
+        // Remove check history first so the required service relationship never dangles
+        await req.payload.delete({
+          collection: 'monitoring-results',
+          where: {
+            service: { equals: id },
+          },
+          req,
+        })
+      },
+    ],
     afterChange: [
-      async ({ doc, req, operation }) => {
+      async ({ doc, previousDoc, req, operation }) => {
+        if (operation === 'update' && previousDoc && doc.status !== previousDoc.status) {
+          queueWebhookEvent('service.status_changed', serializeService(doc, previousDoc.status))
+        }
+
+        // Results recorded by checks and heartbeats must not queue another check
+        if (req.context?.skipHealthCheck) {
+          return
+        }
+
         // Only queue health check on update (not create) and if monitoring is enabled
         if (operation === 'update' && doc.monitoring?.enabled) {
           console.log(`[Services Hook] Service "${doc.name}" saved with monitoring enabled`)
@@ -106,6 +196,32 @@ export const Services: CollectionConfig = {
         description: 'Current status of the service',
       },
     },
+    {
+      name: 'dependsOn',
+      type: 'relationship',
+      relationTo: 'services',
+      hasMany: true,
+      label: 'Depends On',
+      admin: {
+        description: 'Services this service relies on. An outage of a dependency shows this service as Partial Outage on the status page.',
+      },
+      filterOptions: ({ id }) => (id ? { id: { not_equals: id } } : true),
+      validate: async (value: unknown[] | null | undefined, { req, id, data }: { req: PayloadRequest; id?: number | string; data: Partial<{ name: string }> }) => {
+        const dependsOn = (value || []).map((s) => Number(typeof s === 'object' && s !== null ? (s as { id: unknown }).id : s))
+        if (dependsOn.length === 0) return true
+
+        const serviceId = id !== undefined ? Number(id) : undefined
+        if (serviceId !== undefined && dependsOn.includes(serviceId)) {
+          return 'A service cannot depend on itself'
+        }
+
+        const cycle = await findDependencyCycle(req.payload, { id: serviceId, name: data?.name }, dependsOn)
+        if (cycle) {
+          return `Dependencies cannot be circular: ${cycle.join(' → ')}`
+        }
+        return true
+      },
+    },
     {
       name: 'monitoring',
       type: 'group',
@@ -128,12 +244,7 @@ export const Services: CollectionConfig = {
           type: 'select',
           label: 'Monitoring Type',
           defaultValue: 'http',
-          options: [
-            { label: 'HTTP/HTTPS', value: 'http' },
-            { label: 'TCP Port', value: 'tcp' },
-            { label: 'Ping (ICMP)', value: 'ping' },
-            { label: 'Game Server (GameDig)', value: 'gamedig' },
-          ],
+          options: [...monitoringTypeOptions],
           admin: {
             description: 'Type of monitoring to perform',
             condition: (data, siblingData) => siblingData?.enabled === true,
@@ -163,13 +274,113 @@ export const Services: CollectionConfig = {
             condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http',
           },
         },
+        {
+          name: 'headers',
+          type: 'array',
+          label: 'Request Headers',
+          labels: {
+            singular: 'Header',
+            plural: 'Headers',
+          },
+          admin: {
+            description: 'Additional headers sent with the health check (e.g., X-API-Key)',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http',
+          },
+          fields: [
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'name',
+                  type: 'text',
+                  required: true,
+                  label: 'Header Name',
+                },
+                {
+                  name: 'value',
+                  type: 'text',
+                  label: 'Header Value',
+                  admin: {
+                    autoComplete: 'new-password',
+                  },
+                  hooks: createSecretFieldHooks((siblingData) => siblingData?.secret === true),
+                },
+              ],
+            },
+            {
+              name: 'secret',
+              type: 'checkbox',
+              label: 'Secret',
+              defaultValue: false,
+              admin: {
+                description: 'Hide the value from the public API. Leave the value empty to keep the existing one.',
+              },
+            },
+          ],
+        },
+        {
+          name: 'requestBody',
+          type: 'textarea',
+          label: 'Request Body',
+          admin: {
+            description: 'Body sent with POST requests. Sent as application/json when valid JSON unless a Content-Type header is set.',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http' && siblingData?.method === 'POST',
+          },
+        },
+        {
+          name: 'authType',
+          type: 'select',
+          label: 'Authentication',
+          defaultValue: 'none',
+          options: [...httpAuthTypeOptions],
+          admin: {
+            description: 'Authentication to use for the health check request',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http',
+          },
+        },
+        {
+          name: 'authUsername',
+          type: 'text',
+          label: 'Username',
+          admin: {
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http' && siblingData?.authType === 'basic',
+          },
+        },
+        {
+          name: 'authPassword',
+          type: 'text',
+          label: 'Password',
+          admin: {
+            description: 'Leave empty to keep existing value.',
+            autoComplete: 'new-password',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http' && siblingData?.authType === 'basic',
+          },
+          hooks: createSecretFieldHooks(),
+        },
+        {
+          name: 'authToken',
+          type: 'text',
+          label: 'Bearer Token',
+          admin: {
+            description: 'Sent as "Authorization: Bearer <token>". Leave empty to keep existing value.',
+            autoComplete: 'new-password',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http' && siblingData?.authType === 'bearer',
+          },
+          hooks: createSecretFieldHooks(),
+        },
         {
           name: 'host',
           type: 'text',
           label: 'Hostname or IP',
           admin: {
-            description: 'Hostname or IP address to monitor (e.g., example.com or 192.168.1.1)',
-            condition: (data, siblingData) => siblingData?.enabled === true && ['tcp', 'ping', 'gamedig'].includes(siblingData?.type),
+            description: 'Hostname or IP address to monitor (e.g., example.com or 192.168.1.1). For DNS, the record name to resolve.',
+            condition: (data, siblingData) => siblingData?.enabled === true && ['tcp', 'ping', 'gamedig', 'dns'].includes(siblingData?.type),
+          },
+          validate: (value: string | null | undefined, { siblingData }: { siblingData: Partial<{ type: MonitoringType }> }) => {
+            if (value && siblingData?.type === 'ping' && !isValidPingHost(value.trim())) {
+              return 'Enter a valid hostname or IP address'
+            }
+            return true
           },
         },
         {
@@ -181,6 +392,28 @@ export const Services: CollectionConfig = {
             condition: (data, siblingData) => siblingData?.enabled === true && ['tcp', 'gamedig'].includes(siblingData?.type),
           },
         },
+        {
+          name: 'packetCount',
+          type: 'number',
+          label: 'Packet Count',
+          defaultValue: 3,
+          min: 1,
+          max: 20,
+          admin: {
+            description: 'Number of ICMP packets to send per check. Partial packet loss marks the service as degraded.',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'ping',
+          },
+        },
+        {
+          name: 'tls',
+          type: 'checkbox',
+          label: 'Use TLS',
+          defaultValue: false,
+          admin: {
+            description: 'Perform a TLS handshake and inspect the certificate (e.g., for SMTPS, IMAPS or LDAPS)',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'tcp',
+          },
+        },
         {
           name: 'gameType',
           type: 'select',
@@ -200,6 +433,136 @@ export const Services: CollectionConfig = {
             condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'gamedig',
           },
         },
+        {
+          name: 'dnsRecordType',
+          type: 'select',
+          label: 'Record Type',
+          defaultValue: 'A',
+          options: [...dnsRecordTypeOptions],
+          admin: {
+            description: 'DNS record type to resolve',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'dns',
+          },
+        },
+        {
+          name: 'dnsResolver',
+          type: 'text',
+          label: 'DNS Resolver',
+          admin: {
+            description: 'Optional resolver IP address, with optional port (e.g., 1.1.1.1 or 8.8.8.8:53). Leave empty to use the system resolver.',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'dns',
+          },
+          validate: (value: string | null | undefined) => {
+            if (!value) return true
+            const host = value.trim().replace(/^\[(.+)\](:\d+)?$/, '$1').replace(/^([^:]+):\d+$/, '$1')
+            if (!isIP(host)) {
+              return 'Resolver must be an IP address (e.g., 1.1.1.1 or 1.1.1.1:53)'
+            }
+            return true
+          },
+        },
+        {
+          name: 'dnsExpectedValues',
+          type: 'text',
+          hasMany: true,
+          label: 'Expected Values',
+          admin: {
+            description: 'Values the answer is compared against (e.g., 93.184.216.34, or "10 mail.example.com" for MX). Leave empty to only require that records exist.',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'dns',
+          },
+        },
+        {
+          name: 'dnsMatchMode',
+          type: 'select',
+          label: 'Match Mode',
+          defaultValue: 'exact',
+          options: [...dnsMatchModeOptions],
+          admin: {
+            description: 'Use "contains" when the record set has entries you do not want to track',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'dns',
+          },
+        },
+        {
+          name: 'pushToken',
+          type: 'text',
+          label: 'Heartbeat Token',
+          unique: true,
+          index: true,
+          access: {
+            read: authenticatedFieldRead,
+          },
+          admin: {
+            readOnly: true,
+            hidden: true,
+          },
+          hooks: {
+            beforeValidate: [
+              ({ value, siblingData }) => {
+                if (!value && siblingData?.type === 'push') {
+                  // Generate a secret token for the heartbeat URL
+                  return generateShortId(32)
+                }
+                return value
+              },
+            ],
+          },
+        },
+        {
+          name: 'heartbeatUrl',
+          type: 'ui',
+          admin: {
+            components: {
+              Field: '@/components/admin/HeartbeatUrlField#HeartbeatUrlField',
+            },
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'push',
+          },
+        },
+        {
+          name: 'pushGracePeriod',
+          type: 'number',
+          label: 'Grace Period (seconds)',
+          defaultValue: 60,
+          min: 0,
+          max: 86400,
+          admin: {
+            description: 'Extra time allowed after the check interval before a missing heartbeat counts as a failure',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'push',
+          },
+        },
+        {
+          name: 'lastPushAt',
+          type: 'date',
+          label: 'Last Heartbeat At',
+          admin: {
+            readOnly: true,
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'push',
+          },
+        },
+        {
+          name: 'lastPushStatus',
+          type: 'select',
+          label: 'Last Heartbeat Status',
+          options: [
+            { label: 'Up', value: 'up' },
+            { label: 'Down', value: 'down' },
+          ],
+          admin: {
+            readOnly: true,
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'push',
+          },
+        },
+        {
+          name: 'lastPushMessage',
+          type: 'text',
+          label: 'Last Heartbeat Message',
+          admin: {
+            readOnly: true,
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'push',
+          },
+        },
         {
           name: 'interval',
           type: 'number',
@@ -208,7 +571,7 @@ export const Services: CollectionConfig = {
           min: 30,
           max: 3600,
           admin: {
-            description: 'How often to check the service (minimum 30 seconds)',
+            description: 'How often to check the service (minimum 30 seconds). For push monitors, how often heartbeats are expected.',
             condition: (data, siblingData) => siblingData?.enabled === true,
           },
         },
@@ -234,6 +597,90 @@ export const Services: CollectionConfig = {
             condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http',
           },
         },
+        {
+          name: 'bodyAssertions',
+          type: 'array',
+          label: 'Response Body Assertions',
+          labels: {
+            singular: 'Assertion',
+            plural: 'Assertions',
+          },
+          admin: {
+            description: 'Checks run against the response body. All assertions must pass for the check to succeed (not available for HEAD requests).',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'http' && siblingData?.method !== 'HEAD',
+          },
+          fields: [
+            {
+              name: 'type',
+              type: 'select',
+              required: true,
+              defaultValue: 'contains',
+              options: [...bodyAssertionTypeOptions],
+              label: 'Assertion',
+            },
+            {
+              name: 'path',
+              type: 'text',
+              label: 'JSONPath',
+              admin: {
+                description: 'Path to the value in the JSON response (e.g., $.status or $.checks[0].healthy)',
+                condition: (data, siblingData) => ['json_equals', 'json_exists'].includes(siblingData?.type),
+              },
+              validate: (value: string | null | undefined, { siblingData }: { siblingData: Partial<{ type: BodyAssertionType }> }) => {
+                if (siblingData?.type !== 'json_equals' && siblingData?.type !== 'json_exists') return true
+                if (!value || !value.trim().startsWith('$')) {
+                  return 'JSONPath must start with $ (e.g., $.status)'
+                }
+                return true
+              },
+            },
+            {
+              name: 'value',
+              type: 'text',
+              label: 'Value',
+              admin: {
+                description: 'Keyword, regular expression or expected value depending on the assertion',
+                condition: (data, siblingData) => siblingData?.type !== 'json_exists',
+              },
+              validate: (value: string | null | undefined, { siblingData }: { siblingData: Partial<{ type: BodyAssertionType }> }) => {
+                if (siblingData?.type === 'json_exists') return true
+                if (siblingData?.type !== 'json_equals' && !value) {
+                  return 'A value is required for this assertion'
+                }
+                if (siblingData?.type === 'regex' && value) {
+                  try {
+                    new RegExp(value)
+                  } catch {
+                    return 'Invalid regular expression'
+                  }
+                }
+                return true
+              },
+            },
+          ],
+        },
+        {
+          name: 'certExpiryThresholdDays',
+          type: 'number',
+          label: 'Certificate Expiry Warning (days)',
+          defaultValue: 14,
+          min: 0,
+          max: 365,
+          admin: {
+            description: 'Mark the service as degraded when the TLS certificate expires within this many days (0 to disable). Applies to HTTPS URLs and TCP with TLS.',
+            condition: (data, siblingData) => siblingData?.enabled === true && (siblingData?.type === 'http' || (siblingData?.type === 'tcp' && siblingData?.tls === true)),
+          },
+        },
+        {
+          name: 'failOnInvalidCertificate',
+          type: 'checkbox',
+          label: 'Fail on Invalid Certificate',
+          defaultValue: false,
+          admin: {
+            description: 'Fail the check when the certificate chain is untrusted or does not match the hostname. HTTPS checks always fail on invalid certificates.',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type === 'tcp' && siblingData?.tls === true,
+          },
+        },
         {
           name: 'lastCheckedAt',
           type: 'date',
@@ -270,6 +717,77 @@ export const Services: CollectionConfig = {
             condition: (data, siblingData) => siblingData?.enabled === true,
           },
         },
+        {
+          name: 'consecutiveSuccesses',
+          type: 'number',
+          label: 'Consecutive Successes',
+          defaultValue: 0,
+          admin: {
+            readOnly: true,
+            description: 'Number of consecutive successful checks',
+            condition: (data, siblingData) => siblingData?.enabled === true,
+          },
+        },
+        {
+          name: 'flapping',
+          type: 'checkbox',
+          label: 'Flapping',
+          defaultValue: false,
+          admin: {
+            readOnly: true,
+            description: 'The status changed too often and is held in Degraded Performance until it stabilises',
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.flapping === true,
+          },
+        },
+        {
+          name: 'flappingSince',
+          type: 'date',
+          label: 'Flapping Since',
+          admin: {
+            readOnly: true,
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.flapping === true,
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+        {
+          name: 'flapHistory',
+          type: 'json',
+          admin: {
+            hidden: true,
+          },
+        },
+        {
+          name: 'measuredLatency',
+          type: 'number',
+          label: 'Measured Latency (ms)',
+          admin: {
+            readOnly: true,
+            description: 'Latency compared with the thresholds at the last check',
+            condition: (data, siblingData) => siblingData?.enabled === true && typeof siblingData?.measuredLatency === 'number',
+          },
+        },
+        {
+          name: 'statusReason',
+          type: 'text',
+          label: 'Status Reason',
+          admin: {
+            readOnly: true,
+            description: 'Why the last check did not report the service as fully operational',
+            condition: (data, siblingData) => siblingData?.enabled === true && !!siblingData?.statusReason,
+          },
+        },
+        {
+          name: 'probeStatus',
+          type: 'json',
+          label: 'Probe Status',
+          admin: {
+            readOnly: true,
+            description: 'Consecutive failures and successes of each reporting probe at the last check, counted from the check history',
+            condition: (data, siblingData) => siblingData?.enabled === true && !!siblingData?.probeStatus,
+          },
+        },
         {
           name: 'failureThreshold',
           type: 'number',
@@ -282,6 +800,260 @@ export const Services: CollectionConfig = {
             condition: (data, siblingData) => siblingData?.enabled === true,
           },
         },
+        {
+          name: 'recoveryThreshold',
+          type: 'number',
+          label: 'Recovery Threshold',
+          defaultValue: 1,
+          min: 1,
+          max: 10,
+          admin: {
+            description: 'Number of consecutive successful checks before a failing service is marked as recovered',
+            condition: (data, siblingData) => siblingData?.enabled === true,
+          },
+        },
+        {
+          type: 'row',
+          admin: {
+            condition: (data, siblingData) => siblingData?.enabled === true,
+          },
+          fields: [
+            {
+              name: 'flapThreshold',
+              type: 'number',
+              label: 'Flap Threshold',
+              defaultValue: 0,
+              min: 0,
+              max: 50,
+              admin: {
+                width: '50%',
+                description: 'Status changes within the flap window that mark the service as flapping and hold it in Degraded Performance (0 to disable)',
+              },
+            },
+            {
+              name: 'flapWindow',
+              type: 'number',
+              label: 'Flap Window (minutes)',
+              defaultValue: 30,
+              min: 1,
+              max: 1440,
+              admin: {
+                width: '50%',
+                description: 'Period in which status changes are counted',
+              },
+            },
+          ],
+        },
+        {
+          type: 'row',
+          admin: {
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type !== 'push',
+          },
+          fields: [
+            {
+              name: 'latencyWarnThreshold',
+              type: 'number',
+              label: 'Latency Warning (ms)',
+              min: 1,
+              admin: {
+                width: '50%',
+                description: 'Mark the service as degraded when response times exceed this value (leave empty to disable)',
+              },
+            },
+            {
+              name: 'latencyCriticalThreshold',
+              type: 'number',
+              label: 'Latency Critical (ms)',
+              min: 1,
+              admin: {
+                width: '50%',
+                description: 'Mark the service as partial outage when response times exceed this value (leave empty to disable)',
+              },
+              validate: (value: number | null | undefined, { siblingData }: { siblingData: Partial<{ latencyWarnThreshold: number | null }> }) => {
+                const warn = siblingData?.latencyWarnThreshold
+                if (value && typeof warn === 'number' && value <= warn) {
+                  return 'Critical threshold must be higher than the warning threshold'
+                }
+                return true
+              },
+            },
+          ],
+        },
+        {
+          type: 'row',
+          admin: {
+            condition: (data, siblingData) => siblingData?.enabled === true && siblingData?.type !== 'push' && (!!siblingData?.latencyWarnThreshold || !!siblingData?.latencyCriticalThreshold),
+          },
+          fields: [
+            {
+              name: 'latencyMetric',
+              type: 'select',
+              label: 'Latency Metric',
+              defaultValue: 'average',
+              options: [...latencyMetricOptions],
+              admin: {
+                width: '50%',
+                description: 'How response times are combined before comparing them with the thresholds',
+              },
+            },
+            {
+              name: 'latencyWindow',
+              type: 'number',
+              label: 'Latency Window (checks)',
+              defaultValue: 5,
+              min: 1,
+              max: 100,
+              admin: {
+                width: '50%',
+                description: 'Number of recent successful checks to evaluate',
+              },
+            },
+          ],
+        },
+        {
+          name: 'autoIncident',
+          type: 'group',
+          label: 'Automatic Incidents',
+          admin: {
+            description: 'Open an incident when the failure threshold is crossed and update it when checks recover. Templates support {{service}}, {{error}} and {{failures}}.',
+            condition: (data, siblingData) => siblingData?.enabled === true,
+          },
+          fields: [
+            {
+              name: 'enabled',
+              type: 'checkbox',
+              label: 'Create Incidents Automatically',
+              defaultValue: false,
+            },
+            {
+              name: 'title',
+              type: 'text',
+              label: 'Incident Title',
+              defaultValue: '{{service}} is unavailable',
+              admin: {
+                condition: (data, siblingData) => siblingData?.enabled === true,
+              },
+            },
+            {
+              name: 'message',
+              type: 'textarea',
+              label: 'Incident Message',
+              defaultValue: 'Automatic monitoring has detected that {{service}} is not responding as expected. We are investigating.',
+              admin: {
+                condition: (data, siblingData) => siblingData?.enabled === true,
+              },
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'recoveryStatus',
+                  type: 'select',
+                  label: 'Status on Recovery',
+                  defaultValue: 'resolved',
+                  options: [...autoIncidentRecoveryStatusOptions],
+                  admin: {
+                    width: '30%',
+                    description: 'Use Monitoring to resolve the incident manually after recovery',
+                    condition: (data, siblingData) => siblingData?.enabled === true,
+                  },
+                },
+                {
+                  name: 'recoveryMessage',
+                  type: 'textarea',
+                  label: 'Recovery Message',
+                  defaultValue: '{{service}} is responding normally again.',
+                  admin: {
+                    width: '70%',
+                    condition: (data, siblingData) => siblingData?.enabled === true,
+                  },
+                },
+              ],
+            },
+          ],
+        },
+        {
+          name: 'certificate',
+          type: 'group',
+          label: 'TLS Certificate',
+          admin: {
+            description: 'Certificate presented during the last check',
+            condition: (data, siblingData) => siblingData?.enabled === true && !!siblingData?.certificate?.validTo,
+          },
+          fields: [
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'subject',
+                  type: 'text',
+                  label: 'Subject',
+                  admin: {
+                    readOnly: true,
+                  },
+                },
+                {
+                  name: 'issuer',
+                  type: 'text',
+                  label: 'Issuer',
+                  admin: {
+                    readOnly: true,
+                  },
+                },
+              ],
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'validFrom',
+                  type: 'date',
+                  label: 'Valid From',
+                  admin: {
+                    readOnly: true,
+                  },
+                },
+                {
+                  name: 'validTo',
+                  type: 'date',
+                  label: 'Valid Until',
+                  admin: {
+                    readOnly: true,
+                  },
+                },
+                {
+                  name: 'daysRemaining',
+                  type: 'number',
+                  label: 'Days Remaining',
+                  admin: {
+                    readOnly: true,
+                  },
+                },
+              ],
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'valid',
+                  type: 'checkbox',
+                  label: 'Trusted Chain and Hostname',
+                  admin: {
+                    readOnly: true,
+                  },
+                },
+                {
+                  name: 'validationError',
+                  type: 'text',
+                  label: 'Validation Error',
+                  admin: {
+                    readOnly: true,
+                  },
+                },
+              ],
+            },
+          ],
+        },
       ],
     },
   ],
@@ -1,18 +1,42 @@
 import type { CollectionConfig } from 'payload'
-import { publicRead, authenticatedOrTestWrite } from '@/lib/access'
+import {
+  publicRead,
+  authenticatedOrTestWrite,
+  authenticatedFieldRead,
+  authenticatedOrTestFieldRead,
+  authenticatedOrTestFieldWrite,
+} from '@/lib/access'
 import { generateShortId } from '@/lib/shortId'
 
 export const subscriptionTypeOptions = [
   { label: 'Email', value: 'email' },
   { label: 'SMS', value: 'sms' },
+  { label: 'Webhook', value: 'webhook' },
 ] as const
 
 export type SubscriptionType = (typeof subscriptionTypeOptions)[number]['value']
 
+export const webhookEventOptions = [
+  { label: 'Incident Created', value: 'incident.created' },
+  { label: 'Incident Updated', value: 'incident.updated' },
+  { label: 'Incident Resolved', value: 'incident.resolved' },
+  { label: 'Maintenance Scheduled', value: 'maintenance.scheduled' },
+  { label: 'Maintenance Started', value: 'maintenance.started' },
+  { label: 'Maintenance Completed', value: 'maintenance.completed' },
+  { label: 'Maintenance Cancelled', value: 'maintenance.cancelled' },
+  { label: 'Service Status Changed', value: 'service.status_changed' },
+] as const
+
+export type WebhookEvent = (typeof webhookEventOptions)[number]['value']
+
 interface SubscriberData {
   type?: SubscriptionType
   email?: string
   phone?: string
+  pendingEmail?: string
+  pendingPhone?: string
+  webhookUrl?: string
+  allServices?: boolean
   verified?: boolean
   active?: boolean
 }
@@ -21,7 +45,7 @@ export const Subscribers: CollectionConfig = {
   slug: 'subscribers',
   admin: {
     useAsTitle: 'email',
-    defaultColumns: ['type', 'email', 'phone', 'verified', 'active', 'createdAt'],
+    defaultColumns: ['type', 'email', 'phone', 'webhookUrl', 'verified', 'active', 'createdAt'],
     group: 'Notifications',
   },
   access: {
@@ -30,6 +54,27 @@ export const Subscribers: CollectionConfig = {
     update: authenticatedOrTestWrite,
     delete: authenticatedOrTestWrite,
   },
+  hooks: {
+    beforeDelete: [
+      async ({ id, req }) => {
+        // Remove the delivery logs first so the required subscriber relationships never dangle
+        await req.payload.delete({
+          collection: 'webhook-deliveries',
+          where: {
+            subscriber: { equals: id },
+          },
+          req,
+        })
+        await req.payload.delete({
+          collection: 'notification-deliveries',
+          where: {
+            subscriber: { equals: id },
+          },
+          req,
+        })
+      },
+    ],
+  },
   fields: [
     {
       name: 'type',
@@ -128,19 +173,210 @@ export const Subscribers: CollectionConfig = {
         return true
       },
     },
+    {
+      name: 'webhookUrl',
+      type: 'text',
+      label: 'Webhook URL',
+      access: {
+        // Webhook URLs often carry a token in the path, so they are never public
+        read: authenticatedFieldRead,
+        // Webhooks are set up by administrators, not through public subscription
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
+      admin: {
+        description: 'URL that receives a signed JSON POST request for each event',
+        condition: (data) => (data as SubscriberData)?.type === 'webhook',
+      },
+      validate: (value: string | null | undefined, { data }: { data: Partial<SubscriberData> }) => {
+        if (data?.type === 'webhook' && !value) {
+          return 'URL is required for webhook subscriptions'
+        }
+        if (value && !/^https?:\/\/\S+$/.test(value)) {
+          return 'Please enter a valid http(s) URL'
+        }
+        return true
+      },
+    },
+    {
+      name: 'webhookSecret',
+      type: 'text',
+      label: 'Signing Secret',
+      access: {
+        read: authenticatedFieldRead,
+      },
+      admin: {
+        description: 'Used to sign payloads (X-Webhook-Signature header). Generated automatically when left empty.',
+        condition: (data) => (data as SubscriberData)?.type === 'webhook',
+      },
+      hooks: {
+        beforeValidate: [
+          ({ value, data }) => {
+            if ((data as SubscriberData)?.type === 'webhook' && !value) {
+              return generateShortId(40)
+            }
+            return value
+          },
+        ],
+      },
+    },
+    {
+      name: 'webhookEvents',
+      type: 'select',
+      hasMany: true,
+      label: 'Events',
+      options: [...webhookEventOptions],
+      access: {
+        read: authenticatedFieldRead,
+      },
+      admin: {
+        description: 'Events sent to this webhook. Leave empty to receive all events.',
+        condition: (data) => (data as SubscriberData)?.type === 'webhook',
+      },
+    },
+    {
+      name: 'webhookDeliveries',
+      type: 'join',
+      collection: 'webhook-deliveries',
+      on: 'subscriber',
+      label: 'Delivery Log',
+      defaultSort: '-createdAt',
+      defaultLimit: 20,
+      access: {
+        read: authenticatedFieldRead,
+      },
+      admin: {
+        defaultColumns: ['event', 'status', 'attempts', 'responseStatus', 'lastAttemptAt'],
+        condition: (data) => (data as SubscriberData)?.type === 'webhook',
+      },
+    },
+    {
+      name: 'allServices',
+      type: 'checkbox',
+      defaultValue: true,
+      label: 'All Services',
+      admin: {
+        description: 'Receive notifications about every service. Untick to choose service groups and services.',
+        condition: (data) => (data as SubscriberData)?.type !== 'webhook',
+      },
+    },
+    {
+      name: 'subscribedGroups',
+      type: 'relationship',
+      relationTo: 'service-groups',
+      hasMany: true,
+      label: 'Service Groups',
+      admin: {
+        description: 'Notifications about any service in these groups, including services added later',
+        condition: (data) => (data as SubscriberData)?.type !== 'webhook' && (data as SubscriberData)?.allServices === false,
+      },
+    },
+    {
+      name: 'subscribedServices',
+      type: 'relationship',
+      relationTo: 'services',
+      hasMany: true,
+      label: 'Services',
+      admin: {
+        description: 'Notifications about these individual services',
+        condition: (data) => (data as SubscriberData)?.type !== 'webhook' && (data as SubscriberData)?.allServices === false,
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'notifyIncidents',
+          type: 'checkbox',
+          defaultValue: true,
+          label: 'Incidents',
+          admin: {
+            description: 'Receive incident notifications',
+            condition: (data) => (data as SubscriberData)?.type !== 'webhook',
+            width: '50%',
+          },
+        },
+        {
+          name: 'notifyMaintenances',
+          type: 'checkbox',
+          defaultValue: true,
+          label: 'Maintenance',
+          admin: {
+            description: 'Receive scheduled maintenance notifications',
+            condition: (data) => (data as SubscriberData)?.type !== 'webhook',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'pausedUntil',
+      type: 'date',
+      label: 'Paused Until',
+      admin: {
+        description: 'No notifications are sent before this time. Set by the subscriber from the manage subscription page.',
+        condition: (data) => (data as SubscriberData)?.type !== 'webhook',
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
     {
       name: 'verified',
       type: 'checkbox',
       defaultValue: false,
       label: 'Verified',
+      access: {
+        // Public signups are verified through the confirmation link or code
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
       admin: {
-        description: 'Whether the subscription has been verified',
+        description: 'Whether the subscription has been confirmed. Only verified email and SMS subscribers receive notifications.',
+      },
+    },
+    {
+      name: 'pendingEmail',
+      type: 'email',
+      label: 'New Email Address',
+      access: {
+        read: authenticatedFieldRead,
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
+      admin: {
+        description: 'Address requested on the manage subscription page. It replaces the current one once confirmed.',
+        readOnly: true,
+        condition: (data) => Boolean((data as SubscriberData)?.pendingEmail),
+      },
+    },
+    {
+      name: 'pendingPhone',
+      type: 'text',
+      label: 'New Phone Number',
+      index: true,
+      access: {
+        read: authenticatedFieldRead,
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
+      admin: {
+        description: 'Phone number requested on the manage subscription page. It replaces the current one once confirmed.',
+        readOnly: true,
+        condition: (data) => Boolean((data as SubscriberData)?.pendingPhone),
       },
     },
     {
       name: 'verificationToken',
       type: 'text',
       label: 'Verification Token',
+      index: true,
+      access: {
+        read: authenticatedFieldRead,
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
       admin: {
         description: 'Token used for email/phone verification',
         readOnly: true,
@@ -157,13 +393,75 @@ export const Subscribers: CollectionConfig = {
         ],
       },
     },
+    {
+      name: 'verificationCode',
+      type: 'text',
+      label: 'Verification Code',
+      access: {
+        read: authenticatedFieldRead,
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
+      admin: {
+        description: 'Code sent by SMS to confirm the phone number',
+        readOnly: true,
+        condition: (data) => (data as SubscriberData)?.type === 'sms' && !(data as SubscriberData)?.verified,
+      },
+    },
+    {
+      name: 'verificationAttempts',
+      type: 'number',
+      defaultValue: 0,
+      access: {
+        read: authenticatedFieldRead,
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
+    {
+      name: 'verificationSendCount',
+      type: 'number',
+      defaultValue: 0,
+      access: {
+        read: authenticatedFieldRead,
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
+    {
+      name: 'verificationSentAt',
+      type: 'date',
+      label: 'Confirmation Sent',
+      access: {
+        create: authenticatedOrTestFieldWrite,
+        update: authenticatedOrTestFieldWrite,
+      },
+      admin: {
+        description: 'When the last confirmation email or SMS was sent. Unconfirmed signups expire after 48 hours.',
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
     {
       name: 'unsubscribeToken',
       type: 'text',
       label: 'Unsubscribe Token',
       unique: true,
+      access: {
+        // Grants access to the manage subscription page
+        read: authenticatedOrTestFieldRead,
+      },
       admin: {
-        description: 'Token used for one-click unsubscribe',
+        description: 'Token used for one-click unsubscribe and the manage subscription page',
         readOnly: true,
       },
       hooks: {
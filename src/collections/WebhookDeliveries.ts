@@ -0,0 +1,142 @@
+import type { CollectionConfig } from 'payload'
+import { webhookEventOptions } from './Subscribers'
+
+export const webhookDeliveryStatusOptions = [
+  { label: 'Pending', value: 'pending' },
+  { label: 'Delivered', value: 'delivered' },
+  { label: 'Failed', value: 'failed' },
+] as const
+
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatusOptions)[number]['value']
+
+/**
+ * Log of every event sent to a webhook subscriber.
+ * Created by emitWebhookEvent and updated by the deliverWebhook task on each
+ * attempt, so failed deliveries can be inspected from the subscriber.
+ */
+export const WebhookDeliveries: CollectionConfig = {
+  slug: 'webhook-deliveries',
+  labels: {
+    singular: 'Webhook Delivery',
+    plural: 'Webhook Deliveries',
+  },
+  admin: {
+    useAsTitle: 'event',
+    defaultColumns: ['event', 'subscriber', 'status', 'attempts', 'responseStatus', 'lastAttemptAt'],
+    group: 'Notifications',
+    description: 'Events sent to webhook subscribers (read-only)',
+  },
+  access: {
+    read: ({ req: { user } }) => !!user,
+    create: () => false,
+    update: () => false,
+    delete: ({ req: { user } }) => !!user,
+  },
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      name: 'subscriber',
+      type: 'relationship',
+      relationTo: 'subscribers',
+      required: true,
+      index: true,
+      label: 'Subscriber',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'event',
+      type: 'select',
+      required: true,
+      options: [...webhookEventOptions],
+      label: 'Event',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'pending',
+      options: [...webhookDeliveryStatusOptions],
+      index: true,
+      label: 'Status',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'attempts',
+      type: 'number',
+      defaultValue: 0,
+      label: 'Attempts',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'lastAttemptAt',
+      type: 'date',
+      label: 'Last Attempt',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'deliveredAt',
+      type: 'date',
+      label: 'Delivered At',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'body',
+      type: 'json',
+      required: true,
+      label: 'Payload',
+      admin: {
+        readOnly: true,
+        description: 'JSON body sent to the webhook',
+      },
+    },
+    {
+      name: 'responseStatus',
+      type: 'number',
+      label: 'Response Status',
+      admin: {
+        readOnly: true,
+        description: 'HTTP status code of the last attempt',
+      },
+    },
+    {
+      name: 'responseBody',
+      type: 'textarea',
+      label: 'Response Body',
+      admin: {
+        readOnly: true,
+        description: 'Start of the response body of the last attempt',
+      },
+    },
+    {
+      name: 'error',
+      type: 'text',
+      label: 'Error',
+      admin: {
+        readOnly: true,
+      },
+    },
+  ],
+}
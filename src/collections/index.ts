@@ -1,8 +1,12 @@
 export { ServiceGroups } from './ServiceGroups'
 export { Services } from './Services'
+export { MonitoringResults } from './MonitoringResults'
+export { Probes } from './Probes'
 export { Incidents } from './Incidents'
 export { Maintenances } from './Maintenances'
 export { Notifications } from './Notifications'
+export { NotificationDeliveries } from './NotificationDeliveries'
 export { Subscribers } from './Subscribers'
+export { WebhookDeliveries } from './WebhookDeliveries'
 export { Users } from './Users'
 export { Media } from './Media'
@@ -0,0 +1,11 @@
+import React from 'react'
+import Link from 'next/link'
+import './DependencyGraphNavLink.scss'
+
+export const DependencyGraphNavLink: React.FC = () => {
+  return (
+    <Link href="/admin/dependencies" className="dependency-graph-nav-link">
+      Service Dependencies
+    </Link>
+  )
+}
@@ -0,0 +1,198 @@
+import React from 'react'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import type { AdminViewServerProps } from 'payload'
+import { DefaultTemplate } from '@payloadcms/next/templates'
+import { Gutter } from '@payloadcms/ui'
+import { serviceStatusOptions } from '@/collections/Services'
+import { getDependencyIds, getDependencyLayers, getEffectiveStatuses } from '@/lib/dependencies'
+import './DependencyGraphView.scss'
+
+const NODE_WIDTH = 200
+const NODE_HEIGHT = 52
+const COLUMN_GAP = 96
+const ROW_GAP = 20
+const PADDING = 16
+
+const statusLabels = Object.fromEntries(serviceStatusOptions.map((option) => [option.value, option.label]))
+
+// Keep long service names inside their node
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+export async function DependencyGraphView({ initPageResult, params, searchParams }: AdminViewServerProps) {
+  const { req, locale, permissions, visibleEntities } = initPageResult
+  const { payload, user, i18n } = req
+  const adminRoute = payload.config.routes.admin
+
+  if (!user) {
+    redirect(`${adminRoute}/login`)
+  }
+
+  const result = await payload.find({
+    collection: 'services',
+    depth: 0,
+    pagination: false,
+    sort: 'name',
+    select: {
+      name: true,
+      status: true,
+      dependsOn: true,
+    },
+  })
+  const services = result.docs
+  const byId = new Map(services.map((service) => [service.id, service]))
+  const effective = getEffectiveStatuses(services)
+  const layers = getDependencyLayers(services)
+
+  // Position nodes column by column, dependencies on the left
+  const positions = new Map<number, { x: number; y: number }>()
+  const rowsPerLayer = new Map<number, number>()
+  for (const service of services) {
+    const layer = layers.get(service.id) || 0
+    const row = rowsPerLayer.get(layer) || 0
+    rowsPerLayer.set(layer, row + 1)
+    positions.set(service.id, {
+      x: PADDING + layer * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+    })
+  }
+
+  const columns = Math.max(0, ...rowsPerLayer.keys()) + 1
+  const rows = Math.max(0, ...rowsPerLayer.values())
+  const width = PADDING * 2 + columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP
+  const height = PADDING * 2 + rows * NODE_HEIGHT + Math.max(rows - 1, 0) * ROW_GAP
+
+  const edges = services.flatMap((service) =>
+    getDependencyIds(service)
+      .filter((dependencyId) => byId.has(dependencyId))
+      .map((dependencyId) => ({ from: dependencyId, to: service.id })),
+  )
+
+  const requiredBy = new Map<number, string[]>()
+  for (const edge of edges) {
+    requiredBy.set(edge.from, [...(requiredBy.get(edge.from) || []), byId.get(edge.to)!.name])
+  }
+
+  return (
+    <DefaultTemplate
+      i18n={i18n}
+      locale={locale}
+      params={params}
+      payload={payload}
+      permissions={permissions}
+      searchParams={searchParams}
+      user={user || undefined}
+      visibleEntities={visibleEntities}
+    >
+      <Gutter>
+        <div className="dependency-graph">
+          <h1 className="dependency-graph__title">Service Dependencies</h1>
+          <p className="dependency-graph__description">
+            Arrows point from a service to the services that depend on it. An outage of a dependency shows its
+            dependents as Partial Outage on the status page.
+          </p>
+
+          {services.length === 0 ? (
+            <div className="dependency-graph__empty">No services have been created yet.</div>
+          ) : (
+            <>
+              {edges.length === 0 && (
+                <div className="dependency-graph__empty">
+                  No dependencies configured yet. Set &quot;Depends On&quot; on a service to build the graph.
+                </div>
+              )}
+
+              <div className="dependency-graph__canvas">
+                <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Service dependency graph">
+                  <defs>
+                    <marker id="dependency-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+                      <path d="M 0 0 L 10 5 L 0 10 z" className="dependency-graph__arrow" />
+                    </marker>
+                  </defs>
+
+                  {edges.map((edge) => {
+                    const from = positions.get(edge.from)!
+                    const to = positions.get(edge.to)!
+                    const x1 = from.x + NODE_WIDTH
+                    const y1 = from.y + NODE_HEIGHT / 2
+                    const x2 = to.x
+                    const y2 = to.y + NODE_HEIGHT / 2
+                    const bend = Math.max((x2 - x1) / 2, COLUMN_GAP / 2)
+                    const impacted = effective.get(edge.to)?.causes.includes(edge.from)
+
+                    return (
+                      <path
+                        key={`${edge.from}-${edge.to}`}
+                        d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                        className={`dependency-graph__edge${impacted ? ' dependency-graph__edge--impacted' : ''}`}
+                        markerEnd="url(#dependency-graph-arrow)"
+                      />
+                    )
+                  })}
+
+                  {services.map((service) => {
+                    const { x, y } = positions.get(service.id)!
+                    const status = effective.get(service.id)?.status || service.status
+
+                    return (
+                      <a key={service.id} href={`${adminRoute}/collections/services/${service.id}`}>
+                        <g className={`dependency-graph__node dependency-graph__node--${status}`}>
+                          <title>{service.name}</title>
+                          <rect x={x} y={y} width={NODE_WIDTH} height={NODE_HEIGHT} rx={8} />
+                          <text x={x + 12} y={y + 21} className="dependency-graph__node-name">
+                            {truncate(service.name, 24)}
+                          </text>
+                          <text x={x + 12} y={y + 39} className="dependency-graph__node-status">
+                            {statusLabels[status]}
+                            {status !== service.status ? ' (dependency)' : ''}
+                          </text>
+                        </g>
+                      </a>
+                    )
+                  })}
+                </svg>
+              </div>
+
+              <table className="dependency-graph__table">
+                <thead>
+                  <tr>
+                    <th>Service</th>
+                    <th>Status</th>
+                    <th>Depends On</th>
+                    <th>Required By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {services.map((service) => {
+                    const serviceStatus = effective.get(service.id)
+                    const dependencies = getDependencyIds(service)
+                      .map((id) => byId.get(id)?.name)
+                      .filter(Boolean)
+
+                    return (
+                      <tr key={service.id}>
+                        <td>
+                          <Link href={`${adminRoute}/collections/services/${service.id}`}>{service.name}</Link>
+                        </td>
+                        <td>
+                          {statusLabels[serviceStatus?.status || service.status]}
+                          {serviceStatus?.note && (
+                            <div className="dependency-graph__note">{serviceStatus.note}</div>
+                          )}
+                        </td>
+                        <td>{dependencies.join(', ') || '—'}</td>
+                        <td>{(requiredBy.get(service.id) || []).join(', ') || '—'}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </Gutter>
+    </DefaultTemplate>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useFormFields } from '@payloadcms/ui'
+import { emailTemplateOptions, type EmailTemplate } from '@/lib/emailTemplates'
+import './EmailTemplatePreview.scss'
+
+// Renders the real notification email from the unsaved template settings
+export const EmailTemplatePreview: React.FC = () => {
+  const [template, setTemplate] = useState<EmailTemplate>('templateIncidentNew')
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const body = useFormFields(([fields]) => fields[template]?.value as string | undefined)
+  const brandColor = useFormFields(([fields]) => fields.brandColor?.value as string | undefined)
+  const footerText = useFormFields(([fields]) => fields.footerText?.value as string | undefined)
+  const markdown = useFormFields(([fields]) => fields.markdownBodies?.value as boolean | undefined)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    // Wait for typing to pause before rendering
+    const timeout = setTimeout(async () => {
+      setLoading(true)
+      try {
+        const response = await fetch('/api/email-preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ template, body, brandColor, footerText, markdown }),
+          signal: controller.signal,
+        })
+        const data = await response.json()
+
+        if (response.ok) {
+          setPreview(data)
+          setError(null)
+        } else {
+          setError(data.error || 'Failed to render preview')
+        }
+      } catch (_error) {
+        if (!controller.signal.aborted) {
+          setError('Network error - please try again')
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false)
+        }
+      }
+    }, 400)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [template, body, brandColor, footerText, markdown])
+
+  return (
+    <div className="email-template-preview">
+      <div className="email-template-preview__header">
+        <label className="email-template-preview__label" htmlFor="email-template-preview-select">
+          Preview
+          {loading && <span className="email-template-preview__loading">Rendering...</span>}
+        </label>
+        <select
+          id="email-template-preview-select"
+          className="email-template-preview__select"
+          value={template}
+          onChange={(event) => setTemplate(event.target.value as EmailTemplate)}
+        >
+          {emailTemplateOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <div className="email-template-preview__error">{error}</div>}
+
+      {preview && (
+        <>
+          <div className="email-template-preview__subject">
+            <strong>Subject:</strong> {preview.subject}
+          </div>
+          <iframe
+            className="email-template-preview__frame"
+            title="Email preview"
+            srcDoc={preview.html}
+            sandbox=""
+          />
+        </>
+      )}
+
+      <p className="email-template-preview__description">
+        Example content with the unsaved template, brand colour and footer. Save to use them for new notification drafts.
+      </p>
+    </div>
+  )
+}
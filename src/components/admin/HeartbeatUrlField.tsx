@@ -0,0 +1,48 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useField } from '@payloadcms/ui'
+import './HeartbeatUrlField.scss'
+
+export const HeartbeatUrlField: React.FC = () => {
+  const [origin, setOrigin] = useState('')
+  const [copied, setCopied] = useState(false)
+  const tokenField = useField<string>({ path: 'monitoring.pushToken' })
+  const token = tokenField.value
+
+  useEffect(() => {
+    setOrigin(window.location.origin)
+  }, [])
+
+  const url = token ? `${origin}/api/heartbeat/${token}` : ''
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Error copying heartbeat URL:', error)
+    }
+  }
+
+  return (
+    <div className="heartbeat-url-field">
+      <label className="heartbeat-url-field__label">Heartbeat URL</label>
+      {token ? (
+        <div className="heartbeat-url-field__row">
+          <code className="heartbeat-url-field__url">{url}</code>
+          <button type="button" className="heartbeat-url-field__copy" onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      ) : (
+        <p className="heartbeat-url-field__empty">Save the service to generate its heartbeat URL.</p>
+      )}
+      <p className="heartbeat-url-field__description">
+        Send a GET or POST request to this URL from your job. Add <code>?status=fail&amp;msg=...</code> to
+        report a failure. Keep this URL secret.
+      </p>
+    </div>
+  )
+}
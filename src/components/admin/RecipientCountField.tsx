@@ -4,6 +4,9 @@ import React, { useEffect, useState } from 'react'
 import { useField, useDocumentInfo } from '@payloadcms/ui'
 import './RecipientCountField.scss'
 
+// Chat channels post to a workspace, so there are no subscribers to count
+const CHAT_CHANNELS = ['slack', 'teams', 'discord']
+
 export const RecipientCountField: React.FC = () => {
   const [count, setCount] = useState<number | null>(null)
   const [loading, setLoading] = useState(false)
@@ -12,25 +15,39 @@ export const RecipientCountField: React.FC = () => {
   const channelField = useField<string>({ path: 'channel' })
   const statusField = useField<string>({ path: 'status' })
   const recipientCountField = useField<number>({ path: 'recipientCount' })
+  const incidentField = useField<number | null>({ path: 'relatedIncident' })
+  const maintenanceField = useField<number | null>({ path: 'relatedMaintenance' })
 
   const channel = channelField.value || 'both'
   const status = statusField.value || 'draft'
   const savedCount = recipientCountField.value
+  const incidentId = incidentField.value
+  const maintenanceId = maintenanceField.value
 
   // For sent notifications, show the saved count
   const isSent = status === 'sent'
+  const isChat = CHAT_CHANNELS.includes(channel)
 
   useEffect(() => {
+    if (isChat) {
+      setCount(null)
+      return
+    }
+
     if (isSent) {
       setCount(savedCount || 0)
       return
     }
 
-    // Fetch estimated count based on channel
+    // Fetch estimated count based on channel and the services of the related incident or maintenance
     const fetchCount = async () => {
       setLoading(true)
       try {
-        const response = await fetch(`/api/subscribers/count?channel=${channel}`)
+        const params = new URLSearchParams({ channel })
+        if (incidentId) params.set('incident', String(incidentId))
+        if (maintenanceId) params.set('maintenance', String(maintenanceId))
+
+        const response = await fetch(`/api/subscribers/count?${params}`)
         if (response.ok) {
           const data = await response.json()
           setCount(data.count)
@@ -43,7 +60,11 @@ export const RecipientCountField: React.FC = () => {
     }
 
     fetchCount()
-  }, [channel, isSent, savedCount])
+  }, [channel, isChat, isSent, savedCount, incidentId, maintenanceId])
+
+  if (isChat) {
+    return null
+  }
 
   return (
     <div className="recipient-count-field">
@@ -61,7 +82,7 @@ export const RecipientCountField: React.FC = () => {
       <p className="recipient-count-field__description">
         {isSent 
           ? 'Number of subscribers who received this notification'
-          : 'Active subscribers who will receive this notification'
+          : 'Verified subscribers who follow the affected services and will receive this notification'
         }
       </p>
     </div>
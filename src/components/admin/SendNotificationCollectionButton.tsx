@@ -4,8 +4,16 @@ import React, { useState } from 'react'
 import { useDocumentInfo, useField } from '@payloadcms/ui'
 import './SendNotificationButton.scss'
 
+// Channels that post to a chat service instead of sending to subscribers
+const chatChannelLabels: Record<string, string> = {
+  slack: 'Slack',
+  teams: 'Microsoft Teams',
+  discord: 'Discord',
+}
+
 export const SendNotificationCollectionButton: React.FC = () => {
   const [sending, setSending] = useState(false)
+  const [scheduling, setScheduling] = useState(false)
   const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
 
   const { id } = useDocumentInfo()
@@ -14,23 +22,33 @@ export const SendNotificationCollectionButton: React.FC = () => {
   const subjectField = useField<string>({ path: 'subject' })
   const emailBodyField = useField<string>({ path: 'emailBody' })
   const smsBodyField = useField<string>({ path: 'smsBody' })
+  const sendAtField = useField<string>({ path: 'sendAt' })
 
   const errorMessageField = useField<string>({ path: 'errorMessage' })
+  const failedRecipientCountField = useField<number>({ path: 'failedRecipientCount' })
+  const recipientCountField = useField<number>({ path: 'recipientCount' })
 
   const status = statusField.value
   const channel = channelField.value
   const subject = subjectField.value
   const emailBody = emailBodyField.value
   const smsBody = smsBodyField.value
+  const sendAt = sendAtField.value
   const savedError = errorMessageField.value
+  const failedRecipientCount = failedRecipientCountField.value || 0
+  const recipientCount = recipientCountField.value || 0
 
   const isSent = status === 'sent'
   const isFailed = status === 'failed'
   const isDraft = status === 'draft'
+  const isScheduled = status === 'scheduled'
+  const isSending = status === 'sending'
+  const hasFutureSendAt = !!sendAt && new Date(sendAt).getTime() > Date.now()
 
   // Validate that we have content to send
   const hasEmailContent = channel !== 'sms' && subject && emailBody
-  const hasSmsContent = channel !== 'email' && smsBody
+  const chatChannelLabel = chatChannelLabels[channel]
+  const hasSmsContent = (channel === 'sms' || channel === 'both') && smsBody
   const hasContent = hasEmailContent || hasSmsContent
 
   const handleSend = async () => {
@@ -51,7 +69,11 @@ export const SendNotificationCollectionButton: React.FC = () => {
       if (response.ok && data.success) {
         setResult({
           success: true,
-          message: `Sent to ${data.totalRecipients} subscriber(s)`,
+          message: chatChannelLabel
+            ? `Posted to ${chatChannelLabel}`
+            : data.status === 'sending'
+              ? `Sent to ${data.totalRecipients} subscriber(s) so far; the rest are being sent in the background`
+              : `Sent to ${data.totalRecipients} subscriber(s)`,
         })
         // Reload the page to reflect the updated status
         setTimeout(() => {
@@ -73,6 +95,88 @@ export const SendNotificationCollectionButton: React.FC = () => {
     }
   }
 
+  // Schedule the send for the chosen time, or cancel a scheduled send
+  const handleSchedule = async (cancel: boolean) => {
+    if (!id) return
+
+    setScheduling(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/notifications/schedule', {
+        method: cancel ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(cancel ? { notificationId: id } : { notificationId: id, sendAt }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok && data.success) {
+        setResult({
+          success: true,
+          message: cancel ? 'Scheduled send cancelled' : `Scheduled for ${new Date(data.sendAt).toLocaleString()}`,
+        })
+        setTimeout(() => {
+          window.location.reload()
+        }, 1500)
+      } else {
+        setResult({
+          success: false,
+          message: data.error || (cancel ? 'Failed to cancel scheduled send' : 'Failed to schedule notification'),
+        })
+      }
+    } catch (_error) {
+      setResult({
+        success: false,
+        message: 'Network error - please try again',
+      })
+    } finally {
+      setScheduling(false)
+    }
+  }
+
+  // Resend only to the recipients whose delivery failed
+  const handleRetryFailed = async () => {
+    if (!id) return
+
+    setSending(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/notifications/retry-failed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notificationId: id }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok && data.success) {
+        setResult({
+          success: data.stillFailed === 0,
+          message: data.stillFailed === 0
+            ? `Sent to all ${data.retried} failed recipient(s)`
+            : `${data.stillFailed} of ${data.retried} recipient(s) still failing`,
+        })
+        setTimeout(() => {
+          window.location.reload()
+        }, 1500)
+      } else {
+        setResult({
+          success: false,
+          message: data.error || 'Failed to retry failed recipients',
+        })
+      }
+    } catch (_error) {
+      setResult({
+        success: false,
+        message: 'Network error - please try again',
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
   if (!id) {
     return (
       <div className="send-notification-button">
@@ -89,6 +193,81 @@ export const SendNotificationCollectionButton: React.FC = () => {
         <div className="send-notification-button__sent">
           ✓ Notification sent successfully
         </div>
+
+        {failedRecipientCount > 0 && (
+          <>
+            <div className="send-notification-button__warning">
+              {failedRecipientCount} recipient(s) failed{savedError ? `: ${savedError}` : ''}
+            </div>
+
+            {result && (
+              <div className={`send-notification-button__result ${result.success ? 'send-notification-button__result--success' : 'send-notification-button__result--error'}`}>
+                {result.message}
+              </div>
+            )}
+
+            <button
+              type="button"
+              className="send-notification-button__button"
+              onClick={handleRetryFailed}
+              disabled={sending}
+            >
+              {sending ? (
+                <>
+                  <span className="send-notification-button__spinner" />
+                  Retrying...
+                </>
+              ) : (
+                'Retry Failed Recipients'
+              )}
+            </button>
+          </>
+        )}
+      </div>
+    )
+  }
+
+  if (isSending) {
+    return (
+      <div className="send-notification-button">
+        <div className="send-notification-button__info">
+          Notification is being sent...{recipientCount ? ` ${recipientCount} subscriber(s) so far.` : ''}
+        </div>
+      </div>
+    )
+  }
+
+  if (isScheduled) {
+    return (
+      <div className="send-notification-button">
+        {result && (
+          <div className={`send-notification-button__result ${result.success ? 'send-notification-button__result--success' : 'send-notification-button__result--error'}`}>
+            {result.message}
+          </div>
+        )}
+
+        <div className="send-notification-button__scheduled">
+          Scheduled to send {sendAt ? `at ${new Date(sendAt).toLocaleString()}` : 'soon'}
+        </div>
+
+        <div className="send-notification-button__actions">
+          <button
+            type="button"
+            className="send-notification-button__button"
+            onClick={() => handleSchedule(false)}
+            disabled={scheduling || !hasFutureSendAt}
+          >
+            Reschedule
+          </button>
+          <button
+            type="button"
+            className="send-notification-button__button send-notification-button__button--secondary"
+            onClick={() => handleSchedule(true)}
+            disabled={scheduling}
+          >
+            {scheduling ? 'Cancelling...' : 'Cancel Scheduled Send'}
+          </button>
+        </div>
       </div>
     )
   }
@@ -104,7 +283,7 @@ export const SendNotificationCollectionButton: React.FC = () => {
 
       {!hasContent && (isDraft || isFailed) && (
         <div className="send-notification-button__warning">
-          Add {channel === 'email' ? 'subject and email body' : channel === 'sms' ? 'SMS message' : 'message content'} before sending.
+          Add {channel === 'email' || chatChannelLabel ? 'subject and email body' : channel === 'sms' ? 'SMS message' : 'message content'} before sending.
         </div>
       )}
 
@@ -114,27 +293,38 @@ export const SendNotificationCollectionButton: React.FC = () => {
         </div>
       )}
 
-      <button
-        type="button"
-        className="send-notification-button__button"
-        onClick={handleSend}
-        disabled={sending || (!isDraft && !isFailed) || !hasContent}
-      >
-        {sending ? (
-          <>
-            <span className="send-notification-button__spinner" />
-            Sending...
-          </>
-        ) : (
-          <>
-            <svg className="send-notification-button__icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <path d="M22 2L11 13" />
-              <path d="M22 2L15 22L11 13L2 9L22 2Z" />
-            </svg>
-            {isFailed ? 'Retry Send' : 'Send Notification Now'}
-          </>
-        )}
-      </button>
+      <div className="send-notification-button__actions">
+        <button
+          type="button"
+          className="send-notification-button__button"
+          onClick={handleSend}
+          disabled={sending || scheduling || (!isDraft && !isFailed) || !hasContent}
+        >
+          {sending ? (
+            <>
+              <span className="send-notification-button__spinner" />
+              Sending...
+            </>
+          ) : (
+            <>
+              <svg className="send-notification-button__icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M22 2L11 13" />
+                <path d="M22 2L15 22L11 13L2 9L22 2Z" />
+              </svg>
+              {isFailed ? 'Retry Send' : 'Send Notification Now'}
+            </>
+          )}
+        </button>
+        <button
+          type="button"
+          className="send-notification-button__button send-notification-button__button--secondary"
+          onClick={() => handleSchedule(false)}
+          disabled={sending || scheduling || !hasContent || !hasFutureSendAt}
+          title={hasFutureSendAt ? undefined : 'Pick a future Send At time first'}
+        >
+          {scheduling ? 'Scheduling...' : 'Schedule Send'}
+        </button>
+      </div>
     </div>
   )
 }
@@ -3,17 +3,23 @@
 import { ChevronDown } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
+import type { ServiceUptime } from "@/lib/uptime";
 import { StatusIndicator, type ServiceStatus } from "./StatusIndicator";
+import { UptimeBars, formatUptime } from "./UptimeBars";
 
 export interface Service {
   name: string;
   status: ServiceStatus;
   description?: string;
+  // Explains a status propagated from a dependency
+  note?: string;
+  uptime?: ServiceUptime;
 }
 
 interface ServiceGroupProps {
   name: string;
   services: Service[];
+  uptime?: number | null;
   defaultExpanded?: boolean;
 }
 
@@ -27,15 +33,23 @@ function getGroupStatus(services: Service[]): ServiceStatus {
   return "operational";
 }
 
-export function ServiceGroup({ name, services, defaultExpanded = true }: ServiceGroupProps) {
+export function ServiceGroup({ name, services, uptime, defaultExpanded = true }: ServiceGroupProps) {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  // Overflow is only released after the expand transition so uptime tooltips are not clipped
+  const [isSettled, setIsSettled] = useState(defaultExpanded);
   const groupStatus = getGroupStatus(services);
 
   return (
-    <div className="overflow-hidden rounded-lg border border-border bg-card transition-all duration-200">
+    <div className="rounded-lg border border-border bg-card transition-all duration-200">
       <button
-        onClick={() => setIsExpanded(!isExpanded)}
-        className="flex w-full items-center justify-between bg-secondary/50 px-5 py-4 text-left transition-colors hover:bg-secondary/80"
+        onClick={() => {
+          setIsExpanded(!isExpanded);
+          setIsSettled(false);
+        }}
+        className={cn(
+          "flex w-full items-center justify-between rounded-t-lg bg-secondary/50 px-5 py-4 text-left transition-colors hover:bg-secondary/80",
+          !isExpanded && "rounded-b-lg"
+        )}
       >
         <div className="flex items-center gap-3">
           <ChevronDown
@@ -46,7 +60,12 @@ export function ServiceGroup({ name, services, defaultExpanded = true }: Service
           />
           <span className="font-semibold text-foreground">{name}</span>
         </div>
-        <StatusIndicator status={groupStatus} showLabel={false} />
+        <div className="flex items-center gap-3">
+          {uptime !== undefined && uptime !== null && (
+            <span className="text-xs text-muted-foreground">{formatUptime(uptime)} uptime</span>
+          )}
+          <StatusIndicator status={groupStatus} showLabel={false} />
+        </div>
       </button>
 
       <div
@@ -54,21 +73,36 @@ export function ServiceGroup({ name, services, defaultExpanded = true }: Service
           "grid transition-all duration-200",
           isExpanded ? "grid-rows-[1fr]" : "grid-rows-[0fr]"
         )}
+        onTransitionEnd={(e) => {
+          if (e.target === e.currentTarget) setIsSettled(isExpanded);
+        }}
       >
-        <div className="overflow-hidden">
+        <div className={isExpanded && isSettled ? "overflow-visible" : "overflow-hidden"}>
           <div className="divide-y divide-border">
             {services.map((service) => (
               <div
                 key={service.name}
-                className="flex items-center justify-between px-5 py-4 transition-colors hover:bg-muted/30"
+                className="px-5 py-4 transition-colors hover:bg-muted/30"
               >
-                <div className="flex flex-col gap-0.5">
-                  <span className="text-sm font-medium text-foreground">{service.name}</span>
-                  {service.description && (
-                    <span className="text-xs text-muted-foreground">{service.description}</span>
-                  )}
+                <div className="flex items-center justify-between">
+                  <div className="flex flex-col gap-0.5">
+                    <span className="text-sm font-medium text-foreground">{service.name}</span>
+                    {service.description && (
+                      <span className="text-xs text-muted-foreground">{service.description}</span>
+                    )}
+                    {service.note && (
+                      <span className="text-xs text-status-partial" data-testid="service-status-note">
+                        {service.note}
+                      </span>
+                    )}
+                  </div>
+                  <StatusIndicator status={service.status} />
                 </div>
-                <StatusIndicator status={service.status} />
+                {service.uptime && (
+                  <div className="mt-3">
+                    <UptimeBars days={service.uptime.days} uptime={service.uptime.uptime} />
+                  </div>
+                )}
               </div>
             ))}
           </div>
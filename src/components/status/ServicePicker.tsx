@@ -0,0 +1,127 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+export interface ServicePickerGroup {
+  id: number;
+  name: string;
+  services: { id: number; name: string }[];
+}
+
+export interface ServiceSelection {
+  allServices: boolean;
+  services: number[];
+  groups: number[];
+}
+
+interface ServicePickerProps {
+  groups: ServicePickerGroup[];
+  value: ServiceSelection;
+  onChange: (value: ServiceSelection) => void;
+  error?: string;
+}
+
+// Choose between all services and a selection of groups and individual services
+export function ServicePicker({ groups, value, onChange, error }: ServicePickerProps) {
+  if (groups.length === 0) return null;
+
+  const toggleGroup = (group: ServicePickerGroup) => {
+    if (value.groups.includes(group.id)) {
+      onChange({ ...value, groups: value.groups.filter((id) => id !== group.id) });
+    } else {
+      // A selected group covers its services, including ones added later
+      const groupServiceIds = group.services.map((service) => service.id);
+      onChange({
+        ...value,
+        groups: [...value.groups, group.id],
+        services: value.services.filter((id) => !groupServiceIds.includes(id)),
+      });
+    }
+  };
+
+  const toggleService = (serviceId: number) => {
+    onChange({
+      ...value,
+      services: value.services.includes(serviceId)
+        ? value.services.filter((id) => id !== serviceId)
+        : [...value.services, serviceId],
+    });
+  };
+
+  return (
+    <fieldset>
+      <legend className="mb-1.5 block text-sm font-medium text-foreground">Notify me about</legend>
+      <div className="flex gap-2">
+        {[
+          { label: "All services", allServices: true },
+          { label: "Selected services", allServices: false },
+        ].map((option) => (
+          <button
+            key={option.label}
+            type="button"
+            onClick={() => onChange({ ...value, allServices: option.allServices })}
+            aria-pressed={value.allServices === option.allServices}
+            className={cn(
+              "flex-1 rounded-lg border px-3 py-2 text-sm font-medium transition-all",
+              value.allServices === option.allServices
+                ? "border-primary bg-primary/10 text-foreground"
+                : "border-input text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {!value.allServices && (
+        <div
+          className={cn(
+            "mt-3 max-h-56 space-y-3 overflow-y-auto rounded-lg border p-3",
+            error ? "border-destructive" : "border-input"
+          )}
+        >
+          {groups.map((group) => {
+            const groupSelected = value.groups.includes(group.id);
+
+            return (
+              <div key={group.id}>
+                <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={groupSelected}
+                    onChange={() => toggleGroup(group)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  {group.name}
+                </label>
+                {group.services.length > 0 && (
+                  <div className="ml-6 mt-1.5 space-y-1.5">
+                    {group.services.map((service) => (
+                      <label
+                        key={service.id}
+                        className={cn(
+                          "flex items-center gap-2 text-sm",
+                          groupSelected ? "text-muted-foreground" : "text-foreground"
+                        )}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={groupSelected || value.services.includes(service.id)}
+                          disabled={groupSelected}
+                          onChange={() => toggleService(service.id)}
+                          className="h-4 w-4 accent-primary"
+                        />
+                        {service.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {error && <p className="mt-1.5 text-xs text-destructive">{error}</p>}
+    </fieldset>
+  );
+}
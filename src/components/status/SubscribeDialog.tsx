@@ -4,14 +4,18 @@ import { useState, useEffect } from "react";
 import { Mail, MessageSquare, X, Bell, AlertCircle } from "lucide-react";
 import { z } from "zod";
 import { cn } from "@/lib/utils";
+import { ServicePicker, type ServicePickerGroup, type ServiceSelection } from "./ServicePicker";
 
 type SubscriptionMethod = "email" | "sms";
 
 interface SubscriptionAvailability {
   email: boolean;
   sms: boolean;
+  groups?: ServicePickerGroup[];
 }
 
+const defaultSelection: ServiceSelection = { allServices: true, services: [], groups: [] };
+
 const emailSchema = z.object({
   email: z
     .string()
@@ -31,6 +35,13 @@ const smsSchema = z.object({
     }),
 });
 
+const codeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, { message: "Please enter the 6-digit code" }),
+});
+
 interface SubscribeDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -40,7 +51,11 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
   const [method, setMethod] = useState<SubscriptionMethod>("email");
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
-  const [errors, setErrors] = useState<{ email?: string; phone?: string }>({});
+  const [code, setCode] = useState("");
+  // Phone number waiting for its SMS confirmation code
+  const [codePhone, setCodePhone] = useState<string | null>(null);
+  const [selection, setSelection] = useState<ServiceSelection>(defaultSelection);
+  const [errors, setErrors] = useState<{ email?: string; phone?: string; code?: string; services?: string }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [availability, setAvailability] = useState<SubscriptionAvailability | null>(null);
@@ -76,6 +91,9 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
     if (!isOpen) {
       setErrors({});
       setSuccessMessage(null);
+      setCodePhone(null);
+      setCode("");
+      setSelection(defaultSelection);
     }
   }, [isOpen]);
 
@@ -85,6 +103,10 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
     setSuccessMessage(null);
     setIsSubmitting(true);
 
+    // Subscribing to selected services needs at least one group or service
+    const noServicesSelected = !selection.allServices && selection.services.length === 0 && selection.groups.length === 0;
+    const selectionBody = selection.allServices ? {} : { services: selection.services, groups: selection.groups };
+
     try {
       if (method === "email") {
         const result = emailSchema.safeParse({ email });
@@ -93,11 +115,16 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
           setIsSubmitting(false);
           return;
         }
+        if (noServicesSelected) {
+          setErrors({ services: "Choose at least one service" });
+          setIsSubmitting(false);
+          return;
+        }
         
         const response = await fetch("/api/subscribe", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ type: "email", email }),
+          body: JSON.stringify({ type: "email", email, ...selectionBody }),
         });
         
         if (!response.ok) {
@@ -111,8 +138,38 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
           throw new Error(errorMessage);
         }
         
-        setSuccessMessage(`You'll receive status updates at ${email}`);
+        setSuccessMessage(`Check your inbox and confirm your email to receive status updates at ${email}`);
         setEmail("");
+        setSelection(defaultSelection);
+      } else if (codePhone) {
+        const result = codeSchema.safeParse({ code });
+        if (!result.success) {
+          setErrors({ code: result.error.errors[0].message });
+          setIsSubmitting(false);
+          return;
+        }
+
+        const response = await fetch("/api/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ phone: codePhone, code: result.data.code }),
+        });
+
+        if (!response.ok) {
+          let errorMessage = "Failed to confirm code";
+          try {
+            const data = await response.json();
+            errorMessage = data.error || errorMessage;
+          } catch {
+            errorMessage = response.statusText || `Error ${response.status}`;
+          }
+          throw new Error(errorMessage);
+        }
+
+        setSuccessMessage(`You'll receive SMS updates at ${codePhone}`);
+        setCodePhone(null);
+        setCode("");
+        setSelection(defaultSelection);
       } else {
         const result = smsSchema.safeParse({ phone });
         if (!result.success) {
@@ -120,11 +177,16 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
           setIsSubmitting(false);
           return;
         }
+        if (noServicesSelected) {
+          setErrors({ services: "Choose at least one service" });
+          setIsSubmitting(false);
+          return;
+        }
         
         const response = await fetch("/api/subscribe", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ type: "sms", phone }),
+          body: JSON.stringify({ type: "sms", phone, ...selectionBody }),
         });
         
         if (!response.ok) {
@@ -138,8 +200,10 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
           throw new Error(errorMessage);
         }
         
-        setSuccessMessage(`You'll receive SMS updates at ${phone}`);
+        // Ask for the code sent by SMS before confirming
+        setCodePhone(phone);
         setPhone("");
+        return;
       }
       
       setTimeout(() => {
@@ -149,7 +213,7 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to subscribe. Please try again.";
       setErrors({ 
-        [method === "email" ? "email" : "phone"]: errorMessage 
+        [method === "email" ? "email" : codePhone ? "code" : "phone"]: errorMessage 
       });
     } finally {
       setIsSubmitting(false);
@@ -163,6 +227,18 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
   const onlySmsAvailable = !availability?.email && availability?.sms;
   const bothAvailable = availability?.email && availability?.sms;
 
+  const servicePicker = (
+    <ServicePicker
+      groups={availability?.groups || []}
+      value={selection}
+      onChange={(value) => {
+        setSelection(value);
+        setErrors(({ services: _, ...rest }) => rest);
+      }}
+      error={errors.services}
+    />
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       {/* Backdrop */}
@@ -323,8 +399,9 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
                     )}
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    We&apos;ll only email you when there are incidents or scheduled maintenance.
+                    We&apos;ll send you a link to confirm your address, then only email you when there are incidents or scheduled maintenance.
                   </p>
+                  {servicePicker}
                 </div>
               ) : (availability?.sms && method === "sms") || onlySmsAvailable ? (
                 <div className="space-y-4">
@@ -334,34 +411,82 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
                       <span>Subscribe via SMS</span>
                     </div>
                   )}
-                  <div>
-                    <label
-                      htmlFor="phone"
-                      className="mb-1.5 block text-sm font-medium text-foreground"
-                    >
-                      Phone Number
-                    </label>
-                    <input
-                      id="phone"
-                      type="tel"
-                      value={phone}
-                      onChange={(e) => setPhone(e.target.value)}
-                      placeholder="+1234567890"
-                      className={cn(
-                        "w-full rounded-lg border bg-background px-4 py-2.5 text-sm text-foreground",
-                        "placeholder:text-muted-foreground",
-                        "focus:outline-none focus:ring-2 focus:ring-primary/50",
-                        "transition-all",
-                        errors.phone ? "border-destructive" : "border-input"
+                  {codePhone ? (
+                    <div>
+                      <label
+                        htmlFor="code"
+                        className="mb-1.5 block text-sm font-medium text-foreground"
+                      >
+                        Confirmation Code
+                      </label>
+                      <input
+                        id="code"
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        maxLength={6}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="123456"
+                        className={cn(
+                          "w-full rounded-lg border bg-background px-4 py-2.5 text-sm tracking-widest text-foreground",
+                          "placeholder:text-muted-foreground",
+                          "focus:outline-none focus:ring-2 focus:ring-primary/50",
+                          "transition-all",
+                          errors.code ? "border-destructive" : "border-input"
+                        )}
+                      />
+                      {errors.code && (
+                        <p className="mt-1.5 text-xs text-destructive">{errors.code}</p>
                       )}
-                    />
-                    {errors.phone && (
-                      <p className="mt-1.5 text-xs text-destructive">{errors.phone}</p>
-                    )}
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    Include your country code. Standard SMS rates may apply.
-                  </p>
+                      <p className="mt-3 text-xs text-muted-foreground">
+                        Enter the code we sent to {codePhone}.{" "}
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setCodePhone(null);
+                            setCode("");
+                            setErrors({});
+                          }}
+                          className="text-primary hover:text-primary/80"
+                        >
+                          Use a different number
+                        </button>
+                      </p>
+                    </div>
+                  ) : (
+                    <>
+                      <div>
+                        <label
+                          htmlFor="phone"
+                          className="mb-1.5 block text-sm font-medium text-foreground"
+                        >
+                          Phone Number
+                        </label>
+                        <input
+                          id="phone"
+                          type="tel"
+                          value={phone}
+                          onChange={(e) => setPhone(e.target.value)}
+                          placeholder="+1234567890"
+                          className={cn(
+                            "w-full rounded-lg border bg-background px-4 py-2.5 text-sm text-foreground",
+                            "placeholder:text-muted-foreground",
+                            "focus:outline-none focus:ring-2 focus:ring-primary/50",
+                            "transition-all",
+                            errors.phone ? "border-destructive" : "border-input"
+                          )}
+                        />
+                        {errors.phone && (
+                          <p className="mt-1.5 text-xs text-destructive">{errors.phone}</p>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Include your country code. Standard SMS rates may apply.
+                      </p>
+                      {servicePicker}
+                    </>
+                  )}
                 </div>
               ) : null}
 
@@ -381,8 +506,10 @@ export function SubscribeDialog({ isOpen, onClose }: SubscribeDialogProps) {
                     {isSubmitting ? (
                       <>
                         <span className="h-4 w-4 animate-spin rounded-full border-2 border-white/30 border-t-white" />
-                        Subscribing...
+                        {codePhone && method === "sms" ? "Confirming..." : "Subscribing..."}
                       </>
+                    ) : codePhone && method === "sms" ? (
+                      "Confirm"
                     ) : (
                       "Subscribe"
                     )}
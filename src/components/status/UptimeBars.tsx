@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import type { UptimeDay, UptimeLevel } from "@/lib/uptime";
+
+interface UptimeBarsProps {
+  days: UptimeDay[];
+  uptime: number | null;
+}
+
+// Only the most recent days are shown on small screens
+const MOBILE_DAYS = 30;
+
+const levelClasses: Record<UptimeLevel, string> = {
+  operational: "bg-status-operational",
+  degraded: "bg-status-degraded",
+  partial: "bg-status-partial",
+  major: "bg-status-major",
+  nodata: "bg-muted",
+};
+
+export function formatUptime(uptime: number): string {
+  if (uptime >= 100) return "100%";
+  return `${(Math.floor(uptime * 100) / 100).toFixed(2)}%`;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function UptimeBars({ days, uptime }: UptimeBarsProps) {
+  // Tooltips are rendered for the hovered bar only to keep the DOM small
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  return (
+    <div className="w-full" data-testid="uptime-bars">
+      <div className="flex h-8 items-stretch gap-px">
+        {days.map((day, index) => (
+          <div
+            key={day.date}
+            className={cn(
+              "relative flex-1",
+              index < days.length - MOBILE_DAYS && "hidden sm:block"
+            )}
+            onMouseEnter={() => setActiveIndex(index)}
+            onMouseLeave={() => setActiveIndex(null)}
+          >
+            <div
+              className={cn(
+                "h-full w-full rounded-sm transition-opacity",
+                levelClasses[day.level],
+                activeIndex === index && "opacity-70"
+              )}
+            />
+            {activeIndex === index && (
+              <div className="pointer-events-none absolute bottom-full left-1/2 z-20 mb-2 w-56 -translate-x-1/2 rounded-lg border border-border bg-popover p-3 shadow-lg">
+                <p className="text-xs font-semibold text-popover-foreground">{formatDay(day.date)}</p>
+                <p className="mt-0.5 text-xs text-muted-foreground">
+                  {day.uptime === null ? "No data" : `${formatUptime(day.uptime)} uptime`}
+                </p>
+                {day.incidents.length > 0 ? (
+                  <ul className="mt-2 space-y-1 border-t border-border pt-2">
+                    {day.incidents.map((incident) => (
+                      <li key={incident.shortId || incident.title} className="text-xs text-popover-foreground">
+                        {incident.title}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  day.uptime !== null && (
+                    <p className="mt-2 border-t border-border pt-2 text-xs text-muted-foreground">
+                      No incidents reported.
+                    </p>
+                  )
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="mt-1.5 flex items-center justify-between text-xs text-muted-foreground">
+        <span className="sm:hidden">{Math.min(days.length, MOBILE_DAYS)} days ago</span>
+        <span className="hidden sm:inline">{days.length} days ago</span>
+        <span>{uptime === null ? "No data" : `${formatUptime(uptime)} uptime`}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+}
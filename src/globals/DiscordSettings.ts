@@ -0,0 +1,50 @@
+import type { GlobalConfig } from 'payload'
+import { createSecretFieldHooks } from '@/lib/secretFields'
+
+export const DiscordSettings: GlobalConfig = {
+  slug: 'discord-settings',
+  label: 'Discord Settings',
+  admin: {
+    group: 'Configuration',
+  },
+  access: {
+    read: () => true,
+  },
+  fields: [
+    {
+      name: 'enabled',
+      type: 'checkbox',
+      defaultValue: false,
+      label: 'Enable Discord Notifications',
+      admin: {
+        description: 'Post incident and maintenance notifications to a Discord channel as embeds',
+      },
+    },
+    {
+      name: 'webhookUrl',
+      type: 'text',
+      label: 'Webhook URL',
+      admin: {
+        description: 'Channel webhook URL (https://discord.com/api/webhooks/...). Leave empty to keep existing value.',
+      },
+      hooks: createSecretFieldHooks(),
+    },
+    {
+      name: 'username',
+      type: 'text',
+      label: 'Username',
+      admin: {
+        description: 'Name shown as the message author. Defaults to the name set on the webhook.',
+      },
+    },
+    {
+      name: 'postAllNotifications',
+      type: 'checkbox',
+      defaultValue: false,
+      label: 'Post All Notifications',
+      admin: {
+        description: 'Also post notifications sent to email and SMS subscribers, not only those sent with the Discord channel',
+      },
+    },
+  ],
+}
@@ -1,4 +1,15 @@
 import type { GlobalConfig } from 'payload'
+import { DEFAULT_BRAND_COLOR, defaultEmailTemplates } from '@/lib/emailTemplates'
+import { createSecretFieldHooks } from '@/lib/secretFields'
+
+export const emailProviderOptions = [
+  { label: 'SMTP', value: 'smtp' },
+  { label: 'Amazon SES', value: 'ses' },
+  { label: 'Postmark', value: 'postmark' },
+  { label: 'SendGrid', value: 'sendgrid' },
+] as const
+
+export type EmailProvider = (typeof emailProviderOptions)[number]['value']
 
 export const EmailSettings: GlobalConfig = {
   slug: 'email-settings',
@@ -16,7 +27,18 @@ export const EmailSettings: GlobalConfig = {
       defaultValue: false,
       label: 'Enable Email Subscriptions',
       admin: {
-        description: 'Allow users to subscribe via email (requires SMTP to be configured)',
+        description: 'Allow users to subscribe via email (requires an email provider to be configured)',
+      },
+    },
+    {
+      name: 'provider',
+      type: 'select',
+      required: true,
+      defaultValue: 'smtp',
+      options: [...emailProviderOptions],
+      label: 'Email Provider',
+      admin: {
+        description: 'Send through any SMTP server, or through the HTTP API of a transactional email provider',
       },
     },
     {
@@ -24,6 +46,7 @@ export const EmailSettings: GlobalConfig = {
       label: 'SMTP Configuration',
       admin: {
         initCollapsed: false,
+        condition: (data) => !data?.provider || data.provider === 'smtp',
       },
       fields: [
         {
@@ -73,27 +96,92 @@ export const EmailSettings: GlobalConfig = {
             description: 'Password or API key for SMTP authentication. Leave empty to keep existing value.',
             autoComplete: 'new-password',
           },
-          hooks: {
-            afterRead: [
-              ({ value, req }) => {
-                // Only mask for external API responses (admin UI, REST, GraphQL)
-                // Keep real value for internal local API calls (tasks, server-side code)
-                const isExternalApi = req?.payloadAPI === 'REST' || req?.payloadAPI === 'GraphQL'
-                if (value && isExternalApi) return '••••••••'
-                return value
+          hooks: createSecretFieldHooks(),
+        },
+      ],
+    },
+    {
+      type: 'collapsible',
+      label: 'API Configuration',
+      admin: {
+        initCollapsed: false,
+        condition: (data) => Boolean(data?.provider) && data.provider !== 'smtp',
+      },
+      fields: [
+        {
+          name: 'apiKey',
+          type: 'text',
+          label: 'API Key',
+          admin: {
+            description: 'Postmark Server API Token or SendGrid API key with the Mail Send permission. Leave empty to keep existing value.',
+            condition: (data) => data?.provider === 'postmark' || data?.provider === 'sendgrid',
+            autoComplete: 'new-password',
+          },
+          hooks: createSecretFieldHooks(),
+        },
+        {
+          name: 'postmarkMessageStream',
+          type: 'text',
+          label: 'Message Stream',
+          defaultValue: 'outbound',
+          admin: {
+            description: 'Postmark message stream ID (e.g., outbound, or broadcast for a broadcast stream)',
+            condition: (data) => data?.provider === 'postmark',
+          },
+        },
+        {
+          name: 'sesRegion',
+          type: 'text',
+          label: 'AWS Region',
+          admin: {
+            description: 'Region of your verified SES identity (e.g., us-east-1)',
+            condition: (data) => data?.provider === 'ses',
+          },
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'sesAccessKeyId',
+              type: 'text',
+              label: 'Access Key ID',
+              admin: {
+                description: 'IAM access key allowed to call ses:SendEmail',
+                condition: (data) => data?.provider === 'ses',
+                width: '50%',
               },
-            ],
-            beforeChange: [
-              ({ value, originalDoc }) => {
-                // If empty or masked placeholder, keep the existing value
-                if ((!value || value === '••••••••') && originalDoc?.smtpPassword) {
-                  return originalDoc.smtpPassword
-                }
-                return value
+            },
+            {
+              name: 'sesSecretAccessKey',
+              type: 'text',
+              label: 'Secret Access Key',
+              admin: {
+                description: 'Leave empty to keep existing value.',
+                condition: (data) => data?.provider === 'ses',
+                autoComplete: 'new-password',
+                width: '50%',
               },
-            ],
+              hooks: createSecretFieldHooks(),
+            },
+          ],
+        },
+        {
+          name: 'apiBaseUrl',
+          type: 'text',
+          label: 'API Base URL',
+          admin: {
+            description: "Leave empty to use the provider's API. Set it to send through a regional endpoint, a proxy or a local test server.",
           },
         },
+      ],
+    },
+    {
+      type: 'collapsible',
+      label: 'Sender',
+      admin: {
+        initCollapsed: false,
+      },
+      fields: [
         {
           name: 'smtpFromAddress',
           type: 'email',
@@ -120,5 +208,157 @@ export const EmailSettings: GlobalConfig = {
         },
       ],
     },
+    {
+      type: 'collapsible',
+      label: 'Sending Limits',
+      admin: {
+        initCollapsed: true,
+        description: 'Throttle bulk sends to stay within the limits of your email provider',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'maxConnections',
+              type: 'number',
+              label: 'Max Connections',
+              defaultValue: 5,
+              min: 1,
+              max: 50,
+              admin: {
+                description: 'SMTP connections kept open, or parallel API requests, while sending a notification',
+                width: '33%',
+              },
+            },
+            {
+              name: 'messagesPerSecond',
+              type: 'number',
+              label: 'Messages per Second',
+              defaultValue: 10,
+              min: 1,
+              admin: {
+                description: 'Maximum emails sent per second across all connections',
+                width: '33%',
+              },
+            },
+            {
+              name: 'emailsPerRun',
+              type: 'number',
+              label: 'Emails per Job Run',
+              defaultValue: 1000,
+              min: 1,
+              admin: {
+                description: 'Larger lists continue in the next background job run',
+                width: '33%',
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      type: 'collapsible',
+      label: 'Email Templates',
+      admin: {
+        initCollapsed: true,
+        description: 'Configure notification email templates. Available placeholders: {{siteName}}, {{title}}, {{status}}, {{message}}, {{schedule}}, {{url}}',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'brandColor',
+              type: 'text',
+              label: 'Brand Colour',
+              defaultValue: DEFAULT_BRAND_COLOR,
+              validate: (value: string | null | undefined) => {
+                if (value && !/^#[0-9a-fA-F]{6}$/.test(value)) {
+                  return 'Use a hex colour such as #0066cc'
+                }
+                return true
+              },
+              admin: {
+                description: 'Hex colour of buttons and links (e.g., #0066cc)',
+                width: '50%',
+              },
+            },
+            {
+              name: 'footerText',
+              type: 'textarea',
+              label: 'Footer Text',
+              admin: {
+                description: 'Shown above the unsubscribe links. Placeholders: {{siteName}}, {{siteUrl}}. Leave empty for the default.',
+                width: '50%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'markdownBodies',
+          type: 'checkbox',
+          label: 'Format Email Bodies with Markdown',
+          defaultValue: false,
+          admin: {
+            description: 'Supports **bold**, *italic*, `code`, [links](https://example.com) and "- " lists. HTML is always shown as written.',
+          },
+        },
+        {
+          name: 'templateIncidentNew',
+          type: 'textarea',
+          label: 'New Incident Template',
+          defaultValue: defaultEmailTemplates.templateIncidentNew,
+          admin: {
+            description: 'Email body for new incident notifications',
+          },
+        },
+        {
+          name: 'templateIncidentUpdate',
+          type: 'textarea',
+          label: 'Incident Update Template',
+          defaultValue: defaultEmailTemplates.templateIncidentUpdate,
+          admin: {
+            description: 'Email body for incident update notifications',
+          },
+        },
+        {
+          name: 'templateMaintenanceNew',
+          type: 'textarea',
+          label: 'New Maintenance Template',
+          defaultValue: defaultEmailTemplates.templateMaintenanceNew,
+          admin: {
+            description: 'Email body for new scheduled maintenance notifications. {{schedule}} lists the start, end and duration.',
+          },
+        },
+        {
+          name: 'templateMaintenanceUpdate',
+          type: 'textarea',
+          label: 'Maintenance Update Template',
+          defaultValue: defaultEmailTemplates.templateMaintenanceUpdate,
+          admin: {
+            description: 'Email body for maintenance update notifications',
+          },
+        },
+        {
+          name: 'templateMaintenanceReminder',
+          type: 'textarea',
+          label: 'Maintenance Reminder Template',
+          defaultValue: defaultEmailTemplates.templateMaintenanceReminder,
+          admin: {
+            description: 'Email body for maintenance reminders. {{message}} is the time until the start (e.g., "starts in 24 hours").',
+          },
+        },
+        {
+          name: 'templatePreview',
+          type: 'ui',
+          admin: {
+            components: {
+              Field: '@/components/admin/EmailTemplatePreview#EmailTemplatePreview',
+            },
+          },
+        },
+      ],
+    },
   ],
 }
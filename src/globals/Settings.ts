@@ -237,6 +237,28 @@ export const Settings: GlobalConfig = {
             condition: (data) => data?.monitoringEnabled !== false,
           },
         },
+        {
+          name: 'monitoringResultRetentionDays',
+          type: 'number',
+          label: 'Check History Retention (days)',
+          defaultValue: 90,
+          min: 1,
+          max: 365,
+          admin: {
+            description: 'How long individual health check results are kept before being pruned (default: 90 days)',
+          },
+        },
+        {
+          name: 'monitoringQuorum',
+          type: 'number',
+          label: 'Probe Quorum',
+          defaultValue: 1,
+          min: 1,
+          max: 10,
+          admin: {
+            description: 'Number of probes (including the app server) that must agree before a service status changes. While fewer probes are reporting, the status stays as it is.',
+          },
+        },
       ],
     },
     // Status Override Settings
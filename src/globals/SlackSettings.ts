@@ -0,0 +1,100 @@
+import type { GlobalConfig } from 'payload'
+import { createSecretFieldHooks } from '@/lib/secretFields'
+
+export const slackMethodOptions = [
+  { label: 'Incoming Webhook', value: 'webhook' },
+  { label: 'Slack App (Bot Token)', value: 'app' },
+] as const
+
+export type SlackMethod = (typeof slackMethodOptions)[number]['value']
+
+export const SlackSettings: GlobalConfig = {
+  slug: 'slack-settings',
+  label: 'Slack Settings',
+  admin: {
+    group: 'Configuration',
+  },
+  access: {
+    read: () => true,
+  },
+  fields: [
+    {
+      name: 'enabled',
+      type: 'checkbox',
+      defaultValue: false,
+      label: 'Enable Slack Notifications',
+      admin: {
+        description: 'Post incident and maintenance notifications to a Slack channel',
+      },
+    },
+    {
+      name: 'method',
+      type: 'select',
+      required: true,
+      defaultValue: 'webhook',
+      options: [...slackMethodOptions],
+      label: 'Connection',
+      admin: {
+        description: 'A Slack app can reply in the thread of the first message as an incident progresses; incoming webhooks post a new message each time',
+      },
+    },
+    {
+      type: 'collapsible',
+      label: 'Slack Configuration',
+      admin: {
+        initCollapsed: false,
+      },
+      fields: [
+        {
+          name: 'webhookUrl',
+          type: 'text',
+          label: 'Webhook URL',
+          admin: {
+            description: 'Incoming webhook URL (https://hooks.slack.com/services/...). Leave empty to keep existing value.',
+            condition: (data) => data?.method !== 'app',
+          },
+          hooks: createSecretFieldHooks(),
+        },
+        {
+          name: 'botToken',
+          type: 'text',
+          label: 'Bot Token',
+          admin: {
+            description: 'Bot User OAuth Token (starts with xoxb-) with the chat:write scope. Leave empty to keep existing value.',
+            condition: (data) => data?.method === 'app',
+            autoComplete: 'new-password',
+          },
+          hooks: createSecretFieldHooks(),
+        },
+        {
+          name: 'channelId',
+          type: 'text',
+          label: 'Channel ID',
+          admin: {
+            description: 'ID of the channel to post to (e.g., C0123456789). The app must be invited to the channel.',
+            condition: (data) => data?.method === 'app',
+          },
+        },
+        {
+          name: 'threadUpdates',
+          type: 'checkbox',
+          defaultValue: true,
+          label: 'Thread Updates',
+          admin: {
+            description: 'Post later updates of an incident or maintenance as replies to its first message, and refresh that message with the latest status',
+            condition: (data) => data?.method === 'app',
+          },
+        },
+      ],
+    },
+    {
+      name: 'postAllNotifications',
+      type: 'checkbox',
+      defaultValue: false,
+      label: 'Post All Notifications',
+      admin: {
+        description: 'Also post notifications sent to email and SMS subscribers, not only those sent with the Slack channel',
+      },
+    },
+  ],
+}
@@ -1,4 +1,5 @@
 import type { GlobalConfig } from 'payload'
+import { createSecretFieldHooks } from '@/lib/secretFields'
 
 export const SmsSettings: GlobalConfig = {
   slug: 'sms-settings',
@@ -42,26 +43,7 @@ export const SmsSettings: GlobalConfig = {
             description: 'Your Twilio Auth Token. Leave empty to keep existing value.',
             autoComplete: 'new-password',
           },
-          hooks: {
-            afterRead: [
-              ({ value, req }) => {
-                // Only mask for external API responses (admin UI, REST, GraphQL)
-                // Keep real value for internal local API calls (tasks, server-side code)
-                const isExternalApi = req?.payloadAPI === 'REST' || req?.payloadAPI === 'GraphQL'
-                if (value && isExternalApi) return '••••••••'
-                return value
-              },
-            ],
-            beforeChange: [
-              ({ value, originalDoc }) => {
-                // If empty or masked placeholder, keep the existing value
-                if ((!value || value === '••••••••') && originalDoc?.twilioAuthToken) {
-                  return originalDoc.twilioAuthToken
-                }
-                return value
-              },
-            ],
-          },
+          hooks: createSecretFieldHooks(),
         },
         {
           name: 'twilioFromNumber',
@@ -0,0 +1,42 @@
+import type { GlobalConfig } from 'payload'
+import { createSecretFieldHooks } from '@/lib/secretFields'
+
+export const TeamsSettings: GlobalConfig = {
+  slug: 'teams-settings',
+  label: 'Microsoft Teams Settings',
+  admin: {
+    group: 'Configuration',
+  },
+  access: {
+    read: () => true,
+  },
+  fields: [
+    {
+      name: 'enabled',
+      type: 'checkbox',
+      defaultValue: false,
+      label: 'Enable Microsoft Teams Notifications',
+      admin: {
+        description: 'Post incident and maintenance notifications to a Teams channel as Adaptive Cards',
+      },
+    },
+    {
+      name: 'webhookUrl',
+      type: 'text',
+      label: 'Webhook URL',
+      admin: {
+        description: 'Incoming webhook URL of a Teams Workflow ("Post to a channel when a webhook request is received"). Leave empty to keep existing value.',
+      },
+      hooks: createSecretFieldHooks(),
+    },
+    {
+      name: 'postAllNotifications',
+      type: 'checkbox',
+      defaultValue: false,
+      label: 'Post All Notifications',
+      admin: {
+        description: 'Also post notifications sent to email and SMS subscribers, not only those sent with the Teams channel',
+      },
+    },
+  ],
+}
@@ -1,3 +1,6 @@
 export { Settings } from './Settings'
 export { EmailSettings } from './EmailSettings'
 export { SmsSettings } from './SmsSettings'
+export { SlackSettings } from './SlackSettings'
+export { TeamsSettings } from './TeamsSettings'
+export { DiscordSettings } from './DiscordSettings'
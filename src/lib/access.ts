@@ -1,4 +1,4 @@
-import type { Access } from 'payload'
+import type { Access, FieldAccess } from 'payload'
 
 /**
  * Access control helpers
@@ -37,3 +37,29 @@ export const standardAccess = {
   update: authenticatedOrTestWrite,
   delete: authenticatedOrTestWrite,
 }
+
+/**
+ * Field-level read access for secrets (e.g. heartbeat tokens)
+ * on otherwise publicly readable collections
+ */
+export const authenticatedFieldRead: FieldAccess = ({ req: { user } }) => {
+  return !!user
+}
+
+/**
+ * Field-level write access for fields that only administrators may set
+ * on collections that accept public submissions, or everyone in test mode
+ */
+export const authenticatedOrTestFieldWrite: FieldAccess = ({ req: { user } }) => {
+  if (isTestMode()) return true
+  return !!user
+}
+
+/**
+ * Field-level read access for subscriber tokens that grant self-service access,
+ * or everyone in test mode (E2E tests open pages with them)
+ */
+export const authenticatedOrTestFieldRead: FieldAccess = ({ req: { user } }) => {
+  if (isTestMode()) return true
+  return !!user
+}
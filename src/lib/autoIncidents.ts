@@ -0,0 +1,134 @@
+import type { BasePayload } from 'payload'
+import type { MonitoringCheckResult } from '@/lib/monitoring'
+import type { Incident, Service } from '@/payload-types'
+
+const DEFAULT_TITLE = '{{service}} is unavailable'
+const DEFAULT_MESSAGE = 'Automatic monitoring has detected that {{service}} is not responding as expected. We are investigating.'
+const DEFAULT_RECOVERY_MESSAGE = '{{service}} is responding normally again.'
+
+// Helper to interpolate template placeholders
+function interpolateTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key) => vars[key] || '')
+}
+
+function getTemplateVars(service: Service, checkResult: MonitoringCheckResult, failures: number): Record<string, string> {
+  return {
+    service: service.name,
+    error: checkResult.error || '',
+    failures: String(failures),
+  }
+}
+
+/**
+ * Find the unresolved incident previously opened by monitoring for a service
+ */
+async function findOpenAutoIncident(payload: BasePayload, service: Service): Promise<Incident | null> {
+  const result = await payload.find({
+    collection: 'incidents',
+    where: {
+      autoCreated: {
+        equals: true,
+      },
+      affectedServices: {
+        in: [service.id],
+      },
+      status: {
+        not_equals: 'resolved',
+      },
+    },
+    sort: '-createdAt',
+    limit: 1,
+    depth: 0,
+  })
+
+  return (result.docs[0] as Incident | undefined) || null
+}
+
+/**
+ * Open an incident for a service that monitoring just marked down
+ * If an auto-incident is still open (e.g. left in Monitoring after an earlier
+ * recovery) it is moved back to Investigating instead of opening a duplicate.
+ */
+export async function openAutoIncident(
+  payload: BasePayload,
+  service: Service,
+  checkResult: MonitoringCheckResult,
+  failures: number,
+): Promise<void> {
+  const settings = service.monitoring?.autoIncident
+  if (!settings?.enabled) return
+
+  const vars = getTemplateVars(service, checkResult, failures)
+  const message = interpolateTemplate(settings.message || DEFAULT_MESSAGE, vars).trim()
+  const existing = await findOpenAutoIncident(payload, service)
+
+  if (existing) {
+    if (existing.status === 'monitoring') {
+      await payload.update({
+        collection: 'incidents',
+        id: existing.id,
+        data: {
+          updates: [
+            ...(existing.updates || []),
+            { status: 'investigating', message, createdAt: new Date().toISOString() },
+          ],
+        },
+      })
+      console.log(`[Auto Incident] Reopened incident "${existing.title}" for service "${service.name}"`)
+    } else {
+      console.log(`[Auto Incident] Incident "${existing.title}" is already open for service "${service.name}"`)
+    }
+    return
+  }
+
+  const incident = await payload.create({
+    collection: 'incidents',
+    data: {
+      title: interpolateTemplate(settings.title || DEFAULT_TITLE, vars).trim(),
+      status: 'investigating',
+      autoCreated: true,
+      affectedServices: [service.id],
+      updates: [
+        { status: 'investigating', message, createdAt: new Date().toISOString() },
+      ],
+    },
+  })
+
+  console.log(`[Auto Incident] Opened incident "${incident.title}" for service "${service.name}"`)
+}
+
+/**
+ * Append a recovery update to the open auto-incident for a service
+ */
+export async function recoverAutoIncident(
+  payload: BasePayload,
+  service: Service,
+  checkResult: MonitoringCheckResult,
+): Promise<void> {
+  const settings = service.monitoring?.autoIncident
+  if (!settings?.enabled) return
+
+  const existing = await findOpenAutoIncident(payload, service)
+  const recoveryStatus = settings.recoveryStatus || 'resolved'
+
+  // Nothing to do when there is no incident or it already reflects the recovery
+  if (!existing || existing.status === recoveryStatus) return
+
+  const vars = getTemplateVars(service, checkResult, 0)
+  await payload.update({
+    collection: 'incidents',
+    id: existing.id,
+    data: {
+      updates: [
+        ...(existing.updates || []),
+        {
+          status: recoveryStatus,
+          message: interpolateTemplate(settings.recoveryMessage || DEFAULT_RECOVERY_MESSAGE, vars).trim(),
+          createdAt: new Date().toISOString(),
+        },
+      ],
+    },
+  })
+
+  console.log(`[Auto Incident] Marked incident "${existing.title}" as ${recoveryStatus} for service "${service.name}"`)
+}
@@ -0,0 +1,13 @@
+import type { sql, PostgresAdapter } from '@payloadcms/db-postgres'
+import type { Payload } from 'payload'
+
+/**
+ * Run a raw SQL query against the Postgres database
+ * The local API can't aggregate (GROUP BY, count FILTER), so reports that summarise
+ * many rows query the tables directly instead of loading every document.
+ */
+export async function executeSql<Row>(payload: Payload, query: ReturnType<typeof sql>): Promise<Row[]> {
+  const db = payload.db as unknown as PostgresAdapter
+  const result = await db.drizzle.execute(query)
+  return result.rows as Row[]
+}
@@ -0,0 +1,161 @@
+import type { BasePayload } from 'payload'
+import type { Service } from '@/payload-types'
+
+type ServiceStatus = Service['status']
+
+// Statuses of a dependency that put the services depending on it at risk
+const OUTAGE_STATUSES: ServiceStatus[] = ['major', 'partial']
+// Statuses that are replaced by a propagated partial outage
+const PROPAGATED_STATUSES: ServiceStatus[] = ['operational', 'degraded']
+
+export interface EffectiveServiceStatus {
+  status: ServiceStatus
+  // Explains a status propagated from a dependency
+  note?: string
+  // Upstream services with an outage that caused the propagated status
+  causes: number[]
+}
+
+type DependencyNode = Pick<Service, 'id' | 'name' | 'dependsOn'>
+
+/**
+ * IDs of the services a service depends on
+ */
+export function getDependencyIds(service: Pick<Service, 'dependsOn'>): number[] {
+  return (service.dependsOn || []).map((s) => (typeof s === 'object' && s !== null ? s.id : s))
+}
+
+/**
+ * Find the cycle that saving a service with the given dependencies would create
+ * Returns the service names along the cycle (starting and ending with the
+ * saved service), or null when the dependencies are acyclic.
+ */
+export async function findDependencyCycle(
+  payload: BasePayload,
+  service: { id?: number; name?: string },
+  dependsOn: number[],
+): Promise<string[] | null> {
+  const result = await payload.find({
+    collection: 'services',
+    depth: 0,
+    pagination: false,
+    select: {
+      name: true,
+      dependsOn: true,
+    },
+  })
+
+  const nodes = new Map<number, DependencyNode>(
+    result.docs.map((doc) => [doc.id, doc as DependencyNode]),
+  )
+  // A new service cannot be depended on yet, so only self references matter
+  const serviceId = service.id ?? -1
+  const graph = new Map<number, number[]>(
+    [...nodes.values()].map((node) => [node.id, getDependencyIds(node)]),
+  )
+  graph.set(serviceId, dependsOn)
+
+  const getName = (id: number) => (id === serviceId ? service.name : nodes.get(id)?.name) || `#${id}`
+  const visited = new Set<number>()
+
+  const visit = (id: number, path: number[]): number[] | null => {
+    for (const dependencyId of graph.get(id) || []) {
+      if (dependencyId === serviceId) return [...path, dependencyId]
+      if (visited.has(dependencyId)) continue
+      visited.add(dependencyId)
+      const cycle = visit(dependencyId, [...path, dependencyId])
+      if (cycle) return cycle
+    }
+    return null
+  }
+
+  const cycle = visit(serviceId, [serviceId])
+  return cycle ? cycle.map(getName) : null
+}
+
+/**
+ * Column of each service in the dependency graph
+ * Services without dependencies are in column 0, every other service is one
+ * column right of its deepest dependency.
+ */
+export function getDependencyLayers(services: DependencyNode[]): Map<number, number> {
+  const byId = new Map(services.map((service) => [service.id, service]))
+  const layers = new Map<number, number>()
+
+  const getLayer = (id: number, visiting: Set<number>): number => {
+    const cached = layers.get(id)
+    if (cached !== undefined) return cached
+
+    visiting.add(id)
+    let layer = 0
+    for (const dependencyId of getDependencyIds(byId.get(id) || {})) {
+      if (!byId.has(dependencyId) || visiting.has(dependencyId)) continue
+      layer = Math.max(layer, getLayer(dependencyId, visiting) + 1)
+    }
+    visiting.delete(id)
+
+    layers.set(id, layer)
+    return layer
+  }
+
+  for (const service of services) {
+    getLayer(service.id, new Set())
+  }
+
+  return layers
+}
+
+/**
+ * Apply dependency propagation to service statuses
+ * A service whose direct or indirect dependencies have a partial or major
+ * outage is shown as a partial outage, with a note naming the cause.
+ * Services under maintenance or with their own outage keep their status.
+ */
+export function getEffectiveStatuses(
+  services: Pick<Service, 'id' | 'name' | 'status' | 'dependsOn'>[],
+): Map<number, EffectiveServiceStatus> {
+  const byId = new Map(services.map((service) => [service.id, service]))
+  const causesById = new Map<number, Set<number>>()
+
+  // Upstream services with an outage, following dependencies transitively
+  const getCauses = (id: number, visiting: Set<number>): Set<number> => {
+    const cached = causesById.get(id)
+    if (cached) return cached
+
+    const causes = new Set<number>()
+    visiting.add(id)
+    for (const dependencyId of getDependencyIds(byId.get(id) || {})) {
+      const dependency = byId.get(dependencyId)
+      if (!dependency) continue
+      if (OUTAGE_STATUSES.includes(dependency.status)) {
+        causes.add(dependencyId)
+      }
+      // Cycles are rejected on save, but never loop on bad data
+      if (visiting.has(dependencyId)) continue
+      getCauses(dependencyId, visiting).forEach((cause) => causes.add(cause))
+    }
+    causes.delete(id)
+    visiting.delete(id)
+
+    causesById.set(id, causes)
+    return causes
+  }
+
+  const effective = new Map<number, EffectiveServiceStatus>()
+  for (const service of services) {
+    const causes = [...getCauses(service.id, new Set())]
+
+    if (causes.length > 0 && PROPAGATED_STATUSES.includes(service.status)) {
+      const names = causes.map((id) => byId.get(id)?.name).filter(Boolean)
+      effective.set(service.id, {
+        status: 'partial',
+        note: `Affected by an outage of ${names.join(', ')}`,
+        causes,
+      })
+    } else {
+      effective.set(service.id, { status: service.status, causes })
+    }
+  }
+
+  return effective
+}
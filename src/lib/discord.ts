@@ -0,0 +1,70 @@
+import type { NotificationContent } from '@/lib/notificationContent'
+import type { DiscordSetting } from '@/payload-types'
+
+const REQUEST_TIMEOUT = 10000
+
+// Discord embed limits
+const MAX_TITLE_LENGTH = 256
+const MAX_DESCRIPTION_LENGTH = 4096
+const MAX_FIELD_LENGTH = 1024
+
+export interface DiscordMessage {
+  username?: string
+  embeds: Record<string, unknown>[]
+  allowed_mentions: { parse: string[] }
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 3)}...` : text
+}
+
+/**
+ * Format a notification as an embed
+ */
+export function buildDiscordMessage(content: NotificationContent, username?: string | null): DiscordMessage {
+  const fields = [
+    ...(content.statusLabel ? [{ name: 'Status', value: content.statusLabel, inline: true }] : []),
+    ...(content.affectedServices.length > 0
+      ? [{ name: 'Affected Services', value: truncate(content.affectedServices.join(', '), MAX_FIELD_LENGTH), inline: true }]
+      : []),
+  ]
+
+  return {
+    ...(username ? { username } : {}),
+    embeds: [
+      {
+        title: truncate(content.title, MAX_TITLE_LENGTH),
+        url: content.url,
+        description: content.message ? truncate(content.message, MAX_DESCRIPTION_LENGTH) : undefined,
+        color: parseInt(content.color.replace('#', ''), 16),
+        fields,
+        footer: { text: content.siteName },
+        timestamp: new Date().toISOString(),
+      },
+    ],
+    // Never ping users or roles mentioned in incident messages
+    allowed_mentions: { parse: [] },
+  }
+}
+
+export async function postDiscordMessage(discordSettings: DiscordSetting, message: DiscordMessage): Promise<void> {
+  if (!discordSettings.webhookUrl) {
+    throw new Error('Discord not configured: missing webhook URL')
+  }
+
+  // Wait for the message to be created so errors are returned in the response
+  const url = new URL(discordSettings.webhookUrl)
+  url.searchParams.set('wait', 'true')
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({})) as { message?: string }
+    throw new Error(`Discord webhook failed: ${result.message || `HTTP ${response.status}`}`)
+  }
+}
@@ -1,52 +1,51 @@
-import nodemailer from 'nodemailer'
 import type { EmailSetting } from '@/payload-types'
+import { createEmailAdapter, getEmailConfigError, DEFAULT_MAX_CONNECTIONS, type EmailAdapter } from '@/lib/emailProviders'
+import { DEFAULT_BRAND_COLOR, interpolateTemplate } from '@/lib/emailTemplates'
+import { escapeHtml, markdownToText, renderEmailMarkdown, renderEmailText } from '@/lib/emailFormatting'
 
 interface EmailOptions {
   to: string
   subject: string
   html: string
-  text?: string
+  text: string
   unsubscribeUrl?: string
 }
 
-interface EmailResult {
+// Content of a notification email, rendered as both HTML and plain text
+export interface EmailContent {
+  siteName: string
+  title: string
+  body: string
+  // Render the body as restricted Markdown instead of plain text
+  markdown?: boolean
+  ctaText?: string
+  ctaUrl?: string
+  unsubscribeUrl?: string
+  manageUrl?: string
+  siteUrl: string
+  logoUrl?: string
+  brandColor?: string
+  footerText?: string
+}
+
+export interface EmailResult {
   success: boolean
   messageId?: string
   error?: string
 }
 
-export async function createTransporter(emailSettings: EmailSetting) {
-  if (!emailSettings.smtpHost || !emailSettings.smtpFromAddress) {
-    throw new Error('SMTP not configured: missing host or from address')
-  }
-
-  const secure = emailSettings.smtpSecure === 'ssl'
-  const port = emailSettings.smtpPort || (secure ? 465 : 587)
-
-  return nodemailer.createTransport({
-    host: emailSettings.smtpHost,
-    port,
-    secure,
-    auth: emailSettings.smtpUsername ? {
-      user: emailSettings.smtpUsername,
-      pass: emailSettings.smtpPassword || '',
-    } : undefined,
-    tls: emailSettings.smtpSecure === 'tls' ? {
-      // In production, consider setting this to true for security
-      rejectUnauthorized: process.env.NODE_ENV === 'production',
-    } : undefined,
-  })
+export function isEmailConfigured(emailSettings: EmailSetting): boolean {
+  return Boolean(emailSettings.enabled && !getEmailConfigError(emailSettings))
 }
 
 export async function sendEmail(
   emailSettings: EmailSetting,
-  options: EmailOptions
+  options: EmailOptions,
+  adapter?: EmailAdapter
 ): Promise<EmailResult> {
+  let provider = adapter
   try {
-    const transporter = await createTransporter(emailSettings)
-
-    const fromName = emailSettings.smtpFromName || 'Status Page'
-    const from = `"${fromName}" <${emailSettings.smtpFromAddress}>`
+    provider = provider || createEmailAdapter(emailSettings)
 
     const headers: Record<string, string> = {}
     
@@ -56,13 +55,16 @@ export async function sendEmail(
       headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click'
     }
 
-    const result = await transporter.sendMail({
-      from,
+    const result = await provider.send({
+      from: {
+        address: emailSettings.smtpFromAddress!,
+        name: emailSettings.smtpFromName || 'Status Page',
+      },
       to: options.to,
       replyTo: emailSettings.smtpReplyTo || emailSettings.smtpFromAddress || undefined,
       subject: options.subject,
       html: options.html,
-      text: options.text || options.html.replace(/<[^>]*>/g, ''),
+      text: options.text,
       headers,
     })
 
@@ -76,16 +78,46 @@ export async function sendEmail(
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error sending email',
     }
+  } finally {
+    // Close adapters created for this one email
+    if (!adapter) provider?.close()
   }
 }
 
+/**
+ * Send emails through a pooled adapter, at most maxConnections at a time
+ * Pass a pooled adapter to share it between calls; otherwise one is created and closed here.
+ */
 export async function sendBulkEmails(
   emailSettings: EmailSetting,
-  emails: EmailOptions[]
-): Promise<{ sent: number; failed: number; errors: string[] }> {
-  const results = await Promise.all(
-    emails.map((email) => sendEmail(emailSettings, email))
-  )
+  emails: EmailOptions[],
+  adapter?: EmailAdapter
+): Promise<{ sent: number; failed: number; errors: string[]; results: EmailResult[] }> {
+  const results: EmailResult[] = []
+
+  let pool: EmailAdapter
+  try {
+    pool = adapter || createEmailAdapter(emailSettings, { pool: true })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error sending email'
+    return { sent: 0, failed: emails.length, errors: emails.map(() => message), results: emails.map(() => ({ success: false, error: message })) }
+  }
+
+  // Each worker sends one email at a time; the adapter's rate limit spaces them out
+  let next = 0
+  const worker = async () => {
+    while (next < emails.length) {
+      const index = next++
+      results[index] = await sendEmail(emailSettings, emails[index], pool)
+    }
+  }
+
+  try {
+    const concurrency = Math.min(emailSettings.maxConnections || DEFAULT_MAX_CONNECTIONS, emails.length)
+    await Promise.all(Array.from({ length: concurrency }, worker))
+  } finally {
+    if (!adapter) pool.close()
+  }
 
   const sent = results.filter((r) => r.success).length
   const failed = results.filter((r) => !r.success).length
@@ -93,24 +125,39 @@ export async function sendBulkEmails(
     .filter((r) => !r.success && r.error)
     .map((r) => r.error!)
 
-  return { sent, failed, errors }
+  // Results are in the same order as the messages
+  return { sent, failed, errors, results }
 }
 
-export function generateEmailHtml(options: {
-  siteName: string
-  title: string
-  body: string
-  ctaText?: string
-  ctaUrl?: string
-  unsubscribeUrl?: string
-  siteUrl: string
-  logoUrl?: string
-}): string {
-  const { siteName, title, body, ctaText, ctaUrl, unsubscribeUrl, siteUrl, logoUrl } = options
+function getFooterText(options: EmailContent): string | null {
+  return options.footerText
+    ? interpolateTemplate(options.footerText, { siteName: options.siteName, siteUrl: options.siteUrl })
+    : null
+}
+
+/**
+ * Render an email as HTML
+ * Every value is escaped; the body is either plain text or the restricted Markdown subset.
+ */
+export function generateEmailHtml(options: EmailContent): string {
+  const siteName = escapeHtml(options.siteName)
+  const title = escapeHtml(options.title)
+  const siteUrl = escapeHtml(options.siteUrl)
+  const body = options.markdown ? renderEmailMarkdown(options.body) : renderEmailText(options.body)
+  const ctaText = options.ctaText && escapeHtml(options.ctaText)
+  const ctaUrl = options.ctaUrl && escapeHtml(options.ctaUrl)
+  const unsubscribeUrl = options.unsubscribeUrl && escapeHtml(options.unsubscribeUrl)
+  const manageUrl = options.manageUrl && escapeHtml(options.manageUrl)
+  // Only a plain hex colour is written into the stylesheet
+  const brandColor = options.brandColor && /^#[0-9a-fA-F]{6}$/.test(options.brandColor)
+    ? options.brandColor
+    : DEFAULT_BRAND_COLOR
+  const footerText = getFooterText(options)
 
   // Build absolute logo URL if it's a relative path
+  const { logoUrl } = options
   const absoluteLogoUrl = logoUrl 
-    ? (logoUrl.startsWith('http') ? logoUrl : `${siteUrl}${logoUrl.startsWith('/') ? '' : '/'}${logoUrl}`)
+    ? escapeHtml(logoUrl.startsWith('http') ? logoUrl : `${options.siteUrl}${logoUrl.startsWith('/') ? '' : '/'}${logoUrl}`)
     : null
 
   return `
@@ -162,18 +209,35 @@ export function generateEmailHtml(options: {
       color: #444;
       white-space: pre-wrap;
     }
+    .body p,
+    .body ul {
+      margin: 0 0 12px;
+    }
+    .body ul {
+      padding-left: 20px;
+    }
+    .body code {
+      font-family: SFMono-Regular, Menlo, Consolas, monospace;
+      font-size: 14px;
+      background-color: #f3f3f3;
+      padding: 1px 4px;
+      border-radius: 3px;
+    }
+    .body a {
+      color: ${brandColor};
+    }
     .cta {
       display: inline-block;
       margin-top: 24px;
       padding: 12px 24px;
-      background-color: #0066cc;
+      background-color: ${brandColor};
       color: #ffffff !important;
       text-decoration: none;
       border-radius: 6px;
       font-weight: 500;
     }
     .cta:hover {
-      background-color: #0052a3;
+      opacity: 0.9;
     }
     .footer {
       margin-top: 32px;
@@ -184,7 +248,7 @@ export function generateEmailHtml(options: {
       color: #888;
     }
     .footer a {
-      color: #666;
+      color: ${brandColor};
     }
   </style>
 </head>
@@ -197,18 +261,43 @@ export function generateEmailHtml(options: {
       }
     </div>
     <div class="title">${title}</div>
-    <div class="body">${body.replace(/\n/g, '<br>')}</div>
+    <div class="body">${body}</div>
     ${ctaText && ctaUrl ? `
     <div style="text-align: center;">
       <a href="${ctaUrl}" class="cta">${ctaText}</a>
     </div>
     ` : ''}
     <div class="footer">
-      <p>This email was sent from <a href="${siteUrl}">${siteName}</a></p>
-      ${unsubscribeUrl ? `<p><a href="${unsubscribeUrl}">Unsubscribe from status updates</a></p>` : ''}
+      <p>${footerText
+        ? renderEmailText(footerText)
+        : `This email was sent from <a href="${siteUrl}">${siteName}</a>`
+      }</p>
+      ${manageUrl || unsubscribeUrl ? `<p>${[
+        manageUrl ? `<a href="${manageUrl}">Manage your subscription</a>` : '',
+        unsubscribeUrl ? `<a href="${unsubscribeUrl}">Unsubscribe from status updates</a>` : '',
+      ].filter(Boolean).join(' &middot; ')}</p>` : ''}
     </div>
   </div>
 </body>
 </html>
 `
 }
+
+/**
+ * Render an email as plain text, for clients that don't show HTML
+ */
+export function generateEmailText(options: EmailContent): string {
+  const footerText = getFooterText(options)
+
+  return [
+    options.title,
+    options.markdown ? markdownToText(options.body) : options.body.trim(),
+    options.ctaText && options.ctaUrl ? `${options.ctaText}: ${options.ctaUrl}` : '',
+    [
+      '--',
+      footerText || `This email was sent from ${options.siteName} (${options.siteUrl})`,
+      options.manageUrl ? `Manage your subscription: ${options.manageUrl}` : '',
+      options.unsubscribeUrl ? `Unsubscribe from status updates: ${options.unsubscribeUrl}` : '',
+    ].filter(Boolean).join('\n'),
+  ].filter(Boolean).join('\n\n') + '\n'
+}
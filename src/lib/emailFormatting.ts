@@ -0,0 +1,103 @@
+// Restricted Markdown for email bodies: paragraphs, line breaks, "- " lists,
+// **bold**, *italic*, `code` and [links](https://...)
+const LIST_ITEM = /^\s*[-*]\s+/
+const CODE_SPAN = /(`[^`\n]+`)/
+// Link URLs may contain one level of balanced parentheses
+const MARKDOWN_LINK = /\[([^\]\n]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g
+const BOLD = /\*\*(\S(?:.*?\S)?)\*\*/g
+const ITALIC = /\*(\S(?:.*?\S)?)\*/g
+
+// Escape text for use in HTML content and quoted attributes
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Only web and mailto links are rendered; anything else (javascript:, data:) is dropped
+function isSafeUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(url)
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n?/g, '\n')
+}
+
+function renderEmphasis(text: string): string {
+  return escapeHtml(text)
+    .replace(BOLD, '<strong>$1</strong>')
+    .replace(ITALIC, '<em>$1</em>')
+}
+
+function renderLinks(text: string): string {
+  let html = ''
+  let last = 0
+
+  for (const match of text.matchAll(MARKDOWN_LINK)) {
+    const [source, label, url] = match
+    html += renderEmphasis(text.slice(last, match.index))
+    html += isSafeUrl(url)
+      ? `<a href="${escapeHtml(url)}">${renderEmphasis(label)}</a>`
+      : renderEmphasis(label)
+    last = match.index + source.length
+  }
+
+  return html + renderEmphasis(text.slice(last))
+}
+
+// Code spans are split out first so nothing inside them is formatted
+function renderInline(text: string): string {
+  return text.split(CODE_SPAN).map((part, index) =>
+    index % 2 === 1 ? `<code>${escapeHtml(part.slice(1, -1))}</code>` : renderLinks(part)
+  ).join('')
+}
+
+/**
+ * Render plain text as escaped HTML, keeping line breaks
+ */
+export function renderEmailText(text: string): string {
+  return escapeHtml(normalizeNewlines(text)).replace(/\n/g, '<br>')
+}
+
+/**
+ * Render the restricted Markdown subset as HTML
+ * All text is escaped, so HTML in the source shows as written.
+ */
+export function renderEmailMarkdown(text: string): string {
+  return normalizeNewlines(text).trim().split(/\n\s*\n/).map((block) => {
+    const lines = block.split('\n')
+
+    if (lines.every((line) => LIST_ITEM.test(line))) {
+      return `<ul>${lines.map((line) => `<li>${renderInline(line.replace(LIST_ITEM, ''))}</li>`).join('')}</ul>`
+    }
+
+    return `<p>${lines.map(renderInline).join('<br>')}</p>`
+  }).join('')
+}
+
+function linkToText(label: string, url: string): string {
+  if (!isSafeUrl(url)) return label
+  return label === url ? url : `${label} (${url})`
+}
+
+/**
+ * Plain-text version of a Markdown body: markers are removed and links become "label (url)"
+ * Links that wouldn't be rendered in HTML keep only their label.
+ */
+export function markdownToText(text: string): string {
+  const withLists = normalizeNewlines(text).trim().split('\n')
+    .map((line) => line.replace(LIST_ITEM, '- '))
+    .join('\n')
+
+  return withLists.split(CODE_SPAN).map((part, index) =>
+    index % 2 === 1
+      ? part.slice(1, -1)
+      : part
+        .replace(MARKDOWN_LINK, (_, label: string, url: string) => linkToText(label, url))
+        .replace(BOLD, '$1')
+        .replace(ITALIC, '$1')
+  ).join('')
+}
@@ -0,0 +1,335 @@
+import crypto from 'crypto'
+import nodemailer from 'nodemailer'
+import type { EmailSetting } from '@/payload-types'
+import type { EmailProvider } from '@/globals/EmailSettings'
+
+const REQUEST_TIMEOUT = 10000
+
+// Sending limits used when they are not set in the email settings
+export const DEFAULT_MAX_CONNECTIONS = 5
+const DEFAULT_MESSAGES_PER_SECOND = 10
+
+const POSTMARK_API_URL = 'https://api.postmarkapp.com'
+const SENDGRID_API_URL = 'https://api.sendgrid.com'
+
+export interface EmailMessage {
+  from: { address: string; name?: string }
+  to: string
+  replyTo?: string
+  subject: string
+  html: string
+  text: string
+  headers: Record<string, string>
+}
+
+/**
+ * Sends email through one provider
+ * messageId is the provider's id for the message, kept in the delivery log for tracking.
+ */
+export interface EmailAdapter {
+  send(message: EmailMessage): Promise<{ messageId?: string }>
+  close(): void
+}
+
+function getProvider(emailSettings: EmailSetting): EmailProvider {
+  return emailSettings.provider || 'smtp'
+}
+
+/**
+ * What's missing to send email with the selected provider, or null when it's ready
+ */
+export function getEmailConfigError(emailSettings: EmailSetting): string | null {
+  const provider = getProvider(emailSettings)
+
+  if (provider === 'smtp' && !emailSettings.smtpHost) {
+    return 'SMTP not configured: missing host'
+  }
+  if (provider === 'ses' && !(emailSettings.sesRegion && emailSettings.sesAccessKeyId && emailSettings.sesSecretAccessKey)) {
+    return 'Amazon SES not configured: missing region or access keys'
+  }
+  if ((provider === 'postmark' || provider === 'sendgrid') && !emailSettings.apiKey) {
+    return `${provider === 'postmark' ? 'Postmark' : 'SendGrid'} not configured: missing API key`
+  }
+  if (!emailSettings.smtpFromAddress) {
+    return 'Email not configured: missing from address'
+  }
+  return null
+}
+
+function formatAddress(from: EmailMessage['from']): string {
+  return from.name ? `"${from.name.replace(/"/g, '\\"')}" <${from.address}>` : from.address
+}
+
+function getApiUrl(emailSettings: EmailSetting, defaultUrl: string): string {
+  return (emailSettings.apiBaseUrl || defaultUrl).replace(/\/+$/, '')
+}
+
+// Pull the message out of a provider's JSON error body
+async function readErrorMessage(response: Response): Promise<string> {
+  const body = await response.text().catch(() => '')
+  try {
+    const data = JSON.parse(body)
+    const message = data.Message || data.message || data.errors?.[0]?.message
+    if (message) return String(message).substring(0, 200)
+  } catch {
+    // Not JSON, use the raw body
+  }
+  return body.substring(0, 200) || `HTTP ${response.status}`
+}
+
+async function postJson(
+  providerName: string,
+  url: string,
+  body: string,
+  headers: Record<string, string>
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+
+  if (!response.ok) {
+    throw new Error(`${providerName} API error: ${await readErrorMessage(response)}`)
+  }
+
+  return response
+}
+
+/**
+ * SMTP via nodemailer
+ * A pooled transport keeps up to maxConnections connections open and sends at most
+ * messagesPerSecond messages per second across them.
+ */
+function createSmtpAdapter(emailSettings: EmailSetting, pool: boolean): EmailAdapter {
+  const secure = emailSettings.smtpSecure === 'ssl'
+  const port = emailSettings.smtpPort || (secure ? 465 : 587)
+
+  const transport = nodemailer.createTransport({
+    host: emailSettings.smtpHost!,
+    port,
+    secure,
+    auth: emailSettings.smtpUsername ? {
+      user: emailSettings.smtpUsername,
+      pass: emailSettings.smtpPassword || '',
+    } : undefined,
+    tls: emailSettings.smtpSecure === 'tls' ? {
+      // In production, consider setting this to true for security
+      rejectUnauthorized: process.env.NODE_ENV === 'production',
+    } : undefined,
+    ...(pool ? {
+      pool: true,
+      maxConnections: emailSettings.maxConnections || DEFAULT_MAX_CONNECTIONS,
+      rateDelta: 1000,
+      rateLimit: emailSettings.messagesPerSecond || DEFAULT_MESSAGES_PER_SECOND,
+    } : {}),
+  })
+
+  return {
+    async send(message) {
+      const result = await transport.sendMail({
+        from: formatAddress(message.from),
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      })
+      return { messageId: result.messageId }
+    },
+    close: () => transport.close(),
+  }
+}
+
+/**
+ * Postmark Email API
+ * @see https://postmarkapp.com/developer/api/email-api
+ */
+function createPostmarkAdapter(emailSettings: EmailSetting): EmailAdapter {
+  const url = `${getApiUrl(emailSettings, POSTMARK_API_URL)}/email`
+
+  return {
+    async send(message) {
+      const response = await postJson('Postmark', url, JSON.stringify({
+        From: formatAddress(message.from),
+        To: message.to,
+        ReplyTo: message.replyTo,
+        Subject: message.subject,
+        HtmlBody: message.html,
+        TextBody: message.text,
+        Headers: Object.entries(message.headers).map(([Name, Value]) => ({ Name, Value })),
+        MessageStream: emailSettings.postmarkMessageStream || 'outbound',
+      }), {
+        'X-Postmark-Server-Token': emailSettings.apiKey!,
+      })
+      const data = await response.json()
+      return { messageId: data.MessageID }
+    },
+    close: () => {},
+  }
+}
+
+/**
+ * SendGrid v3 Mail Send API
+ * The message id is only returned in the X-Message-Id header.
+ * @see https://www.twilio.com/docs/sendgrid/api-reference/mail-send/mail-send
+ */
+function createSendGridAdapter(emailSettings: EmailSetting): EmailAdapter {
+  const url = `${getApiUrl(emailSettings, SENDGRID_API_URL)}/v3/mail/send`
+
+  return {
+    async send(message) {
+      const response = await postJson('SendGrid', url, JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: message.from.address, name: message.from.name },
+        reply_to: message.replyTo ? { email: message.replyTo } : undefined,
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html },
+        ],
+        headers: Object.keys(message.headers).length > 0 ? message.headers : undefined,
+      }), {
+        Authorization: `Bearer ${emailSettings.apiKey}`,
+      })
+      return { messageId: response.headers.get('x-message-id') || undefined }
+    },
+    close: () => {},
+  }
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex')
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest()
+}
+
+/**
+ * Headers for an AWS Signature Version 4 signed JSON POST
+ * @see https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv.html
+ */
+function signAwsRequest(options: {
+  url: URL
+  body: string
+  region: string
+  service: string
+  accessKeyId: string
+  secretAccessKey: string
+}): Record<string, string> {
+  const { url, body, region, service } = options
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+  const dateStamp = amzDate.substring(0, 8)
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`
+
+  const signedHeaders = 'content-type;host;x-amz-date'
+  const canonicalRequest = [
+    'POST',
+    url.pathname,
+    '',
+    `content-type:application/json\nhost:${url.host}\nx-amz-date:${amzDate}\n`,
+    signedHeaders,
+    sha256(body),
+  ].join('\n')
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+
+  let signingKey = hmac(`AWS4${options.secretAccessKey}`, dateStamp)
+  for (const part of [region, service, 'aws4_request']) {
+    signingKey = hmac(signingKey, part)
+  }
+  const signature = hmac(signingKey, stringToSign).toString('hex')
+
+  return {
+    'X-Amz-Date': amzDate,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  }
+}
+
+/**
+ * Amazon SES v2 SendEmail API
+ * @see https://docs.aws.amazon.com/ses/latest/APIReference-V2/API_SendEmail.html
+ */
+function createSesAdapter(emailSettings: EmailSetting): EmailAdapter {
+  const region = emailSettings.sesRegion!
+  const url = new URL(`${getApiUrl(emailSettings, `https://email.${region}.amazonaws.com`)}/v2/email/outbound-emails`)
+
+  return {
+    async send(message) {
+      const body = JSON.stringify({
+        FromEmailAddress: formatAddress(message.from),
+        Destination: { ToAddresses: [message.to] },
+        ReplyToAddresses: message.replyTo ? [message.replyTo] : undefined,
+        Content: {
+          Simple: {
+            Subject: { Data: message.subject, Charset: 'UTF-8' },
+            Body: {
+              Html: { Data: message.html, Charset: 'UTF-8' },
+              Text: { Data: message.text, Charset: 'UTF-8' },
+            },
+            Headers: Object.entries(message.headers).map(([Name, Value]) => ({ Name, Value })),
+          },
+        },
+      })
+      const response = await postJson('Amazon SES', url.toString(), body, signAwsRequest({
+        url,
+        body,
+        region,
+        service: 'ses',
+        accessKeyId: emailSettings.sesAccessKeyId!,
+        secretAccessKey: emailSettings.sesSecretAccessKey!,
+      }))
+      const data = await response.json()
+      return { messageId: data.MessageId }
+    },
+    close: () => {},
+  }
+}
+
+// Space out API requests so at most perSecond start in any one second
+function throttle(adapter: EmailAdapter, perSecond: number): EmailAdapter {
+  const interval = 1000 / perSecond
+  let nextSlot = 0
+
+  return {
+    async send(message) {
+      const now = Date.now()
+      const slot = Math.max(now, nextSlot)
+      nextSlot = slot + interval
+      if (slot > now) {
+        await new Promise((resolve) => setTimeout(resolve, slot - now))
+      }
+      return adapter.send(message)
+    },
+    close: () => adapter.close(),
+  }
+}
+
+/**
+ * Create an adapter for the provider selected in the email settings
+ * A pooled adapter is meant for bulk sends: it is rate limited to messagesPerSecond
+ * and, for SMTP, reuses connections. Close it when done.
+ */
+export function createEmailAdapter(emailSettings: EmailSetting, options: { pool?: boolean } = {}): EmailAdapter {
+  const configError = getEmailConfigError(emailSettings)
+  if (configError) {
+    throw new Error(configError)
+  }
+
+  const provider = getProvider(emailSettings)
+  if (provider === 'smtp') {
+    return createSmtpAdapter(emailSettings, Boolean(options.pool))
+  }
+
+  const adapter = provider === 'ses'
+    ? createSesAdapter(emailSettings)
+    : provider === 'postmark'
+      ? createPostmarkAdapter(emailSettings)
+      : createSendGridAdapter(emailSettings)
+
+  return options.pool
+    ? throttle(adapter, emailSettings.messagesPerSecond || DEFAULT_MESSAGES_PER_SECOND)
+    : adapter
+}
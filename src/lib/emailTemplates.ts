@@ -0,0 +1,104 @@
+import type { EmailSetting } from '@/payload-types'
+
+// Default email bodies for notification drafts, editable under Email Settings → Email Templates
+export const defaultEmailTemplates = {
+  templateIncidentNew: 'A new incident has been reported.\n\nStatus: {{status}}\n\n{{message}}\n\nView full details: {{url}}',
+  templateIncidentUpdate: 'Status: {{status}}\n\n{{message}}\n\nView full details: {{url}}',
+  templateMaintenanceNew: 'A maintenance window has been scheduled.\n\n{{schedule}}\n\nWe will notify you when the maintenance begins and completes.\n\nView full details: {{url}}',
+  templateMaintenanceUpdate: 'Maintenance Status: {{status}}\n\n{{message}}\n\nView full details: {{url}}',
+  templateMaintenanceReminder: 'Reminder: this maintenance window {{message}}.\n\n{{schedule}}\n\nView full details: {{url}}',
+} as const
+
+export type EmailTemplate = keyof typeof defaultEmailTemplates
+
+export const DEFAULT_BRAND_COLOR = '#0066cc'
+
+export const emailTemplateOptions: { label: string; value: EmailTemplate }[] = [
+  { label: 'New Incident', value: 'templateIncidentNew' },
+  { label: 'Incident Update', value: 'templateIncidentUpdate' },
+  { label: 'Maintenance Scheduled', value: 'templateMaintenanceNew' },
+  { label: 'Maintenance Update', value: 'templateMaintenanceUpdate' },
+  { label: 'Maintenance Reminder', value: 'templateMaintenanceReminder' },
+]
+
+export function isEmailTemplate(value: unknown): value is EmailTemplate {
+  return typeof value === 'string' && value in defaultEmailTemplates
+}
+
+// Helper to interpolate template placeholders
+export function interpolateTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key) => vars[key] || '')
+}
+
+/**
+ * Email body for a notification draft from the configured template, or the default one
+ */
+export function renderEmailTemplate(
+  emailSettings: Partial<EmailSetting>,
+  template: EmailTemplate,
+  vars: Record<string, string>,
+): string {
+  return interpolateTemplate(emailSettings[template] || defaultEmailTemplates[template], vars)
+}
+
+/**
+ * Schedule lines for maintenance emails, leaving out the end and duration when they aren't set
+ */
+export function formatEmailSchedule(startTime: string | null, endTime: string | null, duration?: string | null): string {
+  return [
+    `Scheduled Start: ${startTime || 'TBD'}`,
+    endTime ? `Scheduled End: ${endTime}` : '',
+    duration ? `Expected Duration: ${duration}` : '',
+  ].filter(Boolean).join('\n')
+}
+
+/**
+ * Example subject and placeholder values used to preview a template
+ */
+export function getSampleTemplateContent(template: EmailTemplate, siteName: string, siteUrl: string) {
+  const isIncident = template === 'templateIncidentNew' || template === 'templateIncidentUpdate'
+  const title = isIncident ? 'API Gateway Latency Issues' : 'Database Migration'
+  const url = `${siteUrl}/${isIncident ? 'i' : 'm'}/abc123`
+
+  const samples: Record<EmailTemplate, { subject: string; status: string; message: string }> = {
+    templateIncidentNew: {
+      subject: `[Investigating] ${title}`,
+      status: 'Investigating',
+      message: 'We are investigating increased response times on the API gateway.',
+    },
+    templateIncidentUpdate: {
+      subject: `[Identified] ${title}`,
+      status: 'Identified',
+      message: 'The issue has been identified and a fix is being deployed.',
+    },
+    templateMaintenanceNew: {
+      subject: `[Scheduled Maintenance] ${title}`,
+      status: 'Scheduled',
+      message: '',
+    },
+    templateMaintenanceUpdate: {
+      subject: `[Maintenance In Progress] ${title}`,
+      status: 'In Progress',
+      message: 'The migration has started and is running as planned.',
+    },
+    templateMaintenanceReminder: {
+      subject: `[Maintenance Reminder] ${title}`,
+      status: 'Reminder',
+      message: 'starts in 24 hours',
+    },
+  }
+
+  const sample = samples[template]
+
+  return {
+    subject: sample.subject,
+    vars: {
+      siteName,
+      title,
+      status: sample.status,
+      message: sample.message,
+      schedule: isIncident ? '' : formatEmailSchedule('Sat, Jan 11, 2:00 AM', 'Sat, Jan 11, 4:00 AM', '~2 hours'),
+      url,
+    },
+  }
+}
@@ -1,13 +1,38 @@
 /**
  * Service monitoring utilities
  * Provides health check functionality for monitoring service endpoints
+ *
+ * Also used by the standalone probe agent, so this module must only
+ * depend on Node built-ins (and the optional gamedig package).
  */
 
-import { exec } from 'child_process'
+import { execFile } from 'child_process'
 import { promisify } from 'util'
 import * as net from 'net'
+import * as tls from 'tls'
+import { Resolver } from 'dns/promises'
 
-const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
+
+export interface CertificateInfo {
+  subject?: string
+  issuer?: string
+  validFrom: string
+  validTo: string
+  daysRemaining: number
+  authorized: boolean
+  authorizationError?: string
+}
+
+export interface PingStatistics {
+  sent: number
+  received: number
+  packetLoss: number
+  minRtt?: number
+  avgRtt?: number
+  maxRtt?: number
+  jitter?: number
+}
 
 export interface MonitoringCheckResult {
   success: boolean
@@ -15,19 +40,55 @@ export interface MonitoringCheckResult {
   responseTime?: number
   error?: string
   details?: string
+  // Set when the check passed but the service should be considered degraded
+  warning?: string
+  certificate?: CertificateInfo
+  ping?: PingStatistics
+}
+
+export interface BodyAssertion {
+  type: 'contains' | 'not_contains' | 'regex' | 'json_equals' | 'json_exists'
+  path?: string | null
+  value?: string | null
 }
 
 export interface MonitoringConfig {
-  type: 'http' | 'tcp' | 'ping' | 'gamedig'
+  type: 'http' | 'tcp' | 'ping' | 'gamedig' | 'dns' | 'push'
   // HTTP specific
   url?: string
   method?: 'GET' | 'HEAD' | 'POST'
   expectedStatusCode?: number
+  bodyAssertions?: BodyAssertion[]
+  headers?: { name: string; value?: string | null }[]
+  requestBody?: string
+  authType?: 'none' | 'basic' | 'bearer'
+  authUsername?: string
+  authPassword?: string
+  authToken?: string
   // TCP/Ping/GameDig specific
   host?: string
   port?: number
+  // Ping specific
+  packetCount?: number
+  // TLS (HTTPS URLs and TCP with tls enabled)
+  tls?: boolean
+  certExpiryThresholdDays?: number
+  failOnInvalidCertificate?: boolean
   // GameDig specific
   gameType?: string
+  // DNS specific
+  dnsRecordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'
+  dnsResolver?: string
+  dnsExpectedValues?: string[]
+  dnsMatchMode?: 'exact' | 'contains'
+  // Push specific
+  lastPushAt?: string
+  lastPushStatus?: 'up' | 'down'
+  lastPushMessage?: string
+  // Milliseconds allowed between heartbeats (interval plus grace period)
+  pushWindow?: number
+  // When the monitor started waiting for heartbeats, used before the first one arrives
+  pushSince?: string
   // Common
   timeout?: number
 }
@@ -59,18 +120,31 @@ export async function performHealthCheck(
     case 'gamedig':
       result = await performGameDigCheck(config)
       break
+    case 'dns':
+      result = await performDnsCheck(config)
+      break
+    case 'push':
+      result = performPushCheck(config)
+      break
     default:
       result = {
         success: false,
         error: `Unknown monitoring type: ${config.type}`,
       }
   }
+
+  if (usesTls(config)) {
+    result = await applyCertificateChecks(result, config)
+  }
   
   console.log(`[Monitor] ========================================`)
   console.log(`[Monitor] Check complete: ${result.success ? 'SUCCESS' : 'FAILURE'}`)
   if (result.error) {
     console.log(`[Monitor] Error: ${result.error}`)
   }
+  if (result.warning) {
+    console.log(`[Monitor] Warning: ${result.warning}`)
+  }
   if (result.responseTime) {
     console.log(`[Monitor] Response time: ${result.responseTime}ms`)
   }
@@ -79,6 +153,42 @@ export async function performHealthCheck(
   return result
 }
 
+/**
+ * Build request headers for an HTTP check from custom headers and auth settings
+ */
+function buildRequestHeaders(config: MonitoringConfig): Headers {
+  const { headers = [], requestBody, method = 'GET', authType = 'none' } = config
+
+  const requestHeaders = new Headers({
+    'User-Agent': 'Yet-Another-Status-Page-Monitor/1.0',
+  })
+
+  for (const header of headers) {
+    if (header.name) {
+      requestHeaders.set(header.name, header.value || '')
+    }
+  }
+
+  if (authType === 'basic') {
+    const credentials = Buffer.from(`${config.authUsername || ''}:${config.authPassword || ''}`).toString('base64')
+    requestHeaders.set('Authorization', `Basic ${credentials}`)
+  } else if (authType === 'bearer' && config.authToken) {
+    requestHeaders.set('Authorization', `Bearer ${config.authToken}`)
+  }
+
+  if (method === 'POST' && requestBody && !requestHeaders.has('Content-Type')) {
+    let isJson = true
+    try {
+      JSON.parse(requestBody)
+    } catch {
+      isJson = false
+    }
+    requestHeaders.set('Content-Type', isJson ? 'application/json' : 'text/plain')
+  }
+
+  return requestHeaders
+}
+
 /**
  * Perform HTTP/HTTPS health check
  */
@@ -90,6 +200,8 @@ async function performHttpCheck(
     method = 'GET',
     timeout = 10000,
     expectedStatusCode = 200,
+    bodyAssertions = [],
+    requestBody,
   } = config
 
   if (!url) {
@@ -99,6 +211,13 @@ async function performHttpCheck(
     }
   }
 
+  if (bodyAssertions.length > 0 && method === 'HEAD') {
+    return {
+      success: false,
+      error: 'Response body assertions are not supported for HEAD requests',
+    }
+  }
+
   const startTime = Date.now()
 
   // Debug logging
@@ -128,12 +247,10 @@ async function performHttpCheck(
         // Follow redirects by default (most URLs redirect http -> https)
         // This allows monitoring sites like google.com that redirect to https://www.google.com
         redirect: 'follow',
-        headers: {
-          'User-Agent': 'Yet-Another-Status-Page-Monitor/1.0',
-        },
+        headers: buildRequestHeaders(config),
+        body: method === 'POST' && requestBody ? requestBody : undefined,
       })
 
-      clearTimeout(timeoutId)
       const responseTime = Date.now() - startTime
 
       console.log(`[HTTP Monitor] Response: ${response.status} ${response.statusText}`)
@@ -141,13 +258,23 @@ async function performHttpCheck(
       console.log(`[HTTP Monitor] Final URL: ${response.url}`)
 
       // Check if status code matches expected
-      const success = response.status === expectedStatusCode
+      let error: string | undefined
+      if (response.status !== expectedStatusCode) {
+        error = `Expected status ${expectedStatusCode}, got ${response.status}`
+      } else if (bodyAssertions.length > 0) {
+        // Body is read under the same timeout as the request itself
+        const body = await response.text()
+        error = evaluateBodyAssertions(body, bodyAssertions)
+      }
+
+      clearTimeout(timeoutId)
+      const success = !error
 
       const result = {
         success,
         statusCode: response.status,
         responseTime,
-        error: success ? undefined : `Expected status ${expectedStatusCode}, got ${response.status}`,
+        error,
       }
 
       console.log(`[HTTP Monitor] Result: ${success ? 'SUCCESS' : 'FAILURE'}`)
@@ -180,6 +307,263 @@ async function performHttpCheck(
   }
 }
 
+const MAX_SNIPPET_LENGTH = 100
+
+function truncate(value: string): string {
+  return value.length > MAX_SNIPPET_LENGTH ? `${value.slice(0, MAX_SNIPPET_LENGTH)}…` : value
+}
+
+/**
+ * Resolve a simple JSONPath expression against parsed JSON
+ * Supports dot notation, bracket notation and array indexes
+ * (e.g. $.status, $.checks[0].healthy, $['service-name'])
+ */
+export function resolveJsonPath(data: unknown, path: string): { found: boolean; value?: unknown } {
+  const trimmed = path.trim()
+  if (!trimmed.startsWith('$')) {
+    return { found: false }
+  }
+
+  const tokens: string[] = []
+  const pattern = /\.([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/y
+  let position = 1
+
+  while (position < trimmed.length) {
+    pattern.lastIndex = position
+    const match = pattern.exec(trimmed)
+    if (!match) {
+      return { found: false }
+    }
+    tokens.push(match[1] ?? match[2] ?? match[3])
+    position = pattern.lastIndex
+  }
+
+  let current: unknown = data
+  for (const token of tokens) {
+    if (current === null || typeof current !== 'object' || !(token in current)) {
+      return { found: false }
+    }
+    current = (current as Record<string, unknown>)[token]
+  }
+
+  return { found: true, value: current }
+}
+
+/**
+ * Evaluate response body assertions
+ * @returns A description of the first failed assertion, or undefined if all pass
+ */
+export function evaluateBodyAssertions(body: string, assertions: BodyAssertion[]): string | undefined {
+  let json: unknown
+  let jsonParsed = false
+
+  for (const assertion of assertions) {
+    const value = assertion.value ?? ''
+
+    switch (assertion.type) {
+      case 'contains':
+        if (!body.includes(value)) {
+          return `Response body does not contain "${truncate(value)}"`
+        }
+        break
+      case 'not_contains':
+        if (body.includes(value)) {
+          return `Response body contains "${truncate(value)}"`
+        }
+        break
+      case 'regex': {
+        let regex: RegExp
+        try {
+          regex = new RegExp(value)
+        } catch {
+          return `Invalid regular expression: ${truncate(value)}`
+        }
+        if (!regex.test(body)) {
+          return `Response body does not match /${truncate(value)}/`
+        }
+        break
+      }
+      case 'json_equals':
+      case 'json_exists': {
+        const path = assertion.path || ''
+        if (!jsonParsed) {
+          try {
+            json = JSON.parse(body)
+          } catch {
+            return `Response body is not valid JSON (required for ${path || 'JSONPath'} assertion)`
+          }
+          jsonParsed = true
+        }
+
+        const resolved = resolveJsonPath(json, path)
+        if (!resolved.found) {
+          return `JSONPath ${path} not found in response body`
+        }
+
+        if (assertion.type === 'json_equals') {
+          const actual = typeof resolved.value === 'object' && resolved.value !== null
+            ? JSON.stringify(resolved.value)
+            : String(resolved.value)
+          if (actual !== value) {
+            return `Expected ${path} to equal "${truncate(value)}", got "${truncate(actual)}"`
+          }
+        }
+        break
+      }
+    }
+  }
+
+  return undefined
+}
+
+const DEFAULT_CERT_EXPIRY_THRESHOLD_DAYS = 14
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function usesTls(config: MonitoringConfig): boolean {
+  if (config.type === 'http') {
+    return !!config.url?.toLowerCase().startsWith('https://')
+  }
+  return config.type === 'tcp' && !!config.tls
+}
+
+function getTlsTarget(config: MonitoringConfig): { host: string; port: number } | null {
+  if (config.type === 'http' && config.url) {
+    try {
+      const parsedUrl = new URL(config.url)
+      return { host: parsedUrl.hostname, port: parsedUrl.port ? Number(parsedUrl.port) : 443 }
+    } catch {
+      return null
+    }
+  }
+  if (config.host && config.port) {
+    return { host: config.host, port: config.port }
+  }
+  return null
+}
+
+/**
+ * Open a TLS connection and read the peer certificate
+ * Verification errors are reported rather than thrown so that expired or
+ * mismatched certificates can still be inspected.
+ */
+export function inspectCertificate(host: string, port: number, timeout = 10000): Promise<CertificateInfo> {
+  return new Promise((resolve, reject) => {
+    const servername = net.isIP(host) ? undefined : host
+    const socket = tls.connect({ host, port, servername, rejectUnauthorized: false })
+
+    const timeoutId = setTimeout(() => {
+      socket.destroy()
+      reject(new Error(`TLS handshake timeout after ${timeout}ms`))
+    }, timeout)
+
+    socket.once('secureConnect', () => {
+      clearTimeout(timeoutId)
+      const cert = socket.getPeerCertificate()
+      let authorized = socket.authorized
+      let authorizationError = socket.authorizationError ? String(socket.authorizationError) : undefined
+      socket.end()
+
+      if (!cert || !cert.valid_to) {
+        reject(new Error('No peer certificate presented'))
+        return
+      }
+
+      // Hostname verification is not part of chain validation when rejectUnauthorized is off
+      if (authorized && servername) {
+        const identityError = tls.checkServerIdentity(servername, cert)
+        if (identityError) {
+          authorized = false
+          authorizationError = identityError.message
+        }
+      }
+
+      const validTo = new Date(cert.valid_to)
+      resolve({
+        subject: cert.subject?.CN,
+        issuer: cert.issuer?.O || cert.issuer?.CN,
+        validFrom: new Date(cert.valid_from).toISOString(),
+        validTo: validTo.toISOString(),
+        daysRemaining: Math.floor((validTo.getTime() - Date.now()) / DAY_MS),
+        authorized,
+        authorizationError,
+      })
+    })
+
+    socket.once('error', (error) => {
+      clearTimeout(timeoutId)
+      socket.destroy()
+      reject(error)
+    })
+  })
+}
+
+/**
+ * Attach certificate details to a check result and apply expiry and
+ * validity rules
+ */
+async function applyCertificateChecks(
+  result: MonitoringCheckResult,
+  config: MonitoringConfig
+): Promise<MonitoringCheckResult> {
+  const target = getTlsTarget(config)
+  if (!target) return result
+
+  let certificate: CertificateInfo
+  try {
+    certificate = await inspectCertificate(target.host, target.port, config.timeout)
+  } catch (error: any) {
+    console.error(`[TLS Monitor] Certificate inspection failed for ${target.host}:${target.port}: ${error.message}`)
+    // HTTPS results already reflect TLS failures; plain TCP needs the handshake to count
+    if (config.type === 'tcp' && result.success) {
+      return { ...result, success: false, error: `TLS handshake failed: ${error.message}` }
+    }
+    return result
+  }
+
+  console.log(`[TLS Monitor] Certificate for ${target.host} issued by ${certificate.issuer || 'unknown'}, expires ${certificate.validTo} (${certificate.daysRemaining} days)`)
+
+  const checked: MonitoringCheckResult = { ...result, certificate }
+  if (!checked.success) {
+    // fetch only reports "fetch failed" when the handshake is rejected
+    if (config.type === 'http' && !result.statusCode && !certificate.authorized) {
+      checked.error = `Invalid TLS certificate: ${certificate.authorizationError || 'verification failed'}`
+    }
+    return checked
+  }
+
+  const { error, warning } = evaluateCertificate(certificate, config)
+  if (error) {
+    return { ...checked, success: false, error }
+  }
+
+  return warning ? { ...checked, warning } : checked
+}
+
+/**
+ * Apply the expiry and validity rules to the certificate of a passing check
+ * Certificates close to expiry or expired give a warning; invalid certificates
+ * fail the check when failOnInvalidCertificate is set.
+ */
+export function evaluateCertificate(
+  certificate: CertificateInfo,
+  config: Pick<MonitoringConfig, 'failOnInvalidCertificate' | 'certExpiryThresholdDays'>
+): { error?: string; warning?: string } {
+  if (config.failOnInvalidCertificate && !certificate.authorized) {
+    return { error: `Invalid TLS certificate: ${certificate.authorizationError || 'verification failed'}` }
+  }
+
+  const threshold = config.certExpiryThresholdDays ?? DEFAULT_CERT_EXPIRY_THRESHOLD_DAYS
+  const expiryDate = certificate.validTo.split('T')[0]
+  if (certificate.daysRemaining < 0) {
+    return { warning: `TLS certificate expired on ${expiryDate}` }
+  }
+  if (threshold > 0 && certificate.daysRemaining <= threshold) {
+    return { warning: `TLS certificate expires in ${certificate.daysRemaining} day${certificate.daysRemaining !== 1 ? 's' : ''} (${expiryDate})` }
+  }
+
+  return {}
+}
+
 /**
  * Perform TCP port check
  */
@@ -245,13 +629,72 @@ async function performTcpCheck(
   })
 }
 
+const HOSTNAME_PATTERN = /^(?=.{1,253}\.?$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*\.?$/i
+const MAX_PING_PACKETS = 20
+
 /**
- * Perform Ping (ICMP) check
+ * Check that a ping target is a plain hostname or IP address
+ * Anything else (spaces, shell metacharacters, leading dashes) is rejected
+ * before it reaches the ping command.
+ */
+export function isValidPingHost(host: string): boolean {
+  return net.isIP(host) !== 0 || HOSTNAME_PATTERN.test(host)
+}
+
+/**
+ * Parse packet counts and round-trip times from ping output
+ * Handles iputils, BusyBox and BSD/macOS formats. Jitter is the mean
+ * difference between consecutive round-trip times.
+ */
+export function parsePingOutput(output: string, sent: number): PingStatistics {
+  const countsMatch = output.match(/(\d+)\s+packets? transmitted,\s+(\d+)\s+(?:packets? )?received/i)
+  const transmitted = countsMatch ? parseInt(countsMatch[1], 10) : sent
+  const received = countsMatch ? parseInt(countsMatch[2], 10) : 0
+
+  const rtts = Array.from(output.matchAll(/time[=<]\s*([0-9.]+)\s*ms/gi)).map((match) => parseFloat(match[1]))
+
+  const stats: PingStatistics = {
+    sent: transmitted,
+    received,
+    packetLoss: transmitted > 0 ? Math.round(((transmitted - received) / transmitted) * 1000) / 10 : 100,
+  }
+
+  if (rtts.length > 0) {
+    const round = (value: number) => Math.round(value * 1000) / 1000
+    stats.minRtt = round(Math.min(...rtts))
+    stats.maxRtt = round(Math.max(...rtts))
+    stats.avgRtt = round(rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length)
+    if (rtts.length > 1) {
+      const differences = rtts.slice(1).map((rtt, index) => Math.abs(rtt - rtts[index]))
+      stats.jitter = round(differences.reduce((sum, diff) => sum + diff, 0) / differences.length)
+    }
+  }
+
+  return stats
+}
+
+function formatPingStatistics(stats: PingStatistics): string {
+  const parts = [`${stats.received}/${stats.sent} packets received (${stats.packetLoss}% loss)`]
+  if (stats.avgRtt !== undefined) {
+    parts.push(`avg ${stats.avgRtt} ms (min ${stats.minRtt}, max ${stats.maxRtt})`)
+  }
+  if (stats.jitter !== undefined) {
+    parts.push(`jitter ${stats.jitter} ms`)
+  }
+  return parts.join(', ')
+}
+
+/**
+ * Perform ICMP ping check
+ * Runs the system ping command without a shell, passing the validated host
+ * as a single argument. Partial packet loss passes with a warning so the
+ * service is marked degraded; total loss fails the check.
  */
 async function performPingCheck(
   config: MonitoringConfig
 ): Promise<MonitoringCheckResult> {
   const { host, timeout = 10000 } = config
+  const packetCount = Math.min(Math.max(Math.round(config.packetCount || 1), 1), MAX_PING_PACKETS)
 
   if (!host) {
     return {
@@ -260,58 +703,65 @@ async function performPingCheck(
     }
   }
 
+  if (!isValidPingHost(host)) {
+    console.error(`[Ping Monitor] Rejected invalid host: ${JSON.stringify(host)}`)
+    return {
+      success: false,
+      error: 'Invalid host. Use a hostname or IP address.',
+    }
+  }
+
   const startTime = Date.now()
 
   // Debug logging
   console.log(`[Ping Monitor] Starting check for ${host}`)
-  console.log(`[Ping Monitor] Timeout: ${timeout}ms`)
-
-  try {
-    // Use system ping command
-    // -c 1: send 1 packet
-    // -W: timeout in seconds
-    const timeoutSec = Math.ceil(timeout / 1000)
-    console.log(`[Ping Monitor] Executing: ping -c 1 -W ${timeoutSec} ${host}`)
-    const { stdout, stderr } = await execAsync(
-      `ping -c 1 -W ${timeoutSec} ${host}`,
-      { timeout }
-    )
-
-    const responseTime = Date.now() - startTime
-
-    console.log(`[Ping Monitor] Stdout: ${stdout.substring(0, 200)}`)
-    if (stderr) {
-      console.log(`[Ping Monitor] Stderr: ${stderr}`)
-    }
+  console.log(`[Ping Monitor] Packets: ${packetCount}, Timeout: ${timeout}ms`)
 
-    // Check if ping was successful
-    if (stdout.includes('1 received') || stdout.includes('1 packets received')) {
-      // Extract time from ping output
-      const timeMatch = stdout.match(/time[=:]?\s*([0-9.]+)\s*ms/i)
-      const pingTime = timeMatch ? parseFloat(timeMatch[1]) : responseTime
+  // -n: numeric output, -c: packet count, -W: seconds to wait for a reply
+  const timeoutSec = Math.ceil(timeout / 1000)
+  const args = ['-n', '-c', String(packetCount), '-W', String(timeoutSec), host]
 
-      console.log(`[Ping Monitor] Ping successful, time: ${pingTime}ms`)
-      return {
-        success: true,
-        responseTime: pingTime,
-        details: `Host is reachable`,
-      }
+  let output: string
+  try {
+    console.log(`[Ping Monitor] Executing: ping ${args.join(' ')}`)
+    // Packets are sent one second apart, so allow for the whole run
+    const { stdout } = await execFileAsync('ping', args, { timeout: timeout + packetCount * 1000 })
+    output = stdout
+  } catch (error: any) {
+    // ping exits non-zero when packets are lost; its output is still usable
+    if (typeof error.stdout === 'string' && /transmitted/i.test(error.stdout)) {
+      output = error.stdout
     } else {
-      console.error(`[Ping Monitor] Host unreachable`)
+      console.error(`[Ping Monitor] Exception: ${error.message}`)
       return {
         success: false,
-        responseTime,
-        error: 'Host unreachable or packet lost',
+        responseTime: Date.now() - startTime,
+        error: error.code === 'ENOENT' ? 'ping command not available on this server' : (error.stderr || error.message || 'Ping failed').trim(),
       }
     }
-  } catch (error: any) {
-    console.error(`[Ping Monitor] Exception: ${error.message}`)
+  }
+
+  const stats = parsePingOutput(output, packetCount)
+  const details = formatPingStatistics(stats)
+  console.log(`[Ping Monitor] ${details}`)
+
+  if (stats.received === 0) {
     return {
       success: false,
       responseTime: Date.now() - startTime,
-      error: error.message || 'Ping failed',
+      error: 'Host unreachable or all packets lost',
+      details,
+      ping: stats,
     }
   }
+
+  return {
+    success: true,
+    responseTime: stats.avgRtt ?? Date.now() - startTime,
+    details,
+    ping: stats,
+    warning: stats.packetLoss > 0 ? `Packet loss ${stats.packetLoss}% (${stats.received}/${stats.sent} received)` : undefined,
+  }
 }
 
 /**
@@ -380,21 +830,338 @@ async function performGameDigCheck(
   }
 }
 
+/**
+ * Resolve records of the given type, normalized for comparison
+ * Hostnames are lowercased without the trailing dot, MX records are
+ * formatted as "priority exchange" and TXT chunks are joined.
+ */
+async function resolveDnsRecords(
+  resolver: Resolver,
+  host: string,
+  recordType: NonNullable<MonitoringConfig['dnsRecordType']>
+): Promise<string[]> {
+  switch (recordType) {
+    case 'A':
+      return resolver.resolve4(host)
+    case 'AAAA':
+      return resolver.resolve6(host)
+    case 'CNAME':
+      return (await resolver.resolveCname(host)).map(normalizeDnsName)
+    case 'MX':
+      return (await resolver.resolveMx(host)).map((mx) => `${mx.priority} ${normalizeDnsName(mx.exchange)}`)
+    case 'TXT':
+      return (await resolver.resolveTxt(host)).map((chunks) => chunks.join(''))
+    case 'NS':
+      return (await resolver.resolveNs(host)).map(normalizeDnsName)
+  }
+}
+
+function normalizeDnsName(name: string): string {
+  return name.trim().toLowerCase().replace(/\.$/, '')
+}
+
+function normalizeExpectedDnsValue(
+  value: string,
+  recordType: NonNullable<MonitoringConfig['dnsRecordType']>
+): string {
+  if (recordType === 'TXT') return value
+  if (recordType === 'MX') {
+    const [priority, exchange] = value.trim().split(/\s+/)
+    return exchange ? `${priority} ${normalizeDnsName(exchange)}` : normalizeDnsName(priority)
+  }
+  return normalizeDnsName(value)
+}
+
+/**
+ * Compare resolved records with the expected values
+ * In exact mode, records that weren't expected are reported too.
+ * MX priorities are ignored when the expected values only list exchanges.
+ * @returns Expected values that are missing and records that weren't expected
+ */
+export function compareDnsRecords(
+  answers: string[],
+  expectedValues: string[],
+  recordType: NonNullable<MonitoringConfig['dnsRecordType']>,
+  matchMode: NonNullable<MonitoringConfig['dnsMatchMode']> = 'exact'
+): { missing: string[]; unexpected: string[] } {
+  const expected = expectedValues.map((value) => normalizeExpectedDnsValue(value, recordType))
+  const comparable = recordType === 'MX' && expected.length > 0 && expected.every((value) => !value.includes(' '))
+    ? answers.map((answer) => answer.split(' ')[1])
+    : answers
+
+  return {
+    missing: expected.filter((value) => !comparable.includes(value)),
+    unexpected: matchMode === 'exact' && expected.length > 0
+      ? comparable.filter((value) => !expected.includes(value))
+      : [],
+  }
+}
+
+/**
+ * Perform DNS record check
+ * Resolves the records for a hostname and compares them to the expected
+ * values to detect hijacks or propagation failures
+ */
+async function performDnsCheck(
+  config: MonitoringConfig
+): Promise<MonitoringCheckResult> {
+  const {
+    host,
+    dnsRecordType = 'A',
+    dnsResolver,
+    dnsExpectedValues = [],
+    dnsMatchMode = 'exact',
+    timeout = 10000,
+  } = config
+
+  if (!host) {
+    return {
+      success: false,
+      error: 'Hostname is required for DNS monitoring',
+    }
+  }
+
+  const startTime = Date.now()
+
+  // Debug logging
+  console.log(`[DNS Monitor] Resolving ${dnsRecordType} records for ${host}${dnsResolver ? ` via ${dnsResolver}` : ''}`)
+  console.log(`[DNS Monitor] Timeout: ${timeout}ms`)
+
+  try {
+    const resolver = new Resolver({ timeout, tries: 1 })
+    if (dnsResolver) {
+      resolver.setServers([dnsResolver.trim()])
+    }
+
+    const answers = await resolveDnsRecords(resolver, host, dnsRecordType)
+    const responseTime = Date.now() - startTime
+
+    console.log(`[DNS Monitor] Answer: ${answers.join(', ') || '(empty)'}`)
+
+    if (answers.length === 0) {
+      return {
+        success: false,
+        responseTime,
+        error: `No ${dnsRecordType} records found for ${host}`,
+      }
+    }
+
+    const details = `${dnsRecordType} ${host}: ${answers.join(', ')}`
+
+    const { missing, unexpected } = compareDnsRecords(answers, dnsExpectedValues, dnsRecordType, dnsMatchMode)
+
+    if (missing.length > 0 || unexpected.length > 0) {
+      const problems = [
+        missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+        unexpected.length > 0 ? `unexpected ${unexpected.join(', ')}` : '',
+      ].filter(Boolean).join('; ')
+      console.error(`[DNS Monitor] Answer mismatch: ${problems}`)
+      return {
+        success: false,
+        responseTime,
+        error: `${dnsRecordType} records for ${host} do not match expected values (${problems})`,
+        details,
+      }
+    }
+
+    return {
+      success: true,
+      responseTime,
+      details,
+    }
+  } catch (error: any) {
+    const notFound = ['ENOTFOUND', 'ENODATA'].includes(error.code)
+    console.error(`[DNS Monitor] Lookup failed for ${host}: ${error.message}`)
+    return {
+      success: false,
+      responseTime: Date.now() - startTime,
+      error: notFound ? `No ${dnsRecordType} records found for ${host}` : error.message || 'DNS lookup failed',
+    }
+  }
+}
+
+/**
+ * Evaluate a push (heartbeat) monitor
+ * Nothing is contacted; the result depends on when the service last
+ * reported in through its heartbeat URL and what status it reported.
+ */
+function performPushCheck(config: MonitoringConfig): MonitoringCheckResult {
+  const { lastPushAt, lastPushStatus, lastPushMessage, pushWindow = 120000, pushSince } = config
+  const windowSeconds = Math.round(pushWindow / 1000)
+
+  console.log(`[Push Monitor] Last heartbeat: ${lastPushAt || 'never'} (${lastPushStatus || 'n/a'}), window: ${windowSeconds}s`)
+
+  if (!lastPushAt) {
+    if (pushSince && Date.now() - new Date(pushSince).getTime() <= pushWindow) {
+      return {
+        success: true,
+        details: 'Waiting for first heartbeat',
+      }
+    }
+    return {
+      success: false,
+      error: 'No heartbeat received yet',
+    }
+  }
+
+  const ageSeconds = Math.round((Date.now() - new Date(lastPushAt).getTime()) / 1000)
+
+  if (ageSeconds * 1000 > pushWindow) {
+    return {
+      success: false,
+      error: `No heartbeat received in ${ageSeconds}s (expected within ${windowSeconds}s)`,
+    }
+  }
+
+  if (lastPushStatus === 'down') {
+    return {
+      success: false,
+      error: `Heartbeat reported failure${lastPushMessage ? `: ${lastPushMessage}` : ''}`,
+    }
+  }
+
+  return {
+    success: true,
+    details: `Last heartbeat ${ageSeconds}s ago${lastPushMessage ? `: ${lastPushMessage}` : ''}`,
+  }
+}
+
+export type ServiceHealthStatus = 'operational' | 'degraded' | 'partial' | 'major'
+
+// Ordered from best to worst
+const STATUS_SEVERITY: ServiceHealthStatus[] = ['operational', 'degraded', 'partial', 'major']
+
+/**
+ * Return the most severe of the given statuses
+ */
+export function worstStatus(...statuses: ServiceHealthStatus[]): ServiceHealthStatus {
+  return statuses.reduce(
+    (worst, status) => (STATUS_SEVERITY.indexOf(status) > STATUS_SEVERITY.indexOf(worst) ? status : worst),
+    'operational'
+  )
+}
+
+/**
+ * Whether moving from one service status to another is a recovery
+ * (e.g. Major Outage to Degraded Performance). Maintenance is never a recovery.
+ */
+export function isStatusImprovement(next: string, previous: string): boolean {
+  const nextIndex = STATUS_SEVERITY.indexOf(next as ServiceHealthStatus)
+  const previousIndex = STATUS_SEVERITY.indexOf(previous as ServiceHealthStatus)
+  return nextIndex !== -1 && previousIndex !== -1 && nextIndex < previousIndex
+}
+
+export type LatencyMetric = 'average' | 'median' | 'p95' | 'max'
+
+export interface LatencyThresholds {
+  // Response time (ms) above which the service is degraded
+  warn?: number | null
+  // Response time (ms) above which the service has a partial outage
+  critical?: number | null
+  metric?: LatencyMetric
+}
+
+export interface LatencyEvaluation {
+  status: 'operational' | 'degraded' | 'partial'
+  // Measured latency in ms, null when there are no response times
+  value: number | null
+  reason?: string
+}
+
+const latencyMetricLabels: Record<LatencyMetric, string> = {
+  average: 'Average',
+  median: 'Median',
+  p95: '95th percentile',
+  max: 'Maximum',
+}
+
+function percentile(sorted: number[], p: number): number {
+  // Nearest-rank percentile
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]
+}
+
+/**
+ * Compare recent response times against latency thresholds
+ * @param responseTimes Response times (ms) of recent successful checks
+ * @param thresholds Warning and critical thresholds and the metric to compare
+ */
+export function evaluateLatency(responseTimes: number[], thresholds: LatencyThresholds): LatencyEvaluation {
+  if (responseTimes.length === 0) {
+    return { status: 'operational', value: null }
+  }
+
+  const metric = thresholds.metric || 'average'
+  const sorted = [...responseTimes].sort((a, b) => a - b)
+  let value: number
+
+  switch (metric) {
+    case 'median':
+      value = percentile(sorted, 50)
+      break
+    case 'p95':
+      value = percentile(sorted, 95)
+      break
+    case 'max':
+      value = sorted[sorted.length - 1]
+      break
+    default:
+      value = sorted.reduce((sum, time) => sum + time, 0) / sorted.length
+  }
+  value = Math.round(value)
+
+  const label = `${latencyMetricLabels[metric]} response time ${value}ms over the last ${sorted.length} check${sorted.length === 1 ? '' : 's'}`
+
+  if (thresholds.critical && value > thresholds.critical) {
+    return { status: 'partial', value, reason: `${label} exceeds the critical threshold of ${thresholds.critical}ms` }
+  }
+  if (thresholds.warn && value > thresholds.warn) {
+    return { status: 'degraded', value, reason: `${label} exceeds the warning threshold of ${thresholds.warn}ms` }
+  }
+  return { status: 'operational', value }
+}
+
+/**
+ * Consecutive failures (or successes) that at least `quorum` probes agree on
+ * @param probeCounts Consecutive failures or successes reported by each probe
+ * @param quorum Number of probes that must agree
+ * @returns null when fewer probes are reporting than the quorum requires
+ */
+export function getQuorumCount(probeCounts: number[], quorum = 1): number | null {
+  const required = Math.max(quorum, 1)
+  if (probeCounts.length < required) return null
+  const sorted = [...probeCounts].sort((a, b) => b - a)
+  return sorted[required - 1]
+}
+
 /**
  * Determine the appropriate service status based on consecutive failures
- * @param consecutiveFailures Number of consecutive failed checks
+ * @param probeFailures Consecutive failed checks, either a single count or one count per probe
  * @param failureThreshold Threshold for marking service as down
- * @returns Suggested service status
+ * @param quorum Number of probes that must agree before the status changes
+ * @param performanceStatus Status from passing checks (latency thresholds, warnings); the worse status wins
+ * @returns Suggested service status, or null when too few probes are reporting to reach the quorum
  */
 export function determineServiceStatus(
-  consecutiveFailures: number,
-  failureThreshold: number
-): 'operational' | 'degraded' | 'major' {
+  probeFailures: number | number[],
+  failureThreshold: number,
+  quorum = 1,
+  performanceStatus: ServiceHealthStatus = 'operational'
+): ServiceHealthStatus | null {
+  const consecutiveFailures = getQuorumCount(
+    Array.isArray(probeFailures) ? probeFailures : [probeFailures],
+    quorum
+  )
+  if (consecutiveFailures === null) return null
+
+  let failureStatus: ServiceHealthStatus
   if (consecutiveFailures === 0) {
-    return 'operational'
+    failureStatus = 'operational'
   } else if (consecutiveFailures < failureThreshold) {
-    return 'degraded'
+    failureStatus = 'degraded'
   } else {
-    return 'major'
+    failureStatus = 'major'
   }
+
+  return worstStatus(failureStatus, performanceStatus)
 }
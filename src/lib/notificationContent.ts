@@ -0,0 +1,126 @@
+import type { BasePayload } from 'payload'
+import { incidentStatusOptions } from '@/collections/Incidents'
+import { getReminderMessage, maintenanceStatusOptions } from '@/collections/Maintenances'
+import type { Incident, Maintenance, Notification, Service } from '@/payload-types'
+
+/**
+ * Structured content of a notification for chat channels (Slack, Teams, Discord)
+ * Built from the incident or maintenance update the notification was drafted
+ * for, or from the subject and email body of a manual notification.
+ */
+export interface NotificationContent {
+  siteName: string
+  title: string
+  status?: Incident['status'] | Maintenance['status']
+  statusLabel?: string
+  message: string
+  affectedServices: string[]
+  url: string
+  // Colour of the status, used for message accents
+  color: string
+  // Follow-up update of an earlier notification (not the first for its incident or maintenance)
+  isUpdate: boolean
+}
+
+const statusColors: Record<string, string> = {
+  investigating: '#dc2626',
+  identified: '#f97316',
+  monitoring: '#3b82f6',
+  resolved: '#16a34a',
+  upcoming: '#3b82f6',
+  in_progress: '#3b82f6',
+  completed: '#16a34a',
+  cancelled: '#6b7280',
+}
+const DEFAULT_COLOR = '#6b7280'
+
+const statusLabels: Record<string, string> = Object.fromEntries(
+  [...incidentStatusOptions, ...maintenanceStatusOptions].map((option) => [option.value, option.label]),
+)
+
+function formatDateTime(date: string | null | undefined): string | null {
+  if (!date) return null
+  return new Date(date).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+function getServiceNames(services: (number | Service)[] | null | undefined): string[] {
+  return (services || [])
+    .filter((service): service is Service => typeof service === 'object' && service !== null)
+    .map((service) => service.name)
+}
+
+// Update a notification was drafted for, or the latest one for manual notifications
+function getUpdate<T>(updates: T[] | null | undefined, updateIndex: number | null | undefined): T | undefined {
+  if (!updates || updates.length === 0) return undefined
+  if (typeof updateIndex === 'number' && updateIndex >= 0) return updates[updateIndex]
+  return updates[updates.length - 1]
+}
+
+export async function getNotificationContent(
+  payload: BasePayload,
+  notification: Notification,
+  options: { siteName: string; itemTitle: string; itemUrl: string },
+): Promise<NotificationContent> {
+  const { siteName, itemTitle, itemUrl } = options
+
+  const incident = typeof notification.relatedIncident === 'number'
+    ? await payload.findByID({ collection: 'incidents', id: notification.relatedIncident, depth: 1 })
+    : notification.relatedIncident
+  if (incident) {
+    const update = getUpdate(incident.updates, notification.updateIndex)
+    const status = update?.status || incident.status
+    return {
+      siteName,
+      title: incident.title,
+      status,
+      statusLabel: statusLabels[status],
+      message: update?.message || '',
+      affectedServices: getServiceNames(incident.affectedServices),
+      url: itemUrl,
+      color: statusColors[status] || DEFAULT_COLOR,
+      isUpdate: (notification.updateIndex || 0) > 0,
+    }
+  }
+
+  const maintenance = typeof notification.relatedMaintenance === 'number'
+    ? await payload.findByID({ collection: 'maintenances', id: notification.relatedMaintenance, depth: 1 })
+    : notification.relatedMaintenance
+  if (maintenance) {
+    // Maintenance drafts use -1 for the announcement of a new maintenance
+    const isAnnouncement = notification.updateIndex === -1
+    const update = isAnnouncement ? undefined : getUpdate(maintenance.updates, notification.updateIndex)
+    const status = update?.status || maintenance.status
+    const start = formatDateTime(maintenance.scheduledStartAt)
+    const end = formatDateTime(maintenance.scheduledEndAt)
+    const schedule = `Scheduled: ${start || 'TBD'}${end ? ` - ${end}` : ''}${maintenance.duration ? ` (${maintenance.duration})` : ''}`
+    const lead = notification.reminder ? getReminderMessage(notification.reminder) : update?.message
+
+    return {
+      siteName,
+      title: maintenance.title,
+      status,
+      statusLabel: statusLabels[status],
+      message: lead ? `${lead}\n${schedule}` : schedule,
+      affectedServices: getServiceNames(maintenance.affectedServices),
+      url: itemUrl,
+      color: statusColors[status] || DEFAULT_COLOR,
+      isUpdate: !isAnnouncement || !!notification.reminder,
+    }
+  }
+
+  return {
+    siteName,
+    title: notification.subject || itemTitle,
+    message: notification.emailBody || notification.smsBody || '',
+    affectedServices: [],
+    url: itemUrl,
+    color: DEFAULT_COLOR,
+    isUpdate: false,
+  }
+}
@@ -0,0 +1,223 @@
+import type { BasePayload } from 'payload'
+import type { NotificationDeliveryChannel } from '@/collections/NotificationDeliveries'
+import { getRecipientWhere, type NotificationAudience } from '@/lib/subscriberAudience'
+import type { NotificationDelivery, Subscriber } from '@/payload-types'
+
+export interface DeliveryAttempt {
+  subscriberId: number
+  recipient: string
+  success: boolean
+  messageId?: string
+  error?: string
+}
+
+export interface PendingRecipientsOptions {
+  notificationId: number | string
+  audience: NotificationAudience
+  // When this send started; subscribers attempted since then are skipped
+  startedAt: number
+  // Only include subscribers whose earlier delivery failed
+  retryFailed?: boolean
+  // Start after this subscriber id
+  afterId?: number | null
+  limit?: number
+}
+
+export interface PendingRecipients {
+  recipients: Subscriber[]
+  // Earlier deliveries to the subscribers that were read, for recordDeliveries
+  deliveries: Map<string, NotificationDelivery>
+  // Last subscriber read; a continued send resumes after it
+  cursor?: number
+  hasMore: boolean
+}
+
+// Deliveries are written in batches to keep large sends from opening too many connections
+const WRITE_BATCH_SIZE = 50
+// Subscribers read per query while collecting recipients
+const SUBSCRIBER_PAGE_SIZE = 500
+
+const getDeliveryKey = (channel: string, subscriberId: number) => `${channel}:${subscriberId}`
+
+/**
+ * Earlier deliveries of a notification, keyed by channel and subscriber
+ * @param subscriberIds Only load the deliveries to these subscribers
+ */
+export async function getNotificationDeliveries(
+  payload: BasePayload,
+  notificationId: number | string,
+  subscriberIds?: number[],
+): Promise<Map<string, NotificationDelivery>> {
+  const deliveries = new Map<string, NotificationDelivery>()
+  let page = 1
+  let hasMore = subscriberIds?.length !== 0
+
+  while (hasMore) {
+    const result = await payload.find({
+      collection: 'notification-deliveries',
+      where: {
+        notification: { equals: notificationId },
+        ...(subscriberIds && { subscriber: { in: subscriberIds } }),
+      },
+      limit: 500,
+      page,
+      depth: 0,
+    })
+
+    for (const delivery of result.docs as NotificationDelivery[]) {
+      const subscriberId = typeof delivery.subscriber === 'object' ? delivery.subscriber.id : delivery.subscriber
+      deliveries.set(getDeliveryKey(delivery.channel, subscriberId), delivery)
+    }
+    hasMore = result.hasNextPage
+    page++
+  }
+
+  return deliveries
+}
+
+/**
+ * Earlier delivery of a notification to a subscriber on a channel
+ */
+export function findDelivery(
+  deliveries: Map<string, NotificationDelivery>,
+  channel: NotificationDeliveryChannel,
+  subscriberId: number,
+): NotificationDelivery | undefined {
+  return deliveries.get(getDeliveryKey(channel, subscriberId))
+}
+
+/**
+ * Subscribers of a type that still need a notification, in id order
+ * Subscribers who already received it are skipped, so retries never send twice, and so are those
+ * attempted since the send started, so a continued or crashed job resumes where it stopped.
+ * Pages are read until `limit` recipients are found, loading only the deliveries of each page,
+ * so every job run of a large send reads each subscriber once.
+ */
+export async function findPendingRecipients(
+  payload: BasePayload,
+  type: 'email' | 'sms',
+  { notificationId, audience, startedAt, retryFailed, afterId, limit = Infinity }: PendingRecipientsOptions,
+): Promise<PendingRecipients> {
+  const recipients: Subscriber[] = []
+  const deliveries = new Map<string, NotificationDelivery>()
+  let cursor = afterId || undefined
+  let hasMore = true
+
+  while (hasMore && recipients.length < limit) {
+    const result = await payload.find({
+      collection: 'subscribers',
+      where: cursor
+        ? { and: [getRecipientWhere(type, audience), { id: { greater_than: cursor } }] }
+        : getRecipientWhere(type, audience),
+      sort: 'id',
+      limit: SUBSCRIBER_PAGE_SIZE,
+      pagination: false,
+      depth: 0,
+    })
+    const page = result.docs as Subscriber[]
+    const pageDeliveries = await getNotificationDeliveries(payload, notificationId, page.map((s) => s.id))
+    pageDeliveries.forEach((delivery, key) => deliveries.set(key, delivery))
+    hasMore = page.length === SUBSCRIBER_PAGE_SIZE
+
+    for (const [index, subscriber] of page.entries()) {
+      const delivery = findDelivery(pageDeliveries, type, subscriber.id)
+      cursor = subscriber.id
+
+      const attempted = delivery?.lastAttemptAt && new Date(delivery.lastAttemptAt).getTime() >= startedAt
+      const needsDelivery = retryFailed ? delivery?.status === 'failed' : delivery?.status !== 'sent'
+      if ((type === 'email' ? subscriber.email : subscriber.phone) && !attempted && needsDelivery) {
+        recipients.push(subscriber)
+      }
+
+      if (recipients.length >= limit) {
+        hasMore = hasMore || index < page.length - 1
+        break
+      }
+    }
+  }
+
+  return { recipients, deliveries, cursor, hasMore }
+}
+
+/**
+ * Log the outcome of sending a notification to each recipient
+ * Recipients with an earlier delivery have it updated instead of getting a second one.
+ */
+export async function recordDeliveries(
+  payload: BasePayload,
+  notificationId: number,
+  channel: NotificationDeliveryChannel,
+  attempts: DeliveryAttempt[],
+  deliveries: Map<string, NotificationDelivery>,
+): Promise<void> {
+  const now = new Date().toISOString()
+
+  for (let i = 0; i < attempts.length; i += WRITE_BATCH_SIZE) {
+    const batch = attempts.slice(i, i + WRITE_BATCH_SIZE)
+
+    await Promise.all(
+      batch.map(async (attempt) => {
+        const existing = findDelivery(deliveries, channel, attempt.subscriberId)
+        const data = {
+          recipient: attempt.recipient,
+          status: attempt.success ? 'sent' as const : 'failed' as const,
+          providerMessageId: attempt.messageId || null,
+          error: attempt.error || null,
+          lastAttemptAt: now,
+          sentAt: attempt.success ? now : null,
+        }
+
+        try {
+          if (existing) {
+            await payload.update({
+              collection: 'notification-deliveries',
+              id: existing.id,
+              data: {
+                ...data,
+                attempts: (existing.attempts || 0) + 1,
+              },
+            })
+          } else {
+            await payload.create({
+              collection: 'notification-deliveries',
+              data: {
+                ...data,
+                notification: notificationId,
+                subscriber: attempt.subscriberId,
+                channel,
+                attempts: 1,
+              },
+            })
+          }
+        } catch (error: any) {
+          // A missing log entry shouldn't fail a send that already went out
+          console.error(`[Notifications] Failed to record ${channel} delivery to subscriber ${attempt.subscriberId}:`, error.message)
+        }
+      }),
+    )
+  }
+}
+
+/**
+ * Number of recipients a notification was sent to and that failed
+ */
+export async function countDeliveries(payload: BasePayload, notificationId: number | string) {
+  const [sent, failed] = await Promise.all([
+    payload.count({
+      collection: 'notification-deliveries',
+      where: {
+        notification: { equals: notificationId },
+        status: { equals: 'sent' },
+      },
+    }),
+    payload.count({
+      collection: 'notification-deliveries',
+      where: {
+        notification: { equals: notificationId },
+        status: { equals: 'failed' },
+      },
+    }),
+  ])
+
+  return { sent: sent.totalDocs, failed: failed.totalDocs }
+}
@@ -0,0 +1,75 @@
+import type { BasePayload } from 'payload'
+import { getServerUrl } from '@/lib/utils'
+import type { Notification } from '@/payload-types'
+
+// Queue for scheduled notifications and the sends they dispatch
+export const NOTIFICATION_QUEUE = 'notifications'
+
+/**
+ * Title and permalink of the incident or maintenance a notification is about
+ */
+async function getNotificationItem(payload: BasePayload, notification: Notification) {
+  const siteUrl = getServerUrl()
+  let itemUrl = siteUrl
+  let itemTitle = 'Status Update'
+
+  if (notification.relatedIncident) {
+    const incident = typeof notification.relatedIncident === 'object'
+      ? notification.relatedIncident
+      : await payload.findByID({ collection: 'incidents', id: notification.relatedIncident, depth: 0, disableErrors: true })
+
+    if (incident) {
+      itemTitle = incident.title
+      if (incident.shortId) {
+        itemUrl = `${siteUrl}/i/${incident.shortId}`
+      }
+    }
+  } else if (notification.relatedMaintenance) {
+    const maintenance = typeof notification.relatedMaintenance === 'object'
+      ? notification.relatedMaintenance
+      : await payload.findByID({ collection: 'maintenances', id: notification.relatedMaintenance, depth: 0, disableErrors: true })
+
+    if (maintenance) {
+      itemTitle = maintenance.title
+      if (maintenance.shortId) {
+        itemUrl = `${siteUrl}/m/${maintenance.shortId}`
+      }
+    }
+  }
+
+  return { itemTitle, itemUrl }
+}
+
+/**
+ * Mark a notification as sending and queue the job that delivers it
+ * With retryFailed, only recipients whose earlier delivery failed are sent to.
+ */
+export async function queueNotificationSend(
+  payload: BasePayload,
+  notification: Notification,
+  options: { queue?: string; retryFailed?: boolean } = {},
+) {
+  const { itemTitle, itemUrl } = await getNotificationItem(payload, notification)
+
+  await payload.update({
+    collection: 'notifications',
+    id: notification.id,
+    data: { status: 'sending' },
+  })
+
+  await payload.jobs.queue({
+    task: 'sendNotificationFromCollection',
+    queue: options.queue,
+    input: {
+      notificationId: String(notification.id),
+      channel: notification.channel || 'email',
+      subject: notification.subject || undefined,
+      emailBody: notification.emailBody || undefined,
+      smsBody: notification.smsBody || undefined,
+      itemTitle,
+      itemUrl,
+      retryFailed: options.retryFailed,
+      startedAt: new Date().toISOString(),
+    },
+  })
+}
@@ -0,0 +1,146 @@
+import type { BasePayload } from 'payload'
+import type { MonitoringCheckResult } from '@/lib/monitoring'
+import type { Probe, Service } from '@/payload-types'
+
+const MAX_TEXT_LENGTH = 2000
+// Results reported with a timestamp further in the future than this are re-stamped
+const MAX_CLOCK_SKEW_MS = 60 * 1000
+
+/**
+ * Resolve the probe for a request authenticated with `Authorization: Bearer <token>`
+ * Returns null when the token is missing, unknown or belongs to an inactive probe.
+ */
+export async function authenticateProbe(
+  payload: BasePayload,
+  request: Request,
+): Promise<Probe | null> {
+  const header = request.headers.get('authorization') || ''
+  const match = header.match(/^Bearer\s+(\S+)$/i)
+  if (!match) return null
+
+  const result = await payload.find({
+    collection: 'probes',
+    where: {
+      token: {
+        equals: match[1],
+      },
+      active: {
+        equals: true,
+      },
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  return (result.docs[0] as Probe | undefined) || null
+}
+
+/**
+ * Record that a probe has contacted the app
+ */
+export async function touchProbe(payload: BasePayload, probe: Probe): Promise<void> {
+  try {
+    await payload.update({
+      collection: 'probes',
+      id: probe.id,
+      data: {
+        lastSeenAt: new Date().toISOString(),
+      },
+    })
+  } catch (error: any) {
+    console.error(`[Probe ${probe.name}] Failed to update last seen:`, error.message)
+  }
+}
+
+/**
+ * Services a probe should check: its assigned services, or every monitored
+ * service when none are assigned. Push monitors are excluded because they
+ * are evaluated from heartbeats received by the app.
+ */
+export async function getProbeServices(payload: BasePayload, probe: Probe): Promise<Service[]> {
+  const assigned = (probe.services || []).map((s) => (typeof s === 'object' && s !== null ? s.id : s))
+
+  const result = await payload.find({
+    collection: 'services',
+    where: {
+      'monitoring.enabled': {
+        equals: true,
+      },
+      'monitoring.type': {
+        not_equals: 'push',
+      },
+      ...(assigned.length > 0 && {
+        id: {
+          in: assigned,
+        },
+      }),
+    },
+    depth: 0,
+    pagination: false,
+  })
+
+  return result.docs as Service[]
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value.slice(0, MAX_TEXT_LENGTH) : undefined
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Validate a check result reported by a probe
+ * Only the fields stored by the app are kept; returns null when the result is malformed.
+ */
+export function parseProbeResult(value: unknown): MonitoringCheckResult | null {
+  if (!value || typeof value !== 'object') return null
+  const result = value as Record<string, unknown>
+  if (typeof result.success !== 'boolean') return null
+
+  const parsed: MonitoringCheckResult = {
+    success: result.success,
+    statusCode: optionalNumber(result.statusCode),
+    responseTime: optionalNumber(result.responseTime),
+    error: optionalText(result.error),
+    details: optionalText(result.details),
+    warning: optionalText(result.warning),
+  }
+
+  const certificate = result.certificate as Record<string, unknown> | undefined
+  if (
+    certificate &&
+    typeof certificate === 'object' &&
+    typeof certificate.validFrom === 'string' &&
+    typeof certificate.validTo === 'string' &&
+    typeof certificate.daysRemaining === 'number' &&
+    typeof certificate.authorized === 'boolean'
+  ) {
+    parsed.certificate = {
+      subject: optionalText(certificate.subject),
+      issuer: optionalText(certificate.issuer),
+      validFrom: certificate.validFrom,
+      validTo: certificate.validTo,
+      daysRemaining: certificate.daysRemaining,
+      authorized: certificate.authorized,
+      authorizationError: optionalText(certificate.authorizationError),
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Use the probe's check time when it is a valid date, falling back to now
+ */
+export function parseProbeCheckedAt(value: unknown): string {
+  const now = Date.now()
+  if (typeof value === 'string') {
+    const time = new Date(value).getTime()
+    if (!isNaN(time) && time <= now + MAX_CLOCK_SKEW_MS) {
+      return new Date(Math.min(time, now)).toISOString()
+    }
+  }
+  return new Date(now).toISOString()
+}
@@ -0,0 +1,36 @@
+import type { FieldHook } from 'payload'
+
+// Shown in place of a stored secret
+export const SECRET_MASK = '••••••••'
+
+type SiblingData = Record<string, unknown> | undefined
+
+/**
+ * Hooks for secret fields (credentials, tokens, webhook URLs)
+ * Services and settings are publicly readable, so secrets are masked for external API
+ * responses and the stored value is kept when the mask or nothing is submitted back.
+ * @param isSecret Whether the value is secret, for fields that are only sometimes (e.g. headers)
+ */
+export function createSecretFieldHooks(
+  isSecret: (siblingData: SiblingData) => boolean = () => true,
+): { afterRead: FieldHook[]; beforeChange: FieldHook[] } {
+  return {
+    afterRead: [
+      ({ value, siblingData, req }) => {
+        // Keep real value for internal local API calls (tasks, server-side code)
+        const isExternalApi = req?.payloadAPI === 'REST' || req?.payloadAPI === 'GraphQL'
+        if (value && isExternalApi && isSecret(siblingData)) return SECRET_MASK
+        return value
+      },
+    ],
+    beforeChange: [
+      ({ value, previousValue, siblingData }) => {
+        // If empty or masked placeholder, keep the existing value
+        if (isSecret(siblingData) && (!value || value === SECRET_MASK) && previousValue) {
+          return previousValue
+        }
+        return value
+      },
+    ],
+  }
+}
@@ -0,0 +1,497 @@
+import type { BasePayload } from 'payload'
+import { openAutoIncident, recoverAutoIncident } from '@/lib/autoIncidents'
+import {
+  determineServiceStatus,
+  evaluateLatency,
+  getQuorumCount,
+  isStatusImprovement,
+  worstStatus,
+  type LatencyEvaluation,
+  type MonitoringCheckResult,
+  type MonitoringConfig,
+} from '@/lib/monitoring'
+import { SECRET_MASK } from '@/lib/secretFields'
+import type { MonitoringResult, Probe, Service, Setting } from '@/payload-types'
+
+/**
+ * Key used in monitoring.probeStatus for checks run by the app server itself
+ */
+export const LOCAL_PROBE_KEY = 'local'
+
+// Queue for the scheduled pruning of check history
+export const MONITORING_RESULTS_QUEUE = 'monitoring-results'
+
+// A probe stops counting towards the quorum once it has missed this many check intervals
+const PROBE_STALE_INTERVALS = 3
+const MIN_PROBE_STALE_MS = 5 * 60 * 1000
+// Consecutive failures and successes are counted over at most this many checks per probe
+const MAX_COUNTED_CHECKS = 100
+
+export interface ProbeCheckState {
+  failures: number
+  successes: number
+  checkedAt: string
+}
+
+export type ProbeStatusMap = Record<string, ProbeCheckState>
+
+/**
+ * Stored in monitoring.flapHistory to detect flapping services
+ */
+export interface FlapHistory {
+  // Status the checks evaluated to last time, before holding a flapping service
+  status: Service['status']
+  // When that status changed, within the flap window
+  changes: string[]
+}
+
+export interface RecordCheckResultOptions {
+  // Remote probe that ran the check, omitted for the app server
+  probe?: Pick<Probe, 'id' | 'name'> | null
+  checkedAt?: string
+}
+
+export interface RecordedCheckResult {
+  checkedAt: string
+  consecutiveFailures: number
+  statusChanged: boolean
+  newStatus: Service['status']
+}
+
+export function getProbeKey(probe?: Pick<Probe, 'id'> | null): string {
+  return probe ? `probe-${probe.id}` : LOCAL_PROBE_KEY
+}
+
+/**
+ * Build the health check configuration for a service
+ * Shared by the checkServiceHealth task and the remote probe API
+ */
+export function buildMonitoringConfig(
+  service: Service,
+): { config: MonitoringConfig } | { error: string } {
+  const monitoring = service.monitoring
+
+  if (!monitoring?.enabled) {
+    return { error: 'Monitoring is not enabled for this service' }
+  }
+
+  // Push monitors have no target to contact
+  if (monitoring.type !== 'push' && !monitoring.url && !monitoring.host) {
+    return { error: 'No monitoring URL or host configured' }
+  }
+
+  const monitoringType = monitoring.type || 'http'
+  const config: MonitoringConfig = {
+    type: monitoringType,
+    timeout: (monitoring.timeout || 10) * 1000, // Convert to milliseconds
+  }
+
+  // Add type-specific configuration
+  if (monitoringType === 'http') {
+    if (!monitoring.url) {
+      return { error: 'No monitoring URL configured for HTTP monitoring' }
+    }
+    config.url = monitoring.url
+    config.method = monitoring.method || 'GET'
+    config.expectedStatusCode = monitoring.expectedStatusCode || 200
+    config.bodyAssertions = (monitoring.bodyAssertions || []).map((assertion) => ({
+      type: assertion.type,
+      path: assertion.path,
+      value: assertion.value,
+    }))
+    config.headers = (monitoring.headers || []).map((header) => ({
+      name: header.name,
+      value: header.value,
+    }))
+    config.requestBody = monitoring.requestBody || undefined
+    config.authType = monitoring.authType || 'none'
+    config.authUsername = monitoring.authUsername || undefined
+    config.authPassword = monitoring.authPassword || undefined
+    config.authToken = monitoring.authToken || undefined
+  } else if (monitoringType === 'tcp') {
+    if (!monitoring.host || !monitoring.port) {
+      return { error: 'Host and port are required for TCP monitoring' }
+    }
+    config.host = monitoring.host
+    config.port = monitoring.port
+    config.tls = monitoring.tls || false
+    config.failOnInvalidCertificate = monitoring.failOnInvalidCertificate || false
+  } else if (monitoringType === 'ping') {
+    if (!monitoring.host) {
+      return { error: 'Host is required for Ping monitoring' }
+    }
+    config.host = monitoring.host
+    config.packetCount = monitoring.packetCount || 3
+  } else if (monitoringType === 'gamedig') {
+    if (!monitoring.host || !monitoring.gameType) {
+      return { error: 'Host and game type are required for GameDig monitoring' }
+    }
+    config.host = monitoring.host
+    config.port = monitoring.port ?? undefined
+    config.gameType = monitoring.gameType
+  } else if (monitoringType === 'dns') {
+    if (!monitoring.host) {
+      return { error: 'Hostname is required for DNS monitoring' }
+    }
+    config.host = monitoring.host
+    config.dnsRecordType = monitoring.dnsRecordType || 'A'
+    config.dnsResolver = monitoring.dnsResolver || undefined
+    config.dnsExpectedValues = monitoring.dnsExpectedValues || []
+    config.dnsMatchMode = monitoring.dnsMatchMode || 'exact'
+  } else if (monitoringType === 'push') {
+    const interval = monitoring.interval || 60
+    const gracePeriod = monitoring.pushGracePeriod ?? 60
+    config.lastPushAt = monitoring.lastPushAt || undefined
+    config.lastPushStatus = monitoring.lastPushStatus || undefined
+    config.lastPushMessage = monitoring.lastPushMessage || undefined
+    config.pushWindow = (interval + gracePeriod) * 1000
+    config.pushSince = service.createdAt
+  }
+
+  config.certExpiryThresholdDays = monitoring.certExpiryThresholdDays ?? undefined
+
+  return { config }
+}
+
+/**
+ * Return a copy of the config with credentials and secret header values
+ * replaced, safe for logging
+ */
+export function redactMonitoringConfig(config: MonitoringConfig): MonitoringConfig {
+  return {
+    ...config,
+    headers: config.headers?.map((header) => ({ ...header, value: header.value ? SECRET_MASK : header.value })),
+    authPassword: config.authPassword ? SECRET_MASK : undefined,
+    authToken: config.authToken ? SECRET_MASK : undefined,
+  }
+}
+
+/**
+ * Evaluate the latency thresholds of a service over its recent successful checks
+ * Includes results from every probe, so the window covers all locations.
+ */
+async function evaluateServiceLatency(payload: BasePayload, service: Service): Promise<LatencyEvaluation> {
+  const monitoring = service.monitoring
+  if (!monitoring?.latencyWarnThreshold && !monitoring?.latencyCriticalThreshold) {
+    return { status: 'operational', value: null }
+  }
+
+  try {
+    const recent = await payload.find({
+      collection: 'monitoring-results',
+      where: {
+        service: {
+          equals: service.id,
+        },
+        status: {
+          equals: 'success',
+        },
+        responseTime: {
+          exists: true,
+        },
+      },
+      sort: '-checkedAt',
+      limit: monitoring.latencyWindow || 5,
+      depth: 0,
+    })
+
+    return evaluateLatency(
+      recent.docs.map((result) => result.responseTime).filter((time): time is number => typeof time === 'number'),
+      {
+        warn: monitoring.latencyWarnThreshold,
+        critical: monitoring.latencyCriticalThreshold,
+        metric: monitoring.latencyMetric || 'average',
+      },
+    )
+  } catch (error: any) {
+    console.error(`[Task] Failed to evaluate latency for service "${service.name}":`, error.message)
+    return { status: 'operational', value: null }
+  }
+}
+
+interface ProbeRun {
+  probe: number | null
+  status: MonitoringResult['status']
+  count: number
+  // Latest check of the probe
+  checkedAt: string
+  // Oldest check in the run so far
+  since: string
+  // Set once an earlier check with a different result was found
+  ended: boolean
+}
+
+function countRun(run: ProbeRun, results: Pick<MonitoringResult, 'status' | 'checkedAt'>[]): void {
+  for (const result of results) {
+    if (run.ended || run.count >= MAX_COUNTED_CHECKS) return
+    if (result.status !== run.status) {
+      run.ended = true
+      return
+    }
+    run.count++
+    run.since = result.checkedAt
+  }
+}
+
+/**
+ * Consecutive failures and successes of every probe that reported recently
+ * Derived from the check history, which each probe only appends to, so probes
+ * reporting the same service at the same time can't overwrite each other's state.
+ */
+async function getProbeStatus(payload: BasePayload, serviceId: number, staleAfter: number): Promise<ProbeStatusMap> {
+  const recent = await payload.find({
+    collection: 'monitoring-results',
+    where: {
+      service: {
+        equals: serviceId,
+      },
+      checkedAt: {
+        greater_than_equal: new Date(Date.now() - staleAfter).toISOString(),
+      },
+    },
+    sort: '-checkedAt',
+    pagination: false,
+    depth: 0,
+    select: {
+      probe: true,
+      status: true,
+      checkedAt: true,
+    },
+  })
+
+  const runs = new Map<string, ProbeRun>()
+  for (const result of recent.docs) {
+    const probe = typeof result.probe === 'object' && result.probe !== null ? result.probe.id : result.probe ?? null
+    const key = probe ? getProbeKey({ id: probe }) : LOCAL_PROBE_KEY
+    const run = runs.get(key)
+
+    if (run) {
+      countRun(run, [result])
+    } else {
+      runs.set(key, { probe, status: result.status, count: 1, checkedAt: result.checkedAt, since: result.checkedAt, ended: false })
+    }
+  }
+
+  // Runs reaching past the stale window continue in older checks
+  for (const run of runs.values()) {
+    if (run.ended || run.count >= MAX_COUNTED_CHECKS) continue
+
+    const older = await payload.find({
+      collection: 'monitoring-results',
+      where: {
+        service: {
+          equals: serviceId,
+        },
+        probe: run.probe ? { equals: run.probe } : { exists: false },
+        checkedAt: {
+          less_than: run.since,
+        },
+      },
+      sort: '-checkedAt',
+      limit: MAX_COUNTED_CHECKS - run.count,
+      depth: 0,
+      select: {
+        status: true,
+        checkedAt: true,
+      },
+    })
+    countRun(run, older.docs)
+  }
+
+  return Object.fromEntries(
+    [...runs].map(([key, run]) => [key, {
+      failures: run.status === 'failed' ? run.count : 0,
+      successes: run.status === 'success' ? run.count : 0,
+      checkedAt: run.checkedAt,
+    }]),
+  )
+}
+
+/**
+ * Store a health check result and update the service status
+ * Consecutive failures are counted per probe from the check history and the
+ * status only changes once the quorum configured in Site Settings agrees.
+ * Only the monitoring fields owned by health checks are written, so heartbeats
+ * and other updates made while the check ran are kept.
+ */
+export async function recordCheckResult(
+  payload: BasePayload,
+  service: Service,
+  checkResult: MonitoringCheckResult,
+  { probe = null, checkedAt = new Date().toISOString() }: RecordCheckResultOptions = {},
+): Promise<RecordedCheckResult> {
+  const monitoring = service.monitoring || {}
+  const logPrefix = probe ? `[Probe ${probe.name}]` : '[Task]'
+
+  // Persist the individual result for history, uptime, latency reporting and the quorum
+  let recorded = false
+  try {
+    await payload.create({
+      collection: 'monitoring-results',
+      data: {
+        service: service.id,
+        probe: probe?.id,
+        checkedAt,
+        status: checkResult.success ? 'success' : 'failed',
+        type: monitoring.type || 'http',
+        responseTime: checkResult.responseTime,
+        statusCode: checkResult.statusCode,
+        error: checkResult.error,
+        details: [checkResult.details, checkResult.warning].filter(Boolean).join('\n') || undefined,
+      },
+    })
+    recorded = true
+  } catch (error: any) {
+    // Recording history must never prevent the status update below
+    console.error(`${logPrefix} Failed to record monitoring result:`, error.message)
+  }
+
+  const settings = await payload.findGlobal({ slug: 'settings' }) as Setting
+  const quorum = settings.monitoringQuorum || 1
+  const interval = monitoring.interval || 60
+  const staleAfter = Math.max(interval * 1000 * PROBE_STALE_INTERVALS, MIN_PROBE_STALE_MS)
+  const now = Date.now()
+
+  // Consecutive failures and successes of each probe, leaving out probes that stopped reporting
+  const probeKey = getProbeKey(probe)
+  const probeStatus = await getProbeStatus(payload, service.id, staleAfter)
+  if (!recorded) {
+    // Count this check even though it couldn't be stored
+    const previous = probeStatus[probeKey]
+    probeStatus[probeKey] = {
+      failures: checkResult.success ? 0 : (previous?.failures || 0) + 1,
+      successes: checkResult.success ? (previous?.successes || 0) + 1 : 0,
+      checkedAt,
+    }
+  }
+
+  const probeFailures = Object.values(probeStatus).map((state) => state.failures)
+  const quorumFailures = getQuorumCount(probeFailures, quorum)
+  const quorumSuccesses = getQuorumCount(Object.values(probeStatus).map((state) => state.successes), quorum)
+  // Too few probes are reporting to reach the quorum, so the status stays as it is
+  const insufficientProbes = quorumFailures === null || quorumSuccesses === null
+  const consecutiveFailures = quorumFailures ?? monitoring.consecutiveFailures ?? 0
+  const consecutiveSuccesses = quorumSuccesses ?? monitoring.consecutiveSuccesses ?? 0
+
+  console.log(`${logPrefix} Probe status: ${JSON.stringify(probeStatus)}, Quorum failures: ${consecutiveFailures}, Quorum successes: ${consecutiveSuccesses} (quorum ${quorum})`)
+
+  // Evaluate recent response times against the latency thresholds
+  const latency = await evaluateServiceLatency(payload, service)
+  const performanceStatus = checkResult.success && checkResult.warning
+    ? worstStatus(latency.status, 'degraded')
+    : latency.status
+
+  // Determine new service status
+  const failureThreshold = monitoring.failureThreshold || 3
+  // Passing checks can still degrade the service (slow responses, expiring certificate)
+  const evaluatedStatus = determineServiceStatus(probeFailures, failureThreshold, quorum, performanceStatus)
+  const flapHistory = (monitoring.flapHistory || null) as FlapHistory | null
+  const lastStatus = flapHistory?.status || service.status
+
+  // Only move on once enough probes report and they agree on recovery or enough failures
+  const canChange = !insufficientProbes && (consecutiveFailures === 0 || consecutiveFailures >= failureThreshold)
+  let targetStatus = (canChange && evaluatedStatus) || lastStatus
+
+  // Require several passing checks before an outage is considered over
+  const recoveryThreshold = monitoring.recoveryThreshold || 1
+  if (isStatusImprovement(targetStatus, lastStatus) && consecutiveSuccesses < recoveryThreshold) {
+    console.log(`${logPrefix} Holding ${lastStatus} until ${recoveryThreshold} consecutive successes (${consecutiveSuccesses} so far)`)
+    targetStatus = lastStatus
+  }
+
+  // Hold services that keep changing status in degraded until they stabilise
+  const flapThreshold = monitoring.flapThreshold || 0
+  const flapWindow = monitoring.flapWindow || 30
+  const statusChanges = (flapHistory?.changes || []).filter(
+    (time) => now - new Date(time).getTime() <= flapWindow * 60 * 1000,
+  )
+  if (targetStatus !== lastStatus) {
+    statusChanges.push(checkedAt)
+  }
+  const flapping = flapThreshold > 0 && statusChanges.length >= flapThreshold
+  const wasFlapping = !!monitoring.flapping
+  const newStatus = flapping ? 'degraded' : targetStatus
+
+  if (flapping !== wasFlapping) {
+    console.log(`${logPrefix} Service ${flapping ? 'is flapping' : 'stopped flapping'} (${statusChanges.length} status changes in ${flapWindow} minutes)`)
+  }
+
+  const checkReason = !checkResult.success
+    ? checkResult.error || 'Check failed'
+    : latency.reason || checkResult.warning || null
+  const statusReason = [
+    flapping && `Flapping: ${statusChanges.length} status changes in the last ${flapWindow} minutes`,
+    insufficientProbes && `Insufficient probes: ${probeFailures.length} of ${quorum} required for a quorum are reporting`,
+    checkReason,
+  ].filter(Boolean).join('. ') || null
+
+  console.log(`${logPrefix} Current status: ${service.status}, New status: ${newStatus}${statusReason ? ` (${statusReason})` : ''}`)
+
+  const shouldUpdateStatus =
+    service.status !== newStatus &&
+    (canChange || flapping || wasFlapping)
+
+  console.log(`${logPrefix} Should update status: ${shouldUpdateStatus}`)
+
+  // Update service with check results
+  const updateData: any = {
+    monitoring: {
+      lastCheckedAt: checkedAt,
+      lastCheckStatus: checkResult.success ? 'success' : 'failed',
+      consecutiveFailures,
+      consecutiveSuccesses,
+      probeStatus,
+      measuredLatency: latency.value,
+      statusReason,
+      flapping,
+      flappingSince: flapping ? (wasFlapping && monitoring.flappingSince) || checkedAt : null,
+      flapHistory: { status: targetStatus, changes: statusChanges } satisfies FlapHistory,
+      ...(checkResult.certificate && {
+        certificate: {
+          subject: checkResult.certificate.subject,
+          issuer: checkResult.certificate.issuer,
+          validFrom: checkResult.certificate.validFrom,
+          validTo: checkResult.certificate.validTo,
+          daysRemaining: checkResult.certificate.daysRemaining,
+          valid: checkResult.certificate.authorized,
+          validationError: checkResult.certificate.authorizationError || null,
+        },
+      }),
+    },
+  }
+
+  // Update status if needed
+  if (shouldUpdateStatus) {
+    updateData.status = newStatus
+    console.log(`${logPrefix} Updating service status from ${service.status} to ${newStatus}`)
+  }
+
+  await payload.update({
+    collection: 'services',
+    id: service.id,
+    data: updateData,
+    context: {
+      skipHealthCheck: true,
+    },
+  })
+
+  // Open an incident when the service goes down and update it once checks recover
+  if (shouldUpdateStatus) {
+    try {
+      if (newStatus === 'major') {
+        await openAutoIncident(payload, service, checkResult, consecutiveFailures)
+      } else if (consecutiveFailures === 0) {
+        await recoverAutoIncident(payload, service, checkResult)
+      }
+    } catch (error: any) {
+      console.error(`${logPrefix} Failed to update automatic incident:`, error.message)
+    }
+  }
+
+  return {
+    checkedAt,
+    consecutiveFailures,
+    statusChanged: shouldUpdateStatus,
+    newStatus: shouldUpdateStatus ? newStatus : service.status,
+  }
+}
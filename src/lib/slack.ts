@@ -0,0 +1,157 @@
+import type { NotificationContent } from '@/lib/notificationContent'
+import type { SlackSetting } from '@/payload-types'
+
+const SLACK_API_URL = 'https://slack.com/api'
+const REQUEST_TIMEOUT = 10000
+// Slack rejects section text longer than 3000 characters
+const MAX_SECTION_LENGTH = 3000
+
+export interface SlackMessage {
+  text: string
+  attachments: Array<{
+    color: string
+    blocks: Record<string, unknown>[]
+  }>
+}
+
+export interface SlackPostResult {
+  // Message timestamp and channel, only returned when posting with a Slack app
+  ts?: string
+  channel?: string
+}
+
+export function isSlackConfigured(slackSettings: SlackSetting): boolean {
+  if (slackSettings.method === 'app') {
+    return Boolean(slackSettings.botToken && slackSettings.channelId)
+  }
+  return Boolean(slackSettings.webhookUrl)
+}
+
+// Escape the characters Slack uses for links and mentions in mrkdwn text
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 3)}...` : text
+}
+
+/**
+ * Format a notification as a Block Kit message
+ * Blocks are wrapped in an attachment so the status colour shows as a side bar.
+ */
+export function buildSlackMessage(content: NotificationContent): SlackMessage {
+  const title = escapeSlackText(content.title)
+  const fields = [
+    ...(content.statusLabel ? [{ type: 'mrkdwn', text: `*Status*\n${content.statusLabel}` }] : []),
+    ...(content.affectedServices.length > 0
+      ? [{ type: 'mrkdwn', text: `*Affected Services*\n${escapeSlackText(content.affectedServices.join(', '))}` }]
+      : []),
+  ]
+
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: truncate(`*<${content.url}|${title}>*${content.message ? `\n${escapeSlackText(content.message)}` : ''}`, MAX_SECTION_LENGTH),
+      },
+    },
+  ]
+
+  if (fields.length > 0) {
+    blocks.push({ type: 'section', fields })
+  }
+
+  blocks.push(
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: 'View Status Page' },
+          url: content.url,
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: escapeSlackText(content.siteName) }],
+    },
+  )
+
+  return {
+    // Fallback for push notifications and clients without Block Kit
+    text: content.statusLabel ? `[${content.statusLabel}] ${content.title}` : content.title,
+    attachments: [{ color: content.color, blocks }],
+  }
+}
+
+async function callSlackApi(slackSettings: SlackSetting, method: string, body: Record<string, unknown>): Promise<SlackPostResult> {
+  const response = await fetch(`${SLACK_API_URL}/${method}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${slackSettings.botToken}`,
+      'Content-Type': 'application/json; charset=utf-8',
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+
+  const result = await response.json().catch(() => ({})) as { ok?: boolean; error?: string; ts?: string; channel?: string }
+  if (!response.ok || !result.ok) {
+    throw new Error(`Slack ${method} failed: ${result.error || `HTTP ${response.status}`}`)
+  }
+  return { ts: result.ts, channel: result.channel }
+}
+
+/**
+ * Post a message to the configured channel
+ * With a Slack app, threadTs posts the message as a reply in that thread.
+ */
+export async function postSlackMessage(
+  slackSettings: SlackSetting,
+  message: SlackMessage,
+  threadTs?: string,
+): Promise<SlackPostResult> {
+  if (slackSettings.method === 'app') {
+    return callSlackApi(slackSettings, 'chat.postMessage', {
+      channel: slackSettings.channelId,
+      ...message,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+    })
+  }
+
+  if (!slackSettings.webhookUrl) {
+    throw new Error('Slack not configured: missing webhook URL')
+  }
+
+  const response = await fetch(slackSettings.webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+
+  if (!response.ok) {
+    const error = await response.text().catch(() => '')
+    throw new Error(`Slack webhook failed: ${error || `HTTP ${response.status}`}`)
+  }
+  return {}
+}
+
+/**
+ * Replace the content of a message posted by the Slack app
+ */
+export async function updateSlackMessage(
+  slackSettings: SlackSetting,
+  channel: string,
+  ts: string,
+  message: SlackMessage,
+): Promise<void> {
+  await callSlackApi(slackSettings, 'chat.update', {
+    channel,
+    ts,
+    ...message,
+  })
+}
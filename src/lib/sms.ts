@@ -9,12 +9,21 @@ interface SmsOptions {
   body: string
 }
 
-interface SmsResult {
+export interface SmsResult {
   success: boolean
   messageId?: string
   error?: string
 }
 
+export function isSmsConfigured(smsSettings: SmsSetting): boolean {
+  return Boolean(
+    smsSettings.twilioAccountSid &&
+    smsSettings.twilioAuthToken &&
+    (smsSettings.twilioFromNumber || smsSettings.twilioMessagingServiceSid) &&
+    smsSettings.enabled
+  )
+}
+
 export function createTwilioClient(smsSettings: SmsSetting) {
   if (!smsSettings.twilioAccountSid || !smsSettings.twilioAuthToken) {
     throw new Error('Twilio not configured: missing Account SID or Auth Token')
@@ -81,7 +90,7 @@ export async function sendSms(
 export async function sendBulkSms(
   smsSettings: SmsSetting,
   messages: SmsOptions[]
-): Promise<{ sent: number; failed: number; errors: string[] }> {
+): Promise<{ sent: number; failed: number; errors: string[]; results: SmsResult[] }> {
   // Send SMS in batches to avoid rate limiting
   const batchSize = 10
   const results: SmsResult[] = []
@@ -105,7 +114,8 @@ export async function sendBulkSms(
     .filter((r) => !r.success && r.error)
     .map((r) => r.error!)
 
-  return { sent, failed, errors }
+  // Results are in the same order as the messages
+  return { sent, failed, errors, results }
 }
 
 export function formatSmsMessage(body: string): string {
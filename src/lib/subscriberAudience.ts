@@ -0,0 +1,150 @@
+import type { BasePayload, Where } from 'payload'
+
+type RelationValue = number | { id: number } | null | undefined
+
+export interface NotificationAudience {
+  kind: 'incident' | 'maintenance' | null
+  // Affected services and their groups, or null when the notification isn't about specific services
+  services: number[] | null
+  groups: number[]
+}
+
+export interface ServiceSelection {
+  allServices: boolean
+  subscribedServices: number[]
+  subscribedGroups: number[]
+}
+
+const getId = (value: RelationValue) => (value && typeof value === 'object' ? value.id : value)
+
+/**
+ * Kind of notice and the services affected by a notification's incident or maintenance, with their groups
+ */
+export async function getNotificationAudience(
+  payload: BasePayload,
+  related: { relatedIncident?: RelationValue; relatedMaintenance?: RelationValue },
+): Promise<NotificationAudience> {
+  const incidentId = getId(related.relatedIncident)
+  const maintenanceId = getId(related.relatedMaintenance)
+  if (!incidentId && !maintenanceId) return { kind: null, services: null, groups: [] }
+
+  const kind = incidentId ? 'incident' : 'maintenance'
+  const item = incidentId
+    ? await payload.findByID({ collection: 'incidents', id: incidentId, depth: 0, disableErrors: true })
+    : await payload.findByID({ collection: 'maintenances', id: maintenanceId!, depth: 0, disableErrors: true })
+
+  const services = (item?.affectedServices || [])
+    .map((service) => getId(service))
+    .filter((id): id is number => typeof id === 'number')
+  if (services.length === 0) return { kind, services: null, groups: [] }
+
+  const result = await payload.find({
+    collection: 'services',
+    where: {
+      id: { in: services },
+    },
+    limit: services.length,
+    depth: 0,
+  })
+
+  const groups = [...new Set(result.docs.map((service) => getId(service.group)).filter((id): id is number => typeof id === 'number'))]
+
+  return { kind, services, groups }
+}
+
+/**
+ * Query for active, verified and unpaused subscribers of a type who want this kind of notice
+ * and follow any of the audience's services
+ */
+export function getRecipientWhere(type: 'email' | 'sms', audience: NotificationAudience): Where {
+  const conditions: Where[] = [
+    { type: { equals: type } },
+    { active: { equals: true } },
+    { verified: { equals: true } },
+    {
+      or: [
+        { pausedUntil: { exists: false } },
+        { pausedUntil: { less_than_equal: new Date().toISOString() } },
+      ],
+    },
+  ]
+
+  if (audience.kind === 'incident') {
+    conditions.push({ notifyIncidents: { not_equals: false } })
+  } else if (audience.kind === 'maintenance') {
+    conditions.push({ notifyMaintenances: { not_equals: false } })
+  }
+
+  if (audience.services) {
+    conditions.push({
+      or: [
+        { allServices: { equals: true } },
+        { subscribedServices: { in: audience.services } },
+        ...(audience.groups.length > 0 ? [{ subscribedGroups: { in: audience.groups } }] : []),
+      ],
+    })
+  }
+
+  return { and: conditions }
+}
+
+/**
+ * Keep only existing services and groups from a submitted selection
+ * An empty selection follows all services
+ */
+export async function getServiceSelection(
+  payload: BasePayload,
+  body: { services?: unknown; groups?: unknown },
+): Promise<ServiceSelection> {
+  const toIds = (value: unknown) =>
+    Array.isArray(value) ? value.map(Number).filter((id) => Number.isInteger(id) && id > 0) : []
+
+  const serviceIds = toIds(body.services)
+  const groupIds = toIds(body.groups)
+
+  const [services, groups] = await Promise.all([
+    serviceIds.length > 0
+      ? payload.find({ collection: 'services', where: { id: { in: serviceIds } }, limit: serviceIds.length, depth: 0 })
+      : null,
+    groupIds.length > 0
+      ? payload.find({ collection: 'service-groups', where: { id: { in: groupIds } }, limit: groupIds.length, depth: 0 })
+      : null,
+  ])
+
+  const subscribedServices = services?.docs.map((service) => service.id) || []
+  const subscribedGroups = groups?.docs.map((group) => group.id) || []
+
+  return {
+    allServices: subscribedServices.length === 0 && subscribedGroups.length === 0,
+    subscribedServices,
+    subscribedGroups,
+  }
+}
+
+/**
+ * Service groups and their services that subscribers can follow
+ */
+export async function getFollowableServices(payload: BasePayload) {
+  const [groups, services] = await Promise.all([
+    payload.find({
+      collection: 'service-groups',
+      sort: '_order',
+      limit: 100,
+      depth: 0,
+    }),
+    payload.find({
+      collection: 'services',
+      sort: '_order',
+      limit: 1000,
+      depth: 0,
+    }),
+  ])
+
+  return groups.docs.map((group) => ({
+    id: group.id,
+    name: group.name,
+    services: services.docs
+      .filter((service) => getId(service.group) === group.id)
+      .map((service) => ({ id: service.id, name: service.name })),
+  }))
+}
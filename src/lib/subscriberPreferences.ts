@@ -0,0 +1,75 @@
+import type { BasePayload } from 'payload'
+import type { Subscriber } from '@/payload-types'
+import { isVerificationExpired } from '@/lib/subscriberVerification'
+
+type RelationValue = number | { id: number }
+
+// Pause options offered on the manage subscription page
+export const pauseDurations = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+} as const
+
+export type PauseDuration = keyof typeof pauseDurations
+
+/**
+ * Subscription details shown to the subscriber on the manage subscription page
+ */
+export interface ManagedSubscription {
+  type: 'email' | 'sms'
+  contact: string
+  verified: boolean
+  active: boolean
+  // New address waiting for confirmation; notifications keep going to contact until then
+  pending: { type: 'email' | 'sms'; contact: string } | null
+  notifyIncidents: boolean
+  notifyMaintenances: boolean
+  allServices: boolean
+  services: number[]
+  groups: number[]
+  pausedUntil: string | null
+}
+
+const toIds = (values: RelationValue[] | null | undefined) =>
+  (values || []).map((value) => (typeof value === 'object' ? value.id : value))
+
+/**
+ * Find the email or SMS subscriber for a manage or unsubscribe link
+ */
+export async function findSubscriberByToken(payload: BasePayload, token: unknown): Promise<Subscriber | null> {
+  if (!token || typeof token !== 'string') return null
+
+  const result = await payload.find({
+    collection: 'subscribers',
+    where: {
+      unsubscribeToken: { equals: token },
+      type: { in: ['email', 'sms'] },
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  return (result.docs[0] as Subscriber | undefined) || null
+}
+
+export function getManagedSubscription(subscriber: Subscriber): ManagedSubscription {
+  const paused = subscriber.pausedUntil && new Date(subscriber.pausedUntil).getTime() > Date.now()
+  const pendingContact = isVerificationExpired(subscriber) ? null : subscriber.pendingEmail || subscriber.pendingPhone
+
+  return {
+    type: subscriber.type === 'sms' ? 'sms' : 'email',
+    contact: (subscriber.type === 'sms' ? subscriber.phone : subscriber.email) || '',
+    verified: Boolean(subscriber.verified),
+    active: Boolean(subscriber.active),
+    pending: pendingContact
+      ? { type: subscriber.pendingEmail ? 'email' : 'sms', contact: pendingContact }
+      : null,
+    notifyIncidents: subscriber.notifyIncidents !== false,
+    notifyMaintenances: subscriber.notifyMaintenances !== false,
+    allServices: subscriber.allServices !== false,
+    services: toIds(subscriber.subscribedServices),
+    groups: toIds(subscriber.subscribedGroups),
+    pausedUntil: paused ? subscriber.pausedUntil! : null,
+  }
+}
@@ -0,0 +1,127 @@
+import crypto from 'crypto'
+import type { BasePayload } from 'payload'
+import { sendEmail, generateEmailHtml, generateEmailText, type EmailContent } from '@/lib/email'
+import { sendSms, formatSmsMessage } from '@/lib/sms'
+import { generateShortId } from '@/lib/shortId'
+import { getServerUrl } from '@/lib/utils'
+import type { Setting, EmailSetting, SmsSetting, Subscriber, Media } from '@/payload-types'
+
+// Unconfirmed signups expire after this many hours and are then removed
+export const VERIFICATION_EXPIRY_HOURS = 48
+
+// Minimum time between confirmation messages to the same address
+export const VERIFICATION_RESEND_MINUTES = 2
+
+// Wrong SMS codes allowed before a new code has to be requested
+export const VERIFICATION_MAX_ATTEMPTS = 5
+
+// Confirmation messages sent to one address until it is confirmed or the last one expires
+export const VERIFICATION_MAX_SENDS = 5
+
+export const SUBSCRIBER_QUEUE = 'subscribers'
+
+export function isVerificationExpired(subscriber: Pick<Subscriber, 'verificationSentAt'>): boolean {
+  if (!subscriber.verificationSentAt) return false
+  const expiresAt = new Date(subscriber.verificationSentAt).getTime() + VERIFICATION_EXPIRY_HOURS * 60 * 60 * 1000
+  return Date.now() > expiresAt
+}
+
+// The count starts over once the last confirmation has expired
+function getVerificationSendCount(subscriber?: Pick<Subscriber, 'verificationSentAt' | 'verificationSendCount'>): number {
+  if (!subscriber?.verificationSentAt || isVerificationExpired(subscriber)) return 0
+  return subscriber.verificationSendCount || 0
+}
+
+/**
+ * Whether the address has been sent as many confirmations as allowed
+ * Stops the signup form from being used to send repeated emails or SMS to someone else's address.
+ */
+export function hasReachedVerificationSendLimit(
+  subscriber: Pick<Subscriber, 'verificationSentAt' | 'verificationSendCount'>
+): boolean {
+  return getVerificationSendCount(subscriber) >= VERIFICATION_MAX_SENDS
+}
+
+/**
+ * Fresh verification token and SMS code for a signup
+ * Pass the existing subscriber when sending again, to count the confirmations sent to it.
+ */
+export function createVerificationData(subscriber?: Pick<Subscriber, 'verificationSentAt' | 'verificationSendCount'>) {
+  return {
+    verificationToken: generateShortId(24),
+    verificationCode: crypto.randomInt(0, 1000000).toString().padStart(6, '0'),
+    verificationSentAt: new Date().toISOString(),
+    verificationAttempts: 0,
+    verificationSendCount: getVerificationSendCount(subscriber) + 1,
+  }
+}
+
+export function canResendVerification(subscriber: Pick<Subscriber, 'verificationSentAt'>): boolean {
+  if (!subscriber.verificationSentAt) return true
+  return Date.now() - new Date(subscriber.verificationSentAt).getTime() > VERIFICATION_RESEND_MINUTES * 60 * 1000
+}
+
+/**
+ * Send the confirmation email (with a link to /verify/<token>) or SMS (with a code and the link)
+ * Throws when the message could not be sent
+ */
+export async function sendVerification(
+  payload: BasePayload,
+  subscriber: Pick<Subscriber, 'type' | 'email' | 'phone' | 'verificationToken' | 'verificationCode'>,
+): Promise<void> {
+  const settings = await payload.findGlobal({
+    slug: 'settings',
+    depth: 1,
+  }) as Setting
+
+  const siteUrl = getServerUrl()
+  const siteName = settings.siteName || 'Status Page'
+  const verifyUrl = `${siteUrl}/verify/${subscriber.verificationToken}`
+
+  if (subscriber.type === 'email' && subscriber.email) {
+    const emailSettings = await payload.findGlobal({
+      slug: 'email-settings',
+    }) as EmailSetting
+
+    const logoLight = settings.logoLight as Media | number | null | undefined
+    const logoUrl = logoLight && typeof logoLight === 'object' ? logoLight.url : undefined
+
+    const content: EmailContent = {
+      siteName,
+      title: 'Confirm your subscription',
+      body: `Please confirm that you want to receive status updates from ${siteName} at this address.\n\nThis link expires in ${VERIFICATION_EXPIRY_HOURS} hours. If you didn't subscribe, you can ignore this email.`,
+      ctaText: 'Confirm Subscription',
+      ctaUrl: verifyUrl,
+      siteUrl,
+      logoUrl: logoUrl || undefined,
+      brandColor: emailSettings.brandColor || undefined,
+      footerText: emailSettings.footerText || undefined,
+    }
+
+    const result = await sendEmail(emailSettings, {
+      to: subscriber.email,
+      subject: `[${siteName}] Confirm your subscription`,
+      html: generateEmailHtml(content),
+      text: generateEmailText(content),
+    })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send confirmation email')
+    }
+  } else if (subscriber.type === 'sms' && subscriber.phone) {
+    const smsSettings = await payload.findGlobal({
+      slug: 'sms-settings',
+    }) as SmsSetting
+
+    const result = await sendSms(smsSettings, {
+      to: subscriber.phone,
+      body: formatSmsMessage(`${siteName}: your confirmation code is ${subscriber.verificationCode}. Or confirm at ${verifyUrl}`),
+    })
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send confirmation SMS')
+    }
+  } else {
+    throw new Error('Subscriber has no email address or phone number to verify')
+  }
+}
@@ -0,0 +1,92 @@
+import type { NotificationContent } from '@/lib/notificationContent'
+import type { TeamsSetting } from '@/payload-types'
+
+const REQUEST_TIMEOUT = 10000
+
+export interface TeamsMessage {
+  type: 'message'
+  attachments: Array<{
+    contentType: 'application/vnd.microsoft.card.adaptive'
+    contentUrl: null
+    content: Record<string, unknown>
+  }>
+}
+
+// Adaptive Cards only support named colours
+const statusColors: Record<string, string> = {
+  investigating: 'Attention',
+  identified: 'Warning',
+  monitoring: 'Accent',
+  resolved: 'Good',
+  upcoming: 'Accent',
+  in_progress: 'Accent',
+  completed: 'Good',
+  cancelled: 'Default',
+}
+
+/**
+ * Format a notification as an Adaptive Card
+ */
+export function buildTeamsMessage(content: NotificationContent): TeamsMessage {
+  const body: Record<string, unknown>[] = [
+    { type: 'TextBlock', text: content.siteName, size: 'Small', isSubtle: true },
+    { type: 'TextBlock', text: content.title, size: 'Large', weight: 'Bolder', wrap: true, spacing: 'None' },
+  ]
+
+  if (content.statusLabel) {
+    body.push({
+      type: 'TextBlock',
+      text: content.statusLabel,
+      weight: 'Bolder',
+      color: (content.status && statusColors[content.status]) || 'Default',
+      spacing: 'Small',
+    })
+  }
+
+  if (content.message) {
+    body.push({ type: 'TextBlock', text: content.message, wrap: true })
+  }
+
+  if (content.affectedServices.length > 0) {
+    body.push({
+      type: 'FactSet',
+      facts: [{ title: 'Affected Services', value: content.affectedServices.join(', ') }],
+    })
+  }
+
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body,
+          actions: [{ type: 'Action.OpenUrl', title: 'View Status Page', url: content.url }],
+          msteams: { width: 'Full' },
+        },
+      },
+    ],
+  }
+}
+
+export async function postTeamsMessage(teamsSettings: TeamsSetting, message: TeamsMessage): Promise<void> {
+  if (!teamsSettings.webhookUrl) {
+    throw new Error('Microsoft Teams not configured: missing webhook URL')
+  }
+
+  const response = await fetch(teamsSettings.webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+
+  if (!response.ok) {
+    const error = await response.text().catch(() => '')
+    throw new Error(`Microsoft Teams webhook failed: ${error.substring(0, 200) || `HTTP ${response.status}`}`)
+  }
+}
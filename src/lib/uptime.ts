@@ -0,0 +1,241 @@
+import { sql } from '@payloadcms/db-postgres'
+import type { Payload } from 'payload'
+import { executeSql } from '@/lib/db'
+import type { Incident, Service } from '@/payload-types'
+
+export const UPTIME_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type UptimeLevel = 'operational' | 'degraded' | 'partial' | 'major' | 'nodata'
+
+export interface UptimeDayIncident {
+  title: string
+  shortId: string
+}
+
+export interface UptimeDay {
+  /** UTC calendar day (YYYY-MM-DD) */
+  date: string
+  /** Percentage of the day the service was up, or null when there is no data */
+  uptime: number | null
+  level: UptimeLevel
+  incidents: UptimeDayIncident[]
+}
+
+export interface ServiceUptime {
+  days: UptimeDay[]
+  uptime: number | null
+}
+
+interface DailyCheckCounts {
+  total: number
+  successful: number
+}
+
+interface Interval {
+  start: number
+  end: number
+}
+
+/**
+ * Aggregate monitoring results into per-service, per-day check counts
+ * Done in SQL so the status page never loads individual results
+ */
+async function getDailyCheckCounts(
+  payload: Payload,
+  since: Date,
+): Promise<Map<number, Map<string, DailyCheckCounts>>> {
+  const counts = new Map<number, Map<string, DailyCheckCounts>>()
+
+  try {
+    const rows = await executeSql<{ service_id: number; day: string; total: number; successful: number }>(payload, sql`
+      SELECT
+        service_id,
+        to_char(checked_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+        count(*)::int AS total,
+        count(*) FILTER (WHERE status = 'success')::int AS successful
+      FROM monitoring_results
+      WHERE checked_at >= ${since.toISOString()}
+      GROUP BY service_id, day
+    `)
+
+    for (const row of rows) {
+      const serviceId = Number(row.service_id)
+      if (!counts.has(serviceId)) {
+        counts.set(serviceId, new Map())
+      }
+      counts.get(serviceId)!.set(row.day, {
+        total: Number(row.total),
+        successful: Number(row.successful),
+      })
+    }
+  } catch (error: any) {
+    console.error('[Uptime] Failed to aggregate monitoring results:', error.message)
+  }
+
+  return counts
+}
+
+function getAffectedServiceIds(incident: Incident): number[] {
+  return (incident.affectedServices || []).map((s) => (typeof s === 'object' && s !== null ? s.id : s))
+}
+
+function getIncidentInterval(incident: Incident, now: Date): Interval {
+  return {
+    start: new Date(incident.createdAt).getTime(),
+    end: incident.resolvedAt ? new Date(incident.resolvedAt).getTime() : now.getTime(),
+  }
+}
+
+/**
+ * Merge overlapping incident periods so concurrent incidents count as downtime once
+ */
+function mergeIncidentIntervals(incidents: Incident[], now: Date): Interval[] {
+  const intervals = incidents
+    .map((incident) => getIncidentInterval(incident, now))
+    .sort((a, b) => a.start - b.start)
+  const merged: Interval[] = []
+
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1]
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end)
+    } else {
+      merged.push(interval)
+    }
+  }
+
+  return merged
+}
+
+function getUptimeLevel(uptime: number | null, hasIncidents: boolean): UptimeLevel {
+  if (uptime === null) return 'nodata'
+  if (uptime >= 99.9) return hasIncidents ? 'degraded' : 'operational'
+  if (uptime >= 99) return 'degraded'
+  if (uptime >= 95) return 'partial'
+  return 'major'
+}
+
+/**
+ * Average a list of uptime percentages, ignoring entries without data
+ */
+export function averageUptime(values: (number | null | undefined)[]): number | null {
+  const known = values.filter((v): v is number => typeof v === 'number')
+  if (known.length === 0) return null
+  return known.reduce((sum, v) => sum + v, 0) / known.length
+}
+
+/**
+ * Build the daily uptime history for a single service
+ * Days with health checks use the check success rate; days without checks
+ * fall back to the time covered by incidents affecting the service.
+ */
+function buildServiceUptime(
+  service: Service,
+  checks: Map<string, DailyCheckCounts> | undefined,
+  incidents: Incident[],
+  now: Date,
+): ServiceUptime {
+  const createdAt = new Date(service.createdAt).getTime()
+  const todayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const downtime = mergeIncidentIntervals(incidents, now)
+  const days: UptimeDay[] = []
+
+  for (let i = UPTIME_DAYS - 1; i >= 0; i--) {
+    const dayStart = todayStart - i * DAY_MS
+    const dayEnd = Math.min(dayStart + DAY_MS, now.getTime())
+    const date = new Date(dayStart).toISOString().split('T')[0]
+
+    const downtimeMs = downtime.reduce(
+      (sum, { start, end }) => sum + Math.max(0, Math.min(end, dayEnd) - Math.max(start, dayStart)),
+      0,
+    )
+    const dayIncidents: UptimeDayIncident[] = []
+
+    for (const incident of incidents) {
+      const { start, end } = getIncidentInterval(incident, now)
+      const overlap = Math.min(end, dayEnd) - Math.max(start, dayStart)
+
+      if (overlap > 0 || (start >= dayStart && start < dayEnd)) {
+        dayIncidents.push({ title: incident.title, shortId: incident.shortId || '' })
+      }
+    }
+
+    const counts = checks?.get(date)
+    let uptime: number | null
+
+    if (counts && counts.total > 0) {
+      uptime = (counts.successful / counts.total) * 100
+    } else if (dayEnd <= createdAt) {
+      uptime = null
+    } else if (dayIncidents.length > 0) {
+      const dayLength = dayEnd - Math.max(dayStart, createdAt)
+      uptime = Math.max(0, (1 - downtimeMs / dayLength) * 100)
+    } else {
+      uptime = 100
+    }
+
+    days.push({
+      date,
+      uptime,
+      level: getUptimeLevel(uptime, dayIncidents.length > 0),
+      incidents: dayIncidents,
+    })
+  }
+
+  return {
+    days,
+    uptime: averageUptime(days.map((d) => d.uptime)),
+  }
+}
+
+/**
+ * Calculate the 90-day uptime history for the given services
+ * Combines stored monitoring results with incidents that list the service
+ * as affected. Returns a map keyed by service ID.
+ */
+export async function getServicesUptime(
+  payload: Payload,
+  services: Service[],
+): Promise<Map<number, ServiceUptime>> {
+  const now = new Date()
+  const since = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - (UPTIME_DAYS - 1) * DAY_MS,
+  )
+
+  const [checkCounts, incidents] = await Promise.all([
+    getDailyCheckCounts(payload, since),
+    payload.find({
+      collection: 'incidents',
+      where: {
+        or: [
+          { resolvedAt: { greater_than_equal: since.toISOString() } },
+          { resolvedAt: { exists: false } },
+        ],
+      },
+      depth: 0,
+      pagination: false,
+    }),
+  ])
+
+  const incidentsByService = new Map<number, Incident[]>()
+  for (const incident of incidents.docs) {
+    for (const serviceId of getAffectedServiceIds(incident)) {
+      if (!incidentsByService.has(serviceId)) {
+        incidentsByService.set(serviceId, [])
+      }
+      incidentsByService.get(serviceId)!.push(incident)
+    }
+  }
+
+  const uptimeByService = new Map<number, ServiceUptime>()
+  for (const service of services) {
+    uptimeByService.set(
+      service.id,
+      buildServiceUptime(service, checkCounts.get(service.id), incidentsByService.get(service.id) || [], now),
+    )
+  }
+
+  return uptimeByService
+}
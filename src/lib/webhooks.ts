@@ -0,0 +1,247 @@
+import crypto from 'crypto'
+import type { BasePayload } from 'payload'
+import type { WebhookEvent } from '@/collections/Subscribers'
+import type { Incident, Maintenance, Service, WebhookDelivery } from '@/payload-types'
+import { getServerUrl } from '@/lib/utils'
+
+// Total delivery attempts for an event, including the first one
+export const WEBHOOK_MAX_ATTEMPTS = 6
+// Delay before the first retry, doubled for every further retry (30s, 1m, 2m, 4m, 8m)
+export const WEBHOOK_RETRY_DELAY = 30 * 1000
+export const WEBHOOK_QUEUE = 'webhooks'
+
+const REQUEST_TIMEOUT = 10000
+const MAX_RESPONSE_BODY_LENGTH = 1000
+
+export interface WebhookBody {
+  event: WebhookEvent
+  createdAt: string
+  data: Record<string, unknown>
+}
+
+export interface WebhookResponse {
+  ok: boolean
+  status?: number
+  body?: string
+  error?: string
+}
+
+const maintenanceStatusEvents: Record<Maintenance['status'], WebhookEvent> = {
+  upcoming: 'maintenance.scheduled',
+  in_progress: 'maintenance.started',
+  completed: 'maintenance.completed',
+  cancelled: 'maintenance.cancelled',
+}
+
+function getRelationId<T extends { id: number }>(value: number | T): number {
+  return typeof value === 'object' && value !== null ? value.id : value
+}
+
+/**
+ * Event for a saved incident: new incidents, new updates and resolution
+ */
+export function getIncidentWebhookEvent(
+  operation: 'create' | 'update',
+  doc: Incident,
+  previousDoc?: Incident,
+): WebhookEvent | null {
+  if (operation === 'create') return 'incident.created'
+  if (!previousDoc) return null
+
+  if (doc.status === 'resolved' && previousDoc.status !== 'resolved') return 'incident.resolved'
+  if (doc.status !== previousDoc.status || (doc.updates || []).length > (previousDoc.updates || []).length) {
+    return 'incident.updated'
+  }
+  return null
+}
+
+/**
+ * Event for a saved maintenance: new maintenances and status changes
+ */
+export function getMaintenanceWebhookEvent(
+  operation: 'create' | 'update',
+  doc: Maintenance,
+  previousDoc?: Maintenance,
+): WebhookEvent | null {
+  if (operation === 'create') return 'maintenance.scheduled'
+  if (!previousDoc || doc.status === previousDoc.status) return null
+  return maintenanceStatusEvents[doc.status] || null
+}
+
+export function serializeIncident(doc: Incident): Record<string, unknown> {
+  const latestUpdate = doc.updates?.[doc.updates.length - 1]
+  return {
+    id: doc.id,
+    shortId: doc.shortId,
+    title: doc.title,
+    status: doc.status,
+    url: `${getServerUrl()}/i/${doc.shortId}`,
+    affectedServices: (doc.affectedServices || []).map(getRelationId),
+    latestUpdate: latestUpdate
+      ? { status: latestUpdate.status, message: latestUpdate.message, createdAt: latestUpdate.createdAt }
+      : null,
+    autoCreated: doc.autoCreated || false,
+    resolvedAt: doc.resolvedAt || null,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  }
+}
+
+export function serializeMaintenance(doc: Maintenance): Record<string, unknown> {
+  const latestUpdate = doc.updates?.[doc.updates.length - 1]
+  return {
+    id: doc.id,
+    shortId: doc.shortId,
+    title: doc.title,
+    status: doc.status,
+    url: `${getServerUrl()}/m/${doc.shortId}`,
+    affectedServices: (doc.affectedServices || []).map(getRelationId),
+    scheduledStartAt: doc.scheduledStartAt,
+    scheduledEndAt: doc.scheduledEndAt || null,
+    latestUpdate: latestUpdate
+      ? { status: latestUpdate.status, message: latestUpdate.message, createdAt: latestUpdate.createdAt }
+      : null,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  }
+}
+
+export function serializeService(doc: Service, previousStatus: Service['status']): Record<string, unknown> {
+  return {
+    id: doc.id,
+    name: doc.name,
+    slug: doc.slug,
+    group: getRelationId(doc.group),
+    status: doc.status,
+    previousStatus,
+    reason: doc.monitoring?.statusReason || null,
+    updatedAt: doc.updatedAt,
+  }
+}
+
+/**
+ * Signature of a webhook body, sent as "sha256=<hex>" in X-Webhook-Signature
+ * Computed as HMAC-SHA256 of "<timestamp>.<body>" with the subscriber's secret.
+ */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Log a delivery for every webhook subscribed to the event and queue them for sending
+ */
+export async function emitWebhookEvent(
+  payload: BasePayload,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+): Promise<number> {
+  const result = await payload.find({
+    collection: 'subscribers',
+    where: {
+      type: { equals: 'webhook' },
+      active: { equals: true },
+    },
+    depth: 0,
+    pagination: false,
+    joins: false,
+  })
+
+  const subscribers = result.docs.filter((subscriber) =>
+    subscriber.webhookUrl && (!subscriber.webhookEvents?.length || subscriber.webhookEvents.includes(event)),
+  )
+  if (subscribers.length === 0) return 0
+
+  const body: WebhookBody = {
+    event,
+    createdAt: new Date().toISOString(),
+    data,
+  }
+
+  for (const subscriber of subscribers) {
+    const delivery = await payload.create({
+      collection: 'webhook-deliveries',
+      data: {
+        subscriber: subscriber.id,
+        event,
+        status: 'pending',
+        attempts: 0,
+        body: body as unknown as Record<string, unknown>,
+      },
+    })
+
+    await payload.jobs.queue({
+      task: 'deliverWebhook',
+      input: {
+        deliveryId: String(delivery.id),
+      },
+      queue: WEBHOOK_QUEUE,
+    })
+  }
+
+  // Send right away; retries are picked up by the webhook queue's autorun
+  await payload.jobs.run({ queue: WEBHOOK_QUEUE })
+
+  console.log(`[Webhooks] ${event} queued for ${subscribers.length} webhook(s)`)
+  return subscribers.length
+}
+
+/**
+ * Emit a webhook event from a collection hook
+ * Deferred until after the current transaction commits, like notification drafts.
+ */
+export function queueWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): void {
+  setImmediate(async () => {
+    try {
+      // Import payload dynamically to get a fresh instance outside the transaction
+      const { getPayload } = await import('payload')
+      const config = (await import('@payload-config')).default
+      const payload = await getPayload({ config })
+
+      await emitWebhookEvent(payload, event, data)
+    } catch (error) {
+      console.error(`[Webhooks] Failed to emit ${event}:`, error)
+    }
+  })
+}
+
+/**
+ * POST a logged delivery to a webhook URL
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  delivery: Pick<WebhookDelivery, 'id' | 'event' | 'body'>,
+): Promise<WebhookResponse> {
+  const body = JSON.stringify(delivery.body)
+  const timestamp = Math.floor(Date.now() / 1000)
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Status-Page-Webhook/1.0',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookBody(secret, timestamp, body)}`,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    })
+
+    const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH)
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: responseBody,
+      error: response.ok ? undefined : `HTTP ${response.status}`,
+    }
+  } catch (error: any) {
+    return {
+      ok: false,
+      error: error.name === 'TimeoutError' ? `Request timed out after ${REQUEST_TIMEOUT / 1000}s` : error.message,
+    }
+  }
+}
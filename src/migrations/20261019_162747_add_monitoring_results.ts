@@ -0,0 +1,53 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_monitoring_results_status" AS ENUM('success', 'failed');
+  CREATE TYPE "public"."enum_monitoring_results_type" AS ENUM('http', 'tcp', 'ping', 'gamedig');
+  ALTER TYPE "public"."enum_payload_jobs_log_task_slug" ADD VALUE 'pruneMonitoringResults';
+  ALTER TYPE "public"."enum_payload_jobs_task_slug" ADD VALUE 'pruneMonitoringResults';
+  CREATE TABLE "monitoring_results" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"service_id" integer NOT NULL,
+  	"checked_at" timestamp(3) with time zone NOT NULL,
+  	"status" "enum_monitoring_results_status" NOT NULL,
+  	"type" "enum_monitoring_results_type",
+  	"response_time" numeric,
+  	"status_code" numeric,
+  	"error" varchar,
+  	"details" varchar,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "monitoring_results_id" integer;
+  ALTER TABLE "settings" ADD COLUMN "monitoring_result_retention_days" numeric DEFAULT 90;
+  ALTER TABLE "monitoring_results" ADD CONSTRAINT "monitoring_results_service_id_services_id_fk" FOREIGN KEY ("service_id") REFERENCES "public"."services"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "monitoring_results_service_idx" ON "monitoring_results" USING btree ("service_id");
+  CREATE INDEX "monitoring_results_checked_at_idx" ON "monitoring_results" USING btree ("checked_at");
+  CREATE INDEX "monitoring_results_updated_at_idx" ON "monitoring_results" USING btree ("updated_at");
+  CREATE INDEX "monitoring_results_created_at_idx" ON "monitoring_results" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_monitoring_results_fk" FOREIGN KEY ("monitoring_results_id") REFERENCES "public"."monitoring_results"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_monitoring_results_id_idx" ON "payload_locked_documents_rels" USING btree ("monitoring_results_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "monitoring_results" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "monitoring_results" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_monitoring_results_fk";
+  
+  ALTER TABLE "payload_jobs_log" ALTER COLUMN "task_slug" SET DATA TYPE text;
+  DROP TYPE "public"."enum_payload_jobs_log_task_slug";
+  CREATE TYPE "public"."enum_payload_jobs_log_task_slug" AS ENUM('inline', 'sendNotificationFromCollection', 'checkServiceHealth', 'scheduleMonitoringChecks');
+  ALTER TABLE "payload_jobs_log" ALTER COLUMN "task_slug" SET DATA TYPE "public"."enum_payload_jobs_log_task_slug" USING "task_slug"::"public"."enum_payload_jobs_log_task_slug";
+  ALTER TABLE "payload_jobs" ALTER COLUMN "task_slug" SET DATA TYPE text;
+  DROP TYPE "public"."enum_payload_jobs_task_slug";
+  CREATE TYPE "public"."enum_payload_jobs_task_slug" AS ENUM('inline', 'sendNotificationFromCollection', 'checkServiceHealth', 'scheduleMonitoringChecks');
+  ALTER TABLE "payload_jobs" ALTER COLUMN "task_slug" SET DATA TYPE "public"."enum_payload_jobs_task_slug" USING "task_slug"::"public"."enum_payload_jobs_task_slug";
+  DROP INDEX "payload_locked_documents_rels_monitoring_results_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "monitoring_results_id";
+  ALTER TABLE "settings" DROP COLUMN "monitoring_result_retention_days";
+  DROP TYPE "public"."enum_monitoring_results_status";
+  DROP TYPE "public"."enum_monitoring_results_type";`)
+}
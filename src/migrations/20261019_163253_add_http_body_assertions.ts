@@ -0,0 +1,24 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_services_monitoring_body_assertions_type" AS ENUM('contains', 'not_contains', 'regex', 'json_equals', 'json_exists');
+  CREATE TABLE "services_monitoring_body_assertions" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"type" "enum_services_monitoring_body_assertions_type" DEFAULT 'contains',
+  	"path" varchar,
+  	"value" varchar
+  );
+  
+  ALTER TABLE "services_monitoring_body_assertions" ADD CONSTRAINT "services_monitoring_body_assertions_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."services"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "services_monitoring_body_assertions_order_idx" ON "services_monitoring_body_assertions" USING btree ("_order");
+  CREATE INDEX "services_monitoring_body_assertions_parent_id_idx" ON "services_monitoring_body_assertions" USING btree ("_parent_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP TABLE "services_monitoring_body_assertions" CASCADE;
+  DROP TYPE "public"."enum_services_monitoring_body_assertions_type";`)
+}
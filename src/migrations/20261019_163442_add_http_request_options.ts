@@ -0,0 +1,34 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_services_monitoring_auth_type" AS ENUM('none', 'basic', 'bearer');
+  CREATE TABLE "services_monitoring_headers" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"name" varchar,
+  	"value" varchar,
+  	"secret" boolean DEFAULT false
+  );
+  
+  ALTER TABLE "services" ADD COLUMN "monitoring_request_body" varchar;
+  ALTER TABLE "services" ADD COLUMN "monitoring_auth_type" "enum_services_monitoring_auth_type" DEFAULT 'none';
+  ALTER TABLE "services" ADD COLUMN "monitoring_auth_username" varchar;
+  ALTER TABLE "services" ADD COLUMN "monitoring_auth_password" varchar;
+  ALTER TABLE "services" ADD COLUMN "monitoring_auth_token" varchar;
+  ALTER TABLE "services_monitoring_headers" ADD CONSTRAINT "services_monitoring_headers_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."services"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "services_monitoring_headers_order_idx" ON "services_monitoring_headers" USING btree ("_order");
+  CREATE INDEX "services_monitoring_headers_parent_id_idx" ON "services_monitoring_headers" USING btree ("_parent_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP TABLE "services_monitoring_headers" CASCADE;
+  ALTER TABLE "services" DROP COLUMN "monitoring_request_body";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auth_type";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auth_username";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auth_password";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auth_token";
+  DROP TYPE "public"."enum_services_monitoring_auth_type";`)
+}
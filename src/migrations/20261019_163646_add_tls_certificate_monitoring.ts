@@ -0,0 +1,29 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "services" ADD COLUMN "monitoring_tls" boolean DEFAULT false;
+  ALTER TABLE "services" ADD COLUMN "monitoring_cert_expiry_threshold_days" numeric DEFAULT 14;
+  ALTER TABLE "services" ADD COLUMN "monitoring_fail_on_invalid_certificate" boolean DEFAULT false;
+  ALTER TABLE "services" ADD COLUMN "monitoring_certificate_subject" varchar;
+  ALTER TABLE "services" ADD COLUMN "monitoring_certificate_issuer" varchar;
+  ALTER TABLE "services" ADD COLUMN "monitoring_certificate_valid_from" timestamp(3) with time zone;
+  ALTER TABLE "services" ADD COLUMN "monitoring_certificate_valid_to" timestamp(3) with time zone;
+  ALTER TABLE "services" ADD COLUMN "monitoring_certificate_days_remaining" numeric;
+  ALTER TABLE "services" ADD COLUMN "monitoring_certificate_valid" boolean;
+  ALTER TABLE "services" ADD COLUMN "monitoring_certificate_validation_error" varchar;`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "services" DROP COLUMN "monitoring_tls";
+  ALTER TABLE "services" DROP COLUMN "monitoring_cert_expiry_threshold_days";
+  ALTER TABLE "services" DROP COLUMN "monitoring_fail_on_invalid_certificate";
+  ALTER TABLE "services" DROP COLUMN "monitoring_certificate_subject";
+  ALTER TABLE "services" DROP COLUMN "monitoring_certificate_issuer";
+  ALTER TABLE "services" DROP COLUMN "monitoring_certificate_valid_from";
+  ALTER TABLE "services" DROP COLUMN "monitoring_certificate_valid_to";
+  ALTER TABLE "services" DROP COLUMN "monitoring_certificate_days_remaining";
+  ALTER TABLE "services" DROP COLUMN "monitoring_certificate_valid";
+  ALTER TABLE "services" DROP COLUMN "monitoring_certificate_validation_error";`)
+}
@@ -0,0 +1,42 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_services_monitoring_dns_record_type" AS ENUM('A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS');
+  CREATE TYPE "public"."enum_services_monitoring_dns_match_mode" AS ENUM('exact', 'contains');
+  ALTER TYPE "public"."enum_services_monitoring_type" ADD VALUE 'dns';
+  ALTER TYPE "public"."enum_monitoring_results_type" ADD VALUE 'dns';
+  CREATE TABLE "services_texts" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"order" integer NOT NULL,
+  	"parent_id" integer NOT NULL,
+  	"path" varchar NOT NULL,
+  	"text" varchar
+  );
+  
+  ALTER TABLE "services" ADD COLUMN "monitoring_dns_record_type" "enum_services_monitoring_dns_record_type" DEFAULT 'A';
+  ALTER TABLE "services" ADD COLUMN "monitoring_dns_resolver" varchar;
+  ALTER TABLE "services" ADD COLUMN "monitoring_dns_match_mode" "enum_services_monitoring_dns_match_mode" DEFAULT 'exact';
+  ALTER TABLE "services_texts" ADD CONSTRAINT "services_texts_parent_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."services"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "services_texts_order_parent" ON "services_texts" USING btree ("order","parent_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP TABLE "services_texts" CASCADE;
+  ALTER TABLE "services" ALTER COLUMN "monitoring_type" SET DATA TYPE text;
+  ALTER TABLE "services" ALTER COLUMN "monitoring_type" SET DEFAULT 'http'::text;
+  DROP TYPE "public"."enum_services_monitoring_type";
+  CREATE TYPE "public"."enum_services_monitoring_type" AS ENUM('http', 'tcp', 'ping', 'gamedig');
+  ALTER TABLE "services" ALTER COLUMN "monitoring_type" SET DEFAULT 'http'::"public"."enum_services_monitoring_type";
+  ALTER TABLE "services" ALTER COLUMN "monitoring_type" SET DATA TYPE "public"."enum_services_monitoring_type" USING "monitoring_type"::"public"."enum_services_monitoring_type";
+  ALTER TABLE "monitoring_results" ALTER COLUMN "type" SET DATA TYPE text;
+  DROP TYPE "public"."enum_monitoring_results_type";
+  CREATE TYPE "public"."enum_monitoring_results_type" AS ENUM('http', 'tcp', 'ping', 'gamedig');
+  ALTER TABLE "monitoring_results" ALTER COLUMN "type" SET DATA TYPE "public"."enum_monitoring_results_type" USING "type"::"public"."enum_monitoring_results_type";
+  ALTER TABLE "services" DROP COLUMN "monitoring_dns_record_type";
+  ALTER TABLE "services" DROP COLUMN "monitoring_dns_resolver";
+  ALTER TABLE "services" DROP COLUMN "monitoring_dns_match_mode";
+  DROP TYPE "public"."enum_services_monitoring_dns_record_type";
+  DROP TYPE "public"."enum_services_monitoring_dns_match_mode";`)
+}
@@ -0,0 +1,35 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_services_monitoring_last_push_status" AS ENUM('up', 'down');
+  ALTER TYPE "public"."enum_services_monitoring_type" ADD VALUE 'push';
+  ALTER TYPE "public"."enum_monitoring_results_type" ADD VALUE 'push';
+  ALTER TABLE "services" ADD COLUMN "monitoring_push_token" varchar;
+  ALTER TABLE "services" ADD COLUMN "monitoring_push_grace_period" numeric DEFAULT 60;
+  ALTER TABLE "services" ADD COLUMN "monitoring_last_push_at" timestamp(3) with time zone;
+  ALTER TABLE "services" ADD COLUMN "monitoring_last_push_status" "enum_services_monitoring_last_push_status";
+  ALTER TABLE "services" ADD COLUMN "monitoring_last_push_message" varchar;
+  CREATE UNIQUE INDEX "services_monitoring_monitoring_push_token_idx" ON "services" USING btree ("monitoring_push_token");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "services" ALTER COLUMN "monitoring_type" SET DATA TYPE text;
+  ALTER TABLE "services" ALTER COLUMN "monitoring_type" SET DEFAULT 'http'::text;
+  DROP TYPE "public"."enum_services_monitoring_type";
+  CREATE TYPE "public"."enum_services_monitoring_type" AS ENUM('http', 'tcp', 'ping', 'gamedig', 'dns');
+  ALTER TABLE "services" ALTER COLUMN "monitoring_type" SET DEFAULT 'http'::"public"."enum_services_monitoring_type";
+  ALTER TABLE "services" ALTER COLUMN "monitoring_type" SET DATA TYPE "public"."enum_services_monitoring_type" USING "monitoring_type"::"public"."enum_services_monitoring_type";
+  ALTER TABLE "monitoring_results" ALTER COLUMN "type" SET DATA TYPE text;
+  DROP TYPE "public"."enum_monitoring_results_type";
+  CREATE TYPE "public"."enum_monitoring_results_type" AS ENUM('http', 'tcp', 'ping', 'gamedig', 'dns');
+  ALTER TABLE "monitoring_results" ALTER COLUMN "type" SET DATA TYPE "public"."enum_monitoring_results_type" USING "type"::"public"."enum_monitoring_results_type";
+  DROP INDEX "services_monitoring_monitoring_push_token_idx";
+  ALTER TABLE "services" DROP COLUMN "monitoring_push_token";
+  ALTER TABLE "services" DROP COLUMN "monitoring_push_grace_period";
+  ALTER TABLE "services" DROP COLUMN "monitoring_last_push_at";
+  ALTER TABLE "services" DROP COLUMN "monitoring_last_push_status";
+  ALTER TABLE "services" DROP COLUMN "monitoring_last_push_message";
+  DROP TYPE "public"."enum_services_monitoring_last_push_status";`)
+}
@@ -0,0 +1,60 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TABLE "probes" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"name" varchar NOT NULL,
+  	"region" varchar,
+  	"description" varchar,
+  	"active" boolean DEFAULT true,
+  	"token" varchar,
+  	"last_seen_at" timestamp(3) with time zone,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "probes_rels" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"order" integer,
+  	"parent_id" integer NOT NULL,
+  	"path" varchar NOT NULL,
+  	"services_id" integer
+  );
+  
+  ALTER TABLE "services" ADD COLUMN "monitoring_probe_status" jsonb;
+  ALTER TABLE "monitoring_results" ADD COLUMN "probe_id" integer;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "probes_id" integer;
+  ALTER TABLE "settings" ADD COLUMN "monitoring_quorum" numeric DEFAULT 1;
+  ALTER TABLE "probes_rels" ADD CONSTRAINT "probes_rels_parent_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."probes"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "probes_rels" ADD CONSTRAINT "probes_rels_services_fk" FOREIGN KEY ("services_id") REFERENCES "public"."services"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE UNIQUE INDEX "probes_token_idx" ON "probes" USING btree ("token");
+  CREATE INDEX "probes_updated_at_idx" ON "probes" USING btree ("updated_at");
+  CREATE INDEX "probes_created_at_idx" ON "probes" USING btree ("created_at");
+  CREATE INDEX "probes_rels_order_idx" ON "probes_rels" USING btree ("order");
+  CREATE INDEX "probes_rels_parent_idx" ON "probes_rels" USING btree ("parent_id");
+  CREATE INDEX "probes_rels_path_idx" ON "probes_rels" USING btree ("path");
+  CREATE INDEX "probes_rels_services_id_idx" ON "probes_rels" USING btree ("services_id");
+  ALTER TABLE "monitoring_results" ADD CONSTRAINT "monitoring_results_probe_id_probes_id_fk" FOREIGN KEY ("probe_id") REFERENCES "public"."probes"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_probes_fk" FOREIGN KEY ("probes_id") REFERENCES "public"."probes"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "monitoring_results_probe_idx" ON "monitoring_results" USING btree ("probe_id");
+  CREATE INDEX "payload_locked_documents_rels_probes_id_idx" ON "payload_locked_documents_rels" USING btree ("probes_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "monitoring_results" DROP CONSTRAINT "monitoring_results_probe_id_probes_id_fk";
+  
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_probes_fk";
+  
+  ALTER TABLE "probes" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "probes_rels" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "probes" CASCADE;
+  DROP TABLE "probes_rels" CASCADE;
+  DROP INDEX "monitoring_results_probe_idx";
+  DROP INDEX "payload_locked_documents_rels_probes_id_idx";
+  ALTER TABLE "services" DROP COLUMN "monitoring_probe_status";
+  ALTER TABLE "monitoring_results" DROP COLUMN "probe_id";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "probes_id";
+  ALTER TABLE "settings" DROP COLUMN "monitoring_quorum";`)
+}
@@ -0,0 +1,25 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_services_monitoring_auto_incident_recovery_status" AS ENUM('monitoring', 'resolved');
+  ALTER TABLE "services" ADD COLUMN "monitoring_auto_incident_enabled" boolean DEFAULT false;
+  ALTER TABLE "services" ADD COLUMN "monitoring_auto_incident_title" varchar DEFAULT '{{service}} is unavailable';
+  ALTER TABLE "services" ADD COLUMN "monitoring_auto_incident_message" varchar DEFAULT 'Automatic monitoring has detected that {{service}} is not responding as expected. We are investigating.';
+  ALTER TABLE "services" ADD COLUMN "monitoring_auto_incident_recovery_status" "enum_services_monitoring_auto_incident_recovery_status" DEFAULT 'resolved';
+  ALTER TABLE "services" ADD COLUMN "monitoring_auto_incident_recovery_message" varchar DEFAULT '{{service}} is responding normally again.';
+  ALTER TABLE "incidents" ADD COLUMN "auto_created" boolean DEFAULT false;
+  CREATE INDEX "incidents_auto_created_idx" ON "incidents" USING btree ("auto_created");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP INDEX "incidents_auto_created_idx";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auto_incident_enabled";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auto_incident_title";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auto_incident_message";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auto_incident_recovery_status";
+  ALTER TABLE "services" DROP COLUMN "monitoring_auto_incident_recovery_message";
+  ALTER TABLE "incidents" DROP COLUMN "auto_created";
+  DROP TYPE "public"."enum_services_monitoring_auto_incident_recovery_status";`)
+}
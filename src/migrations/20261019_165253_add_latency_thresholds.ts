@@ -0,0 +1,23 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_services_monitoring_latency_metric" AS ENUM('average', 'median', 'p95', 'max');
+  ALTER TABLE "services" ADD COLUMN "monitoring_measured_latency" numeric;
+  ALTER TABLE "services" ADD COLUMN "monitoring_status_reason" varchar;
+  ALTER TABLE "services" ADD COLUMN "monitoring_latency_warn_threshold" numeric;
+  ALTER TABLE "services" ADD COLUMN "monitoring_latency_critical_threshold" numeric;
+  ALTER TABLE "services" ADD COLUMN "monitoring_latency_metric" "enum_services_monitoring_latency_metric" DEFAULT 'average';
+  ALTER TABLE "services" ADD COLUMN "monitoring_latency_window" numeric DEFAULT 5;`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "services" DROP COLUMN "monitoring_measured_latency";
+  ALTER TABLE "services" DROP COLUMN "monitoring_status_reason";
+  ALTER TABLE "services" DROP COLUMN "monitoring_latency_warn_threshold";
+  ALTER TABLE "services" DROP COLUMN "monitoring_latency_critical_threshold";
+  ALTER TABLE "services" DROP COLUMN "monitoring_latency_metric";
+  ALTER TABLE "services" DROP COLUMN "monitoring_latency_window";
+  DROP TYPE "public"."enum_services_monitoring_latency_metric";`)
+}
@@ -0,0 +1,23 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "services" ADD COLUMN "monitoring_consecutive_successes" numeric DEFAULT 0;
+  ALTER TABLE "services" ADD COLUMN "monitoring_flapping" boolean DEFAULT false;
+  ALTER TABLE "services" ADD COLUMN "monitoring_flapping_since" timestamp(3) with time zone;
+  ALTER TABLE "services" ADD COLUMN "monitoring_flap_history" jsonb;
+  ALTER TABLE "services" ADD COLUMN "monitoring_recovery_threshold" numeric DEFAULT 1;
+  ALTER TABLE "services" ADD COLUMN "monitoring_flap_threshold" numeric DEFAULT 0;
+  ALTER TABLE "services" ADD COLUMN "monitoring_flap_window" numeric DEFAULT 30;`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "services" DROP COLUMN "monitoring_consecutive_successes";
+  ALTER TABLE "services" DROP COLUMN "monitoring_flapping";
+  ALTER TABLE "services" DROP COLUMN "monitoring_flapping_since";
+  ALTER TABLE "services" DROP COLUMN "monitoring_flap_history";
+  ALTER TABLE "services" DROP COLUMN "monitoring_recovery_threshold";
+  ALTER TABLE "services" DROP COLUMN "monitoring_flap_threshold";
+  ALTER TABLE "services" DROP COLUMN "monitoring_flap_window";`)
+}
@@ -0,0 +1,81 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_subscribers_webhook_events" AS ENUM('incident.created', 'incident.updated', 'incident.resolved', 'maintenance.scheduled', 'maintenance.started', 'maintenance.completed', 'maintenance.cancelled', 'service.status_changed');
+  CREATE TYPE "public"."enum_webhook_deliveries_event" AS ENUM('incident.created', 'incident.updated', 'incident.resolved', 'maintenance.scheduled', 'maintenance.started', 'maintenance.completed', 'maintenance.cancelled', 'service.status_changed');
+  CREATE TYPE "public"."enum_webhook_deliveries_status" AS ENUM('pending', 'delivered', 'failed');
+  ALTER TYPE "public"."enum_subscribers_type" ADD VALUE 'webhook';
+  ALTER TYPE "public"."enum_payload_jobs_log_task_slug" ADD VALUE 'deliverWebhook';
+  ALTER TYPE "public"."enum_payload_jobs_task_slug" ADD VALUE 'deliverWebhook';
+  CREATE TABLE "subscribers_webhook_events" (
+  	"order" integer NOT NULL,
+  	"parent_id" integer NOT NULL,
+  	"value" "enum_subscribers_webhook_events",
+  	"id" serial PRIMARY KEY NOT NULL
+  );
+  
+  CREATE TABLE "webhook_deliveries" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"subscriber_id" integer NOT NULL,
+  	"event" "enum_webhook_deliveries_event" NOT NULL,
+  	"status" "enum_webhook_deliveries_status" DEFAULT 'pending' NOT NULL,
+  	"attempts" numeric DEFAULT 0,
+  	"last_attempt_at" timestamp(3) with time zone,
+  	"delivered_at" timestamp(3) with time zone,
+  	"body" jsonb NOT NULL,
+  	"response_status" numeric,
+  	"response_body" varchar,
+  	"error" varchar,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "subscribers" ADD COLUMN "webhook_url" varchar;
+  ALTER TABLE "subscribers" ADD COLUMN "webhook_secret" varchar;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "webhook_deliveries_id" integer;
+  ALTER TABLE "subscribers_webhook_events" ADD CONSTRAINT "subscribers_webhook_events_parent_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."subscribers"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_subscriber_id_subscribers_id_fk" FOREIGN KEY ("subscriber_id") REFERENCES "public"."subscribers"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "subscribers_webhook_events_order_idx" ON "subscribers_webhook_events" USING btree ("order");
+  CREATE INDEX "subscribers_webhook_events_parent_idx" ON "subscribers_webhook_events" USING btree ("parent_id");
+  CREATE INDEX "webhook_deliveries_subscriber_idx" ON "webhook_deliveries" USING btree ("subscriber_id");
+  CREATE INDEX "webhook_deliveries_status_idx" ON "webhook_deliveries" USING btree ("status");
+  CREATE INDEX "webhook_deliveries_updated_at_idx" ON "webhook_deliveries" USING btree ("updated_at");
+  CREATE INDEX "webhook_deliveries_created_at_idx" ON "webhook_deliveries" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_webhook_deliveries_fk" FOREIGN KEY ("webhook_deliveries_id") REFERENCES "public"."webhook_deliveries"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_webhook_deliveries_id_idx" ON "payload_locked_documents_rels" USING btree ("webhook_deliveries_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_webhook_deliveries_fk";
+  ALTER TABLE "subscribers_webhook_events" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "webhook_deliveries" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "subscribers_webhook_events" CASCADE;
+  DROP TABLE "webhook_deliveries" CASCADE;
+  DELETE FROM "subscribers" WHERE "type" = 'webhook';
+  DELETE FROM "payload_jobs" WHERE "task_slug" = 'deliverWebhook';
+  DELETE FROM "payload_jobs_log" WHERE "task_slug" = 'deliverWebhook';
+  
+  ALTER TABLE "subscribers" ALTER COLUMN "type" SET DATA TYPE text;
+  ALTER TABLE "subscribers" ALTER COLUMN "type" SET DEFAULT 'email'::text;
+  DROP TYPE "public"."enum_subscribers_type";
+  CREATE TYPE "public"."enum_subscribers_type" AS ENUM('email', 'sms');
+  ALTER TABLE "subscribers" ALTER COLUMN "type" SET DEFAULT 'email'::"public"."enum_subscribers_type";
+  ALTER TABLE "subscribers" ALTER COLUMN "type" SET DATA TYPE "public"."enum_subscribers_type" USING "type"::"public"."enum_subscribers_type";
+  ALTER TABLE "payload_jobs_log" ALTER COLUMN "task_slug" SET DATA TYPE text;
+  DROP TYPE "public"."enum_payload_jobs_log_task_slug";
+  CREATE TYPE "public"."enum_payload_jobs_log_task_slug" AS ENUM('inline', 'sendNotificationFromCollection', 'checkServiceHealth', 'scheduleMonitoringChecks', 'pruneMonitoringResults');
+  ALTER TABLE "payload_jobs_log" ALTER COLUMN "task_slug" SET DATA TYPE "public"."enum_payload_jobs_log_task_slug" USING "task_slug"::"public"."enum_payload_jobs_log_task_slug";
+  ALTER TABLE "payload_jobs" ALTER COLUMN "task_slug" SET DATA TYPE text;
+  DROP TYPE "public"."enum_payload_jobs_task_slug";
+  CREATE TYPE "public"."enum_payload_jobs_task_slug" AS ENUM('inline', 'sendNotificationFromCollection', 'checkServiceHealth', 'scheduleMonitoringChecks', 'pruneMonitoringResults');
+  ALTER TABLE "payload_jobs" ALTER COLUMN "task_slug" SET DATA TYPE "public"."enum_payload_jobs_task_slug" USING "task_slug"::"public"."enum_payload_jobs_task_slug";
+  DROP INDEX "payload_locked_documents_rels_webhook_deliveries_id_idx";
+  ALTER TABLE "subscribers" DROP COLUMN "webhook_url";
+  ALTER TABLE "subscribers" DROP COLUMN "webhook_secret";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "webhook_deliveries_id";
+  DROP TYPE "public"."enum_subscribers_webhook_events";
+  DROP TYPE "public"."enum_webhook_deliveries_event";
+  DROP TYPE "public"."enum_webhook_deliveries_status";`)
+}
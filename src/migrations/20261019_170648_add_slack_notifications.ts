@@ -0,0 +1,40 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_slack_settings_method" AS ENUM('webhook', 'app');
+  ALTER TYPE "public"."enum_notifications_channel" ADD VALUE 'slack';
+  CREATE TABLE "slack_settings" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"enabled" boolean DEFAULT false,
+  	"method" "enum_slack_settings_method" DEFAULT 'webhook' NOT NULL,
+  	"webhook_url" varchar,
+  	"bot_token" varchar,
+  	"channel_id" varchar,
+  	"thread_updates" boolean DEFAULT true,
+  	"post_all_notifications" boolean DEFAULT false,
+  	"updated_at" timestamp(3) with time zone,
+  	"created_at" timestamp(3) with time zone
+  );
+  
+  ALTER TABLE "notifications" ADD COLUMN "slack_channel_id" varchar;
+  ALTER TABLE "notifications" ADD COLUMN "slack_thread_ts" varchar;
+  CREATE INDEX "notifications_slack_thread_ts_idx" ON "notifications" USING btree ("slack_thread_ts");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "slack_settings" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "slack_settings" CASCADE;
+  UPDATE "notifications" SET "channel" = 'both' WHERE "channel" = 'slack';
+  ALTER TABLE "notifications" ALTER COLUMN "channel" SET DATA TYPE text;
+  ALTER TABLE "notifications" ALTER COLUMN "channel" SET DEFAULT 'both'::text;
+  DROP TYPE "public"."enum_notifications_channel";
+  CREATE TYPE "public"."enum_notifications_channel" AS ENUM('email', 'sms', 'both');
+  ALTER TABLE "notifications" ALTER COLUMN "channel" SET DEFAULT 'both'::"public"."enum_notifications_channel";
+  ALTER TABLE "notifications" ALTER COLUMN "channel" SET DATA TYPE "public"."enum_notifications_channel" USING "channel"::"public"."enum_notifications_channel";
+  DROP INDEX "notifications_slack_thread_ts_idx";
+  ALTER TABLE "notifications" DROP COLUMN "slack_channel_id";
+  ALTER TABLE "notifications" DROP COLUMN "slack_thread_ts";
+  DROP TYPE "public"."enum_slack_settings_method";`)
+}
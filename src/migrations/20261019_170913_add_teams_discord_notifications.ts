@@ -0,0 +1,39 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TYPE "public"."enum_notifications_channel" ADD VALUE 'teams';
+  ALTER TYPE "public"."enum_notifications_channel" ADD VALUE 'discord';
+  CREATE TABLE "teams_settings" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"enabled" boolean DEFAULT false,
+  	"webhook_url" varchar,
+  	"post_all_notifications" boolean DEFAULT false,
+  	"updated_at" timestamp(3) with time zone,
+  	"created_at" timestamp(3) with time zone
+  );
+  
+  CREATE TABLE "discord_settings" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"enabled" boolean DEFAULT false,
+  	"webhook_url" varchar,
+  	"username" varchar,
+  	"post_all_notifications" boolean DEFAULT false,
+  	"updated_at" timestamp(3) with time zone,
+  	"created_at" timestamp(3) with time zone
+  );
+  `)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP TABLE "teams_settings" CASCADE;
+  DROP TABLE "discord_settings" CASCADE;
+  UPDATE "notifications" SET "channel" = 'both' WHERE "channel" IN ('teams', 'discord');
+  ALTER TABLE "notifications" ALTER COLUMN "channel" SET DATA TYPE text;
+  ALTER TABLE "notifications" ALTER COLUMN "channel" SET DEFAULT 'both'::text;
+  DROP TYPE "public"."enum_notifications_channel";
+  CREATE TYPE "public"."enum_notifications_channel" AS ENUM('email', 'sms', 'both', 'slack');
+  ALTER TABLE "notifications" ALTER COLUMN "channel" SET DEFAULT 'both'::"public"."enum_notifications_channel";
+  ALTER TABLE "notifications" ALTER COLUMN "channel" SET DATA TYPE "public"."enum_notifications_channel" USING "channel"::"public"."enum_notifications_channel";`)
+}
@@ -0,0 +1,41 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TYPE "public"."enum_payload_jobs_log_task_slug" ADD VALUE 'pruneUnverifiedSubscribers';
+  ALTER TYPE "public"."enum_payload_jobs_task_slug" ADD VALUE 'pruneUnverifiedSubscribers';
+  CREATE TABLE "payload_jobs_stats" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"stats" jsonb,
+  	"updated_at" timestamp(3) with time zone,
+  	"created_at" timestamp(3) with time zone
+  );
+  
+  ALTER TABLE "subscribers" ADD COLUMN "verification_code" varchar;
+  ALTER TABLE "subscribers" ADD COLUMN "verification_attempts" numeric DEFAULT 0;
+  ALTER TABLE "subscribers" ADD COLUMN "verification_sent_at" timestamp(3) with time zone;
+  ALTER TABLE "payload_jobs" ADD COLUMN "meta" jsonb;
+  CREATE INDEX "subscribers_verification_token_idx" ON "subscribers" USING btree ("verification_token");
+  UPDATE "subscribers" SET "verified" = true WHERE "active" = true AND "type" IN ('email', 'sms');`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "payload_jobs_stats" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "payload_jobs_stats" CASCADE;
+  DELETE FROM "payload_jobs_log" WHERE "task_slug" = 'pruneUnverifiedSubscribers';
+  DELETE FROM "payload_jobs" WHERE "task_slug" = 'pruneUnverifiedSubscribers';
+  ALTER TABLE "payload_jobs_log" ALTER COLUMN "task_slug" SET DATA TYPE text;
+  DROP TYPE "public"."enum_payload_jobs_log_task_slug";
+  CREATE TYPE "public"."enum_payload_jobs_log_task_slug" AS ENUM('inline', 'sendNotificationFromCollection', 'checkServiceHealth', 'scheduleMonitoringChecks', 'pruneMonitoringResults', 'deliverWebhook');
+  ALTER TABLE "payload_jobs_log" ALTER COLUMN "task_slug" SET DATA TYPE "public"."enum_payload_jobs_log_task_slug" USING "task_slug"::"public"."enum_payload_jobs_log_task_slug";
+  ALTER TABLE "payload_jobs" ALTER COLUMN "task_slug" SET DATA TYPE text;
+  DROP TYPE "public"."enum_payload_jobs_task_slug";
+  CREATE TYPE "public"."enum_payload_jobs_task_slug" AS ENUM('inline', 'sendNotificationFromCollection', 'checkServiceHealth', 'scheduleMonitoringChecks', 'pruneMonitoringResults', 'deliverWebhook');
+  ALTER TABLE "payload_jobs" ALTER COLUMN "task_slug" SET DATA TYPE "public"."enum_payload_jobs_task_slug" USING "task_slug"::"public"."enum_payload_jobs_task_slug";
+  DROP INDEX "subscribers_verification_token_idx";
+  ALTER TABLE "subscribers" DROP COLUMN "verification_code";
+  ALTER TABLE "subscribers" DROP COLUMN "verification_attempts";
+  ALTER TABLE "subscribers" DROP COLUMN "verification_sent_at";
+  ALTER TABLE "payload_jobs" DROP COLUMN "meta";`)
+}
@@ -0,0 +1,15 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "subscribers" ADD COLUMN "notify_incidents" boolean DEFAULT true;
+  ALTER TABLE "subscribers" ADD COLUMN "notify_maintenances" boolean DEFAULT true;
+  ALTER TABLE "subscribers" ADD COLUMN "paused_until" timestamp(3) with time zone;`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "subscribers" DROP COLUMN "notify_incidents";
+  ALTER TABLE "subscribers" DROP COLUMN "notify_maintenances";
+  ALTER TABLE "subscribers" DROP COLUMN "paused_until";`)
+}
@@ -0,0 +1,48 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_maintenances_reminders" AS ENUM('24h', '1h');
+  ALTER TYPE "public"."enum_notifications_status" ADD VALUE 'sending' BEFORE 'sent';
+  ALTER TYPE "public"."enum_payload_jobs_log_task_slug" ADD VALUE 'sendScheduledNotifications';
+  ALTER TYPE "public"."enum_payload_jobs_task_slug" ADD VALUE 'sendScheduledNotifications';
+  CREATE TABLE "maintenances_reminders" (
+  	"order" integer NOT NULL,
+  	"parent_id" integer NOT NULL,
+  	"value" "enum_maintenances_reminders",
+  	"id" serial PRIMARY KEY NOT NULL
+  );
+  
+  ALTER TABLE "notifications" ADD COLUMN "reminder" varchar;
+  ALTER TABLE "notifications" ADD COLUMN "send_at" timestamp(3) with time zone;
+  ALTER TABLE "maintenances_reminders" ADD CONSTRAINT "maintenances_reminders_parent_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."maintenances"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "maintenances_reminders_order_idx" ON "maintenances_reminders" USING btree ("order");
+  CREATE INDEX "maintenances_reminders_parent_idx" ON "maintenances_reminders" USING btree ("parent_id");
+  UPDATE "notifications" SET "status" = 'failed', "error_message" = 'Sending was interrupted' WHERE "status" = 'scheduled';`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP TABLE "maintenances_reminders" CASCADE;
+  UPDATE "notifications" SET "status" = 'draft' WHERE "status" = 'scheduled';
+  UPDATE "notifications" SET "status" = 'scheduled' WHERE "status" = 'sending';
+  DELETE FROM "payload_jobs_log" WHERE "task_slug" = 'sendScheduledNotifications';
+  DELETE FROM "payload_jobs" WHERE "task_slug" = 'sendScheduledNotifications';
+  ALTER TABLE "notifications" ALTER COLUMN "status" SET DATA TYPE text;
+  ALTER TABLE "notifications" ALTER COLUMN "status" SET DEFAULT 'draft'::text;
+  DROP TYPE "public"."enum_notifications_status";
+  CREATE TYPE "public"."enum_notifications_status" AS ENUM('draft', 'scheduled', 'sent', 'failed');
+  ALTER TABLE "notifications" ALTER COLUMN "status" SET DEFAULT 'draft'::"public"."enum_notifications_status";
+  ALTER TABLE "notifications" ALTER COLUMN "status" SET DATA TYPE "public"."enum_notifications_status" USING "status"::"public"."enum_notifications_status";
+  ALTER TABLE "payload_jobs_log" ALTER COLUMN "task_slug" SET DATA TYPE text;
+  DROP TYPE "public"."enum_payload_jobs_log_task_slug";
+  CREATE TYPE "public"."enum_payload_jobs_log_task_slug" AS ENUM('inline', 'sendNotificationFromCollection', 'checkServiceHealth', 'scheduleMonitoringChecks', 'pruneMonitoringResults', 'deliverWebhook', 'pruneUnverifiedSubscribers');
+  ALTER TABLE "payload_jobs_log" ALTER COLUMN "task_slug" SET DATA TYPE "public"."enum_payload_jobs_log_task_slug" USING "task_slug"::"public"."enum_payload_jobs_log_task_slug";
+  ALTER TABLE "payload_jobs" ALTER COLUMN "task_slug" SET DATA TYPE text;
+  DROP TYPE "public"."enum_payload_jobs_task_slug";
+  CREATE TYPE "public"."enum_payload_jobs_task_slug" AS ENUM('inline', 'sendNotificationFromCollection', 'checkServiceHealth', 'scheduleMonitoringChecks', 'pruneMonitoringResults', 'deliverWebhook', 'pruneUnverifiedSubscribers');
+  ALTER TABLE "payload_jobs" ALTER COLUMN "task_slug" SET DATA TYPE "public"."enum_payload_jobs_task_slug" USING "task_slug"::"public"."enum_payload_jobs_task_slug";
+  ALTER TABLE "notifications" DROP COLUMN "reminder";
+  ALTER TABLE "notifications" DROP COLUMN "send_at";
+  DROP TYPE "public"."enum_maintenances_reminders";`)
+}
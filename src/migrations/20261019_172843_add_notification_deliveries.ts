@@ -0,0 +1,47 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_notification_deliveries_channel" AS ENUM('email', 'sms');
+  CREATE TYPE "public"."enum_notification_deliveries_status" AS ENUM('sent', 'failed');
+  CREATE TABLE "notification_deliveries" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"notification_id" integer NOT NULL,
+  	"subscriber_id" integer NOT NULL,
+  	"channel" "enum_notification_deliveries_channel" NOT NULL,
+  	"recipient" varchar NOT NULL,
+  	"status" "enum_notification_deliveries_status" NOT NULL,
+  	"attempts" numeric DEFAULT 1,
+  	"last_attempt_at" timestamp(3) with time zone,
+  	"sent_at" timestamp(3) with time zone,
+  	"provider_message_id" varchar,
+  	"error" varchar,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "notifications" ADD COLUMN "failed_recipient_count" numeric;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "notification_deliveries_id" integer;
+  ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_notification_id_notifications_id_fk" FOREIGN KEY ("notification_id") REFERENCES "public"."notifications"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_subscriber_id_subscribers_id_fk" FOREIGN KEY ("subscriber_id") REFERENCES "public"."subscribers"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "notification_deliveries_notification_idx" ON "notification_deliveries" USING btree ("notification_id");
+  CREATE INDEX "notification_deliveries_subscriber_idx" ON "notification_deliveries" USING btree ("subscriber_id");
+  CREATE INDEX "notification_deliveries_status_idx" ON "notification_deliveries" USING btree ("status");
+  CREATE INDEX "notification_deliveries_updated_at_idx" ON "notification_deliveries" USING btree ("updated_at");
+  CREATE INDEX "notification_deliveries_created_at_idx" ON "notification_deliveries" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_notification_deliveries_fk" FOREIGN KEY ("notification_deliveries_id") REFERENCES "public"."notification_deliveries"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_notification_deliveries_id_idx" ON "payload_locked_documents_rels" USING btree ("notification_deliveries_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_notification_deliveries_fk";
+  ALTER TABLE "notification_deliveries" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "notification_deliveries" CASCADE;
+  
+  DROP INDEX "payload_locked_documents_rels_notification_deliveries_id_idx";
+  ALTER TABLE "notifications" DROP COLUMN "failed_recipient_count";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "notification_deliveries_id";
+  DROP TYPE "public"."enum_notification_deliveries_channel";
+  DROP TYPE "public"."enum_notification_deliveries_status";`)
+}
@@ -0,0 +1,15 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "email_settings" ADD COLUMN "max_connections" numeric DEFAULT 5;
+  ALTER TABLE "email_settings" ADD COLUMN "messages_per_second" numeric DEFAULT 10;
+  ALTER TABLE "email_settings" ADD COLUMN "emails_per_run" numeric DEFAULT 1000;`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "email_settings" DROP COLUMN "max_connections";
+  ALTER TABLE "email_settings" DROP COLUMN "messages_per_second";
+  ALTER TABLE "email_settings" DROP COLUMN "emails_per_run";`)
+}
@@ -0,0 +1,23 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "email_settings" ADD COLUMN "brand_color" varchar DEFAULT '#0066cc';
+  ALTER TABLE "email_settings" ADD COLUMN "footer_text" varchar;
+  ALTER TABLE "email_settings" ADD COLUMN "template_incident_new" varchar DEFAULT E'A new incident has been reported.\\n\\nStatus: {{status}}\\n\\n{{message}}\\n\\nView full details: {{url}}';
+  ALTER TABLE "email_settings" ADD COLUMN "template_incident_update" varchar DEFAULT E'Status: {{status}}\\n\\n{{message}}\\n\\nView full details: {{url}}';
+  ALTER TABLE "email_settings" ADD COLUMN "template_maintenance_new" varchar DEFAULT E'A maintenance window has been scheduled.\\n\\n{{schedule}}\\n\\nWe will notify you when the maintenance begins and completes.\\n\\nView full details: {{url}}';
+  ALTER TABLE "email_settings" ADD COLUMN "template_maintenance_update" varchar DEFAULT E'Maintenance Status: {{status}}\\n\\n{{message}}\\n\\nView full details: {{url}}';
+  ALTER TABLE "email_settings" ADD COLUMN "template_maintenance_reminder" varchar DEFAULT E'Reminder: this maintenance window {{message}}.\\n\\n{{schedule}}\\n\\nView full details: {{url}}';`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "email_settings" DROP COLUMN "brand_color";
+  ALTER TABLE "email_settings" DROP COLUMN "footer_text";
+  ALTER TABLE "email_settings" DROP COLUMN "template_incident_new";
+  ALTER TABLE "email_settings" DROP COLUMN "template_incident_update";
+  ALTER TABLE "email_settings" DROP COLUMN "template_maintenance_new";
+  ALTER TABLE "email_settings" DROP COLUMN "template_maintenance_update";
+  ALTER TABLE "email_settings" DROP COLUMN "template_maintenance_reminder";`)
+}
@@ -0,0 +1,25 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_email_settings_provider" AS ENUM('smtp', 'ses', 'postmark', 'sendgrid');
+  ALTER TABLE "email_settings" ADD COLUMN "provider" "enum_email_settings_provider" DEFAULT 'smtp' NOT NULL;
+  ALTER TABLE "email_settings" ADD COLUMN "api_key" varchar;
+  ALTER TABLE "email_settings" ADD COLUMN "postmark_message_stream" varchar DEFAULT 'outbound';
+  ALTER TABLE "email_settings" ADD COLUMN "ses_region" varchar;
+  ALTER TABLE "email_settings" ADD COLUMN "ses_access_key_id" varchar;
+  ALTER TABLE "email_settings" ADD COLUMN "ses_secret_access_key" varchar;
+  ALTER TABLE "email_settings" ADD COLUMN "api_base_url" varchar;`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "email_settings" DROP COLUMN "provider";
+  ALTER TABLE "email_settings" DROP COLUMN "api_key";
+  ALTER TABLE "email_settings" DROP COLUMN "postmark_message_stream";
+  ALTER TABLE "email_settings" DROP COLUMN "ses_region";
+  ALTER TABLE "email_settings" DROP COLUMN "ses_access_key_id";
+  ALTER TABLE "email_settings" DROP COLUMN "ses_secret_access_key";
+  ALTER TABLE "email_settings" DROP COLUMN "api_base_url";
+  DROP TYPE "public"."enum_email_settings_provider";`)
+}
@@ -0,0 +1,15 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "subscribers" ADD COLUMN "pending_email" varchar;
+  ALTER TABLE "subscribers" ADD COLUMN "pending_phone" varchar;
+  CREATE INDEX "subscribers_pending_phone_idx" ON "subscribers" USING btree ("pending_phone");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP INDEX "subscribers_pending_phone_idx";
+  ALTER TABLE "subscribers" DROP COLUMN "pending_email";
+  ALTER TABLE "subscribers" DROP COLUMN "pending_phone";`)
+}
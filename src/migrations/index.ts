@@ -3,6 +3,32 @@ import * as migration_20260112_163613_split_email_sms_settings from './20260112_
 import * as migration_20260216_171400_add_service_monitoring from './20260216_171400_add_service_monitoring';
 import * as migration_20260216_184200_add_monitoring_types from './20260216_184200_add_monitoring_types';
 import * as migration_20260216_211700_add_settings_monitoring_schedule from './20260216_211700_add_settings_monitoring_schedule';
+import * as migration_20261019_162747_add_monitoring_results from './20261019_162747_add_monitoring_results';
+import * as migration_20261019_163253_add_http_body_assertions from './20261019_163253_add_http_body_assertions';
+import * as migration_20261019_163442_add_http_request_options from './20261019_163442_add_http_request_options';
+import * as migration_20261019_163646_add_tls_certificate_monitoring from './20261019_163646_add_tls_certificate_monitoring';
+import * as migration_20261019_163825_add_dns_monitoring from './20261019_163825_add_dns_monitoring';
+import * as migration_20261019_164023_add_push_monitoring from './20261019_164023_add_push_monitoring';
+import * as migration_20261019_164211_add_ping_packet_count from './20261019_164211_add_ping_packet_count';
+import * as migration_20261019_164729_add_monitoring_probes from './20261019_164729_add_monitoring_probes';
+import * as migration_20261019_165033_add_auto_incidents from './20261019_165033_add_auto_incidents';
+import * as migration_20261019_165253_add_latency_thresholds from './20261019_165253_add_latency_thresholds';
+import * as migration_20261019_165504_add_flap_detection from './20261019_165504_add_flap_detection';
+import * as migration_20261019_165653_add_service_dependencies from './20261019_165653_add_service_dependencies';
+import * as migration_20261019_170250_add_webhook_subscriptions from './20261019_170250_add_webhook_subscriptions';
+import * as migration_20261019_170648_add_slack_notifications from './20261019_170648_add_slack_notifications';
+import * as migration_20261019_170913_add_teams_discord_notifications from './20261019_170913_add_teams_discord_notifications';
+import * as migration_20261019_171401_add_subscriber_verification from './20261019_171401_add_subscriber_verification';
+import * as migration_20261019_171704_add_subscriber_service_preferences from './20261019_171704_add_subscriber_service_preferences';
+import * as migration_20261019_172044_add_subscriber_preference_center from './20261019_172044_add_subscriber_preference_center';
+import * as migration_20261019_172519_add_scheduled_notifications from './20261019_172519_add_scheduled_notifications';
+import * as migration_20261019_172843_add_notification_deliveries from './20261019_172843_add_notification_deliveries';
+import * as migration_20261019_173310_add_email_sending_limits from './20261019_173310_add_email_sending_limits';
+import * as migration_20261019_173708_add_email_templates from './20261019_173708_add_email_templates';
+import * as migration_20261019_173951_add_email_markdown from './20261019_173951_add_email_markdown';
+import * as migration_20261019_174301_add_email_providers from './20261019_174301_add_email_providers';
+import * as migration_20261019_180245_add_verification_send_count from './20261019_180245_add_verification_send_count';
+import * as migration_20261019_180548_add_subscriber_pending_address from './20261019_180548_add_subscriber_pending_address';
 
 export const migrations = [
   {
@@ -30,4 +56,134 @@ export const migrations = [
     down: migration_20260216_211700_add_settings_monitoring_schedule.down,
     name: '20260216_211700_add_settings_monitoring_schedule'
   },
+  {
+    up: migration_20261019_162747_add_monitoring_results.up,
+    down: migration_20261019_162747_add_monitoring_results.down,
+    name: '20261019_162747_add_monitoring_results'
+  },
+  {
+    up: migration_20261019_163253_add_http_body_assertions.up,
+    down: migration_20261019_163253_add_http_body_assertions.down,
+    name: '20261019_163253_add_http_body_assertions'
+  },
+  {
+    up: migration_20261019_163442_add_http_request_options.up,
+    down: migration_20261019_163442_add_http_request_options.down,
+    name: '20261019_163442_add_http_request_options'
+  },
+  {
+    up: migration_20261019_163646_add_tls_certificate_monitoring.up,
+    down: migration_20261019_163646_add_tls_certificate_monitoring.down,
+    name: '20261019_163646_add_tls_certificate_monitoring'
+  },
+  {
+    up: migration_20261019_163825_add_dns_monitoring.up,
+    down: migration_20261019_163825_add_dns_monitoring.down,
+    name: '20261019_163825_add_dns_monitoring'
+  },
+  {
+    up: migration_20261019_164023_add_push_monitoring.up,
+    down: migration_20261019_164023_add_push_monitoring.down,
+    name: '20261019_164023_add_push_monitoring'
+  },
+  {
+    up: migration_20261019_164211_add_ping_packet_count.up,
+    down: migration_20261019_164211_add_ping_packet_count.down,
+    name: '20261019_164211_add_ping_packet_count'
+  },
+  {
+    up: migration_20261019_164729_add_monitoring_probes.up,
+    down: migration_20261019_164729_add_monitoring_probes.down,
+    name: '20261019_164729_add_monitoring_probes'
+  },
+  {
+    up: migration_20261019_165033_add_auto_incidents.up,
+    down: migration_20261019_165033_add_auto_incidents.down,
+    name: '20261019_165033_add_auto_incidents'
+  },
+  {
+    up: migration_20261019_165253_add_latency_thresholds.up,
+    down: migration_20261019_165253_add_latency_thresholds.down,
+    name: '20261019_165253_add_latency_thresholds'
+  },
+  {
+    up: migration_20261019_165504_add_flap_detection.up,
+    down: migration_20261019_165504_add_flap_detection.down,
+    name: '20261019_165504_add_flap_detection'
+  },
+  {
+    up: migration_20261019_165653_add_service_dependencies.up,
+    down: migration_20261019_165653_add_service_dependencies.down,
+    name: '20261019_165653_add_service_dependencies'
+  },
+  {
+    up: migration_20261019_170250_add_webhook_subscriptions.up,
+    down: migration_20261019_170250_add_webhook_subscriptions.down,
+    name: '20261019_170250_add_webhook_subscriptions'
+  },
+  {
+    up: migration_20261019_170648_add_slack_notifications.up,
+    down: migration_20261019_170648_add_slack_notifications.down,
+    name: '20261019_170648_add_slack_notifications'
+  },
+  {
+    up: migration_20261019_170913_add_teams_discord_notifications.up,
+    down: migration_20261019_170913_add_teams_discord_notifications.down,
+    name: '20261019_170913_add_teams_discord_notifications'
+  },
+  {
+    up: migration_20261019_171401_add_subscriber_verification.up,
+    down: migration_20261019_171401_add_subscriber_verification.down,
+    name: '20261019_171401_add_subscriber_verification'
+  },
+  {
+    up: migration_20261019_171704_add_subscriber_service_preferences.up,
+    down: migration_20261019_171704_add_subscriber_service_preferences.down,
+    name: '20261019_171704_add_subscriber_service_preferences'
+  },
+  {
+    up: migration_20261019_172044_add_subscriber_preference_center.up,
+    down: migration_20261019_172044_add_subscriber_preference_center.down,
+    name: '20261019_172044_add_subscriber_preference_center'
+  },
+  {
+    up: migration_20261019_172519_add_scheduled_notifications.up,
+    down: migration_20261019_172519_add_scheduled_notifications.down,
+    name: '20261019_172519_add_scheduled_notifications'
+  },
+  {
+    up: migration_20261019_172843_add_notification_deliveries.up,
+    down: migration_20261019_172843_add_notification_deliveries.down,
+    name: '20261019_172843_add_notification_deliveries'
+  },
+  {
+    up: migration_20261019_173310_add_email_sending_limits.up,
+    down: migration_20261019_173310_add_email_sending_limits.down,
+    name: '20261019_173310_add_email_sending_limits'
+  },
+  {
+    up: migration_20261019_173708_add_email_templates.up,
+    down: migration_20261019_173708_add_email_templates.down,
+    name: '20261019_173708_add_email_templates'
+  },
+  {
+    up: migration_20261019_173951_add_email_markdown.up,
+    down: migration_20261019_173951_add_email_markdown.down,
+    name: '20261019_173951_add_email_markdown'
+  },
+  {
+    up: migration_20261019_174301_add_email_providers.up,
+    down: migration_20261019_174301_add_email_providers.down,
+    name: '20261019_174301_add_email_providers'
+  },
+  {
+    up: migration_20261019_180245_add_verification_send_count.up,
+    down: migration_20261019_180245_add_verification_send_count.down,
+    name: '20261019_180245_add_verification_send_count'
+  },
+  {
+    up: migration_20261019_180548_add_subscriber_pending_address.up,
+    down: migration_20261019_180548_add_subscriber_pending_address.down,
+    name: '20261019_180548_add_subscriber_pending_address'
+  },
 ];
@@ -71,8 +71,12 @@ export interface Config {
     services: Service;
     incidents: Incident;
     maintenances: Maintenance;
+    'monitoring-results': MonitoringResult;
+    probes: Probe;
     notifications: Notification;
+    'notification-deliveries': NotificationDelivery;
     subscribers: Subscriber;
+    'webhook-deliveries': WebhookDelivery;
     users: User;
     media: Media;
     'payload-kv': PayloadKv;
@@ -81,14 +85,25 @@ export interface Config {
     'payload-preferences': PayloadPreference;
     'payload-migrations': PayloadMigration;
   };
-  collectionsJoins: {};
+  collectionsJoins: {
+    notifications: {
+      deliveries: 'notification-deliveries';
+    };
+    subscribers: {
+      webhookDeliveries: 'webhook-deliveries';
+    };
+  };
   collectionsSelect: {
     'service-groups': ServiceGroupsSelect<false> | ServiceGroupsSelect<true>;
     services: ServicesSelect<false> | ServicesSelect<true>;
     incidents: IncidentsSelect<false> | IncidentsSelect<true>;
     maintenances: MaintenancesSelect<false> | MaintenancesSelect<true>;
+    'monitoring-results': MonitoringResultsSelect<false> | MonitoringResultsSelect<true>;
+    probes: ProbesSelect<false> | ProbesSelect<true>;
     notifications: NotificationsSelect<false> | NotificationsSelect<true>;
+    'notification-deliveries': NotificationDeliveriesSelect<false> | NotificationDeliveriesSelect<true>;
     subscribers: SubscribersSelect<false> | SubscribersSelect<true>;
+    'webhook-deliveries': WebhookDeliveriesSelect<false> | WebhookDeliveriesSelect<true>;
     users: UsersSelect<false> | UsersSelect<true>;
     media: MediaSelect<false> | MediaSelect<true>;
     'payload-kv': PayloadKvSelect<false> | PayloadKvSelect<true>;
@@ -105,11 +120,19 @@ export interface Config {
     settings: Setting;
     'email-settings': EmailSetting;
     'sms-settings': SmsSetting;
+    'slack-settings': SlackSetting;
+    'teams-settings': TeamsSetting;
+    'discord-settings': DiscordSetting;
+    'payload-jobs-stats': PayloadJobsStat;
   };
   globalsSelect: {
     settings: SettingsSelect<false> | SettingsSelect<true>;
     'email-settings': EmailSettingsSelect<false> | EmailSettingsSelect<true>;
     'sms-settings': SmsSettingsSelect<false> | SmsSettingsSelect<true>;
+    'slack-settings': SlackSettingsSelect<false> | SlackSettingsSelect<true>;
+    'teams-settings': TeamsSettingsSelect<false> | TeamsSettingsSelect<true>;
+    'discord-settings': DiscordSettingsSelect<false> | DiscordSettingsSelect<true>;
+    'payload-jobs-stats': PayloadJobsStatsSelect<false> | PayloadJobsStatsSelect<true>;
   };
   locale: null;
   user: User;
@@ -118,6 +141,10 @@ export interface Config {
       sendNotificationFromCollection: TaskSendNotificationFromCollection;
       checkServiceHealth: TaskCheckServiceHealth;
       scheduleMonitoringChecks: TaskScheduleMonitoringChecks;
+      pruneMonitoringResults: TaskPruneMonitoringResults;
+      deliverWebhook: TaskDeliverWebhook;
+      pruneUnverifiedSubscribers: TaskPruneUnverifiedSubscribers;
+      sendScheduledNotifications: TaskSendScheduledNotifications;
       inline: {
         input: unknown;
         output: unknown;
@@ -187,6 +214,10 @@ export interface Service {
    * Current status of the service
    */
   status: 'operational' | 'degraded' | 'partial' | 'major' | 'maintenance';
+  /**
+   * Services this service relies on. An outage of a dependency shows this service as Partial Outage on the status page.
+   */
+  dependsOn?: (number | Service)[] | null;
   /**
    * Configure automatic monitoring for this service
    */
@@ -198,7 +229,7 @@ export interface Service {
     /**
      * Type of monitoring to perform
      */
-    type?: ('http' | 'tcp' | 'ping' | 'gamedig') | null;
+    type?: ('http' | 'tcp' | 'ping' | 'gamedig' | 'dns' | 'push') | null;
     /**
      * The URL to monitor (e.g., https://api.example.com/health)
      */
@@ -208,19 +239,82 @@ export interface Service {
      */
     method?: ('GET' | 'HEAD' | 'POST') | null;
     /**
-     * Hostname or IP address to monitor (e.g., example.com or 192.168.1.1)
+     * Additional headers sent with the health check (e.g., X-API-Key)
+     */
+    headers?:
+      | {
+          name: string;
+          value?: string | null;
+          /**
+           * Hide the value from the public API. Leave the value empty to keep the existing one.
+           */
+          secret?: boolean | null;
+          id?: string | null;
+        }[]
+      | null;
+    /**
+     * Body sent with POST requests. Sent as application/json when valid JSON unless a Content-Type header is set.
+     */
+    requestBody?: string | null;
+    /**
+     * Authentication to use for the health check request
+     */
+    authType?: ('none' | 'basic' | 'bearer') | null;
+    authUsername?: string | null;
+    /**
+     * Leave empty to keep existing value.
+     */
+    authPassword?: string | null;
+    /**
+     * Sent as "Authorization: Bearer <token>". Leave empty to keep existing value.
+     */
+    authToken?: string | null;
+    /**
+     * Hostname or IP address to monitor (e.g., example.com or 192.168.1.1). For DNS, the record name to resolve.
      */
     host?: string | null;
     /**
      * Port number to check (e.g., 22 for SSH, 3306 for MySQL)
      */
     port?: number | null;
+    /**
+     * Number of ICMP packets to send per check. Partial packet loss marks the service as degraded.
+     */
+    packetCount?: number | null;
+    /**
+     * Perform a TLS handshake and inspect the certificate (e.g., for SMTPS, IMAPS or LDAPS)
+     */
+    tls?: boolean | null;
     /**
      * Type of game server
      */
     gameType?: ('minecraft' | 'cs' | 'tf2' | 'garrysmod' | 'arkse' | 'rust' | '7d2d' | 'valheim') | null;
     /**
-     * How often to check the service (minimum 30 seconds)
+     * DNS record type to resolve
+     */
+    dnsRecordType?: ('A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS') | null;
+    /**
+     * Optional resolver IP address, with optional port (e.g., 1.1.1.1 or 8.8.8.8:53). Leave empty to use the system resolver.
+     */
+    dnsResolver?: string | null;
+    /**
+     * Values the answer is compared against (e.g., 93.184.216.34, or "10 mail.example.com" for MX). Leave empty to only require that records exist.
+     */
+    dnsExpectedValues?: string[] | null;
+    /**
+     * Use "contains" when the record set has entries you do not want to track
+     */
+    dnsMatchMode?: ('exact' | 'contains') | null;
+    pushToken?: string | null;
+    /**
+     * Extra time allowed after the check interval before a missing heartbeat counts as a failure
+     */
+    pushGracePeriod?: number | null;
+    lastPushAt?: string | null;
+    lastPushStatus?: ('up' | 'down') | null;
+    lastPushMessage?: string | null;
+    /**
+     * How often to check the service (minimum 30 seconds). For push monitors, how often heartbeats are expected.
      */
     interval?: number | null;
     /**
@@ -231,6 +325,31 @@ export interface Service {
      * The expected HTTP status code for a healthy response (default: 200)
      */
     expectedStatusCode?: number | null;
+    /**
+     * Checks run against the response body. All assertions must pass for the check to succeed (not available for HEAD requests).
+     */
+    bodyAssertions?:
+      | {
+          type: 'contains' | 'not_contains' | 'regex' | 'json_equals' | 'json_exists';
+          /**
+           * Path to the value in the JSON response (e.g., $.status or $.checks[0].healthy)
+           */
+          path?: string | null;
+          /**
+           * Keyword, regular expression or expected value depending on the assertion
+           */
+          value?: string | null;
+          id?: string | null;
+        }[]
+      | null;
+    /**
+     * Mark the service as degraded when the TLS certificate expires within this many days (0 to disable). Applies to HTTPS URLs and TCP with TLS.
+     */
+    certExpiryThresholdDays?: number | null;
+    /**
+     * Fail the check when the certificate chain is untrusted or does not match the hostname. HTTPS checks always fail on invalid certificates.
+     */
+    failOnInvalidCertificate?: boolean | null;
     /**
      * Timestamp of the last monitoring check
      */
@@ -243,10 +362,101 @@ export interface Service {
      * Number of consecutive failed checks
      */
     consecutiveFailures?: number | null;
+    /**
+     * Number of consecutive successful checks
+     */
+    consecutiveSuccesses?: number | null;
+    /**
+     * The status changed too often and is held in Degraded Performance until it stabilises
+     */
+    flapping?: boolean | null;
+    flappingSince?: string | null;
+    flapHistory?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+    /**
+     * Latency compared with the thresholds at the last check
+     */
+    measuredLatency?: number | null;
+    /**
+     * Why the last check did not report the service as fully operational
+     */
+    statusReason?: string | null;
+    /**
+     * Consecutive failures and successes of each reporting probe at the last check, counted from the check history
+     */
+    probeStatus?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
     /**
      * Number of consecutive failures before marking service as down
      */
     failureThreshold?: number | null;
+    /**
+     * Number of consecutive successful checks before a failing service is marked as recovered
+     */
+    recoveryThreshold?: number | null;
+    /**
+     * Status changes within the flap window that mark the service as flapping and hold it in Degraded Performance (0 to disable)
+     */
+    flapThreshold?: number | null;
+    /**
+     * Period in which status changes are counted
+     */
+    flapWindow?: number | null;
+    /**
+     * Mark the service as degraded when response times exceed this value (leave empty to disable)
+     */
+    latencyWarnThreshold?: number | null;
+    /**
+     * Mark the service as partial outage when response times exceed this value (leave empty to disable)
+     */
+    latencyCriticalThreshold?: number | null;
+    /**
+     * How response times are combined before comparing them with the thresholds
+     */
+    latencyMetric?: ('average' | 'median' | 'p95' | 'max') | null;
+    /**
+     * Number of recent successful checks to evaluate
+     */
+    latencyWindow?: number | null;
+    /**
+     * Open an incident when the failure threshold is crossed and update it when checks recover. Templates support {{service}}, {{error}} and {{failures}}.
+     */
+    autoIncident?: {
+      enabled?: boolean | null;
+      title?: string | null;
+      message?: string | null;
+      /**
+       * Use Monitoring to resolve the incident manually after recovery
+       */
+      recoveryStatus?: ('monitoring' | 'resolved') | null;
+      recoveryMessage?: string | null;
+    };
+    /**
+     * Certificate presented during the last check
+     */
+    certificate?: {
+      subject?: string | null;
+      issuer?: string | null;
+      validFrom?: string | null;
+      validTo?: string | null;
+      daysRemaining?: number | null;
+      valid?: boolean | null;
+      validationError?: string | null;
+    };
   };
   updatedAt: string;
   createdAt: string;
@@ -273,6 +483,10 @@ export interface Incident {
    * When the incident was resolved
    */
   resolvedAt?: string | null;
+  /**
+   * Opened automatically when monitoring marked an affected service down
+   */
+  autoCreated?: boolean | null;
   /**
    * Services affected by this incident
    */
@@ -346,6 +560,10 @@ export interface Maintenance {
    * Human-readable duration (e.g., "~2 hours")
    */
   duration?: string | null;
+  /**
+   * Schedule reminder notifications before the start. They follow schedule changes and can be edited or cancelled under Notifications.
+   */
+  reminders?: ('24h' | '1h')[] | null;
   /**
    * Current status of the maintenance
    */
@@ -381,6 +599,62 @@ export interface Maintenance {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * History of automatic health checks (read-only, pruned automatically)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "monitoring-results".
+ */
+export interface MonitoringResult {
+  id: number;
+  service: number | Service;
+  /**
+   * Remote probe that ran the check (empty for checks run by the app server)
+   */
+  probe?: (number | null) | Probe;
+  checkedAt: string;
+  status: 'success' | 'failed';
+  /**
+   * Monitoring type configured at the time of the check
+   */
+  type?: ('http' | 'tcp' | 'ping' | 'gamedig' | 'dns' | 'push') | null;
+  responseTime?: number | null;
+  statusCode?: number | null;
+  error?: string | null;
+  details?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Remote agents that run health checks from other locations
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "probes".
+ */
+export interface Probe {
+  id: number;
+  name: string;
+  /**
+   * Where the probe runs (e.g. eu-central, us-east)
+   */
+  region?: string | null;
+  description?: string | null;
+  /**
+   * Inactive probes are rejected and no longer count towards the quorum
+   */
+  active?: boolean | null;
+  /**
+   * Services this probe checks. Leave empty to check every monitored service.
+   */
+  services?: (number | Service)[] | null;
+  /**
+   * Set as PROBE_TOKEN for the probe agent. Keep this secret.
+   */
+  token?: string | null;
+  lastSeenAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * Manage and send notifications to subscribers
  *
@@ -396,10 +670,11 @@ export interface Notification {
   relatedIncident?: (number | null) | Incident;
   relatedMaintenance?: (number | null) | Maintenance;
   updateIndex?: number | null;
-  channel: 'email' | 'sms' | 'both';
-  status: 'draft' | 'scheduled' | 'sent' | 'failed';
+  reminder?: string | null;
+  channel: 'email' | 'sms' | 'both' | 'slack' | 'teams' | 'discord';
+  status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed';
   /**
-   * Subject line for email notifications
+   * Subject line for email notifications (also the title of chat messages when there is no related incident or maintenance)
    */
   subject?: string | null;
   /**
@@ -410,12 +685,51 @@ export interface Notification {
    * Short SMS message (160 characters recommended)
    */
   smsBody?: string | null;
+  /**
+   * Pick a time and use Schedule Send to deliver this notification automatically
+   */
+  sendAt?: string | null;
   recipientCount?: number | null;
+  failedRecipientCount?: number | null;
+  deliveries?: {
+    docs?: (number | NotificationDelivery)[];
+    hasNextPage?: boolean;
+    totalDocs?: number;
+  };
   errorMessage?: string | null;
+  slackChannelId?: string | null;
+  slackThreadTs?: string | null;
   sentAt?: string | null;
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Emails and SMS sent to subscribers (read-only)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "notification-deliveries".
+ */
+export interface NotificationDelivery {
+  id: number;
+  notification: number | Notification;
+  subscriber: number | Subscriber;
+  channel: 'email' | 'sms';
+  /**
+   * Email address or phone number it was sent to
+   */
+  recipient: string;
+  status: 'sent' | 'failed';
+  attempts?: number | null;
+  lastAttemptAt?: string | null;
+  sentAt?: string | null;
+  /**
+   * SMTP message ID or Twilio message SID
+   */
+  providerMessageId?: string | null;
+  error?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "subscribers".
@@ -425,7 +739,7 @@ export interface Subscriber {
   /**
    * Type of subscription
    */
-  type: 'email' | 'sms';
+  type: 'email' | 'sms' | 'webhook';
   /**
    * Required if subscription type is email
    */
@@ -435,15 +749,85 @@ export interface Subscriber {
    */
   phone?: string | null;
   /**
-   * Whether the subscription has been verified
+   * URL that receives a signed JSON POST request for each event
+   */
+  webhookUrl?: string | null;
+  /**
+   * Used to sign payloads (X-Webhook-Signature header). Generated automatically when left empty.
+   */
+  webhookSecret?: string | null;
+  /**
+   * Events sent to this webhook. Leave empty to receive all events.
+   */
+  webhookEvents?:
+    | (
+        | 'incident.created'
+        | 'incident.updated'
+        | 'incident.resolved'
+        | 'maintenance.scheduled'
+        | 'maintenance.started'
+        | 'maintenance.completed'
+        | 'maintenance.cancelled'
+        | 'service.status_changed'
+      )[]
+    | null;
+  webhookDeliveries?: {
+    docs?: (number | WebhookDelivery)[];
+    hasNextPage?: boolean;
+    totalDocs?: number;
+  };
+  /**
+   * Receive notifications about every service. Untick to choose service groups and services.
+   */
+  allServices?: boolean | null;
+  /**
+   * Notifications about any service in these groups, including services added later
+   */
+  subscribedGroups?: (number | ServiceGroup)[] | null;
+  /**
+   * Notifications about these individual services
+   */
+  subscribedServices?: (number | Service)[] | null;
+  /**
+   * Receive incident notifications
+   */
+  notifyIncidents?: boolean | null;
+  /**
+   * Receive scheduled maintenance notifications
+   */
+  notifyMaintenances?: boolean | null;
+  /**
+   * No notifications are sent before this time. Set by the subscriber from the manage subscription page.
+   */
+  pausedUntil?: string | null;
+  /**
+   * Whether the subscription has been confirmed. Only verified email and SMS subscribers receive notifications.
    */
   verified?: boolean | null;
+  /**
+   * Address requested on the manage subscription page. It replaces the current one once confirmed.
+   */
+  pendingEmail?: string | null;
+  /**
+   * Phone number requested on the manage subscription page. It replaces the current one once confirmed.
+   */
+  pendingPhone?: string | null;
   /**
    * Token used for email/phone verification
    */
   verificationToken?: string | null;
   /**
-   * Token used for one-click unsubscribe
+   * Code sent by SMS to confirm the phone number
+   */
+  verificationCode?: string | null;
+  verificationAttempts?: number | null;
+  verificationSendCount?: number | null;
+  /**
+   * When the last confirmation email or SMS was sent. Unconfirmed signups expire after 48 hours.
+   */
+  verificationSentAt?: string | null;
+  /**
+   * Token used for one-click unsubscribe and the manage subscription page
    */
   unsubscribeToken?: string | null;
   /**
@@ -457,6 +841,52 @@ export interface Subscriber {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Events sent to webhook subscribers (read-only)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhook-deliveries".
+ */
+export interface WebhookDelivery {
+  id: number;
+  subscriber: number | Subscriber;
+  event:
+    | 'incident.created'
+    | 'incident.updated'
+    | 'incident.resolved'
+    | 'maintenance.scheduled'
+    | 'maintenance.started'
+    | 'maintenance.completed'
+    | 'maintenance.cancelled'
+    | 'service.status_changed';
+  status: 'pending' | 'delivered' | 'failed';
+  attempts?: number | null;
+  lastAttemptAt?: string | null;
+  deliveredAt?: string | null;
+  /**
+   * JSON body sent to the webhook
+   */
+  body:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * HTTP status code of the last attempt
+   */
+  responseStatus?: number | null;
+  /**
+   * Start of the response body of the last attempt
+   */
+  responseBody?: string | null;
+  error?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "users".
@@ -571,7 +1001,15 @@ export interface PayloadJob {
     | {
         executedAt: string;
         completedAt: string;
-        taskSlug: 'inline' | 'sendNotificationFromCollection' | 'checkServiceHealth' | 'scheduleMonitoringChecks';
+        taskSlug:
+          | 'inline'
+          | 'sendNotificationFromCollection'
+          | 'checkServiceHealth'
+          | 'scheduleMonitoringChecks'
+          | 'pruneMonitoringResults'
+          | 'deliverWebhook'
+          | 'pruneUnverifiedSubscribers'
+          | 'sendScheduledNotifications';
         taskID: string;
         input?:
           | {
@@ -604,10 +1042,30 @@ export interface PayloadJob {
         id?: string | null;
       }[]
     | null;
-  taskSlug?: ('inline' | 'sendNotificationFromCollection' | 'checkServiceHealth' | 'scheduleMonitoringChecks') | null;
+  taskSlug?:
+    | (
+        | 'inline'
+        | 'sendNotificationFromCollection'
+        | 'checkServiceHealth'
+        | 'scheduleMonitoringChecks'
+        | 'pruneMonitoringResults'
+        | 'deliverWebhook'
+        | 'pruneUnverifiedSubscribers'
+        | 'sendScheduledNotifications'
+      )
+    | null;
   queue?: string | null;
   waitUntil?: string | null;
   processing?: boolean | null;
+  meta?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -634,14 +1092,30 @@ export interface PayloadLockedDocument {
         relationTo: 'maintenances';
         value: number | Maintenance;
       } | null)
+    | ({
+        relationTo: 'monitoring-results';
+        value: number | MonitoringResult;
+      } | null)
+    | ({
+        relationTo: 'probes';
+        value: number | Probe;
+      } | null)
     | ({
         relationTo: 'notifications';
         value: number | Notification;
       } | null)
+    | ({
+        relationTo: 'notification-deliveries';
+        value: number | NotificationDelivery;
+      } | null)
     | ({
         relationTo: 'subscribers';
         value: number | Subscriber;
       } | null)
+    | ({
+        relationTo: 'webhook-deliveries';
+        value: number | WebhookDelivery;
+      } | null)
     | ({
         relationTo: 'users';
         value: number | User;
@@ -715,6 +1189,7 @@ export interface ServicesSelect<T extends boolean = true> {
   description?: T;
   group?: T;
   status?: T;
+  dependsOn?: T;
   monitoring?:
     | T
     | {
@@ -722,16 +1197,84 @@ export interface ServicesSelect<T extends boolean = true> {
         type?: T;
         url?: T;
         method?: T;
+        headers?:
+          | T
+          | {
+              name?: T;
+              value?: T;
+              secret?: T;
+              id?: T;
+            };
+        requestBody?: T;
+        authType?: T;
+        authUsername?: T;
+        authPassword?: T;
+        authToken?: T;
         host?: T;
         port?: T;
+        packetCount?: T;
+        tls?: T;
         gameType?: T;
+        dnsRecordType?: T;
+        dnsResolver?: T;
+        dnsExpectedValues?: T;
+        dnsMatchMode?: T;
+        pushToken?: T;
+        pushGracePeriod?: T;
+        lastPushAt?: T;
+        lastPushStatus?: T;
+        lastPushMessage?: T;
         interval?: T;
         timeout?: T;
         expectedStatusCode?: T;
+        bodyAssertions?:
+          | T
+          | {
+              type?: T;
+              path?: T;
+              value?: T;
+              id?: T;
+            };
+        certExpiryThresholdDays?: T;
+        failOnInvalidCertificate?: T;
         lastCheckedAt?: T;
         lastCheckStatus?: T;
         consecutiveFailures?: T;
+        consecutiveSuccesses?: T;
+        flapping?: T;
+        flappingSince?: T;
+        flapHistory?: T;
+        measuredLatency?: T;
+        statusReason?: T;
+        probeStatus?: T;
         failureThreshold?: T;
+        recoveryThreshold?: T;
+        flapThreshold?: T;
+        flapWindow?: T;
+        latencyWarnThreshold?: T;
+        latencyCriticalThreshold?: T;
+        latencyMetric?: T;
+        latencyWindow?: T;
+        autoIncident?:
+          | T
+          | {
+              enabled?: T;
+              title?: T;
+              message?: T;
+              recoveryStatus?: T;
+              recoveryMessage?: T;
+            };
+        certificate?:
+          | T
+          | {
+              subject?: T;
+              issuer?: T;
+              validFrom?: T;
+              validTo?: T;
+              daysRemaining?: T;
+              valid?: T;
+              validationError?: T;
+            };
       };
   updatedAt?: T;
   createdAt?: T;
@@ -745,6 +1288,7 @@ export interface IncidentsSelect<T extends boolean = true> {
   shortId?: T;
   status?: T;
   resolvedAt?: T;
+  autoCreated?: T;
   affectedServices?: T;
   updates?:
     | T
@@ -769,6 +1313,7 @@ export interface MaintenancesSelect<T extends boolean = true> {
   scheduledStartAt?: T;
   scheduledEndAt?: T;
   duration?: T;
+  reminders?: T;
   status?: T;
   autoStartOnSchedule?: T;
   autoCompleteOnSchedule?: T;
@@ -783,6 +1328,38 @@ export interface MaintenancesSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "monitoring-results_select".
+ */
+export interface MonitoringResultsSelect<T extends boolean = true> {
+  service?: T;
+  probe?: T;
+  checkedAt?: T;
+  status?: T;
+  type?: T;
+  responseTime?: T;
+  statusCode?: T;
+  error?: T;
+  details?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "probes_select".
+ */
+export interface ProbesSelect<T extends boolean = true> {
+  name?: T;
+  region?: T;
+  description?: T;
+  active?: T;
+  services?: T;
+  token?: T;
+  lastSeenAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "notifications_select".
@@ -792,17 +1369,41 @@ export interface NotificationsSelect<T extends boolean = true> {
   relatedIncident?: T;
   relatedMaintenance?: T;
   updateIndex?: T;
+  reminder?: T;
   channel?: T;
   status?: T;
   subject?: T;
   emailBody?: T;
   smsBody?: T;
+  sendAt?: T;
   recipientCount?: T;
+  failedRecipientCount?: T;
+  deliveries?: T;
   errorMessage?: T;
+  slackChannelId?: T;
+  slackThreadTs?: T;
   sentAt?: T;
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "notification-deliveries_select".
+ */
+export interface NotificationDeliveriesSelect<T extends boolean = true> {
+  notification?: T;
+  subscriber?: T;
+  channel?: T;
+  recipient?: T;
+  status?: T;
+  attempts?: T;
+  lastAttemptAt?: T;
+  sentAt?: T;
+  providerMessageId?: T;
+  error?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "subscribers_select".
@@ -811,14 +1412,48 @@ export interface SubscribersSelect<T extends boolean = true> {
   type?: T;
   email?: T;
   phone?: T;
+  webhookUrl?: T;
+  webhookSecret?: T;
+  webhookEvents?: T;
+  webhookDeliveries?: T;
+  allServices?: T;
+  subscribedGroups?: T;
+  subscribedServices?: T;
+  notifyIncidents?: T;
+  notifyMaintenances?: T;
+  pausedUntil?: T;
   verified?: T;
+  pendingEmail?: T;
+  pendingPhone?: T;
   verificationToken?: T;
+  verificationCode?: T;
+  verificationAttempts?: T;
+  verificationSendCount?: T;
+  verificationSentAt?: T;
   unsubscribeToken?: T;
   active?: T;
   ipAddress?: T;
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhook-deliveries_select".
+ */
+export interface WebhookDeliveriesSelect<T extends boolean = true> {
+  subscriber?: T;
+  event?: T;
+  status?: T;
+  attempts?: T;
+  lastAttemptAt?: T;
+  deliveredAt?: T;
+  body?: T;
+  responseStatus?: T;
+  responseBody?: T;
+  error?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "users_select".
@@ -890,6 +1525,7 @@ export interface PayloadJobsSelect<T extends boolean = true> {
   queue?: T;
   waitUntil?: T;
   processing?: T;
+  meta?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -1001,6 +1637,14 @@ export interface Setting {
    * Current cron schedule (auto-generated from interval settings). You can manually override this for advanced scheduling.
    */
   monitoringScheduleCron?: string | null;
+  /**
+   * How long individual health check results are kept before being pruned (default: 90 days)
+   */
+  monitoringResultRetentionDays?: number | null;
+  /**
+   * Number of probes (including the app server) that must agree before a service status changes. While fewer probes are reporting, the status stays as it is.
+   */
+  monitoringQuorum?: number | null;
   /**
    * Force display of maintenance banner regardless of service status
    */
@@ -1019,9 +1663,13 @@ export interface Setting {
 export interface EmailSetting {
   id: number;
   /**
-   * Allow users to subscribe via email (requires SMTP to be configured)
+   * Allow users to subscribe via email (requires an email provider to be configured)
    */
   enabled?: boolean | null;
+  /**
+   * Send through any SMTP server, or through the HTTP API of a transactional email provider
+   */
+  provider: 'smtp' | 'ses' | 'postmark' | 'sendgrid';
   /**
    * SMTP server hostname (e.g., smtp.gmail.com, smtp.sendgrid.net)
    */
@@ -1042,6 +1690,30 @@ export interface EmailSetting {
    * Password or API key for SMTP authentication. Leave empty to keep existing value.
    */
   smtpPassword?: string | null;
+  /**
+   * Postmark Server API Token or SendGrid API key with the Mail Send permission. Leave empty to keep existing value.
+   */
+  apiKey?: string | null;
+  /**
+   * Postmark message stream ID (e.g., outbound, or broadcast for a broadcast stream)
+   */
+  postmarkMessageStream?: string | null;
+  /**
+   * Region of your verified SES identity (e.g., us-east-1)
+   */
+  sesRegion?: string | null;
+  /**
+   * IAM access key allowed to call ses:SendEmail
+   */
+  sesAccessKeyId?: string | null;
+  /**
+   * Leave empty to keep existing value.
+   */
+  sesSecretAccessKey?: string | null;
+  /**
+   * Leave empty to use the provider's API. Set it to send through a regional endpoint, a proxy or a local test server.
+   */
+  apiBaseUrl?: string | null;
   /**
    * Email address that notifications will be sent from
    */
@@ -1054,6 +1726,50 @@ export interface EmailSetting {
    * Optional reply-to email address (leave empty to use From address)
    */
   smtpReplyTo?: string | null;
+  /**
+   * SMTP connections kept open, or parallel API requests, while sending a notification
+   */
+  maxConnections?: number | null;
+  /**
+   * Maximum emails sent per second across all connections
+   */
+  messagesPerSecond?: number | null;
+  /**
+   * Larger lists continue in the next background job run
+   */
+  emailsPerRun?: number | null;
+  /**
+   * Hex colour of buttons and links (e.g., #0066cc)
+   */
+  brandColor?: string | null;
+  /**
+   * Shown above the unsubscribe links. Placeholders: {{siteName}}, {{siteUrl}}. Leave empty for the default.
+   */
+  footerText?: string | null;
+  /**
+   * Supports **bold**, *italic*, `code`, [links](https://example.com) and "- " lists. HTML is always shown as written.
+   */
+  markdownBodies?: boolean | null;
+  /**
+   * Email body for new incident notifications
+   */
+  templateIncidentNew?: string | null;
+  /**
+   * Email body for incident update notifications
+   */
+  templateIncidentUpdate?: string | null;
+  /**
+   * Email body for new scheduled maintenance notifications. {{schedule}} lists the start, end and duration.
+   */
+  templateMaintenanceNew?: string | null;
+  /**
+   * Email body for maintenance update notifications
+   */
+  templateMaintenanceUpdate?: string | null;
+  /**
+   * Email body for maintenance reminders. {{message}} is the time until the start (e.g., "starts in 24 hours").
+   */
+  templateMaintenanceReminder?: string | null;
   updatedAt?: string | null;
   createdAt?: string | null;
 }
@@ -1110,6 +1826,107 @@ export interface SmsSetting {
   updatedAt?: string | null;
   createdAt?: string | null;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "slack-settings".
+ */
+export interface SlackSetting {
+  id: number;
+  /**
+   * Post incident and maintenance notifications to a Slack channel
+   */
+  enabled?: boolean | null;
+  /**
+   * A Slack app can reply in the thread of the first message as an incident progresses; incoming webhooks post a new message each time
+   */
+  method: 'webhook' | 'app';
+  /**
+   * Incoming webhook URL (https://hooks.slack.com/services/...). Leave empty to keep existing value.
+   */
+  webhookUrl?: string | null;
+  /**
+   * Bot User OAuth Token (starts with xoxb-) with the chat:write scope. Leave empty to keep existing value.
+   */
+  botToken?: string | null;
+  /**
+   * ID of the channel to post to (e.g., C0123456789). The app must be invited to the channel.
+   */
+  channelId?: string | null;
+  /**
+   * Post later updates of an incident or maintenance as replies to its first message, and refresh that message with the latest status
+   */
+  threadUpdates?: boolean | null;
+  /**
+   * Also post notifications sent to email and SMS subscribers, not only those sent with the Slack channel
+   */
+  postAllNotifications?: boolean | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "teams-settings".
+ */
+export interface TeamsSetting {
+  id: number;
+  /**
+   * Post incident and maintenance notifications to a Teams channel as Adaptive Cards
+   */
+  enabled?: boolean | null;
+  /**
+   * Incoming webhook URL of a Teams Workflow ("Post to a channel when a webhook request is received"). Leave empty to keep existing value.
+   */
+  webhookUrl?: string | null;
+  /**
+   * Also post notifications sent to email and SMS subscribers, not only those sent with the Teams channel
+   */
+  postAllNotifications?: boolean | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "discord-settings".
+ */
+export interface DiscordSetting {
+  id: number;
+  /**
+   * Post incident and maintenance notifications to a Discord channel as embeds
+   */
+  enabled?: boolean | null;
+  /**
+   * Channel webhook URL (https://discord.com/api/webhooks/...). Leave empty to keep existing value.
+   */
+  webhookUrl?: string | null;
+  /**
+   * Name shown as the message author. Defaults to the name set on the webhook.
+   */
+  username?: string | null;
+  /**
+   * Also post notifications sent to email and SMS subscribers, not only those sent with the Discord channel
+   */
+  postAllNotifications?: boolean | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats".
+ */
+export interface PayloadJobsStat {
+  id: number;
+  stats?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "settings_select".
@@ -1129,6 +1946,8 @@ export interface SettingsSelect<T extends boolean = true> {
   monitoringScheduleType?: T;
   monitoringScheduleInterval?: T;
   monitoringScheduleCron?: T;
+  monitoringResultRetentionDays?: T;
+  monitoringQuorum?: T;
   maintenanceModeEnabled?: T;
   customStatusMessage?: T;
   updatedAt?: T;
@@ -1141,14 +1960,32 @@ export interface SettingsSelect<T extends boolean = true> {
  */
 export interface EmailSettingsSelect<T extends boolean = true> {
   enabled?: T;
+  provider?: T;
   smtpHost?: T;
   smtpPort?: T;
   smtpSecure?: T;
   smtpUsername?: T;
   smtpPassword?: T;
+  apiKey?: T;
+  postmarkMessageStream?: T;
+  sesRegion?: T;
+  sesAccessKeyId?: T;
+  sesSecretAccessKey?: T;
+  apiBaseUrl?: T;
   smtpFromAddress?: T;
   smtpFromName?: T;
   smtpReplyTo?: T;
+  maxConnections?: T;
+  messagesPerSecond?: T;
+  emailsPerRun?: T;
+  brandColor?: T;
+  footerText?: T;
+  markdownBodies?: T;
+  templateIncidentNew?: T;
+  templateIncidentUpdate?: T;
+  templateMaintenanceNew?: T;
+  templateMaintenanceUpdate?: T;
+  templateMaintenanceReminder?: T;
   updatedAt?: T;
   createdAt?: T;
   globalType?: T;
@@ -1173,6 +2010,57 @@ export interface SmsSettingsSelect<T extends boolean = true> {
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "slack-settings_select".
+ */
+export interface SlackSettingsSelect<T extends boolean = true> {
+  enabled?: T;
+  method?: T;
+  webhookUrl?: T;
+  botToken?: T;
+  channelId?: T;
+  threadUpdates?: T;
+  postAllNotifications?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "teams-settings_select".
+ */
+export interface TeamsSettingsSelect<T extends boolean = true> {
+  enabled?: T;
+  webhookUrl?: T;
+  postAllNotifications?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "discord-settings_select".
+ */
+export interface DiscordSettingsSelect<T extends boolean = true> {
+  enabled?: T;
+  webhookUrl?: T;
+  username?: T;
+  postAllNotifications?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats_select".
+ */
+export interface PayloadJobsStatsSelect<T extends boolean = true> {
+  stats?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "TaskSendNotificationFromCollection".
@@ -1186,6 +2074,11 @@ export interface TaskSendNotificationFromCollection {
     smsBody?: string | null;
     itemTitle: string;
     itemUrl: string;
+    retryFailed?: boolean | null;
+    startedAt?: string | null;
+    continuation?: boolean | null;
+    emailCursor?: number | null;
+    smsCursor?: number | null;
   };
   output?: unknown;
 }
@@ -1207,6 +2100,40 @@ export interface TaskScheduleMonitoringChecks {
   input?: unknown;
   output?: unknown;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPruneMonitoringResults".
+ */
+export interface TaskPruneMonitoringResults {
+  input?: unknown;
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskDeliverWebhook".
+ */
+export interface TaskDeliverWebhook {
+  input: {
+    deliveryId: string;
+  };
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPruneUnverifiedSubscribers".
+ */
+export interface TaskPruneUnverifiedSubscribers {
+  input?: unknown;
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskSendScheduledNotifications".
+ */
+export interface TaskSendScheduledNotifications {
+  input?: unknown;
+  output?: unknown;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
@@ -0,0 +1,156 @@
+/**
+ * Remote monitoring probe agent
+ * Pulls the checks assigned to this probe from the status page, runs them on
+ * their configured interval and reports the results back.
+ *
+ * Runs standalone (no Payload or database access), e.g.:
+ *   PROBE_SERVER_URL=https://status.example.com PROBE_TOKEN=... npx tsx src/probe/agent.ts
+ *
+ * Environment:
+ *   PROBE_SERVER_URL     Status page URL (default: http://localhost:3000)
+ *   PROBE_TOKEN          Token shown on the probe in the admin panel (required)
+ *   PROBE_SYNC_INTERVAL  Seconds between refreshing the assigned checks (default: 60)
+ */
+
+import { performHealthCheck, type MonitoringCheckResult, type MonitoringConfig } from '../lib/monitoring'
+
+interface ProbeCheck {
+  serviceId: number
+  name: string
+  interval: number
+  config: MonitoringConfig
+}
+
+interface ScheduledCheck {
+  check: ProbeCheck
+  nextRunAt: number
+}
+
+interface ProbeResult {
+  serviceId: number
+  checkedAt: string
+  result: MonitoringCheckResult
+}
+
+const SERVER_URL = (process.env.PROBE_SERVER_URL || 'http://localhost:3000').replace(/\/+$/, '')
+const TOKEN = process.env.PROBE_TOKEN
+const SYNC_INTERVAL = Math.max(Number(process.env.PROBE_SYNC_INTERVAL) || 60, 10) * 1000
+const TICK_INTERVAL = 5000
+// Results that could not be delivered are kept and retried, up to this many
+const MAX_PENDING_RESULTS = 500
+
+const scheduled = new Map<number, ScheduledCheck>()
+let pending: ProbeResult[] = []
+let running = false
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${SERVER_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${TOKEN}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+    signal: AbortSignal.timeout(30000),
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error((body as { error?: string }).error || `HTTP ${response.status}`)
+  }
+  return body as T
+}
+
+/**
+ * Refresh the assigned checks, keeping the schedule of checks that did not change
+ */
+async function syncChecks(): Promise<void> {
+  try {
+    const { probe, checks } = await request<{ probe: { name: string }; checks: ProbeCheck[] }>('/api/probe/checks')
+    const seen = new Set<number>()
+
+    for (const check of checks) {
+      seen.add(check.serviceId)
+      const existing = scheduled.get(check.serviceId)
+      scheduled.set(check.serviceId, {
+        check,
+        // Spread the first run over the interval to avoid a burst on start-up
+        nextRunAt: existing?.nextRunAt ?? Date.now() + Math.random() * Math.min(check.interval * 1000, SYNC_INTERVAL),
+      })
+    }
+
+    for (const serviceId of scheduled.keys()) {
+      if (!seen.has(serviceId)) scheduled.delete(serviceId)
+    }
+
+    console.log(`[Probe] ${probe.name}: ${checks.length} check(s) assigned`)
+  } catch (error: any) {
+    console.error('[Probe] Failed to sync checks:', error.message)
+  }
+}
+
+async function reportResults(): Promise<void> {
+  if (pending.length === 0) return
+
+  const batch = pending.slice(0, 100)
+  try {
+    const { accepted, rejected } = await request<{ accepted: number; rejected: unknown[] }>('/api/probe/results', {
+      method: 'POST',
+      body: JSON.stringify({ results: batch }),
+    })
+    pending = pending.slice(batch.length)
+    console.log(`[Probe] Reported ${accepted} result(s)${rejected.length ? `, ${rejected.length} rejected` : ''}`)
+  } catch (error: any) {
+    console.error(`[Probe] Failed to report results (${pending.length} pending):`, error.message)
+  }
+}
+
+/**
+ * Run every check that is due and report the results
+ */
+async function tick(): Promise<void> {
+  if (running) return
+  running = true
+
+  try {
+    const now = Date.now()
+    const due = [...scheduled.values()].filter((entry) => entry.nextRunAt <= now)
+
+    const results = await Promise.all(due.map(async (entry) => {
+      entry.nextRunAt = now + entry.check.interval * 1000
+      const checkedAt = new Date().toISOString()
+      const result = await performHealthCheck(entry.check.config)
+      console.log(`[Probe] ${entry.check.name}: ${result.success ? 'up' : `down (${result.error})`}`)
+      return { serviceId: entry.check.serviceId, checkedAt, result }
+    }))
+
+    pending = [...pending, ...results].slice(-MAX_PENDING_RESULTS)
+    await reportResults()
+  } finally {
+    running = false
+  }
+}
+
+async function main(): Promise<void> {
+  if (!TOKEN) {
+    console.error('[Probe] PROBE_TOKEN is required')
+    process.exit(1)
+  }
+
+  console.log(`[Probe] Starting probe agent for ${SERVER_URL}`)
+
+  await syncChecks()
+  const syncTimer = setInterval(syncChecks, SYNC_INTERVAL)
+  const tickTimer = setInterval(tick, TICK_INTERVAL)
+
+  const shutdown = () => {
+    console.log('[Probe] Shutting down')
+    clearInterval(syncTimer)
+    clearInterval(tickTimer)
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main()
@@ -0,0 +1,83 @@
+import type { BasePayload } from 'payload'
+import { sendWebhook, WEBHOOK_MAX_ATTEMPTS } from '@/lib/webhooks'
+
+export interface DeliverWebhookInput {
+  deliveryId: string
+}
+
+interface TaskHandlerArgs {
+  input: DeliverWebhookInput
+  req: {
+    payload: BasePayload
+  }
+}
+
+/**
+ * Send one logged webhook delivery
+ * Throws on failure so the job is retried with backoff, until the last
+ * attempt marks the delivery as failed.
+ */
+export async function deliverWebhookHandler({ input, req }: TaskHandlerArgs) {
+  const { payload } = req
+  const deliveryId = parseInt(input.deliveryId, 10)
+
+  const delivery = await payload.findByID({
+    collection: 'webhook-deliveries',
+    id: deliveryId,
+    depth: 0,
+  })
+
+  if (delivery.status !== 'pending') {
+    return { output: { delivered: delivery.status === 'delivered' } }
+  }
+
+  const subscriber = await payload.findByID({
+    collection: 'subscribers',
+    id: typeof delivery.subscriber === 'object' ? delivery.subscriber.id : delivery.subscriber,
+    depth: 0,
+    joins: false,
+  }).catch(() => null)
+
+  if (!subscriber?.active || !subscriber.webhookUrl || !subscriber.webhookSecret) {
+    await payload.update({
+      collection: 'webhook-deliveries',
+      id: deliveryId,
+      data: {
+        status: 'failed',
+        error: 'Webhook subscriber is inactive or not configured',
+      },
+    })
+    return { output: { delivered: false } }
+  }
+
+  const attempts = (delivery.attempts || 0) + 1
+  const response = await sendWebhook(subscriber.webhookUrl, subscriber.webhookSecret, delivery)
+  const isLastAttempt = attempts >= WEBHOOK_MAX_ATTEMPTS
+
+  await payload.update({
+    collection: 'webhook-deliveries',
+    id: deliveryId,
+    data: {
+      status: response.ok ? 'delivered' : isLastAttempt ? 'failed' : 'pending',
+      attempts,
+      lastAttemptAt: new Date().toISOString(),
+      deliveredAt: response.ok ? new Date().toISOString() : null,
+      responseStatus: response.status ?? null,
+      responseBody: response.body || null,
+      error: response.error || null,
+    },
+  })
+
+  if (!response.ok) {
+    console.error(`[Webhooks] Delivery ${deliveryId} to ${subscriber.webhookUrl} failed (attempt ${attempts}/${WEBHOOK_MAX_ATTEMPTS}): ${response.error}`)
+    if (!isLastAttempt) {
+      throw new Error(response.error)
+    }
+  }
+
+  return {
+    output: {
+      delivered: response.ok,
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import type { BasePayload } from 'payload'
+import type { Setting } from '@/payload-types'
+
+interface TaskHandlerArgs {
+  req: {
+    payload: BasePayload
+  }
+}
+
+const DEFAULT_RETENTION_DAYS = 90
+
+/**
+ * Task handler for pruning old monitoring results
+ * Deletes check history older than the retention configured in Site Settings
+ */
+export async function pruneMonitoringResultsHandler({ req }: TaskHandlerArgs) {
+  const { payload } = req
+
+  try {
+    const settings = await payload.findGlobal({ slug: 'settings' }) as Setting
+    const retentionDays = settings.monitoringResultRetentionDays || DEFAULT_RETENTION_DAYS
+
+    const cutoff = new Date()
+    cutoff.setDate(cutoff.getDate() - retentionDays)
+
+    console.log(`[Task] Pruning monitoring results older than ${cutoff.toISOString()} (${retentionDays} days)`)
+
+    const result = await payload.delete({
+      collection: 'monitoring-results',
+      where: {
+        checkedAt: {
+          less_than: cutoff.toISOString(),
+        },
+      },
+    })
+
+    console.log(`[Task] Pruned ${result.docs.length} monitoring result(s)`)
+
+    return {
+      output: {
+        success: true,
+        deleted: result.docs.length,
+        cutoff: cutoff.toISOString(),
+      },
+    }
+  } catch (error: any) {
+    console.error('Error pruning monitoring results:', error)
+    return {
+      output: {
+        success: false,
+        message: error.message || 'Unknown error',
+      },
+    }
+  }
+}
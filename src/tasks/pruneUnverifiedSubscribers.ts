@@ -0,0 +1,67 @@
+import type { BasePayload } from 'payload'
+import { VERIFICATION_EXPIRY_HOURS } from '@/lib/subscriberVerification'
+
+interface TaskHandlerArgs {
+  req: {
+    payload: BasePayload
+  }
+}
+
+/**
+ * Task handler for removing expired signups
+ * Deletes email and SMS subscribers that never confirmed within the verification window,
+ * and drops address changes that were not confirmed in time (the subscription itself is kept)
+ */
+export async function pruneUnverifiedSubscribersHandler({ req }: TaskHandlerArgs) {
+  const { payload } = req
+
+  try {
+    const cutoff = new Date()
+    cutoff.setHours(cutoff.getHours() - VERIFICATION_EXPIRY_HOURS)
+
+    const result = await payload.delete({
+      collection: 'subscribers',
+      where: {
+        verified: { equals: false },
+        verificationSentAt: { less_than: cutoff.toISOString() },
+      },
+    })
+
+    if (result.docs.length > 0) {
+      console.log(`[Task] Pruned ${result.docs.length} unverified subscriber(s)`)
+    }
+
+    const expiredChanges = await payload.update({
+      collection: 'subscribers',
+      where: {
+        verified: { equals: true },
+        verificationSentAt: { less_than: cutoff.toISOString() },
+        or: [
+          { pendingEmail: { exists: true } },
+          { pendingPhone: { exists: true } },
+        ],
+      },
+      data: {
+        pendingEmail: null,
+        pendingPhone: null,
+      },
+    })
+
+    return {
+      output: {
+        success: true,
+        deleted: result.docs.length,
+        expiredChanges: expiredChanges.docs.length,
+        cutoff: cutoff.toISOString(),
+      },
+    }
+  } catch (error: any) {
+    console.error('Error pruning unverified subscribers:', error)
+    return {
+      output: {
+        success: false,
+        message: error.message || 'Unknown error',
+      },
+    }
+  }
+}
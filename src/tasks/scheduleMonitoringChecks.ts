@@ -44,6 +44,10 @@ export async function scheduleMonitoringChecksHandler({ req }: TaskHandlerArgs)
         hasValidConfig = !!service.monitoring?.host
       } else if (monitoringType === 'gamedig') {
         hasValidConfig = !!(service.monitoring?.host && service.monitoring?.gameType)
+      } else if (monitoringType === 'dns') {
+        hasValidConfig = !!service.monitoring?.host
+      } else if (monitoringType === 'push') {
+        hasValidConfig = !!service.monitoring?.pushToken
       }
 
       if (!hasValidConfig) {
@@ -1,17 +1,48 @@
 import type { BasePayload } from 'payload'
-import { sendBulkEmails, generateEmailHtml } from '@/lib/email'
+import { sendBulkEmails, generateEmailHtml, generateEmailText, type EmailContent } from '@/lib/email'
+import { createEmailAdapter, getEmailConfigError } from '@/lib/emailProviders'
 import { sendBulkSms, formatSmsMessage } from '@/lib/sms'
+import { buildSlackMessage, isSlackConfigured, postSlackMessage, updateSlackMessage } from '@/lib/slack'
+import { buildTeamsMessage, postTeamsMessage } from '@/lib/teams'
+import { buildDiscordMessage, postDiscordMessage } from '@/lib/discord'
+import { getNotificationContent, type NotificationContent } from '@/lib/notificationContent'
+import { getNotificationAudience } from '@/lib/subscriberAudience'
+import { countDeliveries, findPendingRecipients, recordDeliveries } from '@/lib/notificationDeliveries'
+import { NOTIFICATION_QUEUE } from '@/lib/notificationSending'
 import { getServerUrl } from '@/lib/utils'
-import type { Setting, EmailSetting, SmsSetting, Subscriber, Media } from '@/payload-types'
+import type { NotificationChannel } from '@/collections/Notifications'
+import type { Setting, EmailSetting, SmsSetting, SlackSetting, TeamsSetting, DiscordSetting, Subscriber, Media, Notification } from '@/payload-types'
 
 export interface SendNotificationFromCollectionInput {
   notificationId: string
-  channel: 'email' | 'sms' | 'both'
+  channel: NotificationChannel
   subject?: string
   emailBody?: string
   smsBody?: string
   itemTitle: string
   itemUrl: string
+  // Resend only to recipients whose earlier delivery failed
+  retryFailed?: boolean
+  // When this send started; recipients attempted since then are not attempted again
+  startedAt?: string
+  // Sends the next chunk of emails of a send started by an earlier job run
+  continuation?: boolean
+  // Last subscriber handled by earlier job runs of this send; the next run resumes after it
+  emailCursor?: number
+  smsCursor?: number
+}
+
+// Emails sent per job run when the email settings don't set a limit
+const DEFAULT_EMAILS_PER_RUN = 1000
+// Emails sent between writes to the delivery log
+const EMAIL_CHUNK_SIZE = 50
+
+interface ChatChannel {
+  channel: NotificationChannel
+  label: string
+  settings: { enabled?: boolean | null; postAllNotifications?: boolean | null }
+  configured: boolean
+  send: (notification: Notification, content: NotificationContent) => Promise<void>
 }
 
 interface TaskHandlerArgs {
@@ -21,6 +52,68 @@ interface TaskHandlerArgs {
   }
 }
 
+/**
+ * Find the Slack thread started by an earlier notification for the same incident or maintenance
+ */
+async function findSlackThread(payload: BasePayload, notification: Notification): Promise<Notification | null> {
+  const getId = (value: number | { id: number } | null | undefined) =>
+    value && typeof value === 'object' ? value.id : value
+  const incidentId = getId(notification.relatedIncident)
+  const maintenanceId = getId(notification.relatedMaintenance)
+  if (!incidentId && !maintenanceId) return null
+
+  const result = await payload.find({
+    collection: 'notifications',
+    where: {
+      ...(incidentId ? { relatedIncident: { equals: incidentId } } : { relatedMaintenance: { equals: maintenanceId } }),
+      slackThreadTs: { exists: true },
+      id: { not_equals: notification.id },
+    },
+    sort: 'createdAt',
+    limit: 1,
+    depth: 0,
+  })
+
+  return (result.docs[0] as Notification | undefined) || null
+}
+
+/**
+ * Post a notification to Slack
+ * With a Slack app and thread updates enabled, follow-up notifications are posted
+ * as replies to the first message, which is refreshed to show the latest status.
+ */
+async function sendSlackNotification(
+  payload: BasePayload,
+  slackSettings: SlackSetting,
+  notification: Notification,
+  content: NotificationContent,
+): Promise<void> {
+  const message = buildSlackMessage(content)
+  const useThreads = slackSettings.method === 'app' && slackSettings.threadUpdates !== false
+  const thread = useThreads ? await findSlackThread(payload, notification) : null
+
+  const posted = await postSlackMessage(slackSettings, message, thread?.slackThreadTs || undefined)
+
+  if (thread?.slackThreadTs && thread.slackChannelId) {
+    try {
+      await updateSlackMessage(slackSettings, thread.slackChannelId, thread.slackThreadTs, message)
+    } catch (error: any) {
+      console.error('[Slack] Failed to update thread message:', error.message)
+    }
+  }
+
+  if (posted.ts) {
+    await payload.update({
+      collection: 'notifications',
+      id: notification.id,
+      data: {
+        slackChannelId: thread?.slackChannelId || posted.channel,
+        slackThreadTs: thread?.slackThreadTs || posted.ts,
+      },
+    })
+  }
+}
+
 export async function sendNotificationFromCollectionHandler({ input, req }: TaskHandlerArgs) {
   const { payload } = req
   const {
@@ -31,7 +124,10 @@ export async function sendNotificationFromCollectionHandler({ input, req }: Task
     smsBody,
     itemTitle,
     itemUrl,
+    retryFailed,
+    continuation,
   } = input
+  const startedAt = new Date(input.startedAt || Date.now()).getTime()
 
   // Fetch settings
   const settings = await payload.findGlobal({
@@ -47,6 +143,18 @@ export async function sendNotificationFromCollectionHandler({ input, req }: Task
     slug: 'sms-settings',
   }) as SmsSetting
 
+  const slackSettings = await payload.findGlobal({
+    slug: 'slack-settings',
+  }) as SlackSetting
+
+  const teamsSettings = await payload.findGlobal({
+    slug: 'teams-settings',
+  }) as TeamsSetting
+
+  const discordSettings = await payload.findGlobal({
+    slug: 'discord-settings',
+  }) as DiscordSetting
+
   const siteUrl = getServerUrl()
   const siteName = settings.siteName || 'Status Page'
   
@@ -54,91 +162,117 @@ export async function sendNotificationFromCollectionHandler({ input, req }: Task
   const logoLight = settings.logoLight as Media | number | null | undefined
   const logoUrl = logoLight && typeof logoLight === 'object' ? logoLight.url : undefined
 
-  // Fetch all subscribers with pagination to handle large lists
-  const emailSubscribers: Subscriber[] = []
-  const smsSubscribers: Subscriber[] = []
-  
-  const fetchSubscribers = async (type: 'email' | 'sms'): Promise<Subscriber[]> => {
-    const subscribers: Subscriber[] = []
-    let page = 1
-    let hasMore = true
-    const pageSize = 500
-    
-    while (hasMore) {
-      const result = await payload.find({
-        collection: 'subscribers',
-        where: {
-          active: { equals: true },
-          type: { equals: type },
-        },
-        limit: pageSize,
-        page,
-      })
-      
-      subscribers.push(...(result.docs as Subscriber[]))
-      hasMore = result.hasNextPage
-      page++
-    }
-    
-    return subscribers
-  }
-  
-  // Fetch subscribers based on channel
-  if (channel === 'email' || channel === 'both') {
-    const emails = await fetchSubscribers('email')
-    emailSubscribers.push(...emails.filter(s => s.email))
-  }
-  
-  if (channel === 'sms' || channel === 'both') {
-    const phones = await fetchSubscribers('sms')
-    smsSubscribers.push(...phones.filter(s => s.phone))
-  }
+  // Only subscribers following one of the affected services receive incident and maintenance notifications
+  const related = await payload.findByID({
+    collection: 'notifications',
+    id: notificationId,
+    depth: 0,
+  }) as Notification
+  const audience = await getNotificationAudience(payload, related)
+
+  // Emails are sent up to emailsPerRun per job run; the rest continue in a follow-up job.
+  // SMS are all sent in one run, continuing after those handled by earlier runs.
+  const recipientOptions = { notificationId, audience, startedAt, retryFailed }
+  const emails = channel === 'email' || channel === 'both'
+    ? await findPendingRecipients(payload, 'email', {
+      ...recipientOptions,
+      afterId: input.emailCursor,
+      limit: emailSettings.emailsPerRun || DEFAULT_EMAILS_PER_RUN,
+    })
+    : null
+  const sms = channel === 'sms' || channel === 'both'
+    ? await findPendingRecipients(payload, 'sms', { ...recipientOptions, afterId: input.smsCursor })
+    : null
+  const emailBatch = emails?.recipients || []
+  const smsSubscribers = sms?.recipients || []
 
   let emailsSent = 0
   let smsSent = 0
   const errors: string[] = []
 
   // Send emails
-  if ((channel === 'email' || channel === 'both') && emailSubscribers.length > 0) {
-    if (!emailSettings.smtpHost || !emailSettings.smtpFromAddress) {
-      errors.push('SMTP not configured')
+  if (emails && emailBatch.length > 0) {
+    const emailConfigError = getEmailConfigError(emailSettings)
+    if (emailConfigError) {
+      errors.push(emailConfigError)
+      await recordDeliveries(payload, related.id, 'email', emailBatch.map((subscriber) => ({
+        subscriberId: subscriber.id,
+        recipient: subscriber.email!,
+        success: false,
+        error: emailConfigError,
+      })), emails.deliveries)
     } else {
-      const emails = emailSubscribers.map((subscriber) => {
+      const buildEmail = (subscriber: Subscriber) => {
         const unsubscribeUrl = subscriber.unsubscribeToken
           ? `${siteUrl}/unsubscribe/${subscriber.unsubscribeToken}`
           : `${siteUrl}/unsubscribe`
+        const manageUrl = subscriber.unsubscribeToken
+          ? `${siteUrl}/manage/${subscriber.unsubscribeToken}`
+          : undefined
 
-        const html = generateEmailHtml({
+        const content: EmailContent = {
           siteName,
           title: subject || itemTitle || 'Status Update',
           body: emailBody || '',
+          markdown: emailSettings.markdownBodies || undefined,
           ctaText: 'View Status',
           ctaUrl: itemUrl,
           unsubscribeUrl,
+          manageUrl,
           siteUrl,
           logoUrl: logoUrl || undefined,
-        })
+          brandColor: emailSettings.brandColor || undefined,
+          footerText: emailSettings.footerText || undefined,
+        }
 
         return {
           to: subscriber.email!,
           subject: subject || `[${siteName}] Status Update`,
-          html,
+          html: generateEmailHtml(content),
+          text: generateEmailText(content),
           unsubscribeUrl,
         }
-      })
+      }
 
-      const result = await sendBulkEmails(emailSettings, emails)
-      emailsSent = result.sent
-      if (result.failed > 0) {
-        errors.push(`${result.failed} email(s) failed: ${result.errors.slice(0, 3).join(', ')}`)
+      let emailsFailed = 0
+      const emailErrors: string[] = []
+      const adapter = createEmailAdapter(emailSettings, { pool: true })
+
+      try {
+        // Deliveries are recorded after each chunk so a crashed job only repeats the chunk in flight
+        for (let i = 0; i < emailBatch.length; i += EMAIL_CHUNK_SIZE) {
+          const chunk = emailBatch.slice(i, i + EMAIL_CHUNK_SIZE)
+          const result = await sendBulkEmails(emailSettings, chunk.map(buildEmail), adapter)
+          await recordDeliveries(payload, related.id, 'email', chunk.map((subscriber, index) => ({
+            subscriberId: subscriber.id,
+            recipient: subscriber.email!,
+            ...result.results[index],
+          })), emails.deliveries)
+
+          emailsSent += result.sent
+          emailsFailed += result.failed
+          emailErrors.push(...result.errors.slice(0, 3 - emailErrors.length))
+        }
+      } finally {
+        adapter.close()
+      }
+
+      if (emailsFailed > 0) {
+        errors.push(`${emailsFailed} email(s) failed: ${emailErrors.join(', ')}`)
       }
     }
   }
 
   // Send SMS
-  if ((channel === 'sms' || channel === 'both') && smsSubscribers.length > 0) {
+  if (sms && smsSubscribers.length > 0) {
     if (!smsSettings.twilioAccountSid || !smsSettings.twilioAuthToken || (!smsSettings.twilioFromNumber && !smsSettings.twilioMessagingServiceSid)) {
       errors.push('Twilio not configured')
+      await recordDeliveries(payload, related.id, 'sms', smsSubscribers.map((subscriber) => ({
+        subscriberId: subscriber.id,
+        recipient: subscriber.phone!,
+        success: false,
+        error: 'Twilio not configured',
+      })), sms.deliveries)
     } else {
       const messages = smsSubscribers.map((subscriber) => ({
         to: subscriber.phone!,
@@ -147,33 +281,145 @@ export async function sendNotificationFromCollectionHandler({ input, req }: Task
 
       const result = await sendBulkSms(smsSettings, messages)
       smsSent = result.sent
+      await recordDeliveries(payload, related.id, 'sms', smsSubscribers.map((subscriber, index) => ({
+        subscriberId: subscriber.id,
+        recipient: subscriber.phone!,
+        ...result.results[index],
+      })), sms.deliveries)
       if (result.failed > 0) {
         errors.push(`${result.failed} SMS failed: ${result.errors.slice(0, 3).join(', ')}`)
       }
     }
   }
 
+  // Post to chat channels: the selected one, plus those set to receive all subscriber notifications
+  const isSubscriberChannel = channel === 'email' || channel === 'sms' || channel === 'both'
+  const chatChannels: ChatChannel[] = [
+    {
+      channel: 'slack',
+      label: 'Slack',
+      settings: slackSettings,
+      configured: isSlackConfigured(slackSettings),
+      send: (notification, content) => sendSlackNotification(payload, slackSettings, notification, content),
+    },
+    {
+      channel: 'teams',
+      label: 'Microsoft Teams',
+      settings: teamsSettings,
+      configured: Boolean(teamsSettings.webhookUrl),
+      send: (_, content) => postTeamsMessage(teamsSettings, buildTeamsMessage(content)),
+    },
+    {
+      channel: 'discord',
+      label: 'Discord',
+      settings: discordSettings,
+      configured: Boolean(discordSettings.webhookUrl),
+      send: (_, content) => postDiscordMessage(discordSettings, buildDiscordMessage(content, discordSettings.username)),
+    },
+  ]
+
+  const chatPosted: string[] = []
+  let chatSource: { notification: Notification; content: NotificationContent } | null = null
+
+  // Chat channels were already posted to when retrying failed recipients or continuing a send
+  for (const chat of retryFailed || continuation ? [] : chatChannels) {
+    const selected = channel === chat.channel || (isSubscriberChannel && chat.settings.enabled && chat.settings.postAllNotifications)
+    if (!selected) continue
+
+    if (!chat.settings.enabled || !chat.configured) {
+      errors.push(`${chat.label} not configured`)
+      continue
+    }
+
+    try {
+      if (!chatSource) {
+        const notification = await payload.findByID({
+          collection: 'notifications',
+          id: notificationId,
+          depth: 2,
+        }) as Notification
+        const content = await getNotificationContent(payload, notification, { siteName, itemTitle, itemUrl })
+        chatSource = { notification, content }
+      }
+
+      await chat.send(chatSource.notification, chatSource.content)
+      chatPosted.push(chat.channel)
+    } catch (error: any) {
+      errors.push(error.message)
+    }
+  }
+
+  // Errors of earlier job runs of this send are kept
+  if (continuation && related.errorMessage) {
+    errors.unshift(related.errorMessage)
+  }
+
+  // Hand the remaining emails to a follow-up job, which the notifications queue runs next
+  if (emails?.hasMore) {
+    const progress = await countDeliveries(payload, notificationId)
+
+    await payload.update({
+      collection: 'notifications',
+      id: notificationId,
+      data: {
+        recipientCount: progress.sent,
+        failedRecipientCount: progress.failed,
+        errorMessage: errors.length > 0 ? errors.join('; ') : null,
+      },
+    })
+
+    await payload.jobs.queue({
+      task: 'sendNotificationFromCollection',
+      queue: NOTIFICATION_QUEUE,
+      input: {
+        ...input,
+        startedAt: new Date(startedAt).toISOString(),
+        continuation: true,
+        emailCursor: emails.cursor,
+        smsCursor: sms?.cursor,
+      },
+    })
+
+    console.log(`[Notifications] Sent ${emailsSent} email(s) for notification ${notificationId}, continuing after subscriber ${emails.cursor}`)
+
+    return {
+      output: {
+        emailsSent,
+        smsSent,
+        chatPosted,
+        errors,
+        emailCursor: emails.cursor,
+      },
+    }
+  }
+
   // Update the notification status
-  const hasErrors = errors.length > 0 && emailsSent === 0 && smsSent === 0
+  // Counts cover every attempt, including earlier sends and retries
+  const delivered = await countDeliveries(payload, notificationId)
+  const hasErrors = errors.length > 0 && delivered.sent === 0 && chatPosted.length === 0 && !related.sentAt
   
   type NotificationUpdate = {
     status: 'sent' | 'failed'
     sentAt?: string | null
     recipientCount: number
+    failedRecipientCount: number
     errorMessage?: string | null
   }
   
   const updateData: NotificationUpdate = {
     status: hasErrors ? 'failed' : 'sent',
-    recipientCount: emailsSent + smsSent,
+    recipientCount: delivered.sent,
+    failedRecipientCount: delivered.failed,
   }
   
-  if (!hasErrors) {
+  if (!hasErrors && !related.sentAt) {
     updateData.sentAt = new Date().toISOString()
   }
   
   if (errors.length > 0) {
     updateData.errorMessage = errors.join('; ')
+  } else if (retryFailed || continuation) {
+    updateData.errorMessage = null
   }
   
   await payload.update({
@@ -186,6 +432,7 @@ export async function sendNotificationFromCollectionHandler({ input, req }: Task
     output: {
       emailsSent,
       smsSent,
+      chatPosted,
       errors,
     },
   }
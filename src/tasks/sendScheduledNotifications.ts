@@ -0,0 +1,63 @@
+import type { BasePayload } from 'payload'
+import { NOTIFICATION_QUEUE, queueNotificationSend } from '@/lib/notificationSending'
+import type { Notification } from '@/payload-types'
+
+interface TaskHandlerArgs {
+  req: {
+    payload: BasePayload
+  }
+}
+
+/**
+ * Task handler for dispatching scheduled notifications
+ * Queues a send for every scheduled notification whose send time has passed
+ */
+export async function sendScheduledNotificationsHandler({ req }: TaskHandlerArgs) {
+  const { payload } = req
+
+  try {
+    const result = await payload.find({
+      collection: 'notifications',
+      where: {
+        status: { equals: 'scheduled' },
+        sendAt: { less_than_equal: new Date().toISOString() },
+      },
+      sort: 'sendAt',
+      limit: 100,
+      depth: 0,
+    })
+
+    let queued = 0
+    const errors: string[] = []
+
+    for (const notification of result.docs as Notification[]) {
+      try {
+        await queueNotificationSend(payload, notification, { queue: NOTIFICATION_QUEUE })
+        queued++
+      } catch (error: any) {
+        console.error(`[Task] Failed to queue scheduled notification ${notification.id}:`, error)
+        errors.push(`${notification.id}: ${error.message || 'Unknown error'}`)
+      }
+    }
+
+    if (queued > 0) {
+      console.log(`[Task] Queued ${queued} scheduled notification(s)`)
+    }
+
+    return {
+      output: {
+        success: errors.length === 0,
+        queued,
+        errors,
+      },
+    }
+  } catch (error: any) {
+    console.error('Error dispatching scheduled notifications:', error)
+    return {
+      output: {
+        success: false,
+        message: error.message || 'Unknown error',
+      },
+    }
+  }
+}
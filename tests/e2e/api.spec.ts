@@ -1,4 +1,5 @@
 import { test, expect } from '@playwright/test'
+import { createServiceGroup } from '../utils/payload-helpers'
 
 /**
  * API Endpoint Tests
@@ -27,6 +28,21 @@ test.describe('Subscribe API', () => {
     expect(data).toHaveProperty('sms')
   })
 
+  test('lists service groups that can be followed', async ({ request }) => {
+    const uniqueId = Date.now()
+    const group = await createServiceGroup({
+      name: `Followable Group ${uniqueId}`,
+      slug: `followable-group-${uniqueId}`,
+    })
+
+    const response = await request.get('/api/subscribe')
+    expect(response.ok()).toBeTruthy()
+
+    const data = await response.json()
+    const listed = data.groups.find((g: { id: number }) => g.id === group.id)
+    expect(listed).toMatchObject({ name: `Followable Group ${uniqueId}`, services: [] })
+  })
+
   test('rejects empty subscription request', async ({ request }) => {
     const response = await request.post('/api/subscribe', {
       data: {},
@@ -82,5 +98,156 @@ test.describe('Unsubscribe API', () => {
   })
 })
 
+test.describe('Verify API', () => {
+  test('returns error for missing token', async ({ request }) => {
+    const response = await request.post('/api/verify', {
+      data: {},
+    })
+    
+    expect(response.status()).toBe(400)
+  })
+
+  test('returns error for invalid token', async ({ request }) => {
+    const response = await request.post('/api/verify', {
+      data: {
+        token: 'invalid-token-12345',
+      },
+    })
+    
+    expect(response.status()).toBe(404)
+  })
+
+  test('rejects wrong SMS code', async ({ request }) => {
+    const response = await request.post('/api/verify', {
+      data: {
+        phone: '+15550000000',
+        code: '000000',
+      },
+    })
+    
+    expect(response.status()).toBe(400)
+  })
+})
+
+test.describe('Services API', () => {
+  test('masks monitoring secrets in public reads', async ({ request }) => {
+    const uniqueId = Date.now()
+    const group = await createServiceGroup({
+      name: `Secrets Group ${uniqueId}`,
+      slug: `secrets-group-${uniqueId}`,
+    })
+
+    const createResponse = await request.post('/api/services', {
+      data: {
+        name: `Secrets Service ${uniqueId}`,
+        slug: `secrets-service-${uniqueId}`,
+        group: group.id,
+        monitoring: {
+          enabled: false,
+          type: 'http',
+          url: 'https://example.com/health',
+          authType: 'bearer',
+          authToken: 'super-secret-token',
+          headers: [
+            { name: 'X-API-Key', value: 'super-secret-key', secret: true },
+            { name: 'Accept', value: 'application/json', secret: false },
+          ],
+        },
+      },
+    })
+    expect(createResponse.ok()).toBeTruthy()
+    const { doc } = await createResponse.json()
+
+    const response = await request.get(`/api/services/${doc.id}`)
+    expect(response.ok()).toBeTruthy()
+
+    const service = await response.json()
+    expect(service.monitoring.authToken).toBe('••••••••')
+    expect(service.monitoring.headers[0].value).toBe('••••••••')
+    expect(service.monitoring.headers[1].value).toBe('application/json')
+    expect(JSON.stringify(service)).not.toContain('super-secret')
+  })
+})
+
+test.describe('Webhook Subscribers', () => {
+  test('hides the webhook URL, events and signing secret from public reads', async ({ request }) => {
+    const createResponse = await request.post('/api/subscribers', {
+      data: {
+        type: 'webhook',
+        webhookUrl: `https://example.com/hooks/${Date.now()}`,
+        webhookEvents: ['incident.created'],
+      },
+    })
+    expect(createResponse.ok()).toBeTruthy()
+    const { doc } = await createResponse.json()
+
+    const response = await request.get(`/api/subscribers/${doc.id}`)
+    expect(response.ok()).toBeTruthy()
+
+    const subscriber = await response.json()
+    expect(subscriber.webhookUrl).toBeUndefined()
+    expect(subscriber.webhookEvents).toBeUndefined()
+    expect(subscriber.webhookSecret).toBeUndefined()
+
+    const listResponse = await request.get('/api/subscribers?where[type][equals]=webhook')
+    expect(JSON.stringify(await listResponse.json())).not.toContain('https://example.com/hooks/')
+  })
+})
+
+test.describe('Heartbeat API', () => {
+  test('returns 404 for unknown token', async ({ request }) => {
+    const response = await request.get('/api/heartbeat/invalid-token-12345')
+    
+    expect(response.status()).toBe(404)
+  })
+})
+
+test.describe('Probe API', () => {
+  test('rejects requests without a valid probe token', async ({ request }) => {
+    const checks = await request.get('/api/probe/checks')
+    expect(checks.status()).toBe(401)
+
+    const results = await request.post('/api/probe/results', {
+      headers: { Authorization: 'Bearer invalid-probe-token' },
+      data: { results: [] },
+    })
+    expect(results.status()).toBe(401)
+  })
+})
+
+test.describe('Notification Schedule API', () => {
+  test('requires authentication to schedule or cancel', async ({ request }) => {
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000)
+
+    const schedule = await request.post('/api/notifications/schedule', {
+      data: { notificationId: 1, sendAt: tomorrow.toISOString() },
+    })
+    expect(schedule.status()).toBe(401)
+
+    const cancel = await request.delete('/api/notifications/schedule', {
+      data: { notificationId: 1 },
+    })
+    expect(cancel.status()).toBe(401)
+  })
+})
+
+test.describe('Notification Retry API', () => {
+  test('requires authentication to retry failed recipients', async ({ request }) => {
+    const response = await request.post('/api/notifications/retry-failed', {
+      data: { notificationId: 1 },
+    })
+    expect(response.status()).toBe(401)
+  })
+})
+
+test.describe('Email Preview API', () => {
+  test('requires authentication to render a preview', async ({ request }) => {
+    const response = await request.post('/api/email-preview', {
+      data: { template: 'templateIncidentNew' },
+    })
+    expect(response.status()).toBe(401)
+  })
+})
+
 // Dashboard Stats API is authenticated - skip in E2E tests
 // This endpoint requires admin authentication which we don't test
@@ -0,0 +1,139 @@
+import { test, expect } from '@playwright/test'
+import type { BasePayload, Where } from 'payload'
+import { openAutoIncident, recoverAutoIncident } from '../../src/lib/autoIncidents'
+import type { Incident, Service } from '../../src/payload-types'
+
+/**
+ * Automatic Incident Tests
+ *
+ * Opens and recovers monitoring incidents against an in-memory incidents
+ * collection that, like the real one, takes its status from the latest update.
+ */
+type IncidentUpdate = NonNullable<Incident['updates']>[number]
+
+function createIncidentStore() {
+  const incidents: Incident[] = []
+
+  const withStatus = (incident: Incident): Incident => ({
+    ...incident,
+    status: (incident.updates?.at(-1)?.status || 'investigating') as Incident['status'],
+  })
+
+  const payload = {
+    async find({ where }: { where: Where }) {
+      const { affectedServices, autoCreated, status } = where as Record<string, Record<string, unknown>>
+      const serviceIds = affectedServices.in as number[]
+      const docs = incidents
+        .filter((incident) => incident.autoCreated === autoCreated.equals)
+        .filter((incident) => (incident.affectedServices as number[]).some((id) => serviceIds.includes(id)))
+        .filter((incident) => incident.status !== status.not_equals)
+        .reverse()
+      return { docs: docs.slice(0, 1) }
+    },
+    async create({ data }: { data: Partial<Incident> }) {
+      const incident = withStatus({ id: incidents.length + 1, createdAt: new Date().toISOString(), ...data } as Incident)
+      incidents.push(incident)
+      return incident
+    },
+    async update({ id, data }: { id: number; data: Partial<Incident> }) {
+      const index = incidents.findIndex((incident) => incident.id === id)
+      incidents[index] = withStatus({ ...incidents[index], ...data })
+      return incidents[index]
+    },
+  }
+
+  return { incidents, payload: payload as unknown as BasePayload }
+}
+
+function service(autoIncident: NonNullable<Service['monitoring']>['autoIncident']): Service {
+  return {
+    id: 7,
+    name: 'Checkout API',
+    monitoring: { enabled: true, type: 'http', autoIncident },
+  } as Service
+}
+
+const failure = { success: false, error: 'Connection timeout after 10000ms' }
+const recovery = { success: true, responseTime: 120 }
+
+const statuses = (updates: IncidentUpdate[] | null | undefined) => (updates || []).map((update) => update.status)
+
+test.describe('Automatic Incidents', () => {
+  test('opens an incident from the templates', async () => {
+    const { incidents, payload } = createIncidentStore()
+
+    await openAutoIncident(payload, service({
+      enabled: true,
+      title: '{{service}} is down',
+      message: 'Failed {{failures}} checks: {{error}}',
+    }), failure, 3)
+
+    expect(incidents).toHaveLength(1)
+    expect(incidents[0]).toMatchObject({
+      title: 'Checkout API is down',
+      status: 'investigating',
+      autoCreated: true,
+      affectedServices: [7],
+    })
+    expect(incidents[0].updates?.[0].message).toBe('Failed 3 checks: Connection timeout after 10000ms')
+  })
+
+  test('does nothing when automatic incidents are disabled', async () => {
+    const { incidents, payload } = createIncidentStore()
+
+    await openAutoIncident(payload, service({ enabled: false }), failure, 3)
+    await recoverAutoIncident(payload, service({ enabled: false }), recovery)
+
+    expect(incidents).toHaveLength(0)
+  })
+
+  test('never opens a second incident while one is open', async () => {
+    const { incidents, payload } = createIncidentStore()
+    const monitored = service({ enabled: true })
+
+    await openAutoIncident(payload, monitored, failure, 3)
+    await openAutoIncident(payload, monitored, failure, 4)
+
+    expect(incidents).toHaveLength(1)
+    expect(statuses(incidents[0].updates)).toEqual(['investigating'])
+  })
+
+  test('resolves the incident with a recovery update', async () => {
+    const { incidents, payload } = createIncidentStore()
+    const monitored = service({ enabled: true, recoveryMessage: '{{service}} is back.' })
+
+    await openAutoIncident(payload, monitored, failure, 3)
+    await recoverAutoIncident(payload, monitored, recovery)
+    await recoverAutoIncident(payload, monitored, recovery)
+
+    expect(incidents[0].status).toBe('resolved')
+    expect(statuses(incidents[0].updates)).toEqual(['investigating', 'resolved'])
+    expect(incidents[0].updates?.[1].message).toBe('Checkout API is back.')
+  })
+
+  test('reopens an incident left in monitoring instead of opening another', async () => {
+    const { incidents, payload } = createIncidentStore()
+    const monitored = service({ enabled: true, recoveryStatus: 'monitoring' })
+
+    await openAutoIncident(payload, monitored, failure, 3)
+    await recoverAutoIncident(payload, monitored, recovery)
+    expect(incidents[0].status).toBe('monitoring')
+
+    await openAutoIncident(payload, monitored, failure, 3)
+
+    expect(incidents).toHaveLength(1)
+    expect(statuses(incidents[0].updates)).toEqual(['investigating', 'monitoring', 'investigating'])
+  })
+
+  test('opens a new incident once the previous one is resolved', async () => {
+    const { incidents, payload } = createIncidentStore()
+    const monitored = service({ enabled: true })
+
+    await openAutoIncident(payload, monitored, failure, 3)
+    await recoverAutoIncident(payload, monitored, recovery)
+    await openAutoIncident(payload, monitored, failure, 3)
+
+    expect(incidents).toHaveLength(2)
+    expect(incidents.map((incident) => incident.status)).toEqual(['resolved', 'investigating'])
+  })
+})
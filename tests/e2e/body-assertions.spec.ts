@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test'
+import { evaluateBodyAssertions, resolveJsonPath } from '../../src/lib/monitoring'
+
+/**
+ * Body Assertion Tests
+ *
+ * Checks the keyword, regular expression and JSONPath assertions
+ * of HTTP monitors against sample response bodies.
+ */
+const healthBody = JSON.stringify({
+  status: 'ok',
+  version: 3,
+  checks: [{ name: 'db', healthy: true }, { name: 'cache', healthy: false }],
+  'service-name': 'api',
+  meta: null,
+})
+
+test.describe('JSONPath', () => {
+  test('resolves dot, index and bracket notation', () => {
+    const data = JSON.parse(healthBody)
+
+    expect(resolveJsonPath(data, '$.status')).toEqual({ found: true, value: 'ok' })
+    expect(resolveJsonPath(data, '$.checks[1].healthy')).toEqual({ found: true, value: false })
+    expect(resolveJsonPath(data, "$['service-name']")).toEqual({ found: true, value: 'api' })
+    expect(resolveJsonPath(data, '$.meta')).toEqual({ found: true, value: null })
+    expect(resolveJsonPath(data, '$')).toEqual({ found: true, value: data })
+  })
+
+  test('reports missing paths and invalid expressions', () => {
+    const data = JSON.parse(healthBody)
+
+    expect(resolveJsonPath(data, '$.missing').found).toBe(false)
+    expect(resolveJsonPath(data, '$.checks[5].healthy').found).toBe(false)
+    expect(resolveJsonPath(data, '$.meta.value').found).toBe(false)
+    expect(resolveJsonPath(data, 'status').found).toBe(false)
+    expect(resolveJsonPath(data, '$.checks[').found).toBe(false)
+  })
+})
+
+test.describe('Body Assertions', () => {
+  test('passes when every assertion holds', () => {
+    expect(evaluateBodyAssertions(healthBody, [
+      { type: 'contains', value: '"status":"ok"' },
+      { type: 'not_contains', value: 'error' },
+      { type: 'regex', value: '"version":\\d+' },
+      { type: 'json_equals', path: '$.status', value: 'ok' },
+      { type: 'json_equals', path: '$.version', value: '3' },
+      { type: 'json_equals', path: '$.checks[0]', value: '{"name":"db","healthy":true}' },
+      { type: 'json_exists', path: '$.checks[1].name' },
+    ])).toBeUndefined()
+  })
+
+  test('describes the first failed assertion', () => {
+    expect(evaluateBodyAssertions(healthBody, [
+      { type: 'contains', value: 'ok' },
+      { type: 'not_contains', value: 'cache' },
+      { type: 'contains', value: 'never reached' },
+    ])).toBe('Response body contains "cache"')
+
+    expect(evaluateBodyAssertions(healthBody, [{ type: 'contains', value: 'degraded' }]))
+      .toBe('Response body does not contain "degraded"')
+    expect(evaluateBodyAssertions(healthBody, [{ type: 'regex', value: '^<html>' }]))
+      .toBe('Response body does not match /^<html>/')
+    expect(evaluateBodyAssertions(healthBody, [{ type: 'json_equals', path: '$.checks[1].healthy', value: 'true' }]))
+      .toBe('Expected $.checks[1].healthy to equal "true", got "false"')
+    expect(evaluateBodyAssertions(healthBody, [{ type: 'json_exists', path: '$.uptime' }]))
+      .toBe('JSONPath $.uptime not found in response body')
+  })
+
+  test('reports invalid regular expressions and non-JSON bodies', () => {
+    expect(evaluateBodyAssertions(healthBody, [{ type: 'regex', value: '(unclosed' }]))
+      .toBe('Invalid regular expression: (unclosed')
+    expect(evaluateBodyAssertions('<html>OK</html>', [{ type: 'json_exists', path: '$.status' }]))
+      .toBe('Response body is not valid JSON (required for $.status assertion)')
+  })
+
+  test('truncates long values in failure messages', () => {
+    const message = evaluateBodyAssertions(healthBody, [{ type: 'contains', value: 'x'.repeat(150) }])
+
+    expect(message).toBe(`Response body does not contain "${'x'.repeat(100)}…"`)
+  })
+})
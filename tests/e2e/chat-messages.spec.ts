@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test'
+import { buildDiscordMessage } from '../../src/lib/discord'
+import type { NotificationContent } from '../../src/lib/notificationContent'
+import { buildTeamsMessage } from '../../src/lib/teams'
+
+/**
+ * Teams and Discord Message Tests
+ *
+ * Checks the Adaptive Card posted to Teams and the embed posted to
+ * Discord for a notification.
+ */
+const content: NotificationContent = {
+  siteName: 'Acme Status',
+  title: 'Elevated API errors',
+  status: 'identified',
+  statusLabel: 'Identified',
+  message: 'A bad deploy is being rolled back. cc @everyone',
+  affectedServices: ['API', 'Dashboard'],
+  url: 'https://status.example.com/i/12',
+  color: '#f97316',
+  isUpdate: false,
+}
+
+test.describe('Teams Message', () => {
+  test('builds an Adaptive Card linking to the status page', () => {
+    const [attachment] = buildTeamsMessage(content).attachments
+
+    expect(attachment.contentType).toBe('application/vnd.microsoft.card.adaptive')
+    expect(attachment.content).toMatchObject({
+      type: 'AdaptiveCard',
+      actions: [{ type: 'Action.OpenUrl', title: 'View Status Page', url: 'https://status.example.com/i/12' }],
+    })
+  })
+
+  test('shows the status in its named colour and lists affected services', () => {
+    const body = buildTeamsMessage(content).attachments[0].content.body as Record<string, unknown>[]
+
+    expect(body.map((block) => block.text ?? block.type)).toEqual([
+      'Acme Status',
+      'Elevated API errors',
+      'Identified',
+      'A bad deploy is being rolled back. cc @everyone',
+      'FactSet',
+    ])
+    expect(body[2].color).toBe('Warning')
+    expect(body[4].facts).toEqual([{ title: 'Affected Services', value: 'API, Dashboard' }])
+  })
+
+  test('leaves out the status, message and services when empty', () => {
+    const body = buildTeamsMessage({ ...content, statusLabel: undefined, message: '', affectedServices: [] })
+      .attachments[0].content.body as Record<string, unknown>[]
+
+    expect(body.map((block) => block.text)).toEqual(['Acme Status', 'Elevated API errors'])
+  })
+})
+
+test.describe('Discord Message', () => {
+  test('builds an embed in the status colour', () => {
+    const message = buildDiscordMessage(content, 'Acme Status Bot')
+
+    expect(message.username).toBe('Acme Status Bot')
+    expect(message.embeds[0]).toMatchObject({
+      title: 'Elevated API errors',
+      url: 'https://status.example.com/i/12',
+      description: 'A bad deploy is being rolled back. cc @everyone',
+      color: 0xf97316,
+      fields: [
+        { name: 'Status', value: 'Identified', inline: true },
+        { name: 'Affected Services', value: 'API, Dashboard', inline: true },
+      ],
+      footer: { text: 'Acme Status' },
+    })
+  })
+
+  test('never pings mentions from the message', () => {
+    expect(buildDiscordMessage(content).allowed_mentions).toEqual({ parse: [] })
+  })
+
+  test('keeps the webhook name without a username', () => {
+    expect(buildDiscordMessage(content, null)).not.toHaveProperty('username')
+  })
+
+  test('truncates the title and description to the embed limits', () => {
+    const [embed] = buildDiscordMessage({ ...content, title: 't'.repeat(300), message: 'm'.repeat(5000) }).embeds
+
+    expect(embed.title).toHaveLength(256)
+    expect(embed.description).toHaveLength(4096)
+    expect(String(embed.description).endsWith('...')).toBe(true)
+  })
+})
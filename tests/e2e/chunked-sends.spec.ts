@@ -0,0 +1,112 @@
+import { test, expect } from '@playwright/test'
+import type { BasePayload, Where } from 'payload'
+import { findPendingRecipients } from '../../src/lib/notificationDeliveries'
+import type { NotificationAudience } from '../../src/lib/subscriberAudience'
+import type { NotificationDelivery, Subscriber } from '../../src/payload-types'
+
+/**
+ * Chunked Send Tests
+ *
+ * Collects the recipients of a large send in chunks from an in-memory
+ * subscribers collection, the way each run of a continued job does.
+ */
+const audience: NotificationAudience = { kind: null, services: null, groups: [] }
+const startedAt = Date.parse('2026-10-19T12:00:00.000Z')
+
+function createStore(count: number, deliveries: Partial<NotificationDelivery>[] = []) {
+  const subscribers = Array.from({ length: count }, (_, index) => ({
+    id: index + 1,
+    email: `subscriber${index + 1}@example.com`,
+    phone: index % 2 === 0 ? `+1555000${index + 1}` : null,
+  })) as Subscriber[]
+  const subscriberQueries: number[] = []
+
+  const payload = {
+    async find({ collection, where, limit }: { collection: string; where: Where; limit: number }) {
+      if (collection === 'subscribers') {
+        const after = where.and?.find((condition) => condition.id)?.id as { greater_than?: number } | undefined
+        const cursor = after?.greater_than ?? 0
+        subscriberQueries.push(cursor)
+        return { docs: subscribers.filter((subscriber) => subscriber.id > cursor).slice(0, limit) }
+      }
+
+      const ids = (where.subscriber as { in: number[] }).in
+      return { docs: deliveries.filter((delivery) => ids.includes(delivery.subscriber as number)), hasNextPage: false }
+    },
+  } as unknown as BasePayload
+
+  return { payload, subscriberQueries }
+}
+
+const ids = (recipients: Subscriber[]) => recipients.map((subscriber) => subscriber.id)
+
+test.describe('Chunked Sends', () => {
+  test('returns the first chunk and a cursor to continue from', async () => {
+    const { payload } = createStore(1200)
+
+    const first = await findPendingRecipients(payload, 'email', { notificationId: 1, audience, startedAt, limit: 100 })
+    expect(first.recipients).toHaveLength(100)
+    expect(first.cursor).toBe(100)
+    expect(first.hasMore).toBe(true)
+
+    const next = await findPendingRecipients(payload, 'email', { notificationId: 1, audience, startedAt, afterId: first.cursor, limit: 100 })
+    expect(ids(next.recipients)[0]).toBe(101)
+    expect(next.cursor).toBe(200)
+  })
+
+  test('reads each subscriber once across all chunks', async () => {
+    const { payload, subscriberQueries } = createStore(1200)
+    const seen: number[] = []
+    let cursor: number | undefined
+    let hasMore = true
+
+    while (hasMore) {
+      const result = await findPendingRecipients(payload, 'email', { notificationId: 1, audience, startedAt, afterId: cursor, limit: 700 })
+      seen.push(...ids(result.recipients))
+      cursor = result.cursor
+      hasMore = result.hasMore
+    }
+
+    expect(seen).toEqual(Array.from({ length: 1200 }, (_, index) => index + 1))
+    expect(subscriberQueries).toEqual([0, 500, 700, 1200])
+  })
+
+  test('stops without more when the last page ends the chunk', async () => {
+    const { payload } = createStore(30)
+
+    const result = await findPendingRecipients(payload, 'email', { notificationId: 1, audience, startedAt, limit: 30 })
+    expect(result.recipients).toHaveLength(30)
+    expect(result.hasMore).toBe(false)
+  })
+
+  test('collects every SMS recipient without a limit', async () => {
+    const { payload } = createStore(1200)
+
+    const result = await findPendingRecipients(payload, 'sms', { notificationId: 1, audience, startedAt })
+    expect(result.recipients).toHaveLength(600)
+    expect(result.hasMore).toBe(false)
+  })
+
+  test('skips subscribers already sent to or attempted since the send started', async () => {
+    const { payload } = createStore(5, [
+      { id: 1, subscriber: 1, channel: 'email', status: 'sent' },
+      { id: 2, subscriber: 2, channel: 'email', status: 'failed', lastAttemptAt: '2026-10-19T12:01:00.000Z' },
+      { id: 3, subscriber: 3, channel: 'email', status: 'failed', lastAttemptAt: '2026-10-19T11:00:00.000Z' },
+      { id: 4, subscriber: 4, channel: 'sms', status: 'sent' },
+    ])
+
+    const result = await findPendingRecipients(payload, 'email', { notificationId: 1, audience, startedAt })
+    expect(ids(result.recipients)).toEqual([3, 4, 5])
+    expect(result.deliveries.size).toBe(4)
+  })
+
+  test('only includes failed deliveries when retrying', async () => {
+    const { payload } = createStore(5, [
+      { id: 1, subscriber: 1, channel: 'email', status: 'sent' },
+      { id: 2, subscriber: 2, channel: 'email', status: 'failed', lastAttemptAt: '2026-10-19T11:00:00.000Z' },
+    ])
+
+    const result = await findPendingRecipients(payload, 'email', { notificationId: 1, audience, startedAt, retryFailed: true })
+    expect(ids(result.recipients)).toEqual([2])
+  })
+})
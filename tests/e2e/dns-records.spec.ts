@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test'
+import { compareDnsRecords } from '../../src/lib/monitoring'
+
+/**
+ * DNS Record Comparison Tests
+ *
+ * Checks how resolved records are compared with the expected values
+ * of a DNS monitor. Answers are passed as the resolver normalizes them.
+ */
+test.describe('DNS Record Comparison', () => {
+  test('matches the exact set of records', () => {
+    expect(compareDnsRecords(['192.0.2.10', '192.0.2.11'], ['192.0.2.11', '192.0.2.10'], 'A'))
+      .toEqual({ missing: [], unexpected: [] })
+  })
+
+  test('reports missing and unexpected records in exact mode', () => {
+    expect(compareDnsRecords(['192.0.2.10', '203.0.113.5'], ['192.0.2.10', '192.0.2.11'], 'A')).toEqual({
+      missing: ['192.0.2.11'],
+      unexpected: ['203.0.113.5'],
+    })
+  })
+
+  test('allows extra records in contains mode', () => {
+    expect(compareDnsRecords(['192.0.2.10', '203.0.113.5'], ['192.0.2.10'], 'A', 'contains'))
+      .toEqual({ missing: [], unexpected: [] })
+    expect(compareDnsRecords(['203.0.113.5'], ['192.0.2.10'], 'A', 'contains'))
+      .toEqual({ missing: ['192.0.2.10'], unexpected: [] })
+  })
+
+  test('accepts any answer when no values are expected', () => {
+    expect(compareDnsRecords(['192.0.2.10'], [], 'A')).toEqual({ missing: [], unexpected: [] })
+  })
+
+  test('compares hostnames without case or trailing dot', () => {
+    expect(compareDnsRecords(['lb.example.net'], ['LB.Example.NET.'], 'CNAME'))
+      .toEqual({ missing: [], unexpected: [] })
+    expect(compareDnsRecords(['ns1.example.com', 'ns2.example.com'], [' ns1.example.com. ', 'NS2.example.com'], 'NS'))
+      .toEqual({ missing: [], unexpected: [] })
+  })
+
+  test('compares MX records with or without priorities', () => {
+    const answers = ['10 mx1.example.com', '20 mx2.example.com']
+
+    expect(compareDnsRecords(answers, ['10 MX1.example.com.', '20 mx2.example.com'], 'MX'))
+      .toEqual({ missing: [], unexpected: [] })
+    expect(compareDnsRecords(answers, ['20 mx1.example.com', '20 mx2.example.com'], 'MX'))
+      .toEqual({ missing: ['20 mx1.example.com'], unexpected: ['10 mx1.example.com'] })
+    expect(compareDnsRecords(answers, ['mx1.example.com', 'mx2.example.com.'], 'MX'))
+      .toEqual({ missing: [], unexpected: [] })
+    expect(compareDnsRecords(answers, ['mx1.example.com'], 'MX'))
+      .toEqual({ missing: [], unexpected: ['mx2.example.com'] })
+  })
+
+  test('compares TXT records exactly as written', () => {
+    expect(compareDnsRecords(['v=spf1 include:_spf.example.com ~all'], ['v=spf1 include:_spf.example.com ~all'], 'TXT'))
+      .toEqual({ missing: [], unexpected: [] })
+    expect(compareDnsRecords(['v=spf1 -all'], ['V=SPF1 -all'], 'TXT'))
+      .toEqual({ missing: ['V=SPF1 -all'], unexpected: ['v=spf1 -all'] })
+  })
+})
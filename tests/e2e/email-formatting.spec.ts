@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test'
+import { generateEmailHtml } from '../../src/lib/email'
+import { escapeHtml, markdownToText, renderEmailMarkdown, renderEmailText } from '../../src/lib/emailFormatting'
+
+/**
+ * Email Formatting Tests
+ *
+ * Checks that email content is escaped and that only the restricted
+ * Markdown subset is rendered, in both the HTML and plain-text versions.
+ */
+test.describe('Escaping', () => {
+  test('escapes HTML special characters', () => {
+    expect(escapeHtml(`<a href="x" title='y'>Tom & Jerry</a>`))
+      .toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;Tom &amp; Jerry&lt;/a&gt;')
+  })
+
+  test('renders plain text with line breaks', () => {
+    expect(renderEmailText('Line one\r\n<b>Line two</b>')).toBe('Line one<br>&lt;b&gt;Line two&lt;/b&gt;')
+  })
+
+  test('escapes the title and body of a plain-text email', () => {
+    const html = generateEmailHtml({
+      siteName: 'Acme <Status>',
+      title: '<script>alert(1)</script>',
+      body: '<img src=x onerror=alert(1)>',
+      siteUrl: 'https://status.example.com',
+    })
+
+    expect(html).not.toContain('<script>')
+    expect(html).not.toContain('<img src=x')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).toContain('Acme &lt;Status&gt;')
+  })
+})
+
+test.describe('Restricted Markdown', () => {
+  test('renders paragraphs, line breaks and lists', () => {
+    expect(renderEmailMarkdown('First line\nsecond line\n\n- one\n- two'))
+      .toBe('<p>First line<br>second line</p><ul><li>one</li><li>two</li></ul>')
+  })
+
+  test('renders bold, italic and code', () => {
+    expect(renderEmailMarkdown('**Fixed** in *v2*, see `a *b* <c>`'))
+      .toBe('<p><strong>Fixed</strong> in <em>v2</em>, see <code>a *b* &lt;c&gt;</code></p>')
+  })
+
+  test('renders web and mailto links', () => {
+    expect(renderEmailMarkdown('[Docs](https://example.com/a_(b)) or [mail](mailto:ops@example.com)'))
+      .toBe('<p><a href="https://example.com/a_(b)">Docs</a> or <a href="mailto:ops@example.com">mail</a></p>')
+  })
+
+  test('drops unsafe links and keeps their label', () => {
+    expect(renderEmailMarkdown('[click](javascript:alert(1)) [img](data:text/html,x)')).toBe('<p>click img</p>')
+  })
+
+  test('escapes HTML in the source', () => {
+    expect(renderEmailMarkdown('<b>bold</b> & [<i>x</i>](https://example.com/?a=1&b="2")'))
+      .toBe('<p>&lt;b&gt;bold&lt;/b&gt; &amp; <a href="https://example.com/?a=1&amp;b=&quot;2&quot;">&lt;i&gt;x&lt;/i&gt;</a></p>')
+  })
+
+  test('converts to plain text', () => {
+    expect(markdownToText('**Fixed** in *v2*\n* one\n- [Docs](https://example.com)\n[bad](javascript:x) `**raw**`'))
+      .toBe('Fixed in v2\n- one\n- Docs (https://example.com)\nbad **raw**')
+    expect(markdownToText('[https://example.com](https://example.com)')).toBe('https://example.com')
+  })
+})
@@ -0,0 +1,133 @@
+import { test, expect } from '@playwright/test'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { sendEmail } from '../../src/lib/email'
+import type { EmailSetting } from '../../src/payload-types'
+
+/**
+ * Email Provider Adapter Tests
+ *
+ * Sends through each HTTP API adapter to a local stand-in server
+ * configured as the API Base URL.
+ */
+interface RecordedRequest {
+  url: string
+  headers: http.IncomingHttpHeaders
+  body: Record<string, unknown>
+}
+
+let server: http.Server
+let baseUrl: string
+const requests: RecordedRequest[] = []
+
+const message = {
+  to: 'subscriber@example.com',
+  subject: '[Investigating] API Latency',
+  html: '<p>We are investigating.</p>',
+  text: 'We are investigating.',
+  unsubscribeUrl: 'https://status.example.com/unsubscribe/abc',
+}
+
+function settings(overrides: Partial<EmailSetting>): EmailSetting {
+  return {
+    enabled: true,
+    smtpFromAddress: 'status@example.com',
+    smtpFromName: 'Example Status',
+    apiBaseUrl: baseUrl,
+    ...overrides,
+  } as EmailSetting
+}
+
+test.beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => body += chunk)
+    req.on('end', () => {
+      requests.push({ url: req.url || '', headers: req.headers, body: JSON.parse(body) })
+      res.setHeader('Content-Type', 'application/json')
+
+      if (req.headers['x-postmark-server-token'] === 'invalid') {
+        res.statusCode = 401
+        res.end(JSON.stringify({ ErrorCode: 10, Message: 'Invalid Server API Token' }))
+      } else if (req.url === '/email') {
+        res.end(JSON.stringify({ ErrorCode: 0, MessageID: 'postmark-message-id' }))
+      } else if (req.url === '/v3/mail/send') {
+        res.statusCode = 202
+        res.setHeader('X-Message-Id', 'sendgrid-message-id')
+        res.end()
+      } else if (req.url === '/v2/email/outbound-emails') {
+        res.end(JSON.stringify({ MessageId: 'ses-message-id' }))
+      } else {
+        res.statusCode = 404
+        res.end(JSON.stringify({ message: 'Not found' }))
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+test.afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+test.describe('Email Provider Adapters', () => {
+  test('sends through Postmark and returns its message id', async () => {
+    const result = await sendEmail(settings({ provider: 'postmark', apiKey: 'postmark-token' }), message)
+
+    expect(result).toEqual({ success: true, messageId: 'postmark-message-id' })
+
+    const request = requests.at(-1)!
+    expect(request.url).toBe('/email')
+    expect(request.headers['x-postmark-server-token']).toBe('postmark-token')
+    expect(request.body.To).toBe(message.to)
+    expect(request.body.TextBody).toBe(message.text)
+    expect(request.body.Headers).toContainEqual({ Name: 'List-Unsubscribe', Value: `<${message.unsubscribeUrl}>` })
+  })
+
+  test('sends through SendGrid and returns its message id', async () => {
+    const result = await sendEmail(settings({ provider: 'sendgrid', apiKey: 'sendgrid-key' }), message)
+
+    expect(result).toEqual({ success: true, messageId: 'sendgrid-message-id' })
+
+    const request = requests.at(-1)!
+    expect(request.url).toBe('/v3/mail/send')
+    expect(request.headers.authorization).toBe('Bearer sendgrid-key')
+    expect(request.body.personalizations).toEqual([{ to: [{ email: message.to }] }])
+    expect(request.body.from).toEqual({ email: 'status@example.com', name: 'Example Status' })
+  })
+
+  test('sends through Amazon SES with a signed request', async () => {
+    const result = await sendEmail(settings({
+      provider: 'ses',
+      sesRegion: 'eu-west-1',
+      sesAccessKeyId: 'AKIDEXAMPLE',
+      sesSecretAccessKey: 'secret',
+    }), message)
+
+    expect(result).toEqual({ success: true, messageId: 'ses-message-id' })
+
+    const request = requests.at(-1)!
+    expect(request.url).toBe('/v2/email/outbound-emails')
+    expect(request.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-west-1\/ses\/aws4_request, SignedHeaders=content-type;host;x-amz-date, Signature=[0-9a-f]{64}$/
+    )
+    expect(request.body.Destination).toEqual({ ToAddresses: [message.to] })
+  })
+
+  test('reports the provider error message', async () => {
+    const result = await sendEmail(settings({ provider: 'postmark', apiKey: 'invalid' }), message)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Postmark API error: Invalid Server API Token')
+  })
+
+  test('fails without calling the API when the provider is not configured', async () => {
+    const count = requests.length
+    const result = await sendEmail(settings({ provider: 'sendgrid', apiKey: null }), message)
+
+    expect(result).toEqual({ success: false, error: 'SendGrid not configured: missing API key' })
+    expect(requests.length).toBe(count)
+  })
+})
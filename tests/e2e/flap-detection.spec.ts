@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test'
+import { createMonitor } from '../utils/monitor-helpers'
+
+/**
+ * Recovery Threshold and Flap Detection Tests
+ *
+ * Records check results for a service kept in memory, one minute apart,
+ * and follows the status the service is given.
+ */
+const MINUTE = 60 * 1000
+const realNow = Date.now
+
+let now: number
+
+test.beforeEach(() => {
+  now = Date.parse('2026-10-19T12:00:00.000Z')
+  Date.now = () => now
+})
+
+test.afterEach(() => {
+  Date.now = realNow
+})
+
+// Each check runs a minute after the previous one
+async function check(monitor: ReturnType<typeof createMonitor>, success: boolean) {
+  now += MINUTE
+  return monitor.check(success)
+}
+
+test.describe('Recovery Threshold', () => {
+  test('holds an outage until enough checks pass in a row', async () => {
+    const monitor = createMonitor({ recoveryThreshold: 3 })
+
+    expect(await check(monitor, false)).toBe('major')
+    expect(await check(monitor, true)).toBe('major')
+    expect(await check(monitor, true)).toBe('major')
+    expect(await check(monitor, false)).toBe('major')
+    expect(await check(monitor, true)).toBe('major')
+    expect(await check(monitor, true)).toBe('major')
+    expect(await check(monitor, true)).toBe('operational')
+  })
+})
+
+test.describe('Flap Detection', () => {
+  test('holds a flapping service in degraded', async () => {
+    const monitor = createMonitor({ flapThreshold: 4, flapWindow: 30 })
+
+    expect(await check(monitor, false)).toBe('major')
+    expect(await check(monitor, true)).toBe('operational')
+    expect(await check(monitor, false)).toBe('major')
+    expect(await check(monitor, true)).toBe('degraded')
+
+    expect(monitor.service.monitoring?.flapping).toBe(true)
+    expect(monitor.service.monitoring?.flappingSince).toBe(new Date(now).toISOString())
+    expect(monitor.service.monitoring?.statusReason).toBe('Flapping: 4 status changes in the last 30 minutes')
+
+    expect(await check(monitor, false)).toBe('degraded')
+    expect(monitor.service.monitoring?.statusReason).toBe('Flapping: 5 status changes in the last 30 minutes. HTTP 503')
+  })
+
+  test('releases the service once the window has no more changes', async () => {
+    const monitor = createMonitor({ flapThreshold: 4, flapWindow: 30 })
+
+    for (const success of [false, true, false, true, false]) {
+      await check(monitor, success)
+    }
+    expect(monitor.service.status).toBe('degraded')
+
+    now += 30 * MINUTE
+    expect(await check(monitor, true)).toBe('operational')
+    expect(monitor.service.monitoring?.flapping).toBe(false)
+    expect(monitor.service.monitoring?.flappingSince).toBeNull()
+  })
+
+  test('is off without a flap threshold', async () => {
+    const monitor = createMonitor({})
+
+    for (const success of [false, true, false, true, false, true]) {
+      await check(monitor, success)
+    }
+
+    expect(monitor.service.status).toBe('operational')
+    expect(monitor.service.monitoring?.flapping).toBe(false)
+  })
+})
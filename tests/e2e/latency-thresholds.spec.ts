@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test'
+import { determineServiceStatus, evaluateLatency } from '../../src/lib/monitoring'
+
+/**
+ * Latency Threshold Tests
+ *
+ * Checks how recent response times are compared with the warning and
+ * critical thresholds, and how the result combines with failed checks.
+ */
+const responseTimes = [120, 180, 200, 250, 2400]
+
+test.describe('Latency Thresholds', () => {
+  test('compares the selected metric', () => {
+    expect(evaluateLatency(responseTimes, { warn: 500, metric: 'average' })).toEqual({
+      status: 'degraded',
+      value: 630,
+      reason: 'Average response time 630ms over the last 5 checks exceeds the warning threshold of 500ms',
+    })
+    expect(evaluateLatency(responseTimes, { warn: 500, metric: 'median' })).toEqual({ status: 'operational', value: 200 })
+    expect(evaluateLatency(responseTimes, { warn: 500, metric: 'p95' }).value).toBe(2400)
+    expect(evaluateLatency(responseTimes, { warn: 500, metric: 'max' }).value).toBe(2400)
+  })
+
+  test('reports a partial outage above the critical threshold', () => {
+    expect(evaluateLatency(responseTimes, { warn: 500, critical: 2000, metric: 'max' })).toEqual({
+      status: 'partial',
+      value: 2400,
+      reason: 'Maximum response time 2400ms over the last 5 checks exceeds the critical threshold of 2000ms',
+    })
+  })
+
+  test('only degrades once the threshold is exceeded', () => {
+    expect(evaluateLatency([500], { warn: 500 })).toEqual({ status: 'operational', value: 500 })
+    expect(evaluateLatency([501], { warn: 500 }).reason)
+      .toBe('Average response time 501ms over the last 1 check exceeds the warning threshold of 500ms')
+  })
+
+  test('stays operational without thresholds or response times', () => {
+    expect(evaluateLatency(responseTimes, {})).toEqual({ status: 'operational', value: 630 })
+    expect(evaluateLatency([], { warn: 100, critical: 200 })).toEqual({ status: 'operational', value: null })
+  })
+})
+
+test.describe('Service Status', () => {
+  test('uses the worse of the failure and latency status', () => {
+    expect(determineServiceStatus(0, 3, 1, 'partial')).toBe('partial')
+    expect(determineServiceStatus(1, 3, 1, 'operational')).toBe('degraded')
+    expect(determineServiceStatus(3, 3, 1, 'degraded')).toBe('major')
+  })
+})
@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test'
+import { isValidPingHost, parsePingOutput } from '../../src/lib/monitoring'
+
+/**
+ * Ping Monitor Tests
+ *
+ * Checks host validation, which keeps anything but a hostname or IP address
+ * away from the ping command, and parsing of the output of common ping builds.
+ */
+const iputilsOutput = `PING example.com (93.184.216.34) 56(84) bytes of data.
+64 bytes from 93.184.216.34: icmp_seq=1 ttl=56 time=11.2 ms
+64 bytes from 93.184.216.34: icmp_seq=2 ttl=56 time=12.8 ms
+64 bytes from 93.184.216.34: icmp_seq=3 ttl=56 time=11.6 ms
+
+--- example.com ping statistics ---
+3 packets transmitted, 3 received, 0% packet loss, time 2003ms
+rtt min/avg/max/mdev = 11.200/11.866/12.800/0.680 ms
+`
+
+const busyboxOutput = `PING 10.0.0.1 (10.0.0.1): 56 data bytes
+64 bytes from 10.0.0.1: seq=0 ttl=64 time=0.412 ms
+64 bytes from 10.0.0.1: seq=2 ttl=64 time=0.388 ms
+
+--- 10.0.0.1 ping statistics ---
+4 packets transmitted, 2 packets received, 50% packet loss
+round-trip min/avg/max = 0.388/0.400/0.412 ms
+`
+
+const macOutput = `PING localhost (127.0.0.1): 56 data bytes
+64 bytes from 127.0.0.1: icmp_seq=0 ttl=64 time<1 ms
+
+--- localhost ping statistics ---
+1 packets transmitted, 1 packets received, 0.0% packet loss
+`
+
+test.describe('Ping Host Validation', () => {
+  test('accepts hostnames and IP addresses', () => {
+    for (const host of ['example.com', 'db-1.internal', 'localhost', 'example.com.', '192.0.2.1', '2001:db8::1']) {
+      expect(isValidPingHost(host), host).toBe(true)
+    }
+  })
+
+  test('rejects options and shell syntax', () => {
+    for (const host of [
+      '',
+      '-f',
+      '--help',
+      'example.com; rm -rf /',
+      'example.com && id',
+      '$(whoami).example.com',
+      '`id`',
+      'example.com -c 1000',
+      'exa mple.com',
+      '-example.com',
+      'example..com',
+      `${'a'.repeat(64)}.com`,
+    ]) {
+      expect(isValidPingHost(host), host).toBe(false)
+    }
+  })
+})
+
+test.describe('Ping Output Parsing', () => {
+  test('parses iputils output', () => {
+    expect(parsePingOutput(iputilsOutput, 3)).toEqual({
+      sent: 3,
+      received: 3,
+      packetLoss: 0,
+      minRtt: 11.2,
+      maxRtt: 12.8,
+      avgRtt: 11.867,
+      jitter: 1.4,
+    })
+  })
+
+  test('parses BusyBox output with packet loss', () => {
+    expect(parsePingOutput(busyboxOutput, 4)).toEqual({
+      sent: 4,
+      received: 2,
+      packetLoss: 50,
+      minRtt: 0.388,
+      maxRtt: 0.412,
+      avgRtt: 0.4,
+      jitter: 0.024,
+    })
+  })
+
+  test('parses sub-millisecond times without jitter for a single reply', () => {
+    expect(parsePingOutput(macOutput, 1)).toEqual({
+      sent: 1,
+      received: 1,
+      packetLoss: 0,
+      minRtt: 1,
+      maxRtt: 1,
+      avgRtt: 1,
+    })
+  })
+
+  test('treats output without statistics as total loss', () => {
+    expect(parsePingOutput('ping: sendto: Network is unreachable', 5)).toEqual({
+      sent: 5,
+      received: 0,
+      packetLoss: 100,
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test'
+import { getQuorumCount } from '../../src/lib/monitoring'
+import { createMonitor } from '../utils/monitor-helpers'
+
+/**
+ * Probe Quorum Tests
+ *
+ * Checks that a status only changes once the configured number of probes
+ * agree, and is held while too few probes are reporting.
+ */
+test.describe('Quorum Count', () => {
+  test('returns the count at least the quorum of probes agree on', () => {
+    expect(getQuorumCount([3], 1)).toBe(3)
+    expect(getQuorumCount([5, 0, 2], 1)).toBe(5)
+    expect(getQuorumCount([5, 0, 2], 2)).toBe(2)
+    expect(getQuorumCount([5, 0, 2], 3)).toBe(0)
+  })
+
+  test('returns null when fewer probes report than the quorum', () => {
+    expect(getQuorumCount([4], 2)).toBeNull()
+    expect(getQuorumCount([], 1)).toBeNull()
+  })
+})
+
+test.describe('Status with a Quorum', () => {
+  const probe = { id: 2, name: 'Frankfurt' }
+
+  test('holds the status while too few probes are reporting', async () => {
+    const monitor = createMonitor({}, 2)
+
+    expect(await monitor.check(false)).toBe('operational')
+    expect(monitor.service.monitoring?.statusReason)
+      .toBe('Insufficient probes: 1 of 2 required for a quorum are reporting. HTTP 503')
+    expect(monitor.service.monitoring?.consecutiveFailures).toBe(0)
+  })
+
+  test('changes the status once enough probes agree', async () => {
+    const monitor = createMonitor({}, 2)
+
+    await monitor.check(false)
+    expect(await monitor.check(false, probe)).toBe('major')
+    expect(monitor.service.monitoring?.consecutiveFailures).toBe(1)
+  })
+
+  test('counts probes that report at the same time', async () => {
+    const monitor = createMonitor({}, 2)
+
+    await Promise.all([monitor.check(false), monitor.check(false, probe)])
+    expect(monitor.service.status).toBe('major')
+    expect(Object.keys(monitor.service.monitoring?.probeStatus as object)).toEqual(['local', 'probe-2'])
+  })
+
+  test('does not follow a single probe that disagrees', async () => {
+    const monitor = createMonitor({}, 2)
+
+    await monitor.check(true)
+    await monitor.check(true, probe)
+    expect(await monitor.check(false, probe)).toBe('operational')
+    expect(monitor.service.monitoring?.consecutiveFailures).toBe(0)
+  })
+})
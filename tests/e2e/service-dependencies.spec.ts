@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test'
+import type { BasePayload } from 'payload'
+import { findDependencyCycle, getDependencyLayers, getEffectiveStatuses } from '../../src/lib/dependencies'
+import type { Service } from '../../src/payload-types'
+
+/**
+ * Service Dependency Tests
+ *
+ * Checks cycle detection when saving dependencies and how outages
+ * propagate to the services that depend on them.
+ */
+type TestService = Pick<Service, 'id' | 'name' | 'status' | 'dependsOn'>
+
+// Database -> API -> Web, with Search also depending on the database
+const services: TestService[] = [
+  { id: 1, name: 'Database', status: 'operational', dependsOn: [] },
+  { id: 2, name: 'API', status: 'operational', dependsOn: [1] },
+  { id: 3, name: 'Web', status: 'operational', dependsOn: [2] },
+  { id: 4, name: 'Search', status: 'operational', dependsOn: [{ id: 1 } as Service] },
+  { id: 5, name: 'Docs', status: 'operational', dependsOn: null },
+]
+
+function withStatus(statuses: Record<number, Service['status']>): TestService[] {
+  return services.map((service) => ({ ...service, status: statuses[service.id] || service.status }))
+}
+
+function servicesPayload(docs: TestService[]): BasePayload {
+  return { find: async () => ({ docs }) } as unknown as BasePayload
+}
+
+test.describe('Dependency Cycles', () => {
+  const payload = servicesPayload(services)
+
+  test('accepts dependencies without a cycle', async () => {
+    expect(await findDependencyCycle(payload, { id: 3, name: 'Web' }, [2, 4])).toBeNull()
+    expect(await findDependencyCycle(payload, { name: 'New Service' }, [3])).toBeNull()
+  })
+
+  test('names the services along a cycle', async () => {
+    expect(await findDependencyCycle(payload, { id: 1, name: 'Database' }, [3]))
+      .toEqual(['Database', 'Web', 'API', 'Database'])
+  })
+
+  test('rejects a service depending on itself', async () => {
+    expect(await findDependencyCycle(payload, { id: 5, name: 'Docs' }, [5])).toEqual(['Docs', 'Docs'])
+  })
+})
+
+test.describe('Dependency Layers', () => {
+  test('places services right of their deepest dependency', () => {
+    expect(Object.fromEntries(getDependencyLayers(services))).toEqual({ 1: 0, 2: 1, 3: 2, 4: 1, 5: 0 })
+  })
+})
+
+test.describe('Status Propagation', () => {
+  test('keeps statuses when no dependency has an outage', () => {
+    const effective = getEffectiveStatuses(withStatus({ 1: 'degraded' }))
+
+    expect(effective.get(2)).toEqual({ status: 'operational', causes: [] })
+    expect(effective.get(1)).toEqual({ status: 'degraded', causes: [] })
+  })
+
+  test('shows a partial outage for direct and indirect dependents', () => {
+    const effective = getEffectiveStatuses(withStatus({ 1: 'major' }))
+
+    expect(effective.get(1)).toEqual({ status: 'major', causes: [] })
+    expect(effective.get(2)).toEqual({ status: 'partial', note: 'Affected by an outage of Database', causes: [1] })
+    expect(effective.get(3)).toEqual({ status: 'partial', note: 'Affected by an outage of Database', causes: [1] })
+    expect(effective.get(4)?.status).toBe('partial')
+    expect(effective.get(5)).toEqual({ status: 'operational', causes: [] })
+  })
+
+  test('names every upstream outage', () => {
+    const effective = getEffectiveStatuses(withStatus({ 1: 'partial', 2: 'major' }))
+
+    expect(effective.get(3)).toEqual({
+      status: 'partial',
+      note: 'Affected by an outage of API, Database',
+      causes: [2, 1],
+    })
+  })
+
+  test('keeps maintenance and worse own statuses', () => {
+    const effective = getEffectiveStatuses(withStatus({ 1: 'major', 2: 'maintenance', 4: 'major' }))
+
+    expect(effective.get(2)?.status).toBe('maintenance')
+    expect(effective.get(4)).toEqual({ status: 'major', causes: [1] })
+  })
+
+  test('does not loop on cyclic data', () => {
+    const cyclic: TestService[] = [
+      { id: 1, name: 'A', status: 'major', dependsOn: [2] },
+      { id: 2, name: 'B', status: 'operational', dependsOn: [1] },
+    ]
+
+    expect(getEffectiveStatuses(cyclic).get(2)?.status).toBe('partial')
+  })
+})
@@ -0,0 +1,75 @@
+import { test, expect } from '@playwright/test'
+import { buildSlackMessage, isSlackConfigured } from '../../src/lib/slack'
+import type { NotificationContent } from '../../src/lib/notificationContent'
+import type { SlackSetting } from '../../src/payload-types'
+
+/**
+ * Slack Message Tests
+ *
+ * Checks the Block Kit message built for a notification and when the
+ * Slack integration counts as configured.
+ */
+const content: NotificationContent = {
+  siteName: 'Acme Status',
+  title: 'Elevated API errors',
+  status: 'investigating',
+  statusLabel: 'Investigating',
+  message: 'We are looking into errors for <some> requests & retries.',
+  affectedServices: ['API', 'Dashboard'],
+  url: 'https://status.example.com/i/12',
+  color: '#dc2626',
+  isUpdate: false,
+}
+
+function sectionText(message: ReturnType<typeof buildSlackMessage>): string {
+  const [section] = message.attachments[0].blocks as Array<{ text: { text: string } }>
+  return section.text.text
+}
+
+test.describe('Slack Message', () => {
+  test('links the title and colours the attachment with the status', () => {
+    const message = buildSlackMessage(content)
+
+    expect(message.text).toBe('[Investigating] Elevated API errors')
+    expect(message.attachments).toHaveLength(1)
+    expect(message.attachments[0].color).toBe('#dc2626')
+    expect(sectionText(message)).toBe(
+      '*<https://status.example.com/i/12|Elevated API errors>*\nWe are looking into errors for &lt;some&gt; requests &amp; retries.',
+    )
+  })
+
+  test('lists the status and affected services as fields', () => {
+    const blocks = buildSlackMessage(content).attachments[0].blocks
+
+    expect(blocks.map((block) => block.type)).toEqual(['section', 'section', 'actions', 'context'])
+    expect(blocks[1].fields).toEqual([
+      { type: 'mrkdwn', text: '*Status*\nInvestigating' },
+      { type: 'mrkdwn', text: '*Affected Services*\nAPI, Dashboard' },
+    ])
+    expect(blocks[3]).toEqual({ type: 'context', elements: [{ type: 'mrkdwn', text: 'Acme Status' }] })
+  })
+
+  test('leaves out empty fields', () => {
+    const message = buildSlackMessage({ ...content, statusLabel: undefined, affectedServices: [], message: '' })
+
+    expect(message.text).toBe('Elevated API errors')
+    expect(message.attachments[0].blocks.map((block) => block.type)).toEqual(['section', 'actions', 'context'])
+    expect(sectionText(message)).toBe('*<https://status.example.com/i/12|Elevated API errors>*')
+  })
+
+  test('truncates long messages to the section limit', () => {
+    const text = sectionText(buildSlackMessage({ ...content, message: 'x'.repeat(5000) }))
+
+    expect(text).toHaveLength(3000)
+    expect(text.endsWith('...')).toBe(true)
+  })
+})
+
+test.describe('Slack Configuration', () => {
+  test('needs a webhook URL or an app token and channel', () => {
+    expect(isSlackConfigured({ method: 'webhook', webhookUrl: 'https://hooks.slack.com/services/x' } as SlackSetting)).toBe(true)
+    expect(isSlackConfigured({ method: 'webhook' } as SlackSetting)).toBe(false)
+    expect(isSlackConfigured({ method: 'app', botToken: 'xoxb-1', channelId: 'C123' } as SlackSetting)).toBe(true)
+    expect(isSlackConfigured({ method: 'app', botToken: 'xoxb-1' } as SlackSetting)).toBe(false)
+  })
+})
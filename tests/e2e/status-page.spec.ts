@@ -113,6 +113,32 @@ test.describe('Status Page - Different Status Levels', () => {
     // Should show major outage message
     await expect(page.getByText('Major system outage in progress')).toBeVisible()
   })
+
+  test('shows partial outage for services whose dependency is down', async ({ page }) => {
+    const uniqueId = Date.now()
+    const group = await createServiceGroup({ 
+      name: `Test Dependencies ${uniqueId}`,
+      slug: `test-dependencies-${uniqueId}`
+    })
+    const database = await createService({ 
+      name: `Database ${uniqueId}`,
+      slug: `database-${uniqueId}`,
+      status: 'major',
+      group: group.id 
+    })
+    await createService({ 
+      name: `Checkout ${uniqueId}`,
+      slug: `checkout-${uniqueId}`,
+      status: 'operational',
+      group: group.id,
+      dependsOn: [database.id],
+    })
+
+    await page.goto('/')
+    
+    // The dependent service shows the propagated status and its cause
+    await expect(page.getByText(`Affected by an outage of Database ${uniqueId}`)).toBeVisible()
+  })
 })
 
 test.describe('Status Page - Active Incidents', () => {
@@ -163,6 +189,28 @@ test.describe('Status Page - Active Incidents', () => {
   })
 })
 
+test.describe('Status Page - Uptime History', () => {
+  test('displays 90-day uptime bars for services', async ({ page }) => {
+    const uniqueId = Date.now()
+    const group = await createServiceGroup({ 
+      name: `Test Uptime ${uniqueId}`,
+      slug: `test-uptime-${uniqueId}`
+    })
+    await createService({ 
+      name: `Uptime Service ${uniqueId}`,
+      slug: `uptime-service-${uniqueId}`,
+      status: 'degraded',
+      group: group.id 
+    })
+
+    await page.goto('/')
+    
+    await expect(page.getByText(`Uptime Service ${uniqueId}`)).toBeVisible()
+    await expect(page.getByTestId('uptime-bars').first()).toBeVisible()
+    await expect(page.getByText('90 days ago').first()).toBeVisible()
+  })
+})
+
 test.describe('Status Page - Responsive Design', () => {
   test('displays correctly on mobile viewport', async ({ page }) => {
     // Set mobile viewport
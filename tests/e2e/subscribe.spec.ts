@@ -160,3 +160,45 @@ test.describe('Unsubscribe Flow', () => {
     await expect(page).toHaveURL(/unsubscribe/)
   })
 })
+
+test.describe('Manage Subscription', () => {
+  test('updates preferences with valid token', async ({ page }) => {
+    const subscriber = await createSubscriber({ 
+      type: 'email', 
+      email: `manage-test-${Date.now()}@example.com` 
+    })
+    
+    await page.goto(`/manage/${subscriber.unsubscribeToken}`)
+    await expect(page.getByRole('heading', { name: 'Manage Subscription' })).toBeVisible()
+    
+    // Turn off maintenance notices
+    await page.getByLabel('Scheduled maintenance').uncheck()
+    await page.getByRole('button', { name: 'Save Preferences' }).click()
+    await expect(page.getByText('Preferences saved')).toBeVisible()
+    
+    // Pause for a day
+    await page.getByRole('button', { name: '1 day' }).click()
+    await expect(page.getByText(/Paused until/)).toBeVisible()
+  })
+
+  test('deletes subscriber data', async ({ page, request }) => {
+    const subscriber = await createSubscriber({ 
+      type: 'email', 
+      email: `delete-test-${Date.now()}@example.com` 
+    })
+    
+    await page.goto(`/manage/${subscriber.unsubscribeToken}`)
+    await page.getByRole('button', { name: 'Delete My Data' }).click()
+    await page.getByRole('button', { name: 'Yes, Delete My Data' }).click()
+    await expect(page.getByRole('heading', { name: 'Your Data Has Been Deleted' })).toBeVisible()
+    
+    const response = await request.get(`/api/subscribers/${subscriber.id}`)
+    expect(response.status()).toBe(404)
+  })
+
+  test('shows error for invalid token', async ({ page }) => {
+    await page.goto('/manage/invalid-token-12345')
+    
+    await expect(page.getByRole('heading', { name: 'Invalid Subscription Link' })).toBeVisible()
+  })
+})
@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test'
+import { evaluateCertificate, type CertificateInfo } from '../../src/lib/monitoring'
+
+/**
+ * TLS Certificate Tests
+ *
+ * Checks the expiry warnings and validity rules applied to the
+ * certificate presented to a passing check.
+ */
+function certificate(overrides: Partial<CertificateInfo>): CertificateInfo {
+  return {
+    subject: 'status.example.com',
+    issuer: "Let's Encrypt",
+    validFrom: '2026-08-01T00:00:00.000Z',
+    validTo: '2026-10-30T12:00:00.000Z',
+    daysRemaining: 60,
+    authorized: true,
+    ...overrides,
+  }
+}
+
+test.describe('Certificate Expiry', () => {
+  test('passes certificates outside the warning window', () => {
+    expect(evaluateCertificate(certificate({ daysRemaining: 15 }), {})).toEqual({})
+    expect(evaluateCertificate(certificate({ daysRemaining: 31 }), { certExpiryThresholdDays: 30 })).toEqual({})
+  })
+
+  test('warns within the default 14 day window', () => {
+    expect(evaluateCertificate(certificate({ daysRemaining: 14 }), {})).toEqual({
+      warning: 'TLS certificate expires in 14 days (2026-10-30)',
+    })
+    expect(evaluateCertificate(certificate({ daysRemaining: 1 }), {})).toEqual({
+      warning: 'TLS certificate expires in 1 day (2026-10-30)',
+    })
+  })
+
+  test('uses the configured threshold and never warns when it is 0', () => {
+    expect(evaluateCertificate(certificate({ daysRemaining: 30 }), { certExpiryThresholdDays: 30 })).toEqual({
+      warning: 'TLS certificate expires in 30 days (2026-10-30)',
+    })
+    expect(evaluateCertificate(certificate({ daysRemaining: 2 }), { certExpiryThresholdDays: 0 })).toEqual({})
+  })
+
+  test('warns about expired certificates regardless of the threshold', () => {
+    const expired = certificate({ validTo: '2026-10-01T00:00:00.000Z', daysRemaining: -3 })
+
+    expect(evaluateCertificate(expired, {})).toEqual({ warning: 'TLS certificate expired on 2026-10-01' })
+    expect(evaluateCertificate(expired, { certExpiryThresholdDays: 0 })).toEqual({
+      warning: 'TLS certificate expired on 2026-10-01',
+    })
+  })
+})
+
+test.describe('Certificate Validity', () => {
+  const invalid = certificate({ authorized: false, authorizationError: 'CERT_HAS_EXPIRED', daysRemaining: -1 })
+
+  test('fails invalid certificates when configured', () => {
+    expect(evaluateCertificate(invalid, { failOnInvalidCertificate: true })).toEqual({
+      error: 'Invalid TLS certificate: CERT_HAS_EXPIRED',
+    })
+    expect(evaluateCertificate(certificate({ authorized: false }), { failOnInvalidCertificate: true })).toEqual({
+      error: 'Invalid TLS certificate: verification failed',
+    })
+  })
+
+  test('only warns about invalid certificates otherwise', () => {
+    expect(evaluateCertificate(invalid, {})).toEqual({
+      warning: `TLS certificate expired on ${invalid.validTo.split('T')[0]}`,
+    })
+    expect(evaluateCertificate(certificate({ authorized: false }), { failOnInvalidCertificate: false })).toEqual({})
+  })
+})
@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test'
+import crypto from 'crypto'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { sendWebhook, signWebhookBody } from '../../src/lib/webhooks'
+
+/**
+ * Webhook Signing Tests
+ *
+ * Checks the HMAC signature sent with every delivery, verifying it the
+ * way a receiver would against a local HTTP server.
+ */
+const secret = 'whsec_test'
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+function verify(headers: http.IncomingHttpHeaders, body: string, key: string): boolean {
+  const expected = crypto
+    .createHmac('sha256', key)
+    .update(`${headers['x-webhook-timestamp']}.${body}`)
+    .digest('hex')
+  return headers['x-webhook-signature'] === `sha256=${expected}`
+}
+
+test.describe('Webhook Signature', () => {
+  test('is an HMAC-SHA256 of the timestamp and body', () => {
+    const body = '{"event":"incident.created"}'
+    const expected = crypto.createHmac('sha256', secret).update(`1792400000.${body}`).digest('hex')
+
+    expect(signWebhookBody(secret, 1792400000, body)).toBe(expected)
+  })
+
+  test('changes with the secret, timestamp or body', () => {
+    const signature = signWebhookBody(secret, 1792400000, '{}')
+
+    expect(signWebhookBody('another', 1792400000, '{}')).not.toBe(signature)
+    expect(signWebhookBody(secret, 1792400001, '{}')).not.toBe(signature)
+    expect(signWebhookBody(secret, 1792400000, '{ }')).not.toBe(signature)
+  })
+})
+
+test.describe('Webhook Delivery', () => {
+  let server: http.Server
+  let url: string
+  let received: ReceivedRequest[]
+  let status: number
+
+  test.beforeEach(async () => {
+    received = []
+    status = 200
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        received.push({ headers: req.headers, body })
+        res.writeHead(status).end('ok')
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`
+  })
+
+  test.afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  const delivery = {
+    id: 12,
+    event: 'incident.created' as const,
+    body: { event: 'incident.created', createdAt: '2026-10-19T12:00:00.000Z', data: { id: 3 } },
+  }
+
+  test('sends a signature the receiver can verify', async () => {
+    const response = await sendWebhook(url, secret, delivery)
+
+    expect(response).toMatchObject({ ok: true, status: 200, body: 'ok' })
+    expect(received).toHaveLength(1)
+
+    const { headers, body } = received[0]
+    expect(JSON.parse(body)).toEqual(delivery.body)
+    expect(headers['x-webhook-event']).toBe('incident.created')
+    expect(headers['x-webhook-delivery']).toBe('12')
+    expect(Math.abs(Number(headers['x-webhook-timestamp']) - Date.now() / 1000)).toBeLessThan(5)
+    expect(verify(headers, body, secret)).toBe(true)
+    expect(verify(headers, body, 'another')).toBe(false)
+  })
+
+  test('reports an error status from the receiver', async () => {
+    status = 500
+
+    expect(await sendWebhook(url, secret, delivery)).toMatchObject({ ok: false, status: 500, error: 'HTTP 500' })
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * In-memory monitor for health check tests
+ *
+ * Records check results for a single service through recordCheckResult
+ * against a fake Payload instance that keeps the service and its check history in memory.
+ * Checks are timestamped with Date.now(), so tests can stub it to move time on.
+ */
+import type { BasePayload, Where } from 'payload'
+import { recordCheckResult } from '../../src/lib/serviceHealth'
+import type { MonitoringResult, Probe, Service } from '../../src/payload-types'
+
+export type TestMonitoring = Partial<NonNullable<Service['monitoring']>>
+
+export function createMonitor(monitoring: TestMonitoring = {}, quorum = 1) {
+  let service = {
+    id: 1,
+    name: 'Search API',
+    status: 'operational',
+    monitoring: { enabled: true, type: 'http', failureThreshold: 1, ...monitoring },
+  } as Service
+
+  const results: MonitoringResult[] = []
+
+  const payload = {
+    create: async ({ data }: { data: Partial<MonitoringResult> }) => {
+      const result = { id: results.length + 1, ...data } as MonitoringResult
+      results.push(result)
+      return result
+    },
+    // Check history of the service, newest first
+    find: async ({ where, limit }: { where: Where; limit?: number }) => {
+      const { checkedAt, probe } = where as Record<string, Record<string, unknown> | undefined>
+      const docs = results
+        .filter((result) => !checkedAt?.greater_than_equal || result.checkedAt >= String(checkedAt.greater_than_equal))
+        .filter((result) => !checkedAt?.less_than || result.checkedAt < String(checkedAt.less_than))
+        .filter((result) => !probe || (probe.exists === false ? !result.probe : result.probe === probe.equals))
+        .sort((a, b) => b.checkedAt.localeCompare(a.checkedAt))
+      return { docs: docs.slice(0, limit) }
+    },
+    findGlobal: async () => ({ monitoringQuorum: quorum }),
+    // Like Payload, fields left out of the update keep their value
+    update: async ({ data }: { data: Partial<Service> }) => {
+      service = { ...service, ...data, monitoring: { ...service.monitoring, ...data.monitoring } }
+      return service
+    },
+  } as unknown as BasePayload
+
+  return {
+    get service() {
+      return service
+    },
+    async check(success: boolean, probe: Pick<Probe, 'id' | 'name'> | null = null) {
+      await recordCheckResult(payload, service, success ? { success, responseTime: 80 } : { success, error: 'HTTP 503' }, {
+        probe,
+        checkedAt: new Date(Date.now()).toISOString(),
+      })
+      return service.status
+    },
+  }
+}
@@ -91,6 +91,7 @@ export async function createService(data: {
   slug?: string
   status?: 'operational' | 'degraded' | 'partial' | 'major' | 'maintenance'
   group: number
+  dependsOn?: number[]
 }): Promise<Service> {
   const response = await fetch(`${API_BASE}/api/services`, {
     method: 'POST',
@@ -100,6 +101,7 @@ export async function createService(data: {
       slug: data.slug || data.name.toLowerCase().replace(/\s+/g, '-'),
       status: data.status || 'operational',
       group: data.group,
+      dependsOn: data.dependsOn,
     }),
   })
   